@@ -113,43 +113,6 @@ function HomePage() {
     ]
   };
 
-  //todo: remove mock functionality
-  // Mock recent updates data
-  const mockUpdates = [
-    {
-      id: '1',
-      type: 'news' as const,
-      title: 'Warriors Sign New Point Guard',
-      description: 'The Golden State Warriors have officially signed veteran point guard Marcus Johnson to a two-year deal.',
-      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-      source: 'ESPN'
-    },
-    {
-      id: '2',
-      type: 'injury' as const,
-      title: 'Stephen Curry Day-to-Day',
-      description: 'Star guard Stephen Curry is listed as day-to-day with a minor ankle sprain sustained in last night\'s game.',
-      timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-      source: 'The Athletic'
-    },
-    {
-      id: '3',
-      type: 'trade' as const,
-      title: 'Warriors Exploring Trade Options',
-      description: 'Sources say the Warriors are actively exploring trade possibilities to bolster their bench depth before the deadline.',
-      timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-      source: 'Bleacher Report'
-    },
-    {
-      id: '4',
-      type: 'free_agency' as const,
-      title: 'Free Agent Target Identified',
-      description: 'Reports indicate the Warriors have identified a key free agent target for the upcoming off-season.',
-      timestamp: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(),
-      source: 'Yahoo Sports'
-    }
-  ];
-
   //todo: remove mock functionality
   // Mock fan experiences data
   const mockExperiences = [
@@ -199,7 +162,7 @@ function HomePage() {
 
         {/* Recent Updates Section */}
         <Suspense fallback={<div className="h-64 bg-muted/20 animate-pulse rounded-lg mx-6 my-8" />}>
-          <RecentUpdatesSection updates={mockUpdates} />
+          <RecentUpdatesSection />
         </Suspense>
 
         {/* Fan Experiences Section */}
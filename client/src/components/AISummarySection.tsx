@@ -34,6 +34,16 @@ export interface TeamDashboard {
   recentResults?: RecentResult[];
 }
 
+interface TeamRankingsResponse {
+  teams: Array<{ teamId: string; teamName: string; rank: number }>;
+}
+
+// College sports whose AP rank is shown next to team names
+const RANKED_SPORT_LEAGUES: Record<string, string> = {
+  'College Football': 'NCAAF',
+  'College Basketball': 'NCAAB',
+};
+
 interface AISummarySectionProps {
   teamDashboard?: TeamDashboard;
   isLoading?: boolean;
@@ -93,6 +103,18 @@ export const AISummarySection = memo(({ teamDashboard, isLoading, error }: AISum
     enabled: !!user,
   });
 
+  // AP poll for college sports; polls change weekly, so a long stale time is fine
+  const rankingsLeague = selectedSport ? RANKED_SPORT_LEAGUES[selectedSport] : undefined;
+  const { data: rankings } = useQuery<TeamRankingsResponse>({
+    queryKey: ["/api/rankings", rankingsLeague ?? ""],
+    enabled: !!rankingsLeague,
+    staleTime: 30 * 60 * 1000,
+  });
+  const rankOf = useCallback(
+    (team: string) => rankings?.teams?.find((t) => t.teamId === team || t.teamName === team)?.rank,
+    [rankings],
+  );
+
   // Get all the user's favorite teams for the selected sport - memoized
   const favoriteTeams = useMemo(() => {
     if (!selectedSport || !profile?.favoriteTeams) {
@@ -271,19 +293,23 @@ export const AISummarySection = memo(({ teamDashboard, isLoading, error }: AISum
 
   const latestScore: GameScore | undefined = useMemo(() => latestGame ? {
     status: latestGame.status,
+    statusDetail: latestGame.statusDetail,
+    statusReason: latestGame.statusReason,
     period: latestGame.period,
     timeRemaining: latestGame.timeRemaining,
     home: {
       id: latestGame.homeTeam,
       name: latestGame.homeTeam,
       pts: latestGame.homeScore,
+      rank: rankOf(latestGame.homeTeam),
     },
     away: {
       id: latestGame.awayTeam,
       name: latestGame.awayTeam,
       pts: latestGame.awayScore,
+      rank: rankOf(latestGame.awayTeam),
     },
-  } : teamDashboard?.latestScore, [latestGame, teamDashboard?.latestScore]);
+  } : teamDashboard?.latestScore, [latestGame, teamDashboard?.latestScore, rankOf]);
 
   // Get last updated time from the data
   const lastUpdated = userTeamScores?.lastUpdated ? new Date(userTeamScores.lastUpdated) : null;
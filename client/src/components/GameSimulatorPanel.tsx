@@ -0,0 +1,172 @@
+import React, { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Pause, FastForward, Flag, Repeat, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+interface SimulatedGame {
+  gameId: string;
+  sport: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homePts: number;
+  awayPts: number;
+  status: 'scheduled' | 'in_progress' | 'final';
+  period: string | null;
+  timeRemaining: string | null;
+  speed: number;
+  paused: boolean;
+}
+
+const SIMULATOR_URL = '/api/dev/simulator/games';
+const SPORTS = ['NBA', 'NFL', 'NHL', 'MLB', 'NCAAF', 'NCAAB', 'EPL', 'MLS'];
+
+/**
+ * Dev controls for the server-side game simulator. Every action is published
+ * through the scores pipeline, so the real-time widgets on this page react to
+ * the same WebSocket events a live game would produce.
+ */
+export function GameSimulatorPanel() {
+  const queryClient = useQueryClient();
+  const [sport, setSport] = useState('NBA');
+  const [homeTeam, setHomeTeam] = useState('BOS');
+  const [awayTeam, setAwayTeam] = useState('LAL');
+  const [speed, setSpeed] = useState(20);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery<{ games: SimulatedGame[]; feedRunning: boolean }>({
+    queryKey: [SIMULATOR_URL],
+    refetchInterval: 2000,
+  });
+  const games = data?.games ?? [];
+
+  const send = useCallback(async (method: string, url: string, body?: unknown) => {
+    setError(null);
+    try {
+      const res = await apiRequest(method, url, body);
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        setError(payload.error ?? `Request failed (${res.status})`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await queryClient.invalidateQueries({ queryKey: [SIMULATOR_URL] });
+  }, [queryClient]);
+
+  const control = (game: SimulatedGame, action: string, body?: unknown) =>
+    send('POST', `${SIMULATOR_URL}/${encodeURIComponent(game.gameId)}/${action}`, body);
+
+  // Put the trailing team (or the away team, when level) ahead by one
+  const leadChange = (game: SimulatedGame) => {
+    const homeLeads = game.homePts > game.awayPts;
+    return control(game, 'score', homeLeads
+      ? { homePts: game.homePts, awayPts: game.homePts + 1 }
+      : { homePts: game.awayPts + 1, awayPts: game.awayPts });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Game Simulator</CardTitle>
+        <CardDescription>
+          Play believable games through the live pipeline: start, pause, fast-forward and stage lead changes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-1">
+            <Label>Sport</Label>
+            <Select value={sport} onValueChange={setSport}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPORTS.map((s) => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-home">Home</Label>
+            <Input id="sim-home" value={homeTeam} onChange={(e) => setHomeTeam(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-away">Away</Label>
+            <Input id="sim-away" value={awayTeam} onChange={(e) => setAwayTeam(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-speed">Speed (x)</Label>
+            <Input id="sim-speed" type="number" min={1} value={speed} onChange={(e) => setSpeed(Number(e.target.value) || 1)} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => send('POST', SIMULATOR_URL, { sport, homeTeamId: homeTeam, awayTeamId: awayTeam, speed })}>
+              Create Game
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => data?.feedRunning
+                ? send('DELETE', '/api/dev/simulator/feed')
+                : send('POST', '/api/dev/simulator/feed', { intervalMs: 3000 })}
+            >
+              {data?.feedRunning ? 'Stop Feed' : 'Start Feed'}
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {games.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No simulated games yet</p>
+        ) : (
+          <div className="space-y-2">
+            {games.map((game) => (
+              <div key={game.gameId} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Badge variant={game.status === 'in_progress' ? 'default' : 'secondary'}>
+                    {game.status === 'in_progress' && game.paused ? 'paused' : game.status}
+                  </Badge>
+                  <span className="font-medium">
+                    {game.awayTeamId} {game.awayPts} @ {game.homeTeamId} {game.homePts}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {[game.period, game.timeRemaining].filter(Boolean).join(' ')}
+                  </span>
+                </div>
+                <div className="flex gap-1">
+                  {game.paused || game.status === 'scheduled' ? (
+                    <Button size="sm" variant="outline" onClick={() => control(game, 'start')} disabled={game.status === 'final'}>
+                      <Play className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => control(game, 'pause')} disabled={game.status === 'final'}>
+                      <Pause className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" title="Play 5 game minutes" onClick={() => control(game, 'jump', { seconds: 300 })} disabled={game.status === 'final'}>
+                    <FastForward className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" title="Lead change" onClick={() => leadChange(game)} disabled={game.status === 'final'}>
+                    <Repeat className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" title="Play to final" onClick={() => control(game, 'jump', { to: 'final' })} disabled={game.status === 'final'}>
+                    <Flag className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" title="Remove" onClick={() => send('DELETE', `${SIMULATOR_URL}/${encodeURIComponent(game.gameId)}`)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
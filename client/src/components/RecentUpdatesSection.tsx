@@ -4,6 +4,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 import LoadingIndicator from '@/components/LoadingIndicator';
 import { ErrorCard } from '@/components/ui/error-states';
 import { Newspaper } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useArticlesFeed, type ArticleCategory } from '@/hooks/useArticlesFeed';
 import {
   Select,
   SelectContent,
@@ -14,16 +16,39 @@ import {
 
 type UpdateCategory = 'Latest News' | 'Injuries' | 'Trade News' | 'Free Agency';
 
+// Feed category per tab; "Latest News" shows everything
+const CATEGORY_FILTERS: Record<UpdateCategory, ArticleCategory | undefined> = {
+  'Latest News': undefined,
+  'Injuries': 'injury',
+  'Trade News': 'trade',
+  'Free Agency': 'roster',
+};
+
+const PAGE_SIZE = 10;
+
 interface RecentUpdatesSectionProps {
+  /** Static updates; when omitted the section loads the articles feed itself */
   updates?: Update[];
   isLoading?: boolean;
   error?: Error | null;
   onCategoryChange?: (category: UpdateCategory) => void;
 }
 
-export const RecentUpdatesSection = memo(({ updates, isLoading, error, onCategoryChange }: RecentUpdatesSectionProps) => {
+export const RecentUpdatesSection = memo(({ updates: updatesProp, isLoading: isLoadingProp, error: errorProp, onCategoryChange }: RecentUpdatesSectionProps) => {
   const [selectedCategory, setSelectedCategory] = useState<UpdateCategory>('Latest News');
 
+  const feed = useArticlesFeed({
+    category: CATEGORY_FILTERS[selectedCategory],
+    limit: PAGE_SIZE,
+    enabled: updatesProp === undefined,
+  });
+
+  const isStatic = updatesProp !== undefined;
+  const updates = isStatic ? updatesProp : feed.updates;
+  const isLoading = isStatic ? isLoadingProp : feed.isLoading;
+  const error = isStatic ? errorProp : (feed.error as Error | null);
+  const canLoadMore = !isStatic && !!feed.hasNextPage;
+
   const handleCategoryChange = useCallback((value: UpdateCategory) => {
     setSelectedCategory(value);
     onCategoryChange?.(value);
@@ -99,13 +124,28 @@ export const RecentUpdatesSection = memo(({ updates, isLoading, error, onCategor
         <div className="overflow-x-auto scrollbar-hide">
           <div className="flex gap-2 sm:gap-3 md:gap-4 px-3 sm:px-4 md:px-6 lg:px-8 xl:px-12 pb-3 sm:pb-4">
             {updates && updates.length > 0 ? (
-              updates.map((update) => (
-                <UpdateCard
-                  key={update.id}
-                  update={update}
-                  onClick={() => handleUpdateClick(update)}
-                />
-              ))
+              <>
+                {updates.map((update) => (
+                  <UpdateCard
+                    key={update.id}
+                    update={update}
+                    onClick={() => handleUpdateClick(update)}
+                  />
+                ))}
+                {canLoadMore && (
+                  <div className="w-40 flex-shrink-0 flex items-center justify-center">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => feed.fetchNextPage()}
+                      disabled={feed.isFetchingNextPage}
+                      data-testid="button-load-more-updates"
+                    >
+                      {feed.isFetchingNextPage ? 'Loading...' : 'Load more'}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="w-64 sm:w-72 md:w-80 flex-shrink-0 bg-card rounded-lg border border-border/20 p-4 text-center">
                 <Newspaper className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
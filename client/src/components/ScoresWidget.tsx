@@ -10,18 +10,22 @@ import LoadingIndicator from '@/components/LoadingIndicator';
 import { ScoresSkeleton as ComprehensiveScoresSkeleton, ScoreCardSkeleton } from '@/components/ScoresSkeleton';
 
 export interface GameScore {
-  status: string;
+  status: string; // 'LIVE' | 'FINAL' | 'SCHEDULED', or a server status such as 'postponed'
+  statusDetail?: string | null; // sub-state, e.g. 'rain', 'overtime', 'shootout'
+  statusReason?: string | null; // source text, e.g. 'Postponed - Rain'
   period?: string;
   timeRemaining?: string;
   home: {
     id: string;
     name?: string;
     pts: number;
+    rank?: number; // college poll rank, shown as "#5"
   };
   away: {
     id: string;
     name?: string;
     pts: number;
+    rank?: number;
   };
 }
 
@@ -45,6 +49,15 @@ interface ScoresWidgetProps {
   lastUpdated?: Date | null;
 }
 
+// Server statuses ('in_progress', 'postponed') and widget statuses ('LIVE') on one scale
+const normalizeStatus = (status: string) => {
+  const upper = status.toUpperCase();
+  return upper === 'IN_PROGRESS' ? 'LIVE' : upper;
+};
+
+// Statuses where the game is stopped or won't be played as scheduled
+const INTERRUPTED_STATUSES = new Set(['DELAYED', 'SUSPENDED', 'POSTPONED', 'CANCELLED']);
+
 // Loading component for scores using comprehensive skeletons
 const ScoresSkeleton = memo(() => (
   <div className="space-y-4" data-testid="scores-skeleton">
@@ -114,12 +127,25 @@ export const ScoresWidget = memo(({
   }, [errorHandler, onRetry, refreshScores]);
   
   // Memoize utility functions
-  const getStatusDisplay = useCallback((status: string, period?: string, timeRemaining?: string) => {
-    switch (status) {
+  const getStatusDisplay = useCallback((status: string, period?: string, timeRemaining?: string, statusDetail?: string | null) => {
+    switch (normalizeStatus(status)) {
       case 'FINAL':
+        if (statusDetail === 'overtime') return 'FINAL/OT';
+        if (statusDetail === 'shootout') return 'FINAL/SO';
+        if (statusDetail === 'extra_innings') return period ? `FINAL/${period}` : 'FINAL/EXTRA';
+        if (statusDetail === 'forfeit') return 'FINAL (FORFEIT)';
         return 'FINAL';
       case 'LIVE':
+        if (statusDetail === 'halftime') return 'HALFTIME';
         return timeRemaining ? `${period} ${timeRemaining}` : 'LIVE';
+      case 'DELAYED':
+        return statusDetail === 'rain' ? 'RAIN DELAY' : 'DELAYED';
+      case 'SUSPENDED':
+        return 'SUSPENDED';
+      case 'POSTPONED':
+        return 'POSTPONED';
+      case 'CANCELLED':
+        return 'CANCELLED';
       case 'SCHEDULED':
         return 'SCHEDULED';
       default:
@@ -152,9 +178,16 @@ export const ScoresWidget = memo(({
   // Memoize computed values
   const statusDisplay = useMemo(() => {
     if (!latestScore) return null;
-    return getStatusDisplay(latestScore.status, latestScore.period, latestScore.timeRemaining);
+    return getStatusDisplay(latestScore.status, latestScore.period, latestScore.timeRemaining, latestScore.statusDetail);
   }, [latestScore, getStatusDisplay]);
 
+  const latestStatus = latestScore ? normalizeStatus(latestScore.status) : null;
+  // Explain stoppages and call-offs ("Postponed - Rain") unless the badge already says it
+  const statusReason = latestScore?.statusReason && latestStatus && INTERRUPTED_STATUSES.has(latestStatus)
+    && latestScore.statusReason.toUpperCase() !== statusDisplay
+    ? latestScore.statusReason
+    : null;
+
   const processedResults = useMemo(() => {
     return recentResults.map(result => ({
       ...result,
@@ -264,7 +297,8 @@ export const ScoresWidget = memo(({
                   variant="outline" 
                   className={cn(
                     "text-xs",
-                    latestScore.status === 'LIVE' && "bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-800 animate-pulse"
+                    latestStatus === 'LIVE' && "bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-800 animate-pulse",
+                    latestStatus && INTERRUPTED_STATUSES.has(latestStatus) && "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-800"
                   )} 
                   data-testid="status-badge"
                 >
@@ -272,9 +306,18 @@ export const ScoresWidget = memo(({
                 </Badge>
               </div>
 
+              {statusReason && (
+                <p className="text-xs text-muted-foreground mb-2" data-testid="status-reason">
+                  {statusReason}
+                </p>
+              )}
+
               <div className="flex flex-col sm:flex-row items-center justify-between gap-2 sm:gap-0">
                 <div className="flex items-center gap-2 sm:gap-3 w-full sm:w-auto">
                   <span className="font-display font-medium text-foreground text-xs sm:text-sm truncate max-w-[100px] sm:max-w-none">
+                    {latestScore.away.rank && (
+                      <span className="mr-1 text-muted-foreground" data-testid="away-rank">#{latestScore.away.rank}</span>
+                    )}
                     {latestScore.away.name || latestScore.away.id}
                   </span>
                   <span className="font-display font-bold text-foreground text-base sm:text-lg" data-testid="away-score">
@@ -289,6 +332,9 @@ export const ScoresWidget = memo(({
                     {latestScore.home.pts}
                   </span>
                   <span className="font-display font-medium text-foreground text-xs sm:text-sm truncate max-w-[100px] sm:max-w-none">
+                    {latestScore.home.rank && (
+                      <span className="mr-1 text-muted-foreground" data-testid="home-rank">#{latestScore.home.rank}</span>
+                    )}
                     {latestScore.home.name || latestScore.home.id}
                   </span>
                 </div>
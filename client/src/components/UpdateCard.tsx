@@ -11,6 +11,8 @@ export interface Update {
   description?: string;
   timestamp: string;
   source?: string;
+  /** Number of outlets covering the same story, when more than one */
+  outletCount?: number;
 }
 
 interface UpdateCardProps {
@@ -122,6 +124,11 @@ export const UpdateCard = memo(({ update, onClick }: UpdateCardProps) => {
               {update.source}
             </span>
           )}
+          {(update.outletCount ?? 0) > 1 && (
+            <span className="font-body text-xs whitespace-nowrap ml-2" data-testid="text-update-outlets">
+              Reported by {update.outletCount} outlets
+            </span>
+          )}
         </div>
       </div>
     </Card>
@@ -6,10 +6,15 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AISummarySection } from '../AISummarySection';
 
+// Per-test inputs read by the mocks below
+let mockSport = 'NFL';
+let mockFavoriteTeams = ['Dallas Cowboys', 'New York Giants'];
+let mockRankings: unknown = undefined;
+
 // Mock SportContext
 vi.mock('@/contexts/SportContext', () => ({
   useSport: vi.fn(() => ({
-    selectedSport: 'NFL',
+    selectedSport: mockSport,
     isTransitioning: false,
     lastSportChange: Date.now(),
     // Fields consumed by ScoresWidget
@@ -59,10 +64,22 @@ const giantsScheduledGame = {
   startTime: new Date(Date.now() + 86400000).toISOString(),
 };
 
+const alabamaFinalGame = {
+  gameId: 'g4',
+  status: 'final',
+  homeTeam: 'Alabama',
+  awayTeam: 'Georgia',
+  homeScore: 27,
+  awayScore: 24,
+  startTime: new Date(Date.now() - 86400000).toISOString(),
+};
+
+let mockGames: any[] = [cowboysLiveGame, cowboysFinalGame];
+
 // Mock useUserTeamScores hook
 vi.mock('@/hooks/useUserTeamScores', () => ({
   useUserTeamScores: vi.fn(() => {
-    const games = [cowboysLiveGame, cowboysFinalGame];
+    const games = mockGames;
     return {
       data: { games, lastUpdated: new Date().toISOString() },
       isLoading: false,
@@ -73,7 +90,7 @@ vi.mock('@/hooks/useUserTeamScores', () => ({
       hasLiveGames: games.some(g => g.status === 'live'),
       hasScheduledGames: false,
       getGamesByStatus: (status: 'live' | 'final' | 'scheduled') => games.filter(g => g.status === status),
-      getUserTeamGames: () => games.filter(g => g.homeTeam === 'Dallas Cowboys' || g.awayTeam === 'Dallas Cowboys'),
+      getUserTeamGames: () => games.filter(g => mockFavoriteTeams.includes(g.homeTeam) || mockFavoriteTeams.includes(g.awayTeam)),
       subscribeToRealTimeUpdates: vi.fn(),
     };
   }),
@@ -95,6 +112,10 @@ function renderWithClient(ui: React.ReactElement) {
 describe('AISummarySection', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockSport = 'NFL';
+    mockFavoriteTeams = ['Dallas Cowboys', 'New York Giants'];
+    mockRankings = undefined;
+    mockGames = [cowboysLiveGame, cowboysFinalGame];
     // Ensure fetch returns a profile with favorite teams
     (global.fetch as unknown as Mock).mockResolvedValue({
       ok: true,
@@ -141,12 +162,28 @@ describe('AISummarySection', () => {
       expect(summary.textContent || '').toMatch(/is currently playing live/i);
     });
   });
+
+  it('shows the AP rank next to ranked college teams', async () => {
+    mockSport = 'College Football';
+    mockFavoriteTeams = ['Alabama'];
+    mockGames = [alabamaFinalGame];
+    mockRankings = { teams: [{ teamId: 'NCAAF_ALA', teamName: 'Alabama', rank: 5 }] };
+
+    renderWithClient(<AISummarySection />);
+
+    expect(await screen.findByTestId('home-rank')).toHaveTextContent('#5');
+    expect(screen.queryByTestId('away-rank')).not.toBeInTheDocument();
+  });
 });
-// Mock React Query's useQuery to return a profile with favoriteTeams
+// Mock React Query's useQuery to answer the profile and rankings queries by key
 vi.mock('@tanstack/react-query', async () => {
   const actual = await vi.importActual<typeof import('@tanstack/react-query')>('@tanstack/react-query');
   return {
     ...actual,
-    useQuery: vi.fn(() => ({ data: { favoriteTeams: ['Dallas Cowboys', 'New York Giants'] } })),
+    useQuery: vi.fn(({ queryKey }: { queryKey: unknown[] }) => {
+      if (queryKey[0] === '/api/profile') return { data: { favoriteTeams: mockFavoriteTeams } };
+      if (queryKey[0] === '/api/rankings') return { data: mockRankings };
+      return { data: undefined };
+    }),
   };
 });
\ No newline at end of file
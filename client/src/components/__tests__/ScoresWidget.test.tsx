@@ -59,6 +59,46 @@ describe('ScoresWidget', () => {
     expect(statusBadge).toHaveTextContent('Q2 05:12');
   });
 
+  it('shows a postponed game with its reason instead of FINAL', () => {
+    render(
+      <ScoresWidget
+        latestScore={{
+          status: 'postponed',
+          statusDetail: 'rain',
+          statusReason: 'Postponed - Rain',
+          home: { id: 'NYY', name: 'New York Yankees', pts: 0 },
+          away: { id: 'BOS', name: 'Boston Red Sox', pts: 0 },
+        }}
+        recentResults={[]}
+        teamName={'Yankees'}
+        isUserTeam={true}
+        isWebSocketConnected={true}
+      />
+    );
+
+    expect(screen.getByTestId('status-badge')).toHaveTextContent('POSTPONED');
+    expect(screen.getByTestId('status-reason')).toHaveTextContent('Postponed - Rain');
+  });
+
+  it('labels finals decided past regulation', () => {
+    render(
+      <ScoresWidget
+        latestScore={{
+          status: 'final',
+          statusDetail: 'shootout',
+          home: { id: 'TOR', name: 'Toronto Maple Leafs', pts: 3 },
+          away: { id: 'BOS', name: 'Boston Bruins', pts: 2 },
+        }}
+        recentResults={[]}
+        teamName={'Maple Leafs'}
+        isWebSocketConnected={true}
+      />
+    );
+
+    expect(screen.getByTestId('status-badge')).toHaveTextContent('FINAL/SO');
+    expect(screen.queryByTestId('status-reason')).toBeNull();
+  });
+
   it('renders error card and triggers retry when error provided', () => {
     const onRetry = vi.fn();
     render(
@@ -7,16 +7,22 @@
  * - Real-time metrics tracking
  * - Event subscription management
  * - Authentication integration
+ * - Server-Sent Events fallback when the socket keeps failing
  */
 
-import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState, useCallback, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { WebSocketService, getWebSocketService, ConnectionState, ConnectionMetrics } from '../lib/websocket';
+import { EventStreamService, EventStreamState } from '../lib/eventStream';
 import { useAuth } from './AuthContext';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+/** How realtime updates currently arrive: the socket, or the SSE fallback */
+export type RealtimeTransport = 'websocket' | 'sse';
+
 export interface WebSocketContextValue {
   /** WebSocket service instance */
   service: WebSocketService;
@@ -40,6 +46,8 @@ export interface WebSocketContextValue {
   lastError: Error | null;
   /** Whether currently reconnecting */
   isReconnecting: boolean;
+  /** Transport in use; 'sse' after the socket failed to reconnect */
+  transport: RealtimeTransport;
 }
 
 export interface WebSocketProviderProps {
@@ -79,6 +87,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   // ============================================================================
 
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [service] = useState(() => getWebSocketService({
     url,
     autoConnect: false, // We'll handle connection manually
@@ -87,7 +96,11 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     heartbeatInterval,
   }));
 
-  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [eventStream] = useState(() => new EventStreamService());
+
+  const [socketState, setSocketState] = useState<ConnectionState>('disconnected');
+  const [streamState, setStreamState] = useState<EventStreamState>('disconnected');
+  const [transport, setTransport] = useState<RealtimeTransport>('websocket');
   const [metrics, setMetrics] = useState<ConnectionMetrics>(() => service.getMetrics());
   const [lastError, setLastError] = useState<Error | null>(null);
   const [isReconnecting, setIsReconnecting] = useState(false);
@@ -96,6 +109,12 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   // DERIVED STATE
   // ============================================================================
 
+  const connectionState: ConnectionState = useMemo(() => {
+    if (transport === 'websocket') return socketState;
+    // The socket may still be retrying in the background; report the stream
+    return streamState === 'connecting' ? 'reconnecting' : streamState;
+  }, [transport, socketState, streamState]);
+
   const isConnected = connectionState === 'connected';
 
   // ============================================================================
@@ -106,7 +125,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     newState: ConnectionState,
     previousState: ConnectionState
   ) => {
-    setConnectionState(newState);
+    setSocketState(newState);
     setIsReconnecting(newState === 'reconnecting');
     
     // Clear error when successfully connected
@@ -131,11 +150,40 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     console.log(`WebSocket reconnecting: attempt ${attempt}/${maxAttempts}`);
   }, []);
 
+  // The socket keeps failing (e.g. a proxy blocks the upgrade): switch to the event stream
   const handleReconnectFailed = useCallback((attempts: number) => {
-    console.error(`WebSocket reconnection failed after ${attempts} attempts`);
+    console.error(`WebSocket reconnection failed after ${attempts} attempts; falling back to event stream`);
     setLastError(new Error(`Failed to reconnect after ${attempts} attempts`));
+    service.useFallbackTransport(eventStream);
+    setTransport('sse');
+    eventStream.connect();
+  }, [service, eventStream]);
+
+  // The socket came back: stop the fallback
+  const handleSocketConnected = useCallback(() => {
+    service.useFallbackTransport(null);
+    setTransport('websocket');
+    eventStream.disconnect();
+  }, [service, eventStream]);
+
+  const handleStreamStateChanged = useCallback((state: EventStreamState) => {
+    setStreamState(state);
+    if (state === 'connected') {
+      setLastError(null);
+    }
   }, []);
 
+  // Stream messages go through the service, so subscribers see one message source
+  const handleStreamMessage = useCallback((data: any) => {
+    service.receive(data);
+  }, [service]);
+
+  // Updates missed while disconnected could not be replayed: refetch scores
+  const handleResyncRequired = useCallback((teamIds: string[]) => {
+    console.log(`WebSocket resync required for ${teamIds.join(', ')}`);
+    queryClient.invalidateQueries({ queryKey: ['userTeamScores'] });
+  }, [queryClient]);
+
   // ============================================================================
   // PUBLIC METHODS
   // ============================================================================
@@ -147,7 +195,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 
   const disconnect = useCallback(() => {
     service.disconnect();
-  }, [service]);
+    service.useFallbackTransport(null);
+    eventStream.disconnect();
+    setTransport('websocket');
+  }, [service, eventStream]);
 
   const sendMessage = useCallback((message: any) => {
     return service.send(message);
@@ -172,6 +223,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     service.on('metrics-updated', handleMetricsUpdated);
     service.on('reconnecting', handleReconnecting);
     service.on('reconnect-failed', handleReconnectFailed);
+    service.on('resync-required', handleResyncRequired);
+    service.on('connected', handleSocketConnected);
+    eventStream.on('state-changed', handleStreamStateChanged);
+    eventStream.on('message', handleStreamMessage);
 
     return () => {
       service.off('connection-state-changed', handleConnectionStateChanged);
@@ -179,14 +234,23 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       service.off('metrics-updated', handleMetricsUpdated);
       service.off('reconnecting', handleReconnecting);
       service.off('reconnect-failed', handleReconnectFailed);
+      service.off('resync-required', handleResyncRequired);
+      service.off('connected', handleSocketConnected);
+      eventStream.off('state-changed', handleStreamStateChanged);
+      eventStream.off('message', handleStreamMessage);
     };
   }, [
     service,
+    eventStream,
     handleConnectionStateChanged,
     handleError,
     handleMetricsUpdated,
     handleReconnecting,
     handleReconnectFailed,
+    handleResyncRequired,
+    handleSocketConnected,
+    handleStreamStateChanged,
+    handleStreamMessage,
   ]);
 
   // Handle authentication changes
@@ -206,8 +270,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   useEffect(() => {
     return () => {
       service.disconnect();
+      service.useFallbackTransport(null);
+      eventStream.destroy();
     };
-  }, [service]);
+  }, [service, eventStream]);
 
   // ============================================================================
   // CONTEXT VALUE
@@ -225,6 +291,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     unsubscribe,
     lastError,
     isReconnecting,
+    transport,
   };
 
   // ============================================================================
@@ -0,0 +1,141 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import type { Update } from '@/components/UpdateCard';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ArticleCategory = 'injury' | 'trade' | 'roster' | 'general';
+
+/**
+ * Article as returned by GET /api/articles (dates arrive as ISO strings)
+ */
+export interface FeedArticle {
+  id: string;
+  teamId: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  author: string | null;
+  publishedAt: string;
+  sourceUrl: string;
+  sourceName: string;
+  category: ArticleCategory | null;
+  relevanceScore: number | null;
+  /** Set when other outlets covered the same story */
+  story: FeedStory | null;
+}
+
+export interface FeedStory {
+  clusterId: string;
+  outletCount: number;
+  sources: Array<{ articleId: string; sourceName: string; sourceUrl: string; publishedAt: string }>;
+  firstSeenAt: string;
+  lastUpdatedAt: string;
+}
+
+export interface ArticlesFeedPage {
+  items: FeedArticle[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+export interface UseArticlesFeedOptions {
+  /** Restrict to these teams; defaults to the user's favorites server-side */
+  teamIds?: string[];
+  category?: ArticleCategory;
+  minRelevance?: number;
+  /** Page size (max 50) */
+  limit?: number;
+  enabled?: boolean;
+}
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+export const articlesFeedKeys = {
+  all: ['/api/articles'] as const,
+  list: (options: Omit<UseArticlesFeedOptions, 'enabled'>) => [...articlesFeedKeys.all, options] as const,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DESCRIPTION_CHARS = 200;
+
+function toUpdateType(category: ArticleCategory | null): Update['type'] {
+  switch (category) {
+    case 'injury':
+      return 'injury';
+    case 'trade':
+      return 'trade';
+    case 'roster':
+      return 'free_agency';
+    default:
+      return 'news';
+  }
+}
+
+/**
+ * Map a feed article onto the UpdateCard shape
+ */
+export function articleToUpdate(article: FeedArticle): Update {
+  const text = (article.summary || article.content || '').trim();
+  return {
+    id: article.id,
+    type: toUpdateType(article.category),
+    title: article.title,
+    description: text.length > DESCRIPTION_CHARS ? `${text.slice(0, DESCRIPTION_CHARS).trimEnd()}…` : text || undefined,
+    timestamp: article.publishedAt,
+    source: article.sourceName,
+    outletCount: article.story && article.story.outletCount > 1 ? article.story.outletCount : undefined,
+  };
+}
+
+export function buildArticlesFeedUrl(options: Omit<UseArticlesFeedOptions, 'enabled'>, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  if (options.teamIds?.length) params.set('teamIds', options.teamIds.join(','));
+  if (options.category) params.set('category', options.category);
+  if (options.minRelevance != null) params.set('minRelevance', String(options.minRelevance));
+  if (options.limit) params.set('limit', String(options.limit));
+  if (cursor) params.set('cursor', cursor);
+  const qs = params.toString();
+  return qs ? `/api/articles?${qs}` : '/api/articles';
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Cursor-paginated articles feed, newest first
+ *
+ * @example
+ * ```typescript
+ * const { updates, fetchNextPage, hasNextPage } = useArticlesFeed({ category: 'injury' });
+ * ```
+ */
+export function useArticlesFeed({ enabled = true, ...options }: UseArticlesFeedOptions = {}) {
+  const query = useInfiniteQuery({
+    queryKey: articlesFeedKeys.list(options),
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest('GET', buildArticlesFeedUrl(options, pageParam));
+      return (await res.json()) as ArticlesFeedPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+    staleTime: 60_000,
+  });
+
+  const updates = useMemo(
+    () => (query.data?.pages ?? []).flatMap((page) => page.items.map(articleToUpdate)),
+    [query.data]
+  );
+
+  return { ...query, updates };
+}
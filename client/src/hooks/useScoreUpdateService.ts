@@ -60,7 +60,7 @@ export function useScoreUpdateService(
   options: UseScoreUpdateServiceOptions = {}
 ): UseScoreUpdateServiceReturn {
   const queryClient = useQueryClient();
-  const { subscribe, unsubscribe, isConnected } = useWebSocketContext();
+  const { subscribe, unsubscribe, isConnected, sendMessage } = useWebSocketContext();
   
   // Get or create service instance
   const serviceRef = useRef<ScoreUpdateService>();
@@ -113,6 +113,14 @@ export function useScoreUpdateService(
     };
   }, [isConnected, options.autoSubscribe, subscribe, unsubscribe, handleWebSocketMessage]);
 
+  // Acknowledge applied score revisions so the server can send deltas against them
+  useEffect(() => {
+    const sendAck = (revs: Record<string, number>) => {
+      sendMessage({ type: 'score-ack', revs });
+    };
+    return service.setAckSender(sendAck);
+  }, [service, sendMessage]);
+
   // Set up initial filters
   useEffect(() => {
     if (options.sport || options.teamIds) {
@@ -133,6 +133,8 @@ export interface UserFavoriteTeam {
  * @property {string} lastUpdated - Last update timestamp in ISO format
  * @property {string} [period] - Optional current period/quarter (e.g., '2nd Quarter', 'OT')
  * @property {string} [timeRemaining] - Optional time remaining in current period
+ * @property {string} [statusDetail] - Optional status sub-state (e.g. 'rain', 'overtime', 'shootout')
+ * @property {string} [statusReason] - Optional reason text from the source (e.g. 'Postponed - Rain')
  * @property {boolean} isUserTeamGame - Whether this game involves one of the user's favorite teams
  * @property {string} [userTeamName] - Name of the user's team if isUserTeamGame is true
  * 
@@ -167,6 +169,8 @@ export interface GameScoreData {
   lastUpdated: string;
   period?: string;
   timeRemaining?: string;
+  statusDetail?: string | null;
+  statusReason?: string | null;
   isUserTeamGame: boolean;
   userTeamName?: string;
 }
@@ -28,11 +28,16 @@ export interface UserTeamScoreUpdate {
       homeScore: number;
       awayScore: number;
       status: string;
+      statusDetail?: string | null;
+      statusReason?: string | null;
       quarter?: string;
       timeRemaining?: string;
     };
     timestamp: string;
     isUserTeam: boolean;
+    seq?: number;
+    /** Wire protocol 2 revision; with `baseRev` set, gameData holds only the changed fields */
+    delta?: { epoch: string; rev: number; baseRev?: number };
   };
 }
 
@@ -44,7 +49,10 @@ export interface UserTeamStatusChange {
     gameId: string;
     oldStatus: string;
     newStatus: string;
+    statusDetail?: string | null;
+    statusReason?: string | null;
     timestamp: string;
+    seq?: number;
   };
 }
 
@@ -65,6 +73,8 @@ export interface ConnectionStatus {
     status: 'connected' | 'authenticated' | 'error';
     userId?: string;
     message?: string;
+    connectionId?: string;
+    protocol?: 1 | 2;
   };
 }
 
@@ -82,6 +92,45 @@ export interface UserTeamsLoaded {
   };
 }
 
+export interface GamePlayEvent {
+  type: 'game-play';
+  payload: {
+    gameId: string;
+    homeTeamId: string;
+    awayTeamId: string;
+    play: {
+      sequence: number;
+      period: string | null;
+      clock: string | null;
+      teamId: string | null;
+      playType: string | null;
+      description: string;
+      scoringPlay: boolean;
+      scoreValue: number | null;
+      homePts: number | null;
+      awayPts: number | null;
+      occurredAt: string | null;
+    };
+    timestamp: string;
+  };
+}
+
+/**
+ * Wire protocol 2: score changes batched per window, as full states or field-level deltas
+ */
+export interface ScoreUpdateBatch {
+  type: 'score-batch';
+  payload: {
+    userId: string;
+    epoch: string;
+    updates: Array<Omit<UserTeamScoreUpdate['payload'], 'userId' | 'isUserTeam' | 'gameData' | 'delta'> & {
+      gameData: Partial<UserTeamScoreUpdate['payload']['gameData']> & { gameId: string };
+      rev: number;
+      baseRev?: number;
+    }>;
+  };
+}
+
 /**
  * Union type for all incoming WebSocket messages
  */
@@ -90,7 +139,8 @@ export type IncomingWebSocketMessage =
   | UserTeamStatusChange
   | SubscriptionConfirmation
   | ConnectionStatus
-  | UserTeamsLoaded;
+  | UserTeamsLoaded
+  | GamePlayEvent;
 
 /**
  * Outgoing message types (client to server)
@@ -130,6 +180,7 @@ export interface WebSocketEventHandlers {
   onSubscriptionConfirmation?: (confirmation: SubscriptionConfirmation) => void;
   onConnectionStatus?: (status: ConnectionStatus) => void;
   onUserTeamsLoaded?: (teams: UserTeamsLoaded) => void;
+  onGamePlay?: (play: GamePlayEvent) => void;
   onError?: (error: Event) => void;
   onClose?: (event: CloseEvent) => void;
 }
@@ -298,6 +349,9 @@ export function useWebSocket(options: WebSocketOptions = {}): UseWebSocketReturn
         case 'user-teams-loaded':
           options.eventHandlers?.onUserTeamsLoaded?.(message);
           break;
+        case 'game-play':
+          options.eventHandlers?.onGamePlay?.(message);
+          break;
         default:
           console.warn('Unknown WebSocket message type:', message);
       }
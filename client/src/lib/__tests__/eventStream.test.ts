@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/queryClient', () => ({
+  apiRequest: vi.fn(async () => ({ ok: true })),
+}));
+
+import { apiRequest } from '@/lib/queryClient';
+import { EventStreamService } from '../eventStream';
+import { WebSocketService } from '../websocket';
+
+class FakeEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+  readyState = FakeEventSource.CONNECTING;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  receive(message: object) {
+    this.readyState = FakeEventSource.OPEN;
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  fail(readyState: number) {
+    this.readyState = readyState;
+    this.onerror?.({ type: 'error' });
+  }
+}
+
+const connected = (connectionId: string) => ({
+  type: 'connection-status',
+  payload: { status: 'authenticated', userId: 'u1', connectionId },
+});
+
+async function open(stream: EventStreamService): Promise<FakeEventSource> {
+  const count = FakeEventSource.instances.length;
+  stream.connect();
+  await vi.waitFor(() => expect(FakeEventSource.instances.length).toBe(count + 1));
+  return FakeEventSource.instances[count];
+}
+
+describe('EventStreamService', () => {
+  let stream: EventStreamService;
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(apiRequest).mockClear();
+    stream = new EventStreamService({ url: 'http://localhost/api/stream', reopenDelay: 50 });
+  });
+
+  afterEach(() => {
+    stream.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('posts client messages for its connection once the server has named it', async () => {
+    const source = await open(stream);
+    expect(new URL(source.url).pathname).toBe('/api/stream');
+    expect(stream.send({ type: 'subscribe', teamId: 'NBA_BOS' })).toBe(false);
+
+    source.receive(connected('abc'));
+    expect(stream.getState()).toBe('connected');
+    expect(stream.send({ type: 'subscribe', teamId: 'NBA_BOS' })).toBe(true);
+    expect(apiRequest).toHaveBeenCalledWith('POST', '/api/stream/abc/messages', { type: 'subscribe', teamId: 'NBA_BOS' });
+  });
+
+  it('reopens with fresh credentials once the browser gives up on the stream', async () => {
+    const first = await open(stream);
+    first.receive(connected('abc'));
+
+    first.fail(FakeEventSource.CONNECTING);
+    expect(stream.getState()).toBe('connecting');
+    expect(FakeEventSource.instances).toHaveLength(1);
+
+    first.fail(FakeEventSource.CLOSED);
+    expect(stream.getState()).toBe('error');
+    await vi.waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+    FakeEventSource.instances[1].receive(connected('def'));
+    expect(stream.getState()).toBe('connected');
+  });
+
+  it('feeds the WebSocket service as its fallback transport, including resume', async () => {
+    const service = new WebSocketService({ autoConnect: false, autoReconnect: false, heartbeatInterval: 0 });
+    const messages: any[] = [];
+    service.subscribe('message', (m: any) => messages.push(m));
+    service.useFallbackTransport(stream);
+    stream.on('message', (data: any) => service.receive(data));
+
+    const source = await open(stream);
+    source.receive(connected('abc'));
+    source.receive({ type: 'user-team-score-update', payload: { teamId: 'NBA_BOS', seq: 4, gameData: {} } });
+    source.receive({ type: 'user-team-score-update', payload: { teamId: 'NBA_BOS', seq: 4, gameData: {} } });
+    source.receive({ type: 'user-teams-loaded', payload: { teams: [], autoSubscribed: true } });
+
+    expect(messages.map((m) => m.type)).toEqual(['connection-status', 'user-team-score-update', 'user-teams-loaded']);
+    expect(apiRequest).toHaveBeenCalledWith('POST', '/api/stream/abc/messages', { type: 'resume', lastSeq: { NBA_BOS: 4 } });
+    service.destroy();
+  });
+});
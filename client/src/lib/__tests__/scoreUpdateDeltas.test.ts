@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { WebSocketService } from '../websocket';
+import { ScoreUpdateService } from '../scoreUpdateService';
+
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {}
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const fullGame = {
+  gameId: 'g1', homeTeam: 'Celtics', awayTeam: 'Knicks', homeScore: 0, awayScore: 0, status: 'in_progress', quarter: 'Q1',
+};
+
+function batch(updates: object[]) {
+  return {
+    type: 'score-batch',
+    payload: {
+      userId: 'u1',
+      epoch: 'e1',
+      updates: updates.map((u) => ({ teamId: 'NBA_BOS', teamName: 'Celtics', sport: 'NBA', timestamp: '2026-01-01T00:00:00Z', ...u })),
+    },
+  };
+}
+
+describe('Score update deltas (wire protocol 2)', () => {
+  let socketService: WebSocketService;
+  let scores: ScoreUpdateService;
+  let socket: FakeSocket;
+  let applied: any[];
+
+  beforeEach(async () => {
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+    socketService = new WebSocketService({ autoConnect: false, autoReconnect: false, heartbeatInterval: 0, url: 'ws://localhost/ws' });
+    scores = new ScoreUpdateService(new QueryClient(), { enableThrottling: false });
+    scores.setAckSender((revs) => socketService.send({ type: 'score-ack', revs }));
+    socketService.subscribe('user-team-score-update', (m: any) => scores.processScoreUpdate(m));
+    applied = [];
+    scores.on('scoreUpdate', ({ payload }: any) => applied.push(payload.gameData));
+
+    socketService.connect();
+    await vi.waitFor(() => expect(FakeSocket.instances).toHaveLength(1));
+    socket = FakeSocket.instances[0];
+    socket.onopen?.();
+  });
+
+  afterEach(() => {
+    socketService.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  const acks = () => socket.sent.map((m) => JSON.parse(m)).filter((m) => m.type === 'score-ack').map((m) => m.revs);
+
+  it('asks the server for protocol 2', () => {
+    expect(new URL(socket.url).searchParams.get('protocol')).toBe('2');
+  });
+
+  it('applies deltas onto the last full state and acknowledges each frame once', async () => {
+    socket.receive(batch([{ rev: 1, gameData: fullGame }]));
+    await Promise.resolve();
+    socket.receive(batch([{ rev: 2, baseRev: 1, gameData: { gameId: 'g1', homeScore: 3 } }]));
+    await Promise.resolve();
+
+    expect(applied).toEqual([fullGame, { ...fullGame, homeScore: 3 }]);
+    expect(acks()).toEqual([{ g1: 1 }, { g1: 2 }]);
+  });
+
+  it('asks for the full state when a delta has nothing to apply to', async () => {
+    expect(scores.processScoreUpdate({
+      type: 'user-team-score-update',
+      payload: {
+        userId: 'u1', teamId: 'NBA_BOS', teamName: 'Celtics', sport: 'NBA', timestamp: '', isUserTeam: true,
+        gameData: { gameId: 'g9', homeScore: 1 } as any,
+        delta: { epoch: 'e1', rev: 5, baseRev: 4 },
+      },
+    })).toBe(false);
+    await Promise.resolve();
+
+    expect(applied).toEqual([]);
+    expect(acks()).toEqual([{ g9: 0 }]);
+  });
+});
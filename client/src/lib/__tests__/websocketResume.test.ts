@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocketService } from '../websocket';
+
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.onclose?.({ code: 1006, reason: 'dropped' });
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function scoreUpdate(teamId: string, seq: number) {
+  return { type: 'user-team-score-update', payload: { teamId, seq, gameData: { gameId: 'g1' } } };
+}
+
+async function open(service: WebSocketService): Promise<FakeSocket> {
+  const count = FakeSocket.instances.length;
+  service.connect();
+  await vi.waitFor(() => expect(FakeSocket.instances.length).toBe(count + 1));
+  const socket = FakeSocket.instances[count];
+  socket.onopen?.();
+  return socket;
+}
+
+describe('WebSocketService session resume', () => {
+  let service: WebSocketService;
+
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new WebSocketService({ autoConnect: false, autoReconnect: false, heartbeatInterval: 0, url: 'ws://localhost/ws' });
+  });
+
+  afterEach(() => {
+    service.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resumes from the last sequence per team once the server has loaded the user teams', async () => {
+    const first = await open(service);
+    first.receive(scoreUpdate('NBA_BOS', 1));
+    first.receive(scoreUpdate('NBA_BOS', 2));
+    first.receive(scoreUpdate('NFL_NE', 5));
+    first.close();
+
+    const second = await open(service);
+    expect(second.sent).toEqual([]);
+    second.receive({ type: 'user-teams-loaded', payload: { teams: [], autoSubscribed: true } });
+
+    expect(second.sent.map((m) => JSON.parse(m))).toEqual([{ type: 'resume', lastSeq: { NBA_BOS: 2, NFL_NE: 5 } }]);
+  });
+
+  it('drops replayed duplicates and reports teams that need a resync', async () => {
+    const messages: any[] = [];
+    const resync = vi.fn();
+    service.subscribe('message', (m: any) => messages.push(m));
+    service.subscribe('resync-required', resync);
+
+    const socket = await open(service);
+    socket.receive(scoreUpdate('NBA_BOS', 3));
+    socket.receive(scoreUpdate('NBA_BOS', 3));
+    socket.receive(scoreUpdate('NBA_BOS', 4));
+    socket.receive({ type: 'resync-required', payload: { teamIds: ['NBA_BOS'], replayed: 0 } });
+    socket.receive(scoreUpdate('NBA_BOS', 1));
+
+    expect(messages.filter((m) => m.type === 'user-team-score-update').map((m) => m.payload.seq)).toEqual([3, 4, 1]);
+    expect(resync).toHaveBeenCalledWith(['NBA_BOS']);
+  });
+});
@@ -0,0 +1,178 @@
+import { SimpleEventEmitter, appendConnectionAuth, WIRE_PROTOCOL, type FallbackTransport } from '@/lib/websocket';
+import { apiRequest } from '@/lib/queryClient';
+/**
+ * Server-Sent Events fallback for realtime updates
+ *
+ * Some networks (corporate proxies in particular) block the `/ws` upgrade.
+ * `/api/stream` carries the same server messages over plain HTTP; messages the
+ * client would send over the socket (subscribe, resume, ...) are POSTed to
+ * `/api/stream/:connectionId/messages` instead.
+ */
+
+export type EventStreamState = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export interface EventStreamConfig {
+  /** Stream endpoint */
+  url?: string;
+  /** Delay before reopening a stream the browser gave up on, in milliseconds */
+  reopenDelay?: number;
+}
+
+export interface EventStreamServiceEvents {
+  'state-changed': (state: EventStreamState) => void;
+  'message': (data: any) => void;
+  'error': (error: Event | Error) => void;
+}
+
+export class EventStreamService extends SimpleEventEmitter implements FallbackTransport {
+  private source: EventSource | null = null;
+  private config: Required<EventStreamConfig>;
+  private state: EventStreamState = 'disconnected';
+  private connectionId: string | null = null;
+  private reopenTimer: ReturnType<typeof setTimeout> | null = null;
+  private isOpening = false;
+  private isManualDisconnect = false;
+
+  constructor(config: EventStreamConfig = {}) {
+    super();
+    this.config = {
+      url: '/api/stream',
+      reopenDelay: 5000,
+      ...config
+    };
+  }
+
+  /**
+   * Open the stream (no-op while already open or opening)
+   */
+  public connect(): void {
+    if (this.source || this.reopenTimer || this.isOpening) {
+      return;
+    }
+
+    this.isManualDisconnect = false;
+    this.isOpening = true;
+    this.setState('connecting');
+
+    void (async () => {
+      try {
+        const url = await appendConnectionAuth(new URL(this.config.url, window.location.origin));
+        url.searchParams.set('protocol', String(WIRE_PROTOCOL));
+        if (this.isManualDisconnect) {
+          return;
+        }
+
+        const source = new EventSource(url.toString(), { withCredentials: true });
+        source.onmessage = (event) => this.handleMessage(event);
+        source.onerror = (event) => this.handleError(source, event);
+        this.source = source;
+      } catch (error) {
+        this.emit('error', error as Error);
+        this.scheduleReopen();
+      } finally {
+        this.isOpening = false;
+      }
+    })();
+  }
+
+  public disconnect(): void {
+    this.isManualDisconnect = true;
+    this.clearReopenTimer();
+    this.closeSource();
+    this.setState('disconnected');
+  }
+
+  /**
+   * Send a client message for this stream; false while there is no stream to
+   * address it to. Delivery failures surface as 'error' events.
+   */
+  public send(message: any): boolean {
+    if (this.state !== 'connected' || !this.connectionId) {
+      console.warn('Cannot send message: event stream not connected');
+      return false;
+    }
+
+    const payload = typeof message === 'string' ? JSON.parse(message) : message;
+    apiRequest('POST', `/api/stream/${encodeURIComponent(this.connectionId)}/messages`, payload).catch((error: Error) => {
+      console.error('Failed to send event stream message:', error);
+      this.emit('error', error);
+    });
+    return true;
+  }
+
+  public getState(): EventStreamState {
+    return this.state;
+  }
+
+  public destroy(): void {
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    let data: any;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error) {
+      console.error('Failed to parse event stream message:', error);
+      this.emit('error', error as Error);
+      return;
+    }
+
+    // The first message names the connection that client messages are sent to
+    if (data?.type === 'connection-status' && data.payload?.connectionId) {
+      this.connectionId = data.payload.connectionId;
+      this.setState('connected');
+    }
+    this.emit('message', data);
+  }
+
+  private handleError(source: EventSource, event: Event): void {
+    this.emit('error', event);
+    this.connectionId = null;
+
+    // The browser retries dropped streams on its own; it gives up (CLOSED) on an
+    // HTTP error such as an expired token, so reopen with fresh credentials
+    if (source.readyState === EventSource.CLOSED) {
+      this.closeSource();
+      this.setState('error');
+      this.scheduleReopen();
+    } else {
+      this.setState('connecting');
+    }
+  }
+
+  private scheduleReopen(): void {
+    if (this.isManualDisconnect || this.reopenTimer) {
+      return;
+    }
+    this.reopenTimer = setTimeout(() => {
+      this.reopenTimer = null;
+      this.connect();
+    }, this.config.reopenDelay);
+  }
+
+  private closeSource(): void {
+    if (this.source) {
+      this.source.onmessage = null;
+      this.source.onerror = null;
+      this.source.close();
+      this.source = null;
+    }
+    this.connectionId = null;
+  }
+
+  private clearReopenTimer(): void {
+    if (this.reopenTimer) {
+      clearTimeout(this.reopenTimer);
+      this.reopenTimer = null;
+    }
+  }
+
+  private setState(newState: EventStreamState): void {
+    if (this.state !== newState) {
+      this.state = newState;
+      this.emit('state-changed', newState);
+    }
+  }
+}
@@ -49,6 +49,13 @@ export interface GameScoreState {
   timeRemaining?: string;
 }
 
+/** Last full game state applied from a protocol 2 update, the base for the next delta */
+interface DeltaBase {
+  epoch: string;
+  rev: number;
+  gameData: UserTeamScoreUpdate['payload']['gameData'];
+}
+
 export interface ScoreUpdateFilter {
   /** Filter by sport */
   sport?: string;
@@ -88,6 +95,9 @@ export class ScoreUpdateService {
   private filters: ScoreUpdateFilter[];
   private eventListeners: Map<string, Set<Function>>;
   private comparisonService = getScoreComparisonService();
+  private deltaBases = new Map<string, DeltaBase>();
+  private pendingAcks = new Map<string, number>();
+  private ackSender: ((revs: Record<string, number>) => void) | null = null;
 
   constructor(queryClient: QueryClient, config: ScoreUpdateConfig = {}) {
     this.queryClient = queryClient;
@@ -127,11 +137,20 @@ export class ScoreUpdateService {
   /**
    * Process incoming score update with comparison logic
    */
-  public processScoreUpdate(update: UserTeamScoreUpdate): boolean {
+  public processScoreUpdate(incoming: UserTeamScoreUpdate): boolean {
     const startTime = performance.now();
     this.metrics.totalUpdatesReceived++;
 
     try {
+      // Protocol 2 deltas carry only changed fields; rebuild the full state first
+      const update = this.applyDelta(incoming);
+      if (!update) {
+        this.metrics.invalidUpdatesFiltered++;
+        this.log('Delta without a base state; requested full state:', incoming);
+        this.invalidateQueries(incoming.payload.sport, incoming.payload.gameData.gameId);
+        return false;
+      }
+
       // Validate update
       if (this.config.enableValidation && !this.validateUpdate(update.payload)) {
         this.metrics.invalidUpdatesFiltered++;
@@ -199,6 +218,18 @@ export class ScoreUpdateService {
     }
   }
 
+  /**
+   * Set how revision acknowledgements reach the server (protocol 2). Acks for
+   * updates processed together are sent as one message. Returns a function that
+   * removes the sender unless another one has replaced it since.
+   */
+  public setAckSender(sender: (revs: Record<string, number>) => void): () => void {
+    this.ackSender = sender;
+    return () => {
+      if (this.ackSender === sender) this.ackSender = null;
+    };
+  }
+
   /**
    * Add update filter
    */
@@ -273,6 +304,7 @@ export class ScoreUpdateService {
    * Clear game states
    */
   public clearGameStates(): void {
+    this.deltaBases.clear();
     this.gameStates.clear();
   }
 
@@ -287,6 +319,59 @@ export class ScoreUpdateService {
   // PRIVATE METHODS
   // ============================================================================
 
+  /**
+   * Resolve a protocol 2 update to one carrying the full game state, or null
+   * when it is a delta against a state this client doesn't have (then ask the
+   * server for the full state with an ack of revision 0). Protocol 1 updates
+   * pass through unchanged.
+   */
+  private applyDelta(update: UserTeamScoreUpdate): UserTeamScoreUpdate | null {
+    const delta = update.payload.delta;
+    if (!delta) return update;
+
+    const gameId = update.payload.gameData.gameId;
+    const stored = this.deltaBases.get(gameId);
+    const base = stored && stored.epoch === delta.epoch ? stored : undefined;
+
+    let gameData: UserTeamScoreUpdate['payload']['gameData'];
+    if (base && base.rev >= delta.rev) {
+      // Already applied (several subscribers share this service)
+      gameData = base.gameData;
+    } else if (delta.baseRev === undefined) {
+      gameData = update.payload.gameData;
+    } else if (base && base.rev >= delta.baseRev) {
+      gameData = { ...base.gameData, ...update.payload.gameData };
+    } else {
+      this.deltaBases.delete(gameId);
+      this.queueAck(gameId, 0);
+      return null;
+    }
+
+    if (!base || delta.rev > base.rev) {
+      this.deltaBases.set(gameId, { epoch: delta.epoch, rev: delta.rev, gameData });
+      this.queueAck(gameId, delta.rev);
+    }
+    return { ...update, payload: { ...update.payload, gameData } };
+  }
+
+  private queueAck(gameId: string, rev: number): void {
+    if (!this.ackSender) return;
+    const scheduled = this.pendingAcks.size > 0;
+    this.pendingAcks.set(gameId, rev);
+    if (scheduled) return;
+
+    // Updates from one batch frame are processed synchronously; ack them together
+    queueMicrotask(() => {
+      const revs = Object.fromEntries(this.pendingAcks);
+      this.pendingAcks.clear();
+      try {
+        this.ackSender?.(revs);
+      } catch (error) {
+        console.error('Error sending score acknowledgements:', error);
+      }
+    });
+  }
+
   private validateUpdate(payload: UserTeamScoreUpdate['payload']): boolean {
     // Basic validation
     if (!payload.gameData?.gameId || typeof payload.gameData.gameId !== 'string') return false;
@@ -1,4 +1,5 @@
 import { isDev as isDevMode, isDevHeaderAllowed, getDevUid } from '@/lib/devAuth';
+import type { ScoreUpdateBatch, UserTeamScoreUpdate } from '@/hooks/useWebSocket';
 /**
  * Enhanced WebSocket Service for Real-time Score Updates
  * 
@@ -7,11 +8,14 @@ import { isDev as isDevMode, isDevHeaderAllowed, getDevUid } from '@/lib/devAuth
  * - Connection state management
  * - Health monitoring with heartbeat/ping-pong
  * - Event subscription system
+ * - Session resume: replays score updates missed while disconnected
+ * - Fallback transport hook for the SSE stream (see eventStream.ts)
+ * - Wire protocol 2: batched score deltas, expanded into per-game updates
  * - Comprehensive error handling
  */
 
 // Simple EventEmitter implementation for browser compatibility
-class SimpleEventEmitter {
+export class SimpleEventEmitter {
   private events: { [key: string]: Function[] } = {};
 
   on(event: string, listener: Function) {
@@ -99,6 +103,46 @@ export interface WebSocketServiceEvents {
   'heartbeat-sent': () => void;
   'heartbeat-received': () => void;
   'metrics-updated': (metrics: ConnectionMetrics) => void;
+  /** Updates for these teams were missed and can't be replayed; refetch them */
+  'resync-required': (teamIds: string[]) => void;
+}
+
+/**
+ * Wire protocol requested from the server. Servers that only speak protocol 1
+ * ignore it and keep sending full updates, which the service handles as well.
+ */
+export const WIRE_PROTOCOL = 2;
+
+/** Carries client messages while the socket is unavailable (the SSE fallback) */
+export interface FallbackTransport {
+  send(message: any): boolean;
+}
+
+/**
+ * Add credentials for a realtime connection to its URL: the Firebase ID token,
+ * or the devUid when the dev override is enabled. Browsers can't set headers
+ * on WebSocket or EventSource requests, so both read them from the query.
+ */
+export async function appendConnectionAuth(url: URL): Promise<URL> {
+  if (!isDevHeaderAllowed()) {
+    try {
+      const { getFirebaseIdToken } = await import('@/lib/firebaseClient');
+      const idToken = await getFirebaseIdToken();
+      if (idToken) {
+        url.searchParams.set('token', idToken);
+      }
+    } catch {}
+    return url;
+  }
+
+  // Dev convenience: append devUid when override is allowed
+  if (isDevMode() && isDevHeaderAllowed()) {
+    const devUid = getDevUid() || 'dev-user';
+    if (devUid) {
+      url.searchParams.set('devUid', String(devUid));
+    }
+  }
+  return url;
 }
 
 // ============================================================================
@@ -116,6 +160,9 @@ export class WebSocketService extends SimpleEventEmitter {
   private metrics: ConnectionMetrics;
   private lastHeartbeatSent: Date | null = null;
   private heartbeatResponseReceived = true;
+  /** Last sequence number received per team, sent back in `resume` after reconnecting */
+  private lastSeqByTeam = new Map<string, number>();
+  private fallback: FallbackTransport | null = null;
 
   constructor(config: WebSocketConfig = {}) {
     super();
@@ -212,6 +259,15 @@ export class WebSocketService extends SimpleEventEmitter {
    * Send message to WebSocket server
    */
   public send(message: any): boolean {
+    if (this.fallback) {
+      const sent = this.fallback.send(message);
+      if (sent) {
+        this.metrics.messagesSent++;
+        this.updateMetrics();
+      }
+      return sent;
+    }
+
     if (this.state !== 'connected' || !this.ws) {
       console.warn('Cannot send message: WebSocket not connected');
       return false;
@@ -230,6 +286,24 @@ export class WebSocketService extends SimpleEventEmitter {
     }
   }
 
+  /**
+   * Route outgoing messages through another transport while the socket is down,
+   * or back to the socket with null. Its incoming messages go through receive().
+   */
+  public useFallbackTransport(transport: FallbackTransport | null): void {
+    this.fallback = transport;
+  }
+
+  /**
+   * Handle a server message delivered by the fallback transport, exactly as if
+   * it had arrived on the socket (sequence tracking, resume, resync)
+   */
+  public receive(data: any): void {
+    this.metrics.messagesReceived++;
+    this.updateMetrics();
+    this.dispatch(data);
+  }
+
   /**
    * Subscribe to specific event types
    */
@@ -285,27 +359,8 @@ export class WebSocketService extends SimpleEventEmitter {
   private async buildWebSocketUrlAsync(): Promise<string> {
     // Prefer Firebase token when dev override is disabled; else use devUid in development
     try {
-      const baseUrl = this.config.url;
-      const url = new URL(baseUrl, window.location.origin);
-
-      if (!isDevHeaderAllowed()) {
-        try {
-          const { getFirebaseIdToken } = await import('@/lib/firebaseClient');
-          const idToken = await getFirebaseIdToken();
-          if (idToken) {
-            url.searchParams.set('token', idToken);
-          }
-        } catch {}
-        return url.toString();
-      }
-
-      // Dev convenience: append devUid when override is allowed
-      if (isDevMode() && isDevHeaderAllowed()) {
-        const devUid = getDevUid() || 'dev-user';
-        if (devUid) {
-          url.searchParams.set('devUid', String(devUid));
-        }
-      }
+      const url = await appendConnectionAuth(new URL(this.config.url, window.location.origin));
+      url.searchParams.set('protocol', String(WIRE_PROTOCOL));
       return url.toString();
     } catch {
       return this.config.url;
@@ -348,14 +403,77 @@ export class WebSocketService extends SimpleEventEmitter {
       }
 
       // Parse and emit regular messages
-      const data = JSON.parse(event.data);
-      this.emit('message', data);
+      this.dispatch(JSON.parse(event.data));
     } catch (error) {
       console.error('Failed to parse WebSocket message:', error);
       this.emit('error', error as Error);
     }
   }
 
+  private dispatch(data: any): void {
+    if (data?.type === 'score-batch') {
+      this.expandScoreBatch(data as ScoreUpdateBatch).forEach((update) => this.dispatch(update));
+      return;
+    }
+
+    if (!this.trackSequence(data)) {
+      return;
+    }
+    this.emit('message', data);
+
+    // Typed subscribers (useScoreUpdateService) listen by message type
+    if (data?.type === 'user-team-score-update' || data?.type === 'user-team-status-change') {
+      this.emit(data.type, data);
+    }
+
+    if (data?.type === 'resync-required') {
+      const teamIds: string[] = Array.isArray(data.payload?.teamIds) ? data.payload.teamIds : [];
+      teamIds.forEach((teamId) => this.lastSeqByTeam.delete(teamId));
+      this.emit('resync-required', teamIds);
+    }
+
+    // The server handles client messages once it has loaded the user's teams
+    if (data?.type === 'user-teams-loaded' && this.lastSeqByTeam.size > 0) {
+      this.send({ type: 'resume', lastSeq: Object.fromEntries(this.lastSeqByTeam) });
+    }
+  }
+
+  /**
+   * One user-team-score-update per batch entry, tagged with its revision so
+   * ScoreUpdateService can apply deltas onto the game's last known state
+   */
+  private expandScoreBatch(batch: ScoreUpdateBatch): UserTeamScoreUpdate[] {
+    const { userId, epoch, updates } = batch.payload;
+    return (updates ?? []).map(({ rev, baseRev, gameData, ...entry }) => ({
+      type: 'user-team-score-update',
+      payload: {
+        ...entry,
+        userId,
+        isUserTeam: true,
+        gameData: gameData as UserTeamScoreUpdate['payload']['gameData'],
+        delta: { epoch, rev, baseRev },
+      },
+    }));
+  }
+
+  /**
+   * Record a sequenced team message; false for a duplicate already delivered
+   * (replays can overlap with live updates sent right after reconnecting)
+   */
+  private trackSequence(data: any): boolean {
+    const seq = data?.payload?.seq;
+    const teamId = data?.payload?.teamId;
+    if (typeof seq !== 'number' || typeof teamId !== 'string') {
+      return true;
+    }
+
+    if (seq <= (this.lastSeqByTeam.get(teamId) ?? 0)) {
+      return false;
+    }
+    this.lastSeqByTeam.set(teamId, seq);
+    return true;
+  }
+
   private handleClose(event: CloseEvent): void {
     this.clearTimers();
     this.setState('disconnected');
@@ -485,6 +603,8 @@ export class WebSocketService extends SimpleEventEmitter {
    */
   public destroy(): void {
     this.disconnect();
+    this.fallback = null;
+    this.lastSeqByTeam.clear();
     this.removeAllListeners();
   }
 }
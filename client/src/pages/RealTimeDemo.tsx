@@ -9,6 +9,7 @@ import { useRealTimeScoreUpdates } from '@/hooks/useRealTimeScoreUpdates';
 import { useUserTeamScores } from '@/hooks/useUserTeamScores';
 import { WebSocketDemo } from '@/components/WebSocketDemo';
 import { ScoreUpdatesTest } from '@/components/ScoreUpdatesTest';
+import { GameSimulatorPanel } from '@/components/GameSimulatorPanel';
 // Lazy load the RealTimeUpdates component for better performance
 const RealTimeUpdates = lazy(() => import('@/components/RealTimeUpdates'));
 import { 
@@ -465,6 +466,9 @@ const RealTimeDemo: React.FC = memo(() => {
         </CardContent>
       </Card>
 
+      {/* Simulated games drive the sections above and below with real updates */}
+      <GameSimulatorPanel />
+
       {/* WebSocket Demo Section */}
       <WebSocketDemo />
 
@@ -0,0 +1,4 @@
+-- Summaries: record which articles a generated summary cites
+-- Safe, additive column; existing rows stay NULL
+
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS source_article_ids text[];
@@ -0,0 +1,28 @@
+-- BM25: persist per-team index postings so instances hydrate instead of rebuilding,
+-- plus a version counter and an owner-stamped rebuild lock shared across processes
+
+ALTER TABLE bm25_indexes ADD COLUMN IF NOT EXISTS rebuild_owner varchar(100);
+ALTER TABLE bm25_indexes ADD COLUMN IF NOT EXISTS rebuild_started_at timestamp;
+ALTER TABLE bm25_indexes ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 0;
+
+-- One metadata row per team: drop older duplicates before enforcing uniqueness
+DELETE FROM bm25_indexes a
+USING bm25_indexes b
+WHERE a.team_id = b.team_id
+  AND (a.updated_at < b.updated_at OR (a.updated_at = b.updated_at AND a.id < b.id));
+
+DROP INDEX IF EXISTS bm25_indexes_team_id_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS bm25_indexes_team_id_idx ON bm25_indexes (team_id);
+
+CREATE TABLE IF NOT EXISTS bm25_index_documents (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id varchar NOT NULL REFERENCES teams(id),
+  document_id varchar NOT NULL,
+  doc_length integer NOT NULL,
+  term_frequencies text NOT NULL,
+  metadata text,
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bm25_index_documents_team_document_idx
+  ON bm25_index_documents (team_id, document_id);
@@ -0,0 +1,6 @@
+-- Articles feed: keyset pagination on (published_at DESC, id DESC) per team,
+-- skipping soft-deleted rows
+
+CREATE INDEX CONCURRENTLY IF NOT EXISTS articles_team_published_id_idx
+  ON articles (team_id, published_at DESC, id DESC)
+  WHERE is_deleted = false;
@@ -0,0 +1,19 @@
+-- Story clusters: group near-duplicate coverage from different outlets
+-- instead of dropping it
+
+CREATE TABLE IF NOT EXISTS story_clusters (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id varchar NOT NULL REFERENCES teams(id),
+  canonical_article_id varchar NOT NULL,
+  article_count integer NOT NULL DEFAULT 1,
+  source_count integer NOT NULL DEFAULT 1,
+  first_seen_at timestamp NOT NULL,
+  last_updated_at timestamp NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS story_clusters_team_last_updated_idx
+  ON story_clusters (team_id, last_updated_at);
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS cluster_id varchar;
+CREATE INDEX IF NOT EXISTS articles_cluster_id_idx ON articles (cluster_id);
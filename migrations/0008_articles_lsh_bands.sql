@@ -0,0 +1,8 @@
+-- LSH band buckets for MinHash duplicate lookups: candidates are found
+-- through the GIN index instead of scanning every recent article
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS lsh_bands text[];
+CREATE INDEX IF NOT EXISTS articles_lsh_bands_idx ON articles USING gin (lsh_bands);
+
+-- Rows written before this migration keep lsh_bands NULL; duplicate checks
+-- still compare them directly until they age out of the check window.
@@ -0,0 +1,34 @@
+-- Sport-aware box scores: team stat lines per game and one row per
+-- player stat group (batting/pitching, skater/goalie, passing/rushing/receiving,
+-- basketball shooting splits)
+
+CREATE TABLE IF NOT EXISTS box_scores (
+  game_id varchar PRIMARY KEY REFERENCES games(id),
+  sport varchar(10) NOT NULL,
+  home_team_id varchar,
+  away_team_id varchar,
+  home_pts integer NOT NULL,
+  away_pts integer NOT NULL,
+  home_stats text,
+  away_stats text,
+  source text,
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS box_score_player_stats (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id varchar NOT NULL REFERENCES box_scores(game_id) ON DELETE CASCADE,
+  side varchar(4) NOT NULL,
+  team_id varchar,
+  player_id varchar NOT NULL,
+  player_name text NOT NULL,
+  position varchar(10),
+  starter boolean NOT NULL DEFAULT false,
+  stat_group varchar(20) NOT NULL,
+  stats text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS box_score_player_stats_game_id_idx
+  ON box_score_player_stats (game_id);
+CREATE UNIQUE INDEX IF NOT EXISTS box_score_player_stats_game_player_group_idx
+  ON box_score_player_stats (game_id, player_id, stat_group);
@@ -0,0 +1,22 @@
+-- Play-by-play events keyed by (game, source sequence number)
+
+CREATE TABLE IF NOT EXISTS game_plays (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id varchar NOT NULL REFERENCES games(id),
+  sequence integer NOT NULL,
+  period varchar(20),
+  clock varchar(20),
+  team_id varchar,
+  play_type varchar(50),
+  description text NOT NULL,
+  scoring_play boolean NOT NULL DEFAULT false,
+  score_value integer,
+  home_pts integer,
+  away_pts integer,
+  occurred_at timestamp,
+  source text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS game_plays_game_sequence_idx
+  ON game_plays (game_id, sequence);
@@ -0,0 +1,18 @@
+-- Disagreements between score sources recorded during reconciliation
+
+CREATE TABLE IF NOT EXISTS score_discrepancies (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id varchar NOT NULL,
+  field varchar(10) NOT NULL,
+  resolved_value text NOT NULL,
+  resolved_source text,
+  readings text NOT NULL,
+  sources text[] NOT NULL,
+  detected_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS score_discrepancies_game_detected_idx
+  ON score_discrepancies (game_id, detected_at);
+
+CREATE INDEX IF NOT EXISTS score_discrepancies_detected_idx
+  ON score_discrepancies (detected_at);
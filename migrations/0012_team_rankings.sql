@@ -0,0 +1,23 @@
+-- Latest AP / coaches poll for college football and basketball
+
+CREATE TABLE IF NOT EXISTS team_rankings (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  league varchar(10) NOT NULL,
+  poll varchar(20) NOT NULL,
+  season integer,
+  week integer,
+  rank integer NOT NULL,
+  team_id varchar NOT NULL,
+  team_name text NOT NULL,
+  previous_rank integer,
+  record varchar(20),
+  points integer,
+  first_place_votes integer,
+  fetched_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS team_rankings_league_poll_rank_idx
+  ON team_rankings (league, poll, rank);
+
+CREATE INDEX IF NOT EXISTS team_rankings_team_idx
+  ON team_rankings (team_id);
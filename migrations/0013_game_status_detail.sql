@@ -0,0 +1,4 @@
+-- Sub-state and reason for game statuses (e.g. final/overtime, delayed/rain, "Postponed: inclement weather")
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS status_detail varchar(20);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS status_reason varchar(200);
@@ -0,0 +1,20 @@
+-- Source-specific event ids mapped onto one canonical game
+
+CREATE TABLE IF NOT EXISTS game_aliases (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id varchar NOT NULL,
+  game_key varchar(64) NOT NULL,
+  source varchar(40) NOT NULL,
+  source_game_id varchar NOT NULL,
+  start_time timestamp,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS game_aliases_source_game_idx
+  ON game_aliases (source, source_game_id);
+
+CREATE INDEX IF NOT EXISTS game_aliases_game_key_idx
+  ON game_aliases (game_key);
+
+CREATE INDEX IF NOT EXISTS game_aliases_game_idx
+  ON game_aliases (game_id);
@@ -0,0 +1,372 @@
+import type { IScoreSource, GameScore, ScheduleGame, CollegeLeague, RankingPoll, PollRankings, TeamRanking } from '../types';
+import type { InsertGame } from '@shared/schema';
+import { ethicalFetcher } from '../../utils/scraping/fetcher';
+import { TeamMapper } from '../../utils/scraping/teamMapper';
+import { logger } from '../../logger';
+import { parseEspnStatus, FEATURED_STATUS_ORDER } from './statusUtils';
+
+interface CollegeLeagueConfig {
+  path: string; // under sports/ on ESPN's site API
+  group: string; // scoreboard group: every FBS / Division I game rather than ESPN's Top 25 default
+  halves: boolean; // men's basketball plays two halves, football four quarters
+}
+
+const LEAGUE_CONFIG: Record<CollegeLeague, CollegeLeagueConfig> = {
+  NCAAF: { path: 'football/college-football', group: '80', halves: false },
+  NCAAB: { path: 'basketball/mens-college-basketball', group: '50', halves: true },
+};
+
+// ESPN poll types on the rankings endpoint ("usa" is the coaches poll)
+const ESPN_POLL_TYPES: Record<RankingPoll, string> = {
+  ap: 'ap',
+  coaches: 'usa',
+};
+
+// curatedRank.current for teams outside the Top 25
+const UNRANKED = 99;
+
+function toNumber(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function formatDate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}${m}${day}`;
+}
+
+/**
+ * Map an ESPN team object to our team ID
+ *
+ * Full names go first because abbreviations are not unique across ESPN's
+ * few hundred programs; unknown programs (FCS opponents, low-major schools)
+ * get an ID built from their abbreviation so they stay stable between polls.
+ */
+export function mapCollegeTeam(team: any, league: CollegeLeague): string {
+  const names = [
+    team?.displayName,
+    team?.location && team?.name ? `${team.location} ${team.name}` : undefined,
+    team?.location,
+    team?.shortDisplayName,
+    team?.nickname,
+    team?.abbreviation,
+  ].filter(Boolean).map(String);
+  for (const name of names) {
+    const found = TeamMapper.findTeam(name, league);
+    if (found) return found;
+  }
+  const code = String(team?.abbreviation ?? team?.location ?? 'UNKNOWN').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `${league}_${code || 'UNKNOWN'}`;
+}
+
+/**
+ * Poll rank from a competitor's curatedRank, or undefined when unranked
+ */
+function parseRank(competitor: any): number | undefined {
+  const rank = toNumber(competitor?.curatedRank?.current);
+  return rank !== undefined && rank > 0 && rank < UNRANKED ? rank : undefined;
+}
+
+/**
+ * Period label: Q1-Q4 for football, 1H/2H for basketball, then OT, 2OT, ...
+ */
+function periodLabel(period: number | undefined, halves: boolean): string | null {
+  if (!period) return null;
+  const regulation = halves ? 2 : 4;
+  if (period > regulation) {
+    const ot = period - regulation;
+    return ot === 1 ? 'OT' : `${ot}OT`;
+  }
+  return halves ? `${period}H` : `Q${period}`;
+}
+
+/**
+ * Parse one event from an ESPN college football or men's basketball scoreboard
+ *
+ * @param league - NCAAF or NCAAB
+ * @param event - ESPN event JSON
+ * @returns The game, or null when it has no home/away competitors
+ */
+export function parseCollegeEvent(league: CollegeLeague, event: any): GameScore | null {
+  const competition = Array.isArray(event?.competitions) ? event.competitions[0] : undefined;
+  const competitors: any[] = Array.isArray(competition?.competitors) ? competition.competitors : [];
+  const home = competitors.find((c) => c?.homeAway === 'home');
+  const away = competitors.find((c) => c?.homeAway === 'away');
+  if (!home || !away || event?.id == null) return null;
+
+  const status = event?.status ?? competition?.status ?? {};
+  const statusName: string = status?.type?.name ?? '';
+  const period = toNumber(status?.period);
+
+  const { halves } = LEAGUE_CONFIG[league];
+  const resolvedStatus = parseEspnStatus(status, halves ? 2 : 4);
+  const gameStatus = resolvedStatus.status;
+  const halftime = statusName === 'STATUS_HALFTIME';
+
+  // Finals keep the period only when they went to overtime ("OT", "2OT")
+  let periodText: string | null = null;
+  if (halftime) periodText = 'HALF';
+  else if (gameStatus === 'in_progress') periodText = periodLabel(period, halves);
+  else if (gameStatus === 'final' && period && period > (halves ? 2 : 4)) periodText = periodLabel(period, halves);
+
+  const game: GameScore = {
+    gameId: `${league}_ESPN_${event.id}`,
+    homeTeamId: mapCollegeTeam(home.team, league),
+    awayTeamId: mapCollegeTeam(away.team, league),
+    homePts: toNumber(home.score) ?? 0,
+    awayPts: toNumber(away.score) ?? 0,
+    ...resolvedStatus,
+    period: periodText,
+    timeRemaining: gameStatus === 'in_progress' && !halftime && status?.displayClock ? String(status.displayClock) : null,
+    startTime: new Date(competition?.date || event?.date || Date.now()),
+    source: 'ESPN API',
+    neutralSite: competition?.neutralSite === true,
+  };
+
+  const homeRank = parseRank(home);
+  const awayRank = parseRank(away);
+  if (homeRank !== undefined) game.homeRank = homeRank;
+  if (awayRank !== undefined) game.awayRank = awayRank;
+  return game;
+}
+
+/**
+ * Parse one poll from an ESPN rankings payload
+ *
+ * @param league - NCAAF or NCAAB
+ * @param poll - Which poll to pick out of the payload
+ * @param data - ESPN rankings JSON ({ rankings: [...] })
+ * @returns The poll, or null when the payload does not include it
+ */
+export function parseCollegeRankings(league: CollegeLeague, poll: RankingPoll, data: any): PollRankings | null {
+  const rankings: any[] = Array.isArray(data?.rankings) ? data.rankings : [];
+  const entry = rankings.find((r) => r?.type === ESPN_POLL_TYPES[poll]);
+  if (!entry || !Array.isArray(entry.ranks)) return null;
+
+  const teams: TeamRanking[] = entry.ranks
+    .map((r: any): TeamRanking | null => {
+      const rank = toNumber(r?.current);
+      if (rank === undefined || !r?.team) return null;
+      const teamId = mapCollegeTeam(r.team, league);
+      const ranking: TeamRanking = {
+        teamId,
+        teamName: TeamMapper.getTeam(teamId)?.name ?? String(r.team.nickname ?? r.team.location ?? r.team.abbreviation ?? ''),
+        rank,
+      };
+      const previousRank = toNumber(r.previous);
+      const points = toNumber(r.points);
+      const firstPlaceVotes = toNumber(r.firstPlaceVotes);
+      if (previousRank !== undefined) ranking.previousRank = previousRank;
+      if (r.recordSummary) ranking.record = String(r.recordSummary);
+      if (points !== undefined) ranking.points = points;
+      if (firstPlaceVotes !== undefined) ranking.firstPlaceVotes = firstPlaceVotes;
+      return ranking;
+    })
+    .filter((r: TeamRanking | null): r is TeamRanking => r !== null)
+    .sort((a: TeamRanking, b: TeamRanking) => a.rank - b.rank);
+
+  return {
+    league,
+    poll,
+    season: toNumber(entry.season?.year),
+    week: toNumber(entry.occurrence?.number),
+    teams,
+  };
+}
+
+/**
+ * CollegeAdapter
+ *
+ * Sport-specific adapter for college football (FBS) and men's college
+ * basketball (Division I) from ESPN's public scoreboard and rankings JSON.
+ *
+ * Features:
+ * - Every FBS / D-I game, not only ESPN's Top 25 default scoreboard
+ * - AP rank next to each team at game time (homeRank / awayRank)
+ * - Neutral-site flag for bowls, tournaments and showcase games
+ * - AP and coaches polls via fetchRankings
+ * - Team IDs from the data-file team mapping (NCAAF_ALA, NCAAB_GONZ)
+ */
+export class CollegeAdapter implements IScoreSource {
+  private readonly league: CollegeLeague;
+  private readonly config: CollegeLeagueConfig;
+  private readonly sources = {
+    espnJson: 'https://site.api.espn.com/apis/site/v2/sports',
+  };
+
+  /**
+   * @param league - NCAAF for college football, NCAAB for men's college basketball
+   */
+  constructor(league: CollegeLeague) {
+    this.league = league;
+    this.config = LEAGUE_CONFIG[league];
+  }
+
+  /**
+   * Fetch recent games for specific teams (legacy method for backwards compatibility)
+   *
+   * @param options - Team IDs and limit
+   * @returns Array of InsertGame objects
+   */
+  async fetchRecentGames(options: { teamIds?: string[]; limit?: number }): Promise<InsertGame[]> {
+    logger.info({ options, league: this.league }, 'CollegeAdapter: fetchRecentGames called');
+
+    try {
+      const teamCodes = options.teamIds?.map(id => id.split('_')[1]).filter(Boolean) || [];
+      const scores = await this.fetchLive(teamCodes);
+
+      return scores.slice(0, options.limit || 5).map(score => ({
+        id: score.gameId,
+        homeTeamId: score.homeTeamId,
+        awayTeamId: score.awayTeamId,
+        homePts: score.homePts,
+        awayPts: score.awayPts,
+        status: score.status,
+        period: score.period || null,
+        timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
+        startTime: score.startTime,
+      }));
+    } catch (err) {
+      logger.error({ err, league: this.league }, 'CollegeAdapter: fetchRecentGames failed');
+      return [];
+    }
+  }
+
+  /**
+   * Fetch today's scoreboard
+   *
+   * @param teamCodes - Team codes to filter by (e.g., ["ALA", "UGA"])
+   * @returns Array of GameScore objects
+   */
+  async fetchLive(teamCodes: string[]): Promise<GameScore[]> {
+    logger.info({ teamCodes, league: this.league }, 'College: Fetching live games');
+
+    const games = await this.fetchScoreboard(teamCodes);
+
+    logger.info({ count: games.length, league: this.league }, 'College: Fetched live games');
+    return games;
+  }
+
+  /**
+   * Fetch schedule for specific teams within a date range
+   *
+   * @param teamCodes - Team codes to fetch schedule for
+   * @param startDate - Start of date range
+   * @param endDate - End of date range
+   * @returns Array of ScheduleGame objects
+   */
+  async fetchSchedule(teamCodes: string[], startDate: Date, endDate: Date): Promise<ScheduleGame[]> {
+    logger.info({ teamCodes, startDate, endDate, league: this.league }, 'College: Fetching schedule');
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      logger.warn({ startDate, endDate }, 'College: fetchSchedule invalid dates, returning []');
+      return [];
+    }
+
+    const games = await this.fetchScoreboard(teamCodes, `${formatDate(startDate)}-${formatDate(endDate)}`);
+    const results: ScheduleGame[] = games
+      .filter((g) => g.startTime.getTime() >= startDate.getTime() && g.startTime.getTime() <= endDate.getTime())
+      .map((g) => ({
+        gameId: g.gameId,
+        homeTeamId: g.homeTeamId,
+        awayTeamId: g.awayTeamId,
+        startTime: g.startTime,
+        status: g.status,
+        source: g.source,
+        neutralSite: g.neutralSite,
+      }))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    logger.info({ count: results.length, league: this.league }, 'College: Schedule fetch complete');
+    return results;
+  }
+
+  /**
+   * Fetch featured games: live first, then games between ranked teams
+   *
+   * @param sport - Sport name (for logging)
+   * @param limit - Maximum number of games
+   * @returns Array of ScheduleGame objects
+   */
+  async fetchFeaturedGames(sport: string, limit: number): Promise<ScheduleGame[]> {
+    logger.info({ sport, limit, league: this.league }, 'College: Fetching featured games');
+
+    try {
+      const games = await this.fetchLive([]);
+      // Best rank in the game; unranked matchups sort last
+      const bestRank = (g: GameScore) => Math.min(g.homeRank ?? UNRANKED, g.awayRank ?? UNRANKED);
+
+      return games
+        .slice()
+        .sort((a, b) =>
+          FEATURED_STATUS_ORDER[a.status] - FEATURED_STATUS_ORDER[b.status]
+          || bestRank(a) - bestRank(b)
+          || a.startTime.getTime() - b.startTime.getTime())
+        .slice(0, limit)
+        .map(game => ({
+          gameId: game.gameId,
+          homeTeamId: game.homeTeamId,
+          awayTeamId: game.awayTeamId,
+          startTime: game.startTime,
+          status: game.status,
+          source: game.source,
+          neutralSite: game.neutralSite,
+        }));
+    } catch (err) {
+      logger.error({ err, league: this.league }, 'College: fetchFeaturedGames failed');
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the latest AP or coaches poll
+   *
+   * @param poll - "ap" or "coaches"
+   * @returns The poll, or null when ESPN has not published it (e.g., preseason for the coaches poll)
+   */
+  async fetchRankings(poll: RankingPoll = 'ap'): Promise<PollRankings | null> {
+    logger.info({ poll, league: this.league }, 'College: Fetching rankings');
+
+    const url = `${this.sources.espnJson}/${this.config.path}/rankings`;
+    const data = JSON.parse(await ethicalFetcher.fetch(url));
+    const rankings = parseCollegeRankings(this.league, poll, data);
+
+    logger.info({ poll, league: this.league, count: rankings?.teams.length ?? 0 }, 'College: Rankings fetch complete');
+    return rankings;
+  }
+
+  /**
+   * Fetch and parse the ESPN scoreboard, optionally for a date range
+   */
+  private async fetchScoreboard(teamCodes: string[], dates?: string): Promise<GameScore[]> {
+    const params = new URLSearchParams({ groups: this.config.group, limit: '400' });
+    if (dates) params.set('dates', dates);
+    const url = `${this.sources.espnJson}/${this.config.path}/scoreboard?${params.toString()}`;
+
+    const data = JSON.parse(await ethicalFetcher.fetch(url));
+    const events: any[] = Array.isArray(data?.events) ? data.events : [];
+    const fetchedAt = new Date();
+
+    const games: GameScore[] = [];
+    for (const event of events) {
+      try {
+        const game = parseCollegeEvent(this.league, event);
+        if (!game) continue;
+        if (teamCodes.length > 0) {
+          const homeCode = TeamMapper.getCodeFromId(game.homeTeamId);
+          const awayCode = TeamMapper.getCodeFromId(game.awayTeamId);
+          if (!teamCodes.includes(homeCode) && !teamCodes.includes(awayCode)) continue;
+        }
+        games.push({ ...game, fetchedAt });
+      } catch (err) {
+        logger.warn({ err, league: this.league, eventId: event?.id }, 'College: Failed to parse ESPN event');
+      }
+    }
+    return games;
+  }
+}
@@ -0,0 +1,365 @@
+import type {
+  BoxScore,
+  BoxScorePlayerLine,
+  BoxScoreSide,
+  BoxScoreSport,
+  BoxScoreTeamTotals,
+  PlayerStatLine,
+} from '../types';
+import { ethicalFetcher } from '../../utils/scraping/fetcher';
+import type { EthicalFetcher } from '../../utils/scraping/fetcher';
+import { TeamMapper } from '../../utils/scraping/teamMapper';
+import { logger } from '../../logger';
+
+/**
+ * ESPN box score support shared by the league adapters
+ *
+ * ESPN's summary payload carries, per team, a list of stat groups
+ * (`boxscore.players[].statistics[]`) whose `keys`/`labels` name the columns
+ * of each athlete's `stats` row. Each sport maps those columns onto its own
+ * typed stat lines; team-level stat lines are kept as reported.
+ */
+
+const ESPN_SPORT_PATHS: Record<BoxScoreSport, string> = {
+  NBA: 'basketball/nba',
+  NFL: 'football/nfl',
+  MLB: 'baseball/mlb',
+  NHL: 'hockey/nhl',
+};
+
+const ESPN_API_BASE = 'https://site.api.espn.com/apis/site/v2/sports';
+
+type Fetcher = Pick<EthicalFetcher, 'fetch'>;
+
+/**
+ * Column values of one athlete row, addressable by ESPN key or column label
+ */
+type StatRow = Map<string, string>;
+
+function buildRow(group: any, stats: unknown[]): StatRow {
+  const row: StatRow = new Map();
+  const keys: unknown[] = Array.isArray(group?.keys) ? group.keys : [];
+  const labels: unknown[] = Array.isArray(group?.labels) ? group.labels : [];
+  stats.forEach((value, i) => {
+    const text = value == null ? '' : String(value);
+    if (typeof keys[i] === 'string') row.set(keys[i] as string, text);
+    if (typeof labels[i] === 'string') row.set(String(labels[i]).toUpperCase(), text);
+  });
+  return row;
+}
+
+function raw(row: StatRow, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = row.get(name) ?? row.get(name.toUpperCase());
+    if (value !== undefined && value !== '' && value !== '--' && value !== '-----') return value;
+  }
+  return undefined;
+}
+
+function num(row: StatRow, ...names: string[]): number {
+  const value = raw(row, names);
+  if (value === undefined) return 0;
+  const parsed = parseFloat(value.replace(/^\+/, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function optNum(row: StatRow, ...names: string[]): number | null {
+  const value = raw(row, names);
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Split "made-attempted" / "completions/attempts" style cells
+ */
+function pair(row: StatRow, ...names: string[]): [number, number] {
+  const value = raw(row, names);
+  if (value === undefined) return [0, 0];
+  const [a, b] = value.split(/[-/]/).map((part) => parseInt(part, 10));
+  return [Number.isFinite(a) ? a : 0, Number.isFinite(b) ? b : 0];
+}
+
+/**
+ * Innings pitched in baseball notation ("6.1" = 6 and 1/3) to outs recorded
+ */
+function inningsToOuts(value: string | undefined): number {
+  if (!value) return 0;
+  const [whole, part] = value.split('.');
+  const innings = parseInt(whole, 10);
+  const thirds = part ? parseInt(part, 10) : 0;
+  return (Number.isFinite(innings) ? innings * 3 : 0) + (Number.isFinite(thirds) ? thirds : 0);
+}
+
+/**
+ * Map one athlete row of a stat group to a typed stat line for the sport
+ * @returns null for groups the model does not cover (e.g., NFL kicking)
+ */
+function toStatLine(sport: BoxScoreSport, group: any, row: StatRow): PlayerStatLine | null {
+  const groupName = String(group?.name ?? group?.type ?? '').toLowerCase();
+
+  switch (sport) {
+    case 'NBA': {
+      const [fgm, fga] = pair(row, 'fieldGoalsMade-fieldGoalsAttempted', 'FG');
+      const [fg3m, fg3a] = pair(row, 'threePointFieldGoalsMade-threePointFieldGoalsAttempted', '3PT');
+      const [ftm, fta] = pair(row, 'freeThrowsMade-freeThrowsAttempted', 'FT');
+      return {
+        kind: 'basketball',
+        minutes: num(row, 'minutes', 'MIN'),
+        pts: num(row, 'points', 'PTS'),
+        reb: num(row, 'rebounds', 'REB'),
+        oreb: num(row, 'offensiveRebounds', 'OREB'),
+        dreb: num(row, 'defensiveRebounds', 'DREB'),
+        ast: num(row, 'assists', 'AST'),
+        stl: num(row, 'steals', 'STL'),
+        blk: num(row, 'blocks', 'BLK'),
+        tov: num(row, 'turnovers', 'TO'),
+        pf: num(row, 'fouls', 'PF'),
+        plusMinus: num(row, 'plusMinus', '+/-'),
+        fgm, fga, fg3m, fg3a, ftm, fta,
+      };
+    }
+    case 'MLB': {
+      if (groupName === 'pitching') {
+        return {
+          kind: 'pitching',
+          outs: inningsToOuts(raw(row, ['fullInnings.partInnings', 'IP'])),
+          h: num(row, 'hits', 'H'),
+          r: num(row, 'runs', 'R'),
+          er: num(row, 'earnedRuns', 'ER'),
+          bb: num(row, 'walks', 'BB'),
+          so: num(row, 'strikeouts', 'K'),
+          hr: num(row, 'homeRuns', 'HR'),
+          pitches: optNum(row, 'pitches', 'PC'),
+          era: optNum(row, 'ERA'),
+        };
+      }
+      if (groupName === 'batting') {
+        return {
+          kind: 'batting',
+          ab: num(row, 'atBats', 'AB'),
+          r: num(row, 'runs', 'R'),
+          h: num(row, 'hits', 'H'),
+          rbi: num(row, 'RBIs', 'RBI'),
+          hr: num(row, 'homeRuns', 'HR'),
+          bb: num(row, 'walks', 'BB'),
+          so: num(row, 'strikeouts', 'K'),
+          avg: optNum(row, 'avg', 'AVG'),
+        };
+      }
+      return null;
+    }
+    case 'NHL': {
+      if (groupName === 'goalies' || raw(row, ['saves', 'SV']) !== undefined) {
+        return {
+          kind: 'goalie',
+          saves: num(row, 'saves', 'SV'),
+          shotsAgainst: num(row, 'shotsAgainst', 'SA'),
+          goalsAgainst: num(row, 'goalsAgainst', 'GA'),
+          savePct: optNum(row, 'savePct', 'SV%'),
+          toi: raw(row, ['timeOnIce', 'TOI']) ?? null,
+        };
+      }
+      const goals = num(row, 'goals', 'G');
+      const assists = num(row, 'assists', 'A');
+      return {
+        kind: 'skater',
+        goals,
+        assists,
+        points: goals + assists,
+        plusMinus: num(row, 'plusMinus', '+/-'),
+        shots: num(row, 'shotsTotal', 'S', 'SOG'),
+        hits: num(row, 'hits', 'HT'),
+        blocks: num(row, 'blockedShots', 'BS'),
+        pim: num(row, 'penaltyMinutes', 'PIM'),
+        toi: raw(row, ['timeOnIce', 'TOI']) ?? null,
+      };
+    }
+    case 'NFL': {
+      if (groupName === 'passing') {
+        const [completions, attempts] = pair(row, 'completions/passingAttempts', 'C/ATT');
+        const [sacks] = pair(row, 'sacks-sackYardsLost', 'SACKS');
+        return {
+          kind: 'passing',
+          completions,
+          attempts,
+          yards: num(row, 'passingYards', 'YDS'),
+          td: num(row, 'passingTouchdowns', 'TD'),
+          int: num(row, 'interceptions', 'INT'),
+          sacks,
+          rating: optNum(row, 'QBRating', 'RTG'),
+        };
+      }
+      if (groupName === 'rushing') {
+        return {
+          kind: 'rushing',
+          attempts: num(row, 'rushingAttempts', 'CAR'),
+          yards: num(row, 'rushingYards', 'YDS'),
+          td: num(row, 'rushingTouchdowns', 'TD'),
+          long: num(row, 'longRushing', 'LONG'),
+        };
+      }
+      if (groupName === 'receiving') {
+        return {
+          kind: 'receiving',
+          receptions: num(row, 'receptions', 'REC'),
+          targets: num(row, 'receivingTargets', 'TGTS'),
+          yards: num(row, 'receivingYards', 'YDS'),
+          td: num(row, 'receivingTouchdowns', 'TD'),
+          long: num(row, 'longReception', 'LONG'),
+        };
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Parse an ESPN summary payload into the sport-aware box score model
+ *
+ * @param sport - League the payload belongs to
+ * @param gameId - Game id to stamp on the result
+ * @param data - Parsed ESPN summary JSON
+ */
+export function parseEspnBoxScore(sport: BoxScoreSport, gameId: string, data: any): BoxScore {
+  const competition = data?.header?.competitions?.[0] ?? data?.competitions?.[0];
+  const competitors: any[] = Array.isArray(competition?.competitors) ? competition.competitors : [];
+  if (competitors.length < 2) throw new Error(`${sport}: ESPN summary missing competitors`);
+
+  const sideByEspnTeam = new Map<string, BoxScoreSide>();
+  const totals: Record<BoxScoreSide, BoxScoreTeamTotals> = { home: { pts: 0 }, away: { pts: 0 } };
+  competitors.forEach((c, i) => {
+    const side: BoxScoreSide = c?.homeAway === 'home' || c?.homeAway === 'away'
+      ? c.homeAway
+      : i === 0 ? 'away' : 'home';
+    const score = typeof c?.score === 'string' ? parseInt(c.score, 10) : Number(c?.score ?? 0);
+    if (c?.team?.id != null) sideByEspnTeam.set(String(c.team.id), side);
+    totals[side] = {
+      pts: Number.isFinite(score) ? score : 0,
+      teamId: c?.team?.abbreviation ? TeamMapper.mapTeam(String(c.team.abbreviation), sport) : undefined,
+    };
+  });
+
+  const sideOf = (team: any, fallback: BoxScoreSide): BoxScoreSide =>
+    (team?.id != null && sideByEspnTeam.get(String(team.id))) || fallback;
+
+  const teamBlocks: any[] = Array.isArray(data?.boxscore?.teams) ? data.boxscore.teams : [];
+  teamBlocks.forEach((block, i) => {
+    const side = block?.homeAway === 'home' || block?.homeAway === 'away'
+      ? (block.homeAway as BoxScoreSide)
+      : sideOf(block?.team, i === 0 ? 'away' : 'home');
+    const stats: Record<string, string> = {};
+    for (const stat of Array.isArray(block?.statistics) ? block.statistics : []) {
+      const name = stat?.name ?? stat?.label;
+      if (name && stat?.displayValue != null) stats[String(name)] = String(stat.displayValue);
+    }
+    totals[side].stats = stats;
+  });
+
+  const players: BoxScorePlayerLine[] = [];
+  const playerBlocks: any[] = Array.isArray(data?.boxscore?.players) ? data.boxscore.players : [];
+  playerBlocks.forEach((block, i) => {
+    const side = sideOf(block?.team, i === 0 ? 'away' : 'home');
+    for (const group of Array.isArray(block?.statistics) ? block.statistics : []) {
+      for (const entry of Array.isArray(group?.athletes) ? group.athletes : []) {
+        const athlete = entry?.athlete;
+        if (!athlete?.id || entry?.didNotPlay || !Array.isArray(entry?.stats) || entry.stats.length === 0) continue;
+
+        const stats = toStatLine(sport, group, buildRow(group, entry.stats));
+        if (!stats) continue;
+
+        players.push({
+          playerId: String(athlete.id),
+          name: String(athlete.displayName ?? athlete.shortName ?? athlete.id),
+          side,
+          teamId: totals[side].teamId,
+          position: athlete.position?.abbreviation ?? null,
+          starter: Boolean(entry.starter),
+          stats,
+        });
+      }
+    }
+  });
+
+  return {
+    gameId,
+    sport,
+    home: totals.home,
+    away: totals.away,
+    players,
+    updatedAt: new Date(),
+    source: 'ESPN API',
+  };
+}
+
+/**
+ * Resolve the ESPN event id behind one of our game ids
+ *
+ * Ids that embed the event id (e.g., MLB_ESPN_401581234) are used as-is;
+ * stable ids (`${sport}_${source}_YYYYMMDD_AWAY_HOME`) are looked up on
+ * that day's ESPN scoreboard by team codes.
+ */
+export async function resolveEspnEventId(
+  sport: BoxScoreSport,
+  gameId: string,
+  fetcher: Fetcher = ethicalFetcher
+): Promise<string> {
+  const direct = gameId.match(/(\d{9,})/);
+  if (direct) return direct[1];
+
+  const stable = gameId.match(/_(\d{8})_([A-Z0-9]+)_([A-Z0-9]+)$/);
+  if (!stable) {
+    throw new Error(`${sport}: cannot resolve an ESPN event id from game id ${gameId}`);
+  }
+  const [, date, awayCode, homeCode] = stable;
+
+  const raw = await fetcher.fetch(`${ESPN_API_BASE}/${ESPN_SPORT_PATHS[sport]}/scoreboard?dates=${date}`);
+  const data = JSON.parse(raw);
+  const codeOf = (c: any) =>
+    TeamMapper.getCodeFromId(TeamMapper.mapTeam(String(c?.team?.abbreviation ?? c?.team?.displayName ?? ''), sport));
+
+  for (const event of Array.isArray(data?.events) ? data.events : []) {
+    const competitors: any[] = event?.competitions?.[0]?.competitors ?? [];
+    const home = competitors.find((c) => c?.homeAway === 'home');
+    const away = competitors.find((c) => c?.homeAway === 'away');
+    if (home && away && codeOf(home) === homeCode && codeOf(away) === awayCode && event?.id) {
+      return String(event.id);
+    }
+  }
+
+  throw new Error(`${sport}: no ESPN event found for game id ${gameId}`);
+}
+
+/**
+ * Fetch the ESPN summary payload behind one of our game ids
+ * @returns The resolved event id, the game id to stamp on results and the parsed payload
+ */
+export async function fetchEspnSummary(
+  sport: BoxScoreSport,
+  gameId: string,
+  fetcher: Fetcher = ethicalFetcher
+): Promise<{ eventId: string; gameId: string; data: any }> {
+  const eventId = await resolveEspnEventId(sport, gameId, fetcher);
+  const raw = await fetcher.fetch(`${ESPN_API_BASE}/${ESPN_SPORT_PATHS[sport]}/summary?event=${eventId}`);
+  return {
+    eventId,
+    gameId: /^\d+$/.test(gameId) ? `${sport}_ESPN_${eventId}` : gameId,
+    data: JSON.parse(raw),
+  };
+}
+
+/**
+ * Fetch and parse the ESPN summary box score for one of our game ids
+ */
+export async function fetchEspnBoxScore(
+  sport: BoxScoreSport,
+  gameId: string,
+  fetcher: Fetcher = ethicalFetcher
+): Promise<BoxScore> {
+  const summary = await fetchEspnSummary(sport, gameId, fetcher);
+  const eventId = summary.eventId;
+  const boxScore = parseEspnBoxScore(sport, summary.gameId, summary.data);
+
+  logger.debug({ sport, gameId, eventId, players: boxScore.players?.length ?? 0 }, 'ESPN box score parsed');
+  return boxScore;
+}
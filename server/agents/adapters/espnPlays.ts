@@ -0,0 +1,130 @@
+import type { BoxScoreSport, GamePlay } from '../types';
+import { ethicalFetcher } from '../../utils/scraping/fetcher';
+import type { EthicalFetcher } from '../../utils/scraping/fetcher';
+import { TeamMapper } from '../../utils/scraping/teamMapper';
+import { logger } from '../../logger';
+import { fetchEspnSummary } from './espnBoxScore';
+
+/**
+ * ESPN play-by-play support shared by the league adapters
+ *
+ * The summary payload lists plays at the top level (`plays[]`) for NBA, NHL
+ * and MLB, and inside drives (`drives.previous[].plays[]`,
+ * `drives.current.plays[]`) for NFL. Each play carries a `sequenceNumber`
+ * that orders it within the game.
+ */
+
+type Fetcher = Pick<EthicalFetcher, 'fetch'>;
+
+const PERIOD_PREFIX: Record<BoxScoreSport, string> = {
+  NBA: 'Q',
+  NFL: 'Q',
+  NHL: 'P',
+  MLB: '',
+};
+
+function toNumber(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+function formatPeriod(sport: BoxScoreSport, period: any): string | null {
+  if (!period) return null;
+  // MLB reports half-innings as "Top 5th"; other leagues only number periods
+  if (sport === 'MLB' && period.displayValue) return String(period.displayValue);
+  const number = toNumber(period.number);
+  return number != null ? `${PERIOD_PREFIX[sport]}${number}` : period.displayValue ?? null;
+}
+
+/**
+ * Flatten the summary's plays in game order, carrying NFL drive teams onto their plays
+ */
+function collectPlays(data: any): Array<{ play: any; teamId?: string }> {
+  if (Array.isArray(data?.plays)) {
+    return data.plays.map((play: any) => ({ play }));
+  }
+
+  const drives: any[] = [
+    ...(Array.isArray(data?.drives?.previous) ? data.drives.previous : []),
+    ...(data?.drives?.current ? [data.drives.current] : []),
+  ];
+  const out: Array<{ play: any; teamId?: string }> = [];
+  const seen = new Set<string>();
+  for (const drive of drives) {
+    for (const play of Array.isArray(drive?.plays) ? drive.plays : []) {
+      // The current drive repeats in `previous` once it ends
+      const key = String(play?.id ?? play?.sequenceNumber ?? '');
+      if (key && seen.has(key)) continue;
+      if (key) seen.add(key);
+      out.push({ play, teamId: drive?.team?.id != null ? String(drive.team.id) : undefined });
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse the plays of an ESPN summary payload
+ *
+ * @param sport - League the payload belongs to
+ * @param gameId - Game id to stamp on each play
+ * @param data - Parsed ESPN summary JSON
+ * @param sinceSequence - Only return plays after this sequence (default: all)
+ * @returns Plays ordered by sequence
+ */
+export function parseEspnPlays(sport: BoxScoreSport, gameId: string, data: any, sinceSequence: number = 0): GamePlay[] {
+  // ESPN team id -> our team id, from the header competitors
+  const competitors: any[] = data?.header?.competitions?.[0]?.competitors ?? data?.competitions?.[0]?.competitors ?? [];
+  const teamIds = new Map<string, string>();
+  for (const c of competitors) {
+    if (c?.team?.id != null && c?.team?.abbreviation) {
+      teamIds.set(String(c.team.id), TeamMapper.mapTeam(String(c.team.abbreviation), sport));
+    }
+  }
+
+  const plays: GamePlay[] = [];
+  collectPlays(data).forEach(({ play, teamId }, index) => {
+    const description = String(play?.text ?? play?.shortText ?? play?.type?.text ?? '').trim();
+    if (!description) return;
+
+    const sequence = toNumber(play?.sequenceNumber) ?? index + 1;
+    if (sequence <= sinceSequence) return;
+
+    const espnTeamId = play?.team?.id != null ? String(play.team.id) : teamId;
+    const wallclock = play?.wallclock ? new Date(play.wallclock) : null;
+
+    plays.push({
+      gameId,
+      sequence,
+      period: formatPeriod(sport, play?.period),
+      clock: play?.clock?.displayValue ?? null,
+      teamId: espnTeamId ? teamIds.get(espnTeamId) ?? null : null,
+      playType: play?.type?.text ?? null,
+      description,
+      scoringPlay: Boolean(play?.scoringPlay),
+      scoreValue: toNumber(play?.scoreValue) ?? undefined,
+      homePts: toNumber(play?.homeScore),
+      awayPts: toNumber(play?.awayScore),
+      occurredAt: wallclock && !isNaN(wallclock.getTime()) ? wallclock : null,
+      source: 'ESPN API',
+    });
+  });
+
+  return plays.sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Fetch and parse ESPN play-by-play for one of our game ids
+ */
+export async function fetchEspnPlays(
+  sport: BoxScoreSport,
+  gameId: string,
+  sinceSequence: number = 0,
+  fetcher: Fetcher = ethicalFetcher
+): Promise<GamePlay[]> {
+  const summary = await fetchEspnSummary(sport, gameId, fetcher);
+  const plays = parseEspnPlays(sport, summary.gameId, summary.data, sinceSequence);
+
+  logger.debug({ sport, gameId, eventId: summary.eventId, sinceSequence, plays: plays.length }, 'ESPN plays parsed');
+  return plays;
+}
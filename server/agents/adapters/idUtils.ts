@@ -1,9 +1,49 @@
 import { TeamMapper } from '../../utils/scraping/teamMapper';
 
+// Time zone whose calendar day a league's games are scheduled on. North American
+// games all start on the same Pacific calendar day at their venue, so a 7:30 PM PT
+// tip-off (02:30 UTC the next day) keeps its venue-local date.
+const LEAGUE_SCHEDULE_TIME_ZONES: Record<string, string> = {
+  NBA: 'America/Los_Angeles',
+  NFL: 'America/Los_Angeles',
+  NHL: 'America/Los_Angeles',
+  MLB: 'America/Los_Angeles',
+  NCAAF: 'America/Los_Angeles',
+  NCAAB: 'America/Los_Angeles',
+  MLS: 'America/Los_Angeles',
+  EPL: 'Europe/London',
+  UCL: 'Europe/London',
+  LALIGA: 'Europe/London',
+  BUNDESLIGA: 'Europe/London',
+  SERIEA: 'Europe/London',
+};
+
+/**
+ * Scheduled date of a game as YYYYMMDD, in the league's schedule time zone (UTC for unknown leagues)
+ */
+export function formatScheduleDate(sport: string, start: Date): string {
+  const timeZone = LEAGUE_SCHEDULE_TIME_ZONES[sport.toUpperCase()] ?? 'UTC';
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(start);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+/**
+ * Source-independent key for a game: league, schedule date and team pair.
+ * Format: `${sport}_${YYYYMMDD}_${CODE}_${CODE}` with team codes sorted, so sources
+ * that disagree on home/away at a neutral site still agree on the key.
+ */
+export function buildGameKey(sport: string, awayTeamId: string, homeTeamId: string, start: Date): string {
+  const codes = [TeamMapper.getCodeFromId(awayTeamId), TeamMapper.getCodeFromId(homeTeamId)].sort();
+  return `${sport.toUpperCase()}_${formatScheduleDate(sport, start)}_${codes.join('_')}`;
+}
+
 /**
  * Build a stable gameId using sport, source, team codes, and optional scheduled start date.
  * Format: `${sport}_${source}_${YYYYMMDD?}_${AWAY}_${HOME}`
  * - Includes `YYYYMMDD_` only when a reliable scheduled start is available
+ * - The date is the league's schedule date (see formatScheduleDate), not the server's local date
  */
 export function buildStableGameId(
   sport: string,
@@ -15,13 +55,6 @@ export function buildStableGameId(
   const awayCode = TeamMapper.getCodeFromId(awayTeamId);
   const homeCode = TeamMapper.getCodeFromId(homeTeamId);
 
-  const datePart = scheduledStart ? formatDateYYYYMMDD(scheduledStart) + '_' : '';
+  const datePart = scheduledStart ? formatScheduleDate(sport, scheduledStart) + '_' : '';
   return `${sport}_${source}_${datePart}${awayCode}_${homeCode}`;
 }
-
-function formatDateYYYYMMDD(d: Date): string {
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${year}${month}${day}`;
-}
\ No newline at end of file
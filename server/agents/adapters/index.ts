@@ -10,3 +10,7 @@ export { NBAAdapter } from './nbaAdapter';
 export { NFLAdapter } from './nflAdapter';
 export { MLBAdapter } from './mlbAdapter';
 export { NHLAdapter } from './nhlAdapter';
+export { SoccerAdapter } from './soccerAdapter';
+export { CollegeAdapter } from './collegeAdapter';
+export { ReplayScoreSource } from './replayScoreSource';
+export { GameSimulator, SimulatedScoreSource, gameSimulator } from './simulatedScoreSource';
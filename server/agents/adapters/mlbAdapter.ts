@@ -1,10 +1,13 @@
-import type { IScoreSource, GameScore, ScheduleGame, BoxScore } from '../types';
+import type { IScoreSource, GameScore, ScheduleGame, BoxScore, GamePlay } from '../types';
 import type { InsertGame } from '@shared/schema';
 import { ethicalFetcher } from '../../utils/scraping/fetcher';
 import { HTMLParser } from '../../utils/scraping/parser';
 import { TeamMapper } from '../../utils/scraping/teamMapper';
 import { logger } from '../../logger';
 import { buildStableGameId } from './idUtils';
+import { parseStatusText, parseEspnStatus, type ResolvedStatus } from './statusUtils';
+import { fetchEspnBoxScore } from './espnBoxScore';
+import { fetchEspnPlays } from './espnPlays';
 
 /**
  * MLBAdapter
@@ -53,6 +56,8 @@ export class MLBAdapter implements IScoreSource {
         status: score.status,
         period: score.period || null,
         timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
         startTime: score.startTime,
       }));
     } catch (err) {
@@ -121,9 +126,30 @@ export class MLBAdapter implements IScoreSource {
    * @returns BoxScore object with team totals
    */
   async fetchBoxScore(gameId: string): Promise<BoxScore> {
-    // TODO: Implement box score fetching in future iteration
-    logger.warn('MLB: fetchBoxScore not implemented yet');
-    throw new Error('MLB: fetchBoxScore not implemented yet');
+    logger.info({ gameId }, 'MLB: Fetching box score');
+
+    try {
+      return await fetchEspnBoxScore(this.sport, gameId);
+    } catch (err) {
+      logger.error({ err, gameId }, 'MLB: ESPN box score fetch failed');
+      throw new Error('MLB: fetchBoxScore failed for game ' + gameId);
+    }
+  }
+
+  /**
+   * Fetch play-by-play from the ESPN summary
+   *
+   * @param gameId - Game id (embedding the ESPN event id, or a stable id)
+   * @param sinceSequence - Only return plays after this sequence
+   * @returns Plays ordered by sequence
+   */
+  async fetchPlays(gameId: string, sinceSequence: number = 0): Promise<GamePlay[]> {
+    try {
+      return await fetchEspnPlays(this.sport, gameId, sinceSequence);
+    } catch (err) {
+      logger.error({ err, gameId }, 'MLB: ESPN play-by-play fetch failed');
+      throw new Error('MLB: fetchPlays failed for game ' + gameId);
+    }
   }
 
   /**
@@ -214,11 +240,7 @@ export class MLBAdapter implements IScoreSource {
           const awayScore = parseInt(awayComp.score ?? '0', 10) || 0;
 
           const statusDetail = competition?.status?.type?.detail || event?.status?.type?.detail || '';
-          const statusState = (competition?.status?.type?.state || event?.status?.type?.state || '').toLowerCase();
-          const status: 'scheduled' | 'in_progress' | 'final' =
-            statusState === 'pre' ? 'scheduled' :
-            statusState === 'in' ? 'in_progress' :
-            statusState === 'post' ? 'final' : this.mapStatus(statusDetail);
+          const resolvedStatus = parseEspnStatus(competition?.status ?? event?.status, 9, true);
 
           const inning = this.extractInning(statusDetail);
           const substate = this.extractSubstate(statusDetail);
@@ -241,7 +263,7 @@ export class MLBAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status,
+            ...resolvedStatus,
             period: inning,
             timeRemaining,
             startTime,
@@ -307,7 +329,7 @@ export class MLBAdapter implements IScoreSource {
               awayTeamId,
               homePts: homeScore,
               awayPts: awayScore,
-              status: this.mapStatus(statusText),
+              ...this.resolveStatus(statusText),
               period: inning,
               timeRemaining: substate ?? (outs ? outs : undefined),
               startTime: scheduledStart || new Date(),
@@ -412,7 +434,7 @@ export class MLBAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractInning(statusText),
             timeRemaining: this.extractOuts(statusText),
             startTime: scheduledStart || new Date(),
@@ -468,6 +490,15 @@ export class MLBAdapter implements IScoreSource {
     }
   }
 
+  /**
+   * Resolve status text to a status with sub-state and reason. Postponements,
+   * delays, suspensions and final details (overtime, shootout, extra innings)
+   * come from the shared parser; live vs scheduled from mapStatus.
+   */
+  private resolveStatus(statusText: string): ResolvedStatus {
+    return parseStatusText(statusText, 9, true) ?? { status: this.mapStatus(statusText) };
+  }
+
   /**
    * Map status text to standardized status enum
    * MLB-specific: handles innings (1-9+), top/bottom, extra innings
@@ -478,21 +509,11 @@ export class MLBAdapter implements IScoreSource {
   private mapStatus(statusText: string): 'scheduled' | 'in_progress' | 'final' {
     const lower = statusText.toLowerCase();
 
-    // Explicit postponed handling (treated as not in-progress)
-    if (lower.includes('postponed') || lower.includes('ppd')) {
-      return 'scheduled';
-    }
-
     // Final status indicators, including extra innings formats like F/10
     if (lower.includes('final') || lower.includes('f/')) {
       return 'final';
     }
 
-    // Delays (weather delay, rain delay, etc.) count as in-progress but paused
-    if (lower.includes('delay') || lower.includes('delayed') || lower.includes('rain delay')) {
-      return 'in_progress';
-    }
-
     // In-progress indicators: inning info, top/bot/mid/end, or ESPN/CBS LIVE markers
     if (
       lower.includes('top') ||
@@ -1,10 +1,13 @@
-import type { IScoreSource, GameScore, ScheduleGame, BoxScore } from '../types';
+import type { IScoreSource, GameScore, ScheduleGame, BoxScore, GamePlay } from '../types';
 import type { InsertGame } from '@shared/schema';
 import { ethicalFetcher } from '../../utils/scraping/fetcher';
 import { HTMLParser } from '../../utils/scraping/parser';
 import { TeamMapper } from '../../utils/scraping/teamMapper';
 import { logger } from '../../logger';
 import { buildStableGameId } from './idUtils';
+import { parseStatusText, type ResolvedStatus } from './statusUtils';
+import { fetchEspnBoxScore } from './espnBoxScore';
+import { fetchEspnPlays } from './espnPlays';
 
 /**
  * NBAAdapter
@@ -50,6 +53,8 @@ export class NBAAdapter implements IScoreSource {
         status: score.status,
         period: score.period || null,
         timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
         startTime: score.startTime,
       }));
     } catch (err) {
@@ -149,16 +154,39 @@ export class NBAAdapter implements IScoreSource {
    * @returns BoxScore object with team totals
    */
   async fetchBoxScore(gameId: string): Promise<BoxScore> {
-    // Safe-default behavior until implementation per 1.4.5 control flow
-    // Return an empty BoxScore structure with zeros to comply with contract
-    logger.warn({ gameId }, 'NBA: fetchBoxScore not implemented yet, returning safe defaults');
-    return {
-      gameId,
-      home: { pts: 0 },
-      away: { pts: 0 },
-      updatedAt: new Date(),
-      source: 'unavailable',
-    };
+    logger.info({ gameId }, 'NBA: Fetching box score');
+
+    try {
+      return await fetchEspnBoxScore(this.sport, gameId);
+    } catch (err) {
+      // Return an empty BoxScore structure with zeros to comply with contract
+      logger.warn({ err, gameId }, 'NBA: ESPN box score fetch failed, returning safe defaults');
+      return {
+        gameId,
+        sport: this.sport,
+        home: { pts: 0 },
+        away: { pts: 0 },
+        players: [],
+        updatedAt: new Date(),
+        source: 'unavailable',
+      };
+    }
+  }
+
+  /**
+   * Fetch play-by-play from the ESPN summary
+   *
+   * @param gameId - Game id (embedding the ESPN event id, or a stable id)
+   * @param sinceSequence - Only return plays after this sequence
+   * @returns Plays ordered by sequence
+   */
+  async fetchPlays(gameId: string, sinceSequence: number = 0): Promise<GamePlay[]> {
+    try {
+      return await fetchEspnPlays(this.sport, gameId, sinceSequence);
+    } catch (err) {
+      logger.error({ err, gameId }, 'NBA: ESPN play-by-play fetch failed');
+      throw new Error('NBA: fetchPlays failed for game ' + gameId);
+    }
   }
 
   /**
@@ -244,7 +272,7 @@ export class NBAAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -308,7 +336,7 @@ export class NBAAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -326,6 +354,15 @@ export class NBAAdapter implements IScoreSource {
     }
   }
 
+  /**
+   * Resolve status text to a status with sub-state and reason. Postponements,
+   * delays, suspensions and final details (overtime, shootout, extra innings)
+   * come from the shared parser; live vs scheduled from mapStatus.
+   */
+  private resolveStatus(statusText: string): ResolvedStatus {
+    return parseStatusText(statusText, 4) ?? { status: this.mapStatus(statusText) };
+  }
+
   /**
    * Map status text to standardized status enum
    * 
@@ -1,10 +1,13 @@
-import type { IScoreSource, GameScore, ScheduleGame, BoxScore } from '../types';
+import type { IScoreSource, GameScore, ScheduleGame, BoxScore, GamePlay } from '../types';
 import type { InsertGame } from '@shared/schema';
 import { ethicalFetcher } from '../../utils/scraping/fetcher';
 import { HTMLParser } from '../../utils/scraping/parser';
 import { TeamMapper } from '../../utils/scraping/teamMapper';
 import { logger } from '../../logger';
 import { buildStableGameId } from './idUtils';
+import { parseStatusText, type ResolvedStatus } from './statusUtils';
+import { fetchEspnBoxScore } from './espnBoxScore';
+import { fetchEspnPlays } from './espnPlays';
 
 /**
  * NFLAdapter
@@ -51,6 +54,8 @@ export class NFLAdapter implements IScoreSource {
         status: score.status,
         period: score.period || null,
         timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
         startTime: score.startTime,
       }));
     } catch (err) {
@@ -119,9 +124,30 @@ export class NFLAdapter implements IScoreSource {
    * @returns BoxScore object with team totals
    */
   async fetchBoxScore(gameId: string): Promise<BoxScore> {
-    // TODO: Implement box score fetching in future iteration
-    logger.warn('NFL: fetchBoxScore not implemented yet');
-    throw new Error('NFL: fetchBoxScore not implemented yet');
+    logger.info({ gameId }, 'NFL: Fetching box score');
+
+    try {
+      return await fetchEspnBoxScore(this.sport, gameId);
+    } catch (err) {
+      logger.error({ err, gameId }, 'NFL: ESPN box score fetch failed');
+      throw new Error('NFL: fetchBoxScore failed for game ' + gameId);
+    }
+  }
+
+  /**
+   * Fetch play-by-play from the ESPN summary
+   *
+   * @param gameId - Game id (embedding the ESPN event id, or a stable id)
+   * @param sinceSequence - Only return plays after this sequence
+   * @returns Plays ordered by sequence
+   */
+  async fetchPlays(gameId: string, sinceSequence: number = 0): Promise<GamePlay[]> {
+    try {
+      return await fetchEspnPlays(this.sport, gameId, sinceSequence);
+    } catch (err) {
+      logger.error({ err, gameId }, 'NFL: ESPN play-by-play fetch failed');
+      throw new Error('NFL: fetchPlays failed for game ' + gameId);
+    }
   }
 
   /**
@@ -207,7 +233,7 @@ export class NFLAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -271,7 +297,7 @@ export class NFLAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -289,6 +315,15 @@ export class NFLAdapter implements IScoreSource {
     }
   }
 
+  /**
+   * Resolve status text to a status with sub-state and reason. Postponements,
+   * delays, suspensions and final details (overtime, shootout, extra innings)
+   * come from the shared parser; live vs scheduled from mapStatus.
+   */
+  private resolveStatus(statusText: string): ResolvedStatus {
+    return parseStatusText(statusText, 4) ?? { status: this.mapStatus(statusText) };
+  }
+
   /**
    * Map status text to standardized status enum
    * NFL-specific: handles quarters (Q1-Q4), overtime (OT), and halftime
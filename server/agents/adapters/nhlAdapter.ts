@@ -1,10 +1,13 @@
-import type { IScoreSource, GameScore, ScheduleGame, BoxScore } from '../types';
+import type { IScoreSource, GameScore, ScheduleGame, BoxScore, GamePlay } from '../types';
 import type { InsertGame } from '@shared/schema';
 import { ethicalFetcher } from '../../utils/scraping/fetcher';
 import { HTMLParser } from '../../utils/scraping/parser';
 import { TeamMapper } from '../../utils/scraping/teamMapper';
 import { logger } from '../../logger';
 import { buildStableGameId } from './idUtils';
+import { parseStatusText, parseEspnStatus, type ResolvedStatus } from './statusUtils';
+import { fetchEspnBoxScore } from './espnBoxScore';
+import { fetchEspnPlays } from './espnPlays';
 
 /**
  * NHLAdapter
@@ -52,6 +55,8 @@ export class NHLAdapter implements IScoreSource {
         status: score.status,
         period: score.period || null,
         timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
         startTime: score.startTime,
       }));
     } catch (err) {
@@ -227,7 +232,7 @@ export class NHLAdapter implements IScoreSource {
                 homeTeamId,
                 awayTeamId,
                 startTime: this.extractScheduledStart(statusText) || new Date(cursor),
-                status: this.mapStatus(statusText),
+                ...this.resolveStatus(statusText),
                 source: 'ESPN.com',
               });
             } catch (err) {
@@ -274,28 +279,9 @@ export class NHLAdapter implements IScoreSource {
     }
     const eventId = idMatch[1];
 
-    // Primary: ESPN summary JSON
+    // Primary: ESPN summary JSON with skater and goalie lines
     try {
-      const raw = await ethicalFetcher.fetch(`https://site.api.espn.com/apis/v2/sports/hockey/nhl/summary?event=${eventId}`);
-      const data = JSON.parse(raw);
-
-      const competition = Array.isArray(data?.competitions) ? data.competitions[0] : undefined;
-      const competitors = Array.isArray(competition?.competitors) ? competition.competitors : [];
-      if (competitors.length < 2) throw new Error('NHL: ESPN summary missing competitors');
-
-      const away = competitors.find((c: any) => c.homeAway === 'away') || competitors[0];
-      const home = competitors.find((c: any) => c.homeAway === 'home') || competitors[1];
-
-      const awayScore = typeof away?.score === 'string' ? parseInt(away.score, 10) : (away?.score || 0);
-      const homeScore = typeof home?.score === 'string' ? parseInt(home.score, 10) : (home?.score || 0);
-
-      return {
-        gameId: `NHL_ESPN_${eventId}`,
-        home: { pts: Number.isFinite(homeScore) ? homeScore : 0 },
-        away: { pts: Number.isFinite(awayScore) ? awayScore : 0 },
-        updatedAt: new Date(),
-        source: 'ESPN API',
-      };
+      return await fetchEspnBoxScore(this.sport, `NHL_ESPN_${eventId}`);
     } catch (err) {
       logger.warn({ err, eventId }, 'NHL: ESPN summary fetch failed, trying DOM fallback');
     }
@@ -316,6 +302,7 @@ export class NHLAdapter implements IScoreSource {
 
       return {
         gameId: `NHL_ESPN_${eventId}`,
+        sport: this.sport,
         home: { pts: Number.isFinite(homeScore) ? homeScore : 0 },
         away: { pts: Number.isFinite(awayScore) ? awayScore : 0 },
         updatedAt: new Date(),
@@ -327,6 +314,22 @@ export class NHLAdapter implements IScoreSource {
     }
   }
 
+  /**
+   * Fetch play-by-play from the ESPN summary
+   *
+   * @param gameId - Game id (embedding the ESPN event id, or a stable id)
+   * @param sinceSequence - Only return plays after this sequence
+   * @returns Plays ordered by sequence
+   */
+  async fetchPlays(gameId: string, sinceSequence: number = 0): Promise<GamePlay[]> {
+    try {
+      return await fetchEspnPlays(this.sport, gameId, sinceSequence);
+    } catch (err) {
+      logger.error({ err, gameId }, 'NHL: ESPN play-by-play fetch failed');
+      throw new Error('NHL: fetchPlays failed for game ' + gameId);
+    }
+  }
+
   /**
    * Fetch featured games for league overview (no team filtering)
    * 
@@ -410,11 +413,7 @@ export class NHLAdapter implements IScoreSource {
           const awayScore = Number(awayComp.score ?? 0) || 0;
 
           const statusDetail = competition?.status?.type?.detail || event?.status?.type?.detail || '';
-          const statusState = (competition?.status?.type?.state || event?.status?.type?.state || '').toLowerCase();
-          const status: 'scheduled' | 'in_progress' | 'final' =
-            statusState === 'pre' ? 'scheduled' :
-            statusState === 'in' ? 'in_progress' :
-            statusState === 'post' ? 'final' : this.mapStatus(statusDetail);
+          const resolvedStatus = parseEspnStatus(competition?.status ?? event?.status, 3);
 
           const period = this.extractPeriod(statusDetail);
           const timeRemaining = this.extractTimeRemaining(statusDetail);
@@ -438,7 +437,7 @@ export class NHLAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status,
+            ...resolvedStatus,
             period,
             timeRemaining,
             startTime,
@@ -517,7 +516,7 @@ export class NHLAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -605,7 +604,7 @@ export class NHLAdapter implements IScoreSource {
             awayTeamId,
             homePts: homeScore,
             awayPts: awayScore,
-            status: this.mapStatus(statusText),
+            ...this.resolveStatus(statusText),
             period: this.extractPeriod(statusText),
             timeRemaining: this.extractTimeRemaining(statusText),
             startTime: scheduledStart || new Date(),
@@ -633,6 +632,15 @@ export class NHLAdapter implements IScoreSource {
     }
   }
 
+  /**
+   * Resolve status text to a status with sub-state and reason. Postponements,
+   * delays, suspensions and final details (overtime, shootout, extra innings)
+   * come from the shared parser; live vs scheduled from mapStatus.
+   */
+  private resolveStatus(statusText: string): ResolvedStatus {
+    return parseStatusText(statusText, 3) ?? { status: this.mapStatus(statusText) };
+  }
+
   /**
    * Map status text to standardized status enum
    * NHL-specific: handles 3 periods, intermissions, overtime, shootout
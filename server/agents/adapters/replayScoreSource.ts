@@ -0,0 +1,129 @@
+import type { IScoreSource } from '../types';
+import type { InsertGame } from '@shared/schema';
+import { ethicalFetcher, DEFAULT_REPLAY_IGNORE_PARAMS } from '../../utils/scraping/fetcher';
+import { FixtureStore } from '../../utils/scraping/fixtureStore';
+import { SportAdapterFactory } from './sportAdapterFactory';
+import { config } from '../../config';
+import { logger } from '../../logger';
+
+export interface ReplayScoreSourceOptions {
+  dir?: string; // recorded fixtures (default: SCRAPER_FIXTURE_DIR)
+  speed?: number; // recorded time per unit of wall time; 60 replays an hour-long game in a minute (default: 1)
+  ignoreParams?: string[]; // query params to ignore when matching URLs (default: dates and date)
+  source?: IScoreSource; // adapter that parses the replayed responses (default: the factory adapter for the sport)
+  now?: () => number; // wall clock in ms, injectable for tests
+}
+
+/**
+ * ReplayScoreSource
+ *
+ * Replays a recorded game timeline through a real sport adapter. Responses
+ * captured with SCRAPER_FIXTURE_MODE=record are served by URL, and each URL
+ * returns the response that was current at the replay clock, so scores,
+ * periods and statuses change the way they did live, at the chosen speed.
+ *
+ * Replay switches the shared ethicalFetcher into replay mode while running;
+ * stop() puts it back in the configured mode.
+ *
+ * Usage:
+ *   const source = new ReplayScoreSource('NHL', { dir: 'fixtures/bos-tor', speed: 30 });
+ *   const agent = new ScoresAgent(source);
+ *   await agent.runOnce({ teamIds: ['NHL_BOS'], sport: 'NHL', mode: 'live' });
+ */
+export class ReplayScoreSource implements IScoreSource {
+  fetchLive?: IScoreSource['fetchLive'];
+  fetchSchedule?: IScoreSource['fetchSchedule'];
+  fetchBoxScore?: IScoreSource['fetchBoxScore'];
+  fetchPlays?: IScoreSource['fetchPlays'];
+  fetchFeaturedGames?: IScoreSource['fetchFeaturedGames'];
+  fetchRankings?: IScoreSource['fetchRankings'];
+
+  private readonly source: IScoreSource;
+  private readonly store: FixtureStore;
+  private readonly ignoreParams: string[];
+  private readonly now: () => number;
+  private speed: number;
+  private timeline: { start: Date; end: Date } | null = null;
+  // Wall time and recorded time at the last start or speed change
+  private anchor: { wall: number; recorded: number } | null = null;
+
+  constructor(sport: string, options: ReplayScoreSourceOptions = {}) {
+    this.source = options.source ?? SportAdapterFactory.getAdapter(sport);
+    this.store = new FixtureStore(options.dir ?? config.scraperFixtureDir);
+    this.speed = options.speed ?? 1;
+    this.ignoreParams = options.ignoreParams ?? DEFAULT_REPLAY_IGNORE_PARAMS;
+    this.now = options.now ?? Date.now;
+
+    const source = this.source;
+    if (source.fetchLive) this.fetchLive = (teamCodes) => this.replaying(() => source.fetchLive!(teamCodes));
+    if (source.fetchSchedule) this.fetchSchedule = (teamCodes, startDate, endDate) => this.replaying(() => source.fetchSchedule!(teamCodes, startDate, endDate));
+    if (source.fetchBoxScore) this.fetchBoxScore = (gameId) => this.replaying(() => source.fetchBoxScore!(gameId));
+    if (source.fetchPlays) this.fetchPlays = (gameId, sinceSequence) => this.replaying(() => source.fetchPlays!(gameId, sinceSequence));
+    if (source.fetchFeaturedGames) this.fetchFeaturedGames = (sport, limit) => this.replaying(() => source.fetchFeaturedGames!(sport, limit));
+    if (source.fetchRankings) this.fetchRankings = (poll) => this.replaying(() => source.fetchRankings!(poll));
+  }
+
+  /**
+   * Start (or restart) the replay from the beginning of the recording
+   * @throws Error - If the fixture directory has no recordings
+   */
+  start(): void {
+    this.store.reload();
+    this.timeline = this.store.timeline();
+    if (!this.timeline) {
+      throw new Error(`No recorded fixtures in ${this.store.getDir()}`);
+    }
+    this.anchor = { wall: this.now(), recorded: this.timeline.start.getTime() };
+    ethicalFetcher.setFixtureMode('replay', {
+      dir: this.store.getDir(),
+      clock: () => this.currentTime(),
+      ignoreParams: this.ignoreParams,
+    });
+    logger.info({ dir: this.store.getDir(), speed: this.speed, ...this.timeline }, 'Replay: started');
+  }
+
+  /**
+   * Stop replaying and return ethicalFetcher to the configured fixture mode
+   */
+  stop(): void {
+    this.anchor = null;
+    ethicalFetcher.setFixtureMode(config.scraperFixtureMode);
+  }
+
+  /**
+   * Change the replay speed without jumping on the timeline
+   * @param speed Recorded time per unit of wall time
+   */
+  setSpeed(speed: number): void {
+    if (this.anchor) {
+      this.anchor = { wall: this.now(), recorded: this.currentTime().getTime() };
+    }
+    this.speed = speed;
+  }
+
+  /**
+   * Position on the recorded timeline, clamped to its end
+   */
+  currentTime(): Date {
+    if (!this.anchor || !this.timeline) return this.timeline?.start ?? new Date(this.now());
+    const recorded = this.anchor.recorded + (this.now() - this.anchor.wall) * this.speed;
+    return new Date(Math.min(recorded, this.timeline.end.getTime()));
+  }
+
+  /**
+   * True once the replay clock has reached the last recorded response
+   */
+  isFinished(): boolean {
+    return !!this.timeline && this.currentTime().getTime() >= this.timeline.end.getTime();
+  }
+
+  async fetchRecentGames(options: { teamIds?: string[]; limit?: number }): Promise<InsertGame[]> {
+    return this.replaying(() => this.source.fetchRecentGames(options));
+  }
+
+  // Starts the replay on first use so a source can be handed straight to ScoresAgent
+  private async replaying<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.anchor) this.start();
+    return fn();
+  }
+}
@@ -0,0 +1,557 @@
+import type { IScoreSource, GameScore, ScheduleGame, SoccerLeague, SoccerMatchState } from '../types';
+import type { InsertGame, GameStatusDetail } from '@shared/schema';
+import { UserTeamScoresError, ValidationError } from '../../types/errors';
+import { logger } from '../../logger';
+import { FEATURED_STATUS_ORDER } from './statusUtils';
+
+/**
+ * How a sport's games unfold in the simulator. Periods are half-innings for
+ * baseball, so "overtime" there means extra innings.
+ */
+interface SportRules {
+  periods: number; // regulation periods
+  periodSeconds: number; // game seconds per regulation period
+  overtimeSeconds: number; // game seconds per overtime period
+  overtimes: number; // overtime periods before a tie stands; 0 means ties stand at the end of regulation
+  suddenDeath: boolean; // the first score in overtime ends the game
+  shootout: boolean; // a tie after the last overtime is settled by a shootout
+  secondsPerScore: number; // mean game seconds between scoring plays
+  scoring: Array<[points: number, weight: number]>;
+  clock: 'countdown' | 'elapsed' | 'none';
+  innings?: boolean; // away team bats in odd periods; the home team can walk off
+  periodLabel(period: number, rules: SportRules): string;
+}
+
+function overtimeLabel(period: number, rules: SportRules): string {
+  const n = period - rules.periods;
+  return n === 1 ? 'OT' : `${n}OT`;
+}
+
+const numberedPeriod = (period: number, rules: SportRules) => (period <= rules.periods ? String(period) : overtimeLabel(period, rules));
+
+const FOOTBALL_SCORING: SportRules['scoring'] = [[7, 45], [3, 35], [6, 10], [8, 5], [2, 5]];
+const BASKETBALL_SCORING: SportRules['scoring'] = [[2, 60], [3, 30], [1, 10]];
+
+const SOCCER_RULES: SportRules = {
+  periods: 2,
+  periodSeconds: 45 * 60,
+  overtimeSeconds: 0,
+  overtimes: 0,
+  suddenDeath: false,
+  shootout: false,
+  secondsPerScore: 2000,
+  scoring: [[1, 1]],
+  clock: 'elapsed',
+  periodLabel: (period) => (period === 1 ? '1H' : '2H'),
+};
+
+const SPORT_RULES: Record<string, SportRules> = {
+  NBA: {
+    periods: 4, periodSeconds: 12 * 60, overtimeSeconds: 5 * 60, overtimes: Infinity, suddenDeath: false, shootout: false,
+    secondsPerScore: 30, scoring: BASKETBALL_SCORING, clock: 'countdown', periodLabel: numberedPeriod,
+  },
+  NFL: {
+    periods: 4, periodSeconds: 15 * 60, overtimeSeconds: 10 * 60, overtimes: 1, suddenDeath: true, shootout: false,
+    secondsPerScore: 450, scoring: FOOTBALL_SCORING, clock: 'countdown', periodLabel: numberedPeriod,
+  },
+  NHL: {
+    periods: 3, periodSeconds: 20 * 60, overtimeSeconds: 5 * 60, overtimes: 1, suddenDeath: true, shootout: true,
+    secondsPerScore: 600, scoring: [[1, 1]], clock: 'countdown', periodLabel: numberedPeriod,
+  },
+  MLB: {
+    periods: 18, periodSeconds: 6 * 60, overtimeSeconds: 6 * 60, overtimes: Infinity, suddenDeath: false, shootout: false,
+    secondsPerScore: 1000, scoring: [[1, 70], [2, 20], [3, 7], [4, 3]], clock: 'none', innings: true,
+    periodLabel: (period) => String(Math.ceil(period / 2)),
+  },
+  NCAAF: {
+    periods: 4, periodSeconds: 15 * 60, overtimeSeconds: 10 * 60, overtimes: Infinity, suddenDeath: false, shootout: false,
+    secondsPerScore: 360, scoring: FOOTBALL_SCORING, clock: 'countdown',
+    periodLabel: (period, rules) => (period <= rules.periods ? `Q${period}` : overtimeLabel(period, rules)),
+  },
+  NCAAB: {
+    periods: 2, periodSeconds: 20 * 60, overtimeSeconds: 5 * 60, overtimes: Infinity, suddenDeath: false, shootout: false,
+    secondsPerScore: 40, scoring: BASKETBALL_SCORING, clock: 'countdown',
+    periodLabel: (period, rules) => (period <= rules.periods ? `${period}H` : overtimeLabel(period, rules)),
+  },
+  MLS: SOCCER_RULES,
+  EPL: SOCCER_RULES,
+  UCL: SOCCER_RULES,
+  LALIGA: SOCCER_RULES,
+  BUNDESLIGA: SOCCER_RULES,
+  SERIEA: SOCCER_RULES,
+};
+
+const SOCCER_LEAGUES = new Set<string>(['MLS', 'EPL', 'UCL', 'LALIGA', 'BUNDESLIGA', 'SERIEA']);
+
+// Hard stop for runaway simulations (e.g., endless extra innings)
+const MAX_STEP_SECONDS = 24 * 60 * 60;
+
+/** Sports the simulator can play */
+export const SIMULATED_SPORTS = Object.keys(SPORT_RULES);
+
+export interface SimulatedGame {
+  gameId: string;
+  sport: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homePts: number;
+  awayPts: number;
+  status: 'scheduled' | 'in_progress' | 'final';
+  period: number; // 0 before the start; regulation periods first, then overtimes
+  periodElapsed: number; // game seconds played in the current period
+  shootout: boolean; // decided by a shootout
+  startTime: Date;
+  speed: number; // game seconds per wall second
+  paused: boolean;
+}
+
+export interface CreateSimulatedGameInput {
+  sport: string;
+  homeTeamId: string; // "NBA_BOS" or just "BOS"
+  awayTeamId: string;
+  startTime?: Date; // when the game goes live (default: now)
+  speed?: number; // default: 1 (real time)
+}
+
+export type SimulatorJumpTarget =
+  | { seconds: number } // play this many game seconds
+  | { period: number; clockSeconds?: number } // play until this period (and clock) is reached
+  | { to: 'final' }; // play to the end
+
+export interface GameSimulatorOptions {
+  now?: () => number; // wall clock in ms, injectable for tests
+  random?: () => number; // uniform [0, 1), injectable for deterministic games
+}
+
+function periodLength(game: { period: number }, rules: SportRules): number {
+  return game.period > rules.periods ? rules.overtimeSeconds : rules.periodSeconds;
+}
+
+function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * GameSimulator
+ *
+ * Keeps a set of simulated games and plays them forward as wall time passes:
+ * the clock runs down, periods advance, teams score at plausible rates for
+ * their sport, and games move from scheduled to in_progress to final,
+ * through overtime, extra innings or a shootout when tied. Games can be
+ * paused, fast-forwarded and have their score overridden, which makes it
+ * easy to stage lead changes and finals for the real-time UI.
+ *
+ * Games only advance when read (or controlled), so an idle simulator costs
+ * nothing.
+ */
+export class GameSimulator {
+  private readonly games = new Map<string, SimulatedGame>();
+  private readonly lastTick = new Map<string, number>();
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private sequence = 0;
+
+  constructor(options: GameSimulatorOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Schedule a new game
+   * @throws ValidationError - For unsupported sports, missing teams or a bad speed
+   */
+  create(input: CreateSimulatedGameInput): SimulatedGame {
+    const sport = String(input.sport || '').toUpperCase();
+    if (!SPORT_RULES[sport]) {
+      throw new ValidationError(`Simulator does not support ${input.sport}`, { supported: SIMULATED_SPORTS });
+    }
+    const homeTeamId = this.teamId(sport, input.homeTeamId);
+    const awayTeamId = this.teamId(sport, input.awayTeamId);
+    if (!homeTeamId || !awayTeamId || homeTeamId === awayTeamId) {
+      throw new ValidationError('Simulated games need two different teams', { homeTeamId, awayTeamId });
+    }
+
+    const now = this.now();
+    const game: SimulatedGame = {
+      gameId: `${sport}_SIM_${now.toString(36)}${(++this.sequence).toString(36)}`,
+      sport,
+      homeTeamId,
+      awayTeamId,
+      homePts: 0,
+      awayPts: 0,
+      status: 'scheduled',
+      period: 0,
+      periodElapsed: 0,
+      shootout: false,
+      startTime: input.startTime ?? new Date(now),
+      speed: this.checkSpeed(input.speed ?? 1),
+      paused: false,
+    };
+    this.games.set(game.gameId, game);
+    this.lastTick.set(game.gameId, now);
+    logger.info({ gameId: game.gameId, homeTeamId, awayTeamId, startTime: game.startTime }, 'Simulator: game created');
+    return { ...game };
+  }
+
+  /**
+   * Games for a sport (or all sports), advanced to the current time
+   */
+  list(sport?: string): SimulatedGame[] {
+    const wanted = sport ? String(sport).toUpperCase() : undefined;
+    return Array.from(this.games.values())
+      .filter((g) => !wanted || g.sport === wanted)
+      .map((g) => ({ ...this.advance(g) }));
+  }
+
+  get(gameId: string): SimulatedGame | undefined {
+    const game = this.games.get(gameId);
+    return game ? { ...this.advance(game) } : undefined;
+  }
+
+  /**
+   * Start a scheduled game now, or resume a paused one
+   * @throws UserTeamScoresError - 404 when the game does not exist (as do the other controls)
+   */
+  start(gameId: string): SimulatedGame {
+    const game = this.require(gameId);
+    if (game.status === 'scheduled' && game.startTime.getTime() > this.now()) {
+      game.startTime = new Date(this.now());
+    }
+    game.paused = false;
+    this.lastTick.set(gameId, this.now());
+    return { ...this.advance(game) };
+  }
+
+  /**
+   * Freeze the game clock until start() is called again
+   */
+  pause(gameId: string): SimulatedGame {
+    const game = this.advance(this.require(gameId));
+    game.paused = true;
+    return { ...game };
+  }
+
+  /**
+   * Play a game forward instantly, with scoring, to a later point
+   * @throws ValidationError - If the target is behind the game's current period
+   */
+  jump(gameId: string, target: SimulatorJumpTarget): SimulatedGame {
+    const game = this.advance(this.require(gameId));
+    if (game.status === 'final') return { ...game };
+    if (game.status === 'scheduled') this.begin(game);
+    const rules = SPORT_RULES[game.sport];
+
+    if ('seconds' in target) {
+      this.play(game, Math.max(0, target.seconds));
+    } else if ('period' in target) {
+      const length = periodLength({ period: target.period }, rules);
+      const elapsed = rules.clock === 'countdown' ? length - (target.clockSeconds ?? length) : target.clockSeconds ?? 0;
+      if (target.period < game.period || (target.period === game.period && elapsed < game.periodElapsed)) {
+        throw new ValidationError('Cannot jump backwards in a game', { gameId, period: game.period, target });
+      }
+      let budget = MAX_STEP_SECONDS;
+      while (budget-- > 0 && this.before(game, target.period, elapsed)) {
+        this.step(game, rules);
+      }
+    } else {
+      this.play(game, MAX_STEP_SECONDS);
+    }
+    this.lastTick.set(gameId, this.now());
+    return { ...game };
+  }
+
+  /**
+   * Override the score, e.g., to stage a lead change. A score that decides an
+   * overtime or extra inning ends the game on the next tick, as a real one would.
+   */
+  setScore(gameId: string, homePts: number, awayPts: number): SimulatedGame {
+    if (![homePts, awayPts].every((p) => Number.isInteger(p) && p >= 0)) {
+      throw new ValidationError('Scores must be non-negative integers', { homePts, awayPts });
+    }
+    const game = this.advance(this.require(gameId));
+    game.homePts = homePts;
+    game.awayPts = awayPts;
+    return { ...game };
+  }
+
+  setSpeed(gameId: string, speed: number): SimulatedGame {
+    const game = this.advance(this.require(gameId));
+    game.speed = this.checkSpeed(speed);
+    return { ...game };
+  }
+
+  remove(gameId: string): boolean {
+    this.lastTick.delete(gameId);
+    return this.games.delete(gameId);
+  }
+
+  clear(): void {
+    this.games.clear();
+    this.lastTick.clear();
+  }
+
+  /**
+   * Current state as the adapters report it
+   */
+  toGameScore(game: SimulatedGame): GameScore {
+    const rules = SPORT_RULES[game.sport];
+    const live = game.status === 'in_progress';
+    let period: string | null = null;
+    let timeRemaining: string | null = null;
+
+    if (game.period > 0) {
+      period = game.shootout ? 'SO' : rules.periodLabel(game.period, rules);
+      if (live && rules.clock === 'countdown') timeRemaining = formatClock(periodLength(game, rules) - game.periodElapsed);
+      if (live && rules.innings) timeRemaining = game.period % 2 === 1 ? 'Top' : 'Bot';
+      if (rules.clock === 'elapsed') {
+        if (live) timeRemaining = `${Math.floor((game.period - 1) * 45 + game.periodElapsed / 60) + 1}'`;
+        else if (game.status === 'final') period = 'FT';
+      }
+    }
+
+    // Past regulation: a shootout, extra innings or overtime
+    const statusDetail: GameStatusDetail | undefined = game.shootout ? 'shootout'
+      : game.period <= rules.periods ? undefined
+      : rules.innings ? 'extra_innings' : 'overtime';
+
+    return {
+      gameId: game.gameId,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      homePts: game.homePts,
+      awayPts: game.awayPts,
+      status: game.status,
+      ...(statusDetail ? { statusDetail } : {}),
+      period,
+      timeRemaining,
+      startTime: game.startTime,
+      source: 'simulator',
+      ...(SOCCER_LEAGUES.has(game.sport) ? { soccer: this.soccerState(game) } : {}),
+    };
+  }
+
+  private soccerState(game: SimulatedGame): SoccerMatchState {
+    const phase = game.status === 'scheduled' ? 'pre_match'
+      : game.status === 'final' ? 'full_time'
+      : game.period === 1 ? 'first_half' : 'second_half';
+    const state: SoccerMatchState = { league: game.sport as SoccerLeague, phase };
+    if (game.status === 'in_progress') state.minute = Math.floor((game.period - 1) * 45 + game.periodElapsed / 60) + 1;
+    if (game.status === 'final') {
+      state.result = game.homePts > game.awayPts ? 'home' : game.homePts < game.awayPts ? 'away' : 'draw';
+      state.decidedBy = 'regulation';
+    }
+    return state;
+  }
+
+  // Play the game forward by the wall time since it was last read
+  private advance(game: SimulatedGame): SimulatedGame {
+    const now = this.now();
+    const last = this.lastTick.get(game.gameId) ?? now;
+    this.lastTick.set(game.gameId, now);
+    if (game.paused || game.status === 'final') return game;
+
+    let from = last;
+    if (game.status === 'scheduled') {
+      const start = game.startTime.getTime();
+      if (now < start) return game;
+      this.begin(game);
+      from = Math.max(last, start);
+    }
+    this.play(game, Math.floor(((now - from) / 1000) * game.speed));
+    return game;
+  }
+
+  private begin(game: SimulatedGame): void {
+    game.status = 'in_progress';
+    game.period = 1;
+    game.periodElapsed = 0;
+    logger.info({ gameId: game.gameId }, 'Simulator: game started');
+  }
+
+  private play(game: SimulatedGame, seconds: number): void {
+    const rules = SPORT_RULES[game.sport];
+    for (let i = 0; i < Math.min(seconds, MAX_STEP_SECONDS) && game.status !== 'final'; i++) {
+      this.step(game, rules);
+    }
+  }
+
+  // One game second: maybe a score, then the end-of-period and end-of-game checks
+  private step(game: SimulatedGame, rules: SportRules): void {
+    if (this.decided(game, rules)) return this.finish(game);
+
+    game.periodElapsed++;
+    if (this.random() < 1 / rules.secondsPerScore) {
+      const points = this.pick(rules.scoring);
+      const home = rules.innings ? game.period % 2 === 0 : this.random() < 0.52;
+      if (home) game.homePts += points;
+      else game.awayPts += points;
+      if (this.decided(game, rules)) return this.finish(game);
+    }
+
+    if (game.periodElapsed < periodLength(game, rules)) return;
+    this.endPeriod(game, rules);
+  }
+
+  // Walk-offs and sudden-death overtime end a game mid-period
+  private decided(game: SimulatedGame, rules: SportRules): boolean {
+    if (game.period <= rules.periods - (rules.innings ? 1 : 0)) return false;
+    if (rules.innings) return game.period % 2 === 0 && game.homePts > game.awayPts;
+    return rules.suddenDeath && game.homePts !== game.awayPts;
+  }
+
+  private endPeriod(game: SimulatedGame, rules: SportRules): void {
+    const tied = game.homePts === game.awayPts;
+
+    if (rules.innings) {
+      // Home team leading after the top of the 9th (or later) doesn't bat
+      const topHalf = game.period % 2 === 1;
+      const homeLeadsAfterTop = topHalf && game.period >= rules.periods - 1 && game.homePts > game.awayPts;
+      const decidedAfterBottom = !topHalf && game.period >= rules.periods && !tied;
+      if (homeLeadsAfterTop || decidedAfterBottom) return this.finish(game);
+      return this.nextPeriod(game);
+    }
+
+    if (game.period < rules.periods) return this.nextPeriod(game);
+    if (!tied) return this.finish(game);
+    if (game.period - rules.periods < rules.overtimes) return this.nextPeriod(game);
+    if (rules.shootout) {
+      game.shootout = true;
+      if (this.random() < 0.5) game.homePts++;
+      else game.awayPts++;
+    }
+    this.finish(game);
+  }
+
+  // True while an unfinished game has yet to reach the given point
+  private before(game: SimulatedGame, period: number, elapsed: number): boolean {
+    if (game.status === 'final') return false;
+    return game.period < period || (game.period === period && game.periodElapsed < elapsed);
+  }
+
+  private nextPeriod(game: SimulatedGame): void {
+    game.period++;
+    game.periodElapsed = 0;
+  }
+
+  private finish(game: SimulatedGame): void {
+    game.status = 'final';
+    logger.info({ gameId: game.gameId, homePts: game.homePts, awayPts: game.awayPts }, 'Simulator: game final');
+  }
+
+  private pick(weighted: SportRules['scoring']): number {
+    const total = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.random() * total;
+    for (const [points, weight] of weighted) {
+      roll -= weight;
+      if (roll < 0) return points;
+    }
+    return weighted[weighted.length - 1][0];
+  }
+
+  private teamId(sport: string, team: string): string {
+    const raw = String(team || '').trim().toUpperCase();
+    if (!raw) return '';
+    return raw.startsWith(`${sport}_`) ? raw : `${sport}_${raw}`;
+  }
+
+  private checkSpeed(speed: number): number {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      throw new ValidationError('Speed must be a positive number', { speed });
+    }
+    return speed;
+  }
+
+  private require(gameId: string): SimulatedGame {
+    const game = this.games.get(gameId);
+    if (!game) throw new UserTeamScoresError(`No simulated game ${gameId}`, 'SIMULATED_GAME_NOT_FOUND', 404, { gameId });
+    return game;
+  }
+}
+
+/** Simulator shared by the dev routes and every SimulatedScoreSource */
+export const gameSimulator = new GameSimulator();
+
+/**
+ * SimulatedScoreSource
+ *
+ * Serves a sport's simulated games through the adapter interface, so the
+ * ScoresAgent, storage, WebSocket broadcasts and UI see believable game
+ * flows instead of DummyScoreSource's random totals. When asked for live
+ * scores of teams with no simulated game, it pairs them up and schedules
+ * games starting now.
+ *
+ * Usage:
+ *   const source = new SimulatedScoreSource('NBA');
+ *   await new ScoresAgent(source).runOnce({ teamIds: ['NBA_BOS', 'NBA_LAL'], sport: 'NBA', mode: 'live' });
+ */
+export class SimulatedScoreSource implements IScoreSource {
+  private readonly sport: string;
+
+  constructor(sport: string, private readonly simulator: GameSimulator = gameSimulator) {
+    this.sport = String(sport).toUpperCase();
+  }
+
+  async fetchRecentGames(options: { teamIds?: string[]; limit?: number }): Promise<InsertGame[]> {
+    const teamIds = new Set((options.teamIds ?? []).map((t) => t.toUpperCase()));
+    return this.simulator.list(this.sport)
+      .filter((g) => teamIds.size === 0 || teamIds.has(g.homeTeamId) || teamIds.has(g.awayTeamId))
+      .slice(0, options.limit ?? 3)
+      .map((g) => {
+        const score = this.simulator.toGameScore(g);
+        return {
+          id: score.gameId,
+          homeTeamId: score.homeTeamId,
+          awayTeamId: score.awayTeamId,
+          homePts: score.homePts,
+          awayPts: score.awayPts,
+          status: score.status,
+          statusDetail: score.statusDetail ?? undefined,
+          period: score.period ?? undefined,
+          timeRemaining: score.timeRemaining ?? undefined,
+          startTime: score.startTime,
+        };
+      });
+  }
+
+  async fetchLive(teamCodes: string[]): Promise<GameScore[]> {
+    const codes = teamCodes.map((c) => c.toUpperCase());
+    const games = this.simulator.list(this.sport);
+    const covered = new Set(games.flatMap((g) => [g.homeTeamId, g.awayTeamId]));
+
+    const unmatched = codes.filter((c) => !covered.has(`${this.sport}_${c}`));
+    for (let i = 0; i + 1 < unmatched.length; i += 2) {
+      games.push(this.simulator.create({ sport: this.sport, homeTeamId: unmatched[i], awayTeamId: unmatched[i + 1] }));
+    }
+
+    return games
+      .filter((g) => codes.length === 0 || codes.some((c) => g.homeTeamId === `${this.sport}_${c}` || g.awayTeamId === `${this.sport}_${c}`))
+      .map((g) => this.simulator.toGameScore(g));
+  }
+
+  async fetchSchedule(teamCodes: string[], startDate: Date, endDate: Date): Promise<ScheduleGame[]> {
+    const codes = new Set(teamCodes.map((c) => `${this.sport}_${c.toUpperCase()}`));
+    return this.simulator.list(this.sport)
+      .filter((g) => codes.size === 0 || codes.has(g.homeTeamId) || codes.has(g.awayTeamId))
+      .filter((g) => g.startTime >= startDate && g.startTime <= endDate)
+      .map((g) => this.toScheduleGame(g));
+  }
+
+  async fetchFeaturedGames(_sport: string, limit: number): Promise<ScheduleGame[]> {
+    return this.simulator.list(this.sport)
+      .sort((a, b) => FEATURED_STATUS_ORDER[a.status] - FEATURED_STATUS_ORDER[b.status] || a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, limit)
+      .map((g) => this.toScheduleGame(g));
+  }
+
+  private toScheduleGame(game: SimulatedGame): ScheduleGame {
+    return {
+      gameId: game.gameId,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      startTime: game.startTime,
+      status: game.status,
+      source: 'simulator',
+    };
+  }
+}
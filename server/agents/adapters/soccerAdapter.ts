@@ -0,0 +1,397 @@
+import type { IScoreSource, GameScore, ScheduleGame, SoccerLeague, SoccerMatchPhase, SoccerMatchState } from '../types';
+import type { InsertGame } from '@shared/schema';
+import { ethicalFetcher } from '../../utils/scraping/fetcher';
+import { TeamMapper } from '../../utils/scraping/teamMapper';
+import { logger } from '../../logger';
+import { parseEspnStatus, FEATURED_STATUS_ORDER, type ResolvedStatus } from './statusUtils';
+
+export const SOCCER_LEAGUES: SoccerLeague[] = ['MLS', 'EPL', 'UCL', 'LALIGA', 'BUNDESLIGA', 'SERIEA'];
+
+// ESPN league slugs under sports/soccer/
+const ESPN_LEAGUE_SLUGS: Record<SoccerLeague, string> = {
+  MLS: 'usa.1',
+  EPL: 'eng.1',
+  UCL: 'uefa.champions',
+  LALIGA: 'esp.1',
+  BUNDESLIGA: 'ger.1',
+  SERIEA: 'ita.1',
+};
+
+// ESPN status names -> match phase; unknown in-play names fall back to the period number
+const ESPN_STATUS_PHASES: Record<string, SoccerMatchPhase> = {
+  STATUS_SCHEDULED: 'pre_match',
+  STATUS_FIRST_HALF: 'first_half',
+  STATUS_HALFTIME: 'halftime',
+  STATUS_SECOND_HALF: 'second_half',
+  STATUS_END_OF_REGULATION: 'end_of_regulation',
+  STATUS_END_OF_REGULATION_TIME: 'end_of_regulation',
+  STATUS_OVERTIME: 'extra_time_first_half',
+  STATUS_FIRST_HALF_EXTRA_TIME: 'extra_time_first_half',
+  STATUS_HALFTIME_ET: 'extra_time_halftime',
+  STATUS_SECOND_HALF_EXTRA_TIME: 'extra_time_second_half',
+  STATUS_END_OF_EXTRATIME: 'penalties',
+  STATUS_SHOOTOUT: 'penalties',
+  STATUS_FULL_TIME: 'full_time',
+  STATUS_FINAL: 'full_time',
+  STATUS_FINAL_AET: 'full_time',
+  STATUS_FINAL_PEN: 'full_time',
+  STATUS_POSTPONED: 'postponed',
+  STATUS_CANCELED: 'postponed',
+  STATUS_ABANDONED: 'abandoned',
+};
+
+const PERIOD_PHASES: Record<number, SoccerMatchPhase> = {
+  1: 'first_half',
+  2: 'second_half',
+  3: 'extra_time_first_half',
+  4: 'extra_time_second_half',
+  5: 'penalties',
+};
+
+// Short labels stored in games.period
+const PHASE_LABELS: Record<SoccerMatchPhase, string | null> = {
+  pre_match: null,
+  first_half: '1H',
+  halftime: 'HT',
+  second_half: '2H',
+  end_of_regulation: 'END REG',
+  extra_time_first_half: 'ET1',
+  extra_time_halftime: 'ET HT',
+  extra_time_second_half: 'ET2',
+  penalties: 'PENS',
+  full_time: 'FT',
+  postponed: null,
+  abandoned: null,
+};
+
+function toNumber(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function formatDate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}${m}${day}`;
+}
+
+// In-play phases that carry a status sub-state
+const PHASE_DETAILS: Partial<Record<SoccerMatchPhase, ResolvedStatus['statusDetail']>> = {
+  halftime: 'halftime',
+  extra_time_first_half: 'overtime',
+  extra_time_halftime: 'halftime',
+  extra_time_second_half: 'overtime',
+  penalties: 'shootout',
+};
+
+/**
+ * Shared game status for a match. Postponements, cancellations, abandonments
+ * and delays come from the ESPN status; everything else from the match phase.
+ */
+function matchStatus(phase: SoccerMatchPhase, soccer: SoccerMatchState, status: any): ResolvedStatus {
+  const espn = parseEspnStatus(status, 2);
+  if (espn.status !== 'scheduled' && espn.status !== 'in_progress' && espn.status !== 'final') return espn;
+
+  if (phase === 'pre_match') return { status: 'scheduled' };
+  if (phase === 'full_time') {
+    if (espn.statusDetail === 'forfeit') return espn;
+    if (soccer.decidedBy === 'penalties') return { status: 'final', statusDetail: 'shootout' };
+    if (soccer.decidedBy === 'extra_time') return { status: 'final', statusDetail: 'overtime' };
+    return { status: 'final' };
+  }
+  const statusDetail = PHASE_DETAILS[phase];
+  return statusDetail ? { status: 'in_progress', statusDetail } : { status: 'in_progress' };
+}
+
+/**
+ * Parse a match clock such as "67'" or "90'+4'" into the regulation minute and added time
+ */
+export function parseMatchClock(displayClock?: string | null): { minute?: number; stoppageMinutes?: number } {
+  const match = String(displayClock ?? '').match(/^\s*(\d+)'?\s*(?:\+\s*(\d+)'?)?/);
+  if (!match) return {};
+  return {
+    minute: parseInt(match[1], 10),
+    stoppageMinutes: match[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+/**
+ * Map an ESPN competitor to our team ID, preferring full names over abbreviations,
+ * which collide across leagues (e.g. Celta and Celtic are both "CEL")
+ */
+function mapCompetitor(competitor: any, league: SoccerLeague): string {
+  const team = competitor?.team ?? {};
+  const names = [team.displayName, team.shortDisplayName, team.name, team.abbreviation].filter(Boolean).map(String);
+  for (const name of names) {
+    const found = TeamMapper.findTeam(name, league);
+    if (found) return found;
+  }
+  return TeamMapper.mapTeam(String(team.abbreviation ?? team.displayName ?? 'UNKNOWN'), league);
+}
+
+/**
+ * Parse one event from an ESPN soccer scoreboard
+ *
+ * @param league - League the scoreboard belongs to
+ * @param event - ESPN event JSON
+ * @returns The match, or null when it has no home/away competitors
+ */
+export function parseSoccerEvent(league: SoccerLeague, event: any): GameScore | null {
+  const competition = Array.isArray(event?.competitions) ? event.competitions[0] : undefined;
+  const competitors: any[] = Array.isArray(competition?.competitors) ? competition.competitors : [];
+  const home = competitors.find((c) => c?.homeAway === 'home');
+  const away = competitors.find((c) => c?.homeAway === 'away');
+  if (!home || !away || event?.id == null) return null;
+
+  const status = event?.status ?? competition?.status ?? {};
+  const statusName: string = status?.type?.name ?? '';
+  const state: string | undefined = status?.type?.state;
+  const period = toNumber(status?.period);
+
+  let phase: SoccerMatchPhase =
+    ESPN_STATUS_PHASES[statusName]
+    ?? (state === 'post' ? 'full_time' : state === 'in' ? PERIOD_PHASES[period ?? 1] ?? 'first_half' : 'pre_match');
+  // Some in-play payloads only carry "HT" in the detail text
+  if (state === 'in' && status?.type?.shortDetail === 'HT') phase = period && period > 2 ? 'extra_time_halftime' : 'halftime';
+
+  const homePts = toNumber(home.score) ?? 0;
+  const awayPts = toNumber(away.score) ?? 0;
+  const inPlay = phase !== 'pre_match' && phase !== 'full_time' && phase !== 'postponed' && phase !== 'abandoned';
+
+  const soccer: SoccerMatchState = { league, phase };
+
+  if (inPlay) {
+    const clock = parseMatchClock(status?.displayClock);
+    if (clock.minute !== undefined) soccer.minute = clock.minute;
+    if (clock.stoppageMinutes !== undefined) soccer.stoppageMinutes = clock.stoppageMinutes;
+  }
+
+  const homeShootout = toNumber(home.shootoutScore);
+  const awayShootout = toNumber(away.shootoutScore);
+  if (homeShootout !== undefined && awayShootout !== undefined) {
+    soccer.shootout = { home: homeShootout, away: awayShootout };
+  }
+
+  if (phase === 'full_time') {
+    soccer.decidedBy =
+      statusName === 'STATUS_FINAL_PEN' || soccer.shootout ? 'penalties'
+      : statusName === 'STATUS_FINAL_AET' || (period ?? 2) > 2 ? 'extra_time'
+      : 'regulation';
+    if (soccer.decidedBy === 'penalties' && soccer.shootout) {
+      soccer.result = soccer.shootout.home > soccer.shootout.away ? 'home' : 'away';
+    } else {
+      soccer.result = homePts > awayPts ? 'home' : homePts < awayPts ? 'away' : 'draw';
+    }
+  }
+
+  // Two-legged ties: ESPN reports the leg and, on the second leg, each side's aggregate
+  const leg = toNumber(competition?.leg?.value);
+  if (leg !== undefined) soccer.leg = leg;
+  const homeAggregate = toNumber(home.aggregateScore);
+  const awayAggregate = toNumber(away.aggregateScore);
+  if (homeAggregate !== undefined && awayAggregate !== undefined) {
+    soccer.aggregate = { home: homeAggregate, away: awayAggregate };
+  } else if (leg === 1 && phase !== 'pre_match') {
+    soccer.aggregate = { home: homePts, away: awayPts };
+  }
+
+  const startIso = competition?.date || event?.date;
+
+  return {
+    gameId: `${league}_ESPN_${event.id}`,
+    homeTeamId: mapCompetitor(home, league),
+    awayTeamId: mapCompetitor(away, league),
+    homePts,
+    awayPts,
+    ...matchStatus(phase, soccer, status),
+    period: PHASE_LABELS[phase],
+    timeRemaining: inPlay && status?.displayClock ? String(status.displayClock) : null,
+    startTime: startIso ? new Date(startIso) : new Date(),
+    source: 'ESPN API',
+    soccer,
+  };
+}
+
+/**
+ * SoccerAdapter
+ *
+ * Sport-specific adapter for MLS, Premier League, Champions League, La Liga,
+ * Bundesliga and Serie A matches from ESPN's public scoreboard JSON.
+ *
+ * Features:
+ * - Match phases: halves, halftime, extra time and penalties
+ * - Stoppage-time minutes from the match clock
+ * - Three-way result (home / draw / away) and how the match was decided
+ * - Leg and aggregate score for two-legged ties
+ * - Team IDs are league-scoped (EPL_ARS, MLS_ATL); in the Champions League,
+ *   clubs from the four domestic leagues keep their domestic ID
+ */
+export class SoccerAdapter implements IScoreSource {
+  private readonly sport = 'SOCCER';
+  private readonly leagues: SoccerLeague[];
+  private readonly sources = {
+    espnJson: 'https://site.api.espn.com/apis/site/v2/sports/soccer',
+  };
+
+  /**
+   * @param leagues - Leagues to query (default: all six)
+   */
+  constructor(leagues: SoccerLeague[] = SOCCER_LEAGUES) {
+    this.leagues = leagues;
+  }
+
+  /**
+   * Fetch recent games for specific teams (legacy method for backwards compatibility)
+   *
+   * @param options - Team IDs and limit
+   * @returns Array of InsertGame objects
+   */
+  async fetchRecentGames(options: { teamIds?: string[]; limit?: number }): Promise<InsertGame[]> {
+    logger.info({ options }, 'SoccerAdapter: fetchRecentGames called');
+
+    try {
+      const teamCodes = options.teamIds?.map(id => id.split('_')[1]).filter(Boolean) || [];
+      const scores = await this.fetchLive(teamCodes);
+
+      return scores.slice(0, options.limit || 5).map(score => ({
+        id: score.gameId,
+        homeTeamId: score.homeTeamId,
+        awayTeamId: score.awayTeamId,
+        homePts: score.homePts,
+        awayPts: score.awayPts,
+        status: score.status,
+        period: score.period || null,
+        timeRemaining: score.timeRemaining || null,
+        statusDetail: score.statusDetail || null,
+        statusReason: score.statusReason || null,
+        startTime: score.startTime,
+      }));
+    } catch (err) {
+      logger.error({ err }, 'SoccerAdapter: fetchRecentGames failed');
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the current matchday across the configured leagues
+   *
+   * @param teamCodes - Team codes to filter by (e.g., ["ARS", "RMA"])
+   * @returns Array of GameScore objects
+   */
+  async fetchLive(teamCodes: string[]): Promise<GameScore[]> {
+    logger.info({ teamCodes, leagues: this.leagues }, 'Soccer: Fetching live matches');
+
+    const games: GameScore[] = [];
+    for (const league of this.leagues) {
+      games.push(...await this.fetchScoreboard(league, teamCodes));
+    }
+
+    logger.info({ count: games.length }, 'Soccer: Fetched live matches');
+    return games;
+  }
+
+  /**
+   * Fetch schedule for specific teams within a date range
+   *
+   * @param teamCodes - Team codes to fetch schedule for
+   * @param startDate - Start of date range
+   * @param endDate - End of date range
+   * @returns Array of ScheduleGame objects
+   */
+  async fetchSchedule(teamCodes: string[], startDate: Date, endDate: Date): Promise<ScheduleGame[]> {
+    logger.info({ teamCodes, startDate, endDate }, 'Soccer: Fetching schedule');
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      logger.warn({ startDate, endDate }, 'Soccer: fetchSchedule invalid dates, returning []');
+      return [];
+    }
+
+    const range = `${formatDate(startDate)}-${formatDate(endDate)}`;
+    const results: ScheduleGame[] = [];
+    for (const league of this.leagues) {
+      const games = await this.fetchScoreboard(league, teamCodes, range);
+      for (const g of games) {
+        const ts = g.startTime.getTime();
+        if (ts < startDate.getTime() || ts > endDate.getTime()) continue;
+        results.push({
+          gameId: g.gameId,
+          homeTeamId: g.homeTeamId,
+          awayTeamId: g.awayTeamId,
+          startTime: g.startTime,
+          status: g.status,
+          source: g.source,
+        });
+      }
+    }
+
+    results.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    logger.info({ count: results.length }, 'Soccer: Schedule fetch complete');
+    return results;
+  }
+
+  /**
+   * Fetch featured matches across the configured leagues, live matches first
+   *
+   * @param sport - Sport name (for logging)
+   * @param limit - Maximum number of matches
+   * @returns Array of ScheduleGame objects
+   */
+  async fetchFeaturedGames(sport: string, limit: number): Promise<ScheduleGame[]> {
+    logger.info({ sport, limit }, 'Soccer: Fetching featured games');
+
+    try {
+      const liveGames = await this.fetchLive([]);
+
+      return liveGames
+        .slice()
+        .sort((a, b) => FEATURED_STATUS_ORDER[a.status] - FEATURED_STATUS_ORDER[b.status] || a.startTime.getTime() - b.startTime.getTime())
+        .slice(0, limit)
+        .map(game => ({
+          gameId: game.gameId,
+          homeTeamId: game.homeTeamId,
+          awayTeamId: game.awayTeamId,
+          startTime: game.startTime,
+          status: game.status,
+          source: game.source,
+        }));
+    } catch (err) {
+      logger.error({ err }, 'Soccer: fetchFeaturedGames failed');
+      return [];
+    }
+  }
+
+  /**
+   * Fetch and parse one league's ESPN scoreboard
+   * A failing league is logged and skipped so the others still return.
+   */
+  private async fetchScoreboard(league: SoccerLeague, teamCodes: string[], dates?: string): Promise<GameScore[]> {
+    const url = `${this.sources.espnJson}/${ESPN_LEAGUE_SLUGS[league]}/scoreboard${dates ? `?dates=${dates}` : ''}`;
+    try {
+      const data = JSON.parse(await ethicalFetcher.fetch(url));
+      const events: any[] = Array.isArray(data?.events) ? data.events : [];
+      const fetchedAt = new Date();
+
+      const games: GameScore[] = [];
+      for (const event of events) {
+        try {
+          const game = parseSoccerEvent(league, event);
+          if (!game) continue;
+          if (teamCodes.length > 0) {
+            const homeCode = TeamMapper.getCodeFromId(game.homeTeamId);
+            const awayCode = TeamMapper.getCodeFromId(game.awayTeamId);
+            if (!teamCodes.includes(homeCode) && !teamCodes.includes(awayCode)) continue;
+          }
+          games.push({ ...game, fetchedAt });
+        } catch (err) {
+          logger.warn({ err, league, eventId: event?.id }, 'Soccer: Failed to parse ESPN event');
+        }
+      }
+      return games;
+    } catch (err) {
+      logger.warn({ err, league, sport: this.sport }, 'Soccer: ESPN scoreboard fetch failed');
+      return [];
+    }
+  }
+}
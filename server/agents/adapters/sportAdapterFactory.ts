@@ -4,6 +4,8 @@ import { NBAAdapter } from './nbaAdapter';
 import { NFLAdapter } from './nflAdapter';
 import { MLBAdapter } from './mlbAdapter';
 import { NHLAdapter } from './nhlAdapter';
+import { SoccerAdapter } from './soccerAdapter';
+import { CollegeAdapter } from './collegeAdapter';
 import { logger } from '../../logger';
 
 /**
@@ -21,7 +23,9 @@ export class SportAdapterFactory {
   /**
    * Get the appropriate adapter for a given sport.
    * 
-   * @param sport - Sport name (case-insensitive): NBA, NFL, MLB, NHL, SOCCER, COLLEGE_FOOTBALL, COLLEGE_BASKETBALL
+   * @param sport - Sport name (case-insensitive): NBA, NFL, MLB, NHL, SOCCER, COLLEGE_FOOTBALL, COLLEGE_BASKETBALL,
+   *   or a soccer league (MLS, EPL, UCL, LALIGA, BUNDESLIGA, SERIEA) for a single-league adapter;
+   *   spaces count as underscores, so the client's "College Football" resolves too
    * @returns IScoreSource adapter instance
   */
   static getAdapter(sport: string): IScoreSource {
@@ -31,7 +35,7 @@ export class SportAdapterFactory {
       return new DummyScoreSource();
     }
 
-    const normalizedSport = sport.toUpperCase().trim();
+    const normalizedSport = sport.toUpperCase().trim().replace(/\s+/g, '_');
     
     logger.info({ sport: normalizedSport }, 'SportAdapterFactory: Getting adapter');
 
@@ -53,19 +57,25 @@ export class SportAdapterFactory {
         return new NHLAdapter();
 
       case 'SOCCER':
+        return new SoccerAdapter();
+
       case 'MLS':
-        logger.warn('Soccer adapter not implemented yet, using DummyScoreSource');
-        return new DummyScoreSource();
+      case 'EPL':
+      case 'UCL':
+      case 'LALIGA':
+      case 'BUNDESLIGA':
+      case 'SERIEA':
+        return new SoccerAdapter([normalizedSport]);
 
       case 'COLLEGE_FOOTBALL':
       case 'CFB':
-        logger.warn('College Football adapter not implemented yet, using DummyScoreSource');
-        return new DummyScoreSource();
+      case 'NCAAF':
+        return new CollegeAdapter('NCAAF');
 
       case 'COLLEGE_BASKETBALL':
       case 'CBB':
-        logger.warn('College Basketball adapter not implemented yet, using DummyScoreSource');
-        return new DummyScoreSource();
+      case 'NCAAB':
+        return new CollegeAdapter('NCAAB');
 
       default:
         logger.warn({ sport: normalizedSport }, 'No adapter found for sport, using DummyScoreSource');
@@ -101,7 +111,7 @@ export class SportAdapterFactory {
     if (sport == null || String(sport).trim() === '') {
       return false;
     }
-    const normalizedSport = sport.toUpperCase().trim();
+    const normalizedSport = sport.toUpperCase().trim().replace(/\s+/g, '_');
     
     // Handle aliases
     const sportAliases: Record<string, string> = {
@@ -110,8 +120,15 @@ export class SportAdapterFactory {
       'BASEBALL': 'MLB',
       'HOCKEY': 'NHL',
       'MLS': 'SOCCER',
+      'EPL': 'SOCCER',
+      'UCL': 'SOCCER',
+      'LALIGA': 'SOCCER',
+      'BUNDESLIGA': 'SOCCER',
+      'SERIEA': 'SOCCER',
       'CFB': 'COLLEGE_FOOTBALL',
       'CBB': 'COLLEGE_BASKETBALL',
+      'NCAAF': 'COLLEGE_FOOTBALL',
+      'NCAAB': 'COLLEGE_BASKETBALL',
     };
 
     const mappedSport = sportAliases[normalizedSport] || normalizedSport;
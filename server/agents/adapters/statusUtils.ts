@@ -0,0 +1,134 @@
+import type { GameStatus, GameStatusDetail } from '@shared/schema';
+
+/**
+ * A game status with its optional sub-state and the source's reason text.
+ * Detail and reason are omitted (not null) when absent so adapter output
+ * stays unchanged for ordinary games.
+ */
+export interface ResolvedStatus {
+  status: GameStatus;
+  statusDetail?: GameStatusDetail;
+  statusReason?: string;
+}
+
+/** Featured ordering: live (or stopped) games first, then upcoming, finals, and games that won't be played */
+export const FEATURED_STATUS_ORDER: Record<GameStatus, number> = {
+  in_progress: 0,
+  delayed: 1,
+  suspended: 1,
+  scheduled: 2,
+  final: 3,
+  postponed: 4,
+  cancelled: 4,
+};
+
+// ESPN status names that are not plain scheduled / in progress / final
+const ESPN_SPECIAL_STATUSES: Record<string, { status: GameStatus; detail?: GameStatusDetail }> = {
+  STATUS_POSTPONED: { status: 'postponed' },
+  STATUS_CANCELED: { status: 'cancelled' },
+  STATUS_CANCELLED: { status: 'cancelled' },
+  STATUS_DELAYED: { status: 'delayed' },
+  STATUS_RAIN_DELAY: { status: 'delayed', detail: 'rain' },
+  STATUS_SUSPENDED: { status: 'suspended' },
+  STATUS_ABANDONED: { status: 'cancelled', detail: 'abandoned' },
+  STATUS_FORFEIT: { status: 'final', detail: 'forfeit' },
+};
+
+// Text markers for the same states on scraped scoreboards, checked in order
+const SPECIAL_STATUS_TEXT: Array<{ pattern: RegExp; status: GameStatus; detail?: GameStatusDetail }> = [
+  { pattern: /\bpostponed\b|\bppd\b/i, status: 'postponed' },
+  { pattern: /\bcancel{1,2}ed\b/i, status: 'cancelled' },
+  { pattern: /\babandoned\b/i, status: 'cancelled', detail: 'abandoned' },
+  { pattern: /\bsuspended\b|\bsusp\b/i, status: 'suspended' },
+  { pattern: /\bdelay(?:ed)?\b/i, status: 'delayed' },
+  { pattern: /\bforfeit(?:ed)?\b/i, status: 'final', detail: 'forfeit' },
+];
+
+const FINAL_TEXT = /\bfinal\b|\bf\/\w+/i;
+
+function resolved(status: GameStatus, detail?: GameStatusDetail | null, reason?: string | null): ResolvedStatus {
+  const out: ResolvedStatus = { status };
+  if (detail) out.statusDetail = detail;
+  const text = reason?.trim();
+  if (text) out.statusReason = text.slice(0, 200);
+  return out;
+}
+
+// Delays and suspensions caused by weather
+function weatherDetail(text: string): GameStatusDetail | undefined {
+  if (/\brain\b/i.test(text)) return 'rain';
+  if (/weather|lightning|storm|snow|heat|wind|fog/i.test(text)) return 'weather';
+  return undefined;
+}
+
+// Sub-state of a game past regulation: extra innings in baseball, overtime elsewhere
+function extraPeriodDetail(period: number | undefined, regulationPeriods: number, innings: boolean): GameStatusDetail | undefined {
+  if (period === undefined || period <= regulationPeriods) return undefined;
+  return innings ? 'extra_innings' : 'overtime';
+}
+
+/**
+ * Status from an ESPN scoreboard status object ({ period, type: { name, state, detail } })
+ *
+ * @param status - event.status or competition.status
+ * @param regulationPeriods - Periods before overtime (4 quarters, 3 periods, 2 halves, 9 innings)
+ * @param innings - Baseball: extra periods are extra innings
+ */
+export function parseEspnStatus(status: any, regulationPeriods: number, innings = false): ResolvedStatus {
+  const name: string = status?.type?.name ?? '';
+  const state: string = String(status?.type?.state ?? '').toLowerCase();
+  const detailText: string = status?.type?.detail || status?.type?.shortDetail || status?.type?.description || '';
+  const period = Number.isFinite(Number(status?.period)) ? Number(status.period) : undefined;
+
+  const special = ESPN_SPECIAL_STATUSES[name];
+  if (special) {
+    return resolved(special.status, special.detail ?? weatherDetail(detailText), detailText);
+  }
+
+  if (state === 'post') {
+    if (/SHOOTOUT|FINAL_PEN/.test(name) || /\bSO\b|shootout|\bpens?\b/i.test(detailText)) return resolved('final', 'shootout');
+    if (/FINAL_(?:AET|OT)/.test(name) || /\bOT\b|overtime|\bAET\b/i.test(detailText)) {
+      return resolved('final', innings ? 'extra_innings' : 'overtime');
+    }
+    return resolved('final', extraPeriodDetail(period, regulationPeriods, innings));
+  }
+
+  if (state === 'in') {
+    if (/HALFTIME/.test(name)) return resolved('in_progress', 'halftime');
+    if (/SHOOTOUT/.test(name)) return resolved('in_progress', 'shootout');
+    if (/intermission/i.test(detailText)) return resolved('in_progress', 'intermission');
+    return resolved('in_progress', extraPeriodDetail(period, regulationPeriods, innings));
+  }
+
+  return parseStatusText(detailText, regulationPeriods, innings) ?? resolved('scheduled');
+}
+
+/**
+ * Status from scraped scoreboard text ("Postponed", "Rain Delay", "Final/OT", "F/10")
+ *
+ * Recognizes the special states and finals; returns null for anything else so
+ * adapters can fall back to their own live / scheduled detection.
+ *
+ * @param text - Raw status text
+ * @param regulationPeriods - Periods before overtime (9 innings for baseball)
+ * @param innings - Baseball: "F/10" means extra innings
+ */
+export function parseStatusText(text: string, regulationPeriods: number, innings = false): ResolvedStatus | null {
+  const value = text || '';
+
+  for (const special of SPECIAL_STATUS_TEXT) {
+    if (special.pattern.test(value)) {
+      return resolved(special.status, special.detail ?? weatherDetail(value), value);
+    }
+  }
+
+  if (!FINAL_TEXT.test(value)) return null;
+
+  if (/\/\s*SO\b|shootout|\bpens?\b/i.test(value)) return resolved('final', 'shootout');
+  const finalPeriod = value.match(/\bf(?:inal)?\s*\/\s*(\d+)\b/i);
+  if (finalPeriod && innings) {
+    return resolved('final', extraPeriodDetail(Number(finalPeriod[1]), regulationPeriods, true));
+  }
+  if (/\/\s*\d*\s*OT\b|overtime|\bAET\b/i.test(value)) return resolved('final', innings ? 'extra_innings' : 'overtime');
+  return resolved('final');
+}
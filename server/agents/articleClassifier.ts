@@ -0,0 +1,117 @@
+/**
+ * Article Classifiers
+ *
+ * Pluggable classifiers that assign an article to one of the
+ * ARTICLE_CATEGORIES with a confidence score and human-readable reasoning.
+ */
+
+import type { Article, ArticleCategory } from "@shared/schema";
+import { extractKeywords, tokenize } from "../utils/bm25/tokenizer";
+
+export interface ClassificationResult {
+  category: ArticleCategory;
+  confidence: number; // 0-100
+  reasoning: string;
+  keywords: string[];
+}
+
+export interface IArticleClassifier {
+  /** Stored on article_classifications.classifier_version (max 20 chars) */
+  readonly version: string;
+  classify(article: Pick<Article, "title" | "content">): Promise<ClassificationResult>;
+}
+
+interface CategoryRule {
+  /** Token prefixes matched against the article's extracted keywords */
+  stems: string[];
+  /** Multi-word phrases matched against the normalized text */
+  phrases: string[];
+}
+
+const RULES: Record<Exclude<ArticleCategory, "general">, CategoryRule> = {
+  injury: {
+    stems: ["injur", "sprain", "strain", "fractur", "concuss", "surgery", "rehab", "hamstring", "acl", "mri", "sidelined", "questionable", "doubtful"],
+    phrases: ["injured reserve", "day-to-day", "day to day", "ruled out", "out indefinitely", "placed on il", "placed on ir", "injury report", "week-to-week", "concussion protocol"],
+  },
+  trade: {
+    stems: ["trade", "acquir", "deadline", "swap", "dealt"],
+    phrases: ["trade deadline", "traded to", "in exchange for", "draft pick", "sent to", "acquired from", "blockbuster deal"],
+  },
+  roster: {
+    stems: ["signed", "signing", "signs", "waive", "releas", "recall", "assign", "roster", "contract", "extension", "promot", "demot", "activat", "claim"],
+    phrases: ["signed a", "two-way contract", "practice squad", "called up", "optioned to", "free agent", "contract extension", "depth chart", "starting lineup", "waived by"],
+  },
+};
+
+// Matches in the headline weigh more than matches deep in the body
+const TITLE_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+const PHRASE_BONUS = 2;
+// Below this total score an article is considered "general" news
+const MIN_SCORE = 2;
+
+export class RuleBasedClassifier implements IArticleClassifier {
+  readonly version = "rules-1.0";
+
+  /**
+   * Classify using deterministic keyword and phrase rules
+   * Confidence reflects both the winning score and its margin over the runner-up.
+   */
+  async classify(article: Pick<Article, "title" | "content">): Promise<ClassificationResult> {
+    const fullText = `${article.title} ${article.content ?? ""}`;
+    const keywords = extractKeywords(fullText, 25);
+    const titleTokens = tokenize(article.title);
+    const normalized = fullText.toLowerCase().replace(/\s+/g, " ");
+
+    const scores: Array<{ category: ArticleCategory; score: number; matched: string[] }> = [];
+    for (const [category, rule] of Object.entries(RULES) as Array<[ArticleCategory, CategoryRule]>) {
+      let score = 0;
+      const matched: string[] = [];
+
+      for (const stem of rule.stems) {
+        const inTitle = titleTokens.find((t) => t.startsWith(stem));
+        const inBody = keywords.find((t) => t.startsWith(stem));
+        if (inTitle) {
+          score += TITLE_WEIGHT;
+          matched.push(inTitle);
+        } else if (inBody) {
+          score += BODY_WEIGHT;
+          matched.push(inBody);
+        }
+      }
+
+      for (const phrase of rule.phrases) {
+        if (normalized.includes(phrase)) {
+          score += PHRASE_BONUS;
+          matched.push(`"${phrase}"`);
+        }
+      }
+
+      scores.push({ category, score, matched });
+    }
+
+    scores.sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scores;
+
+    if (!best || best.score < MIN_SCORE) {
+      return {
+        category: "general",
+        confidence: 60,
+        reasoning: "No category rule reached the minimum score; defaulting to general",
+        keywords,
+      };
+    }
+
+    const margin = best.score - (runnerUp?.score ?? 0);
+    const confidence = Math.max(40, Math.min(95, 40 + best.score * 5 + margin * 5));
+    const reasoning = `Matched ${best.category} signals: ${best.matched.join(", ")}` +
+      (runnerUp && runnerUp.score > 0 ? ` (runner-up ${runnerUp.category} scored ${runnerUp.score})` : "");
+
+    return {
+      category: best.category,
+      confidence,
+      reasoning,
+      keywords,
+    };
+  }
+}
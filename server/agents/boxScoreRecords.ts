@@ -0,0 +1,78 @@
+import type {
+  BoxScoreRecord,
+  BoxScorePlayerStat,
+  InsertBoxScore,
+  InsertBoxScorePlayerStat,
+} from "@shared/schema";
+import type { BoxScore, BoxScoreSide, BoxScoreSport, PlayerStatLine } from "./types";
+
+/**
+ * Conversions between the adapter box score model and its storage rows
+ */
+
+function parseStats(json: string | null): Record<string, string> | undefined {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Flatten a box score into a box_scores row plus one row per player stat line
+ * @param sport - Fallback when the box score does not carry its sport
+ */
+export function toBoxScoreRecords(
+  boxScore: BoxScore,
+  sport: BoxScoreSport,
+): { boxScore: InsertBoxScore; players: InsertBoxScorePlayerStat[] } {
+  return {
+    boxScore: {
+      gameId: boxScore.gameId,
+      sport: boxScore.sport ?? sport,
+      homeTeamId: boxScore.home.teamId ?? null,
+      awayTeamId: boxScore.away.teamId ?? null,
+      homePts: boxScore.home.pts,
+      awayPts: boxScore.away.pts,
+      homeStats: boxScore.home.stats ? JSON.stringify(boxScore.home.stats) : null,
+      awayStats: boxScore.away.stats ? JSON.stringify(boxScore.away.stats) : null,
+      source: boxScore.source ?? null,
+      updatedAt: boxScore.updatedAt,
+    },
+    players: (boxScore.players ?? []).map((p) => ({
+      gameId: boxScore.gameId,
+      side: p.side,
+      teamId: p.teamId ?? null,
+      playerId: p.playerId,
+      playerName: p.name,
+      position: p.position ?? null,
+      starter: p.starter ?? false,
+      statGroup: p.stats.kind,
+      stats: JSON.stringify(p.stats),
+    })),
+  };
+}
+
+/**
+ * Rebuild the adapter box score model from stored rows
+ */
+export function fromBoxScoreRecords(record: BoxScoreRecord, players: BoxScorePlayerStat[]): BoxScore {
+  return {
+    gameId: record.gameId,
+    sport: record.sport as BoxScoreSport,
+    home: { pts: record.homePts, teamId: record.homeTeamId ?? undefined, stats: parseStats(record.homeStats) },
+    away: { pts: record.awayPts, teamId: record.awayTeamId ?? undefined, stats: parseStats(record.awayStats) },
+    players: players.map((p) => ({
+      playerId: p.playerId,
+      name: p.playerName,
+      side: p.side as BoxScoreSide,
+      teamId: p.teamId ?? undefined,
+      position: p.position,
+      starter: p.starter,
+      stats: JSON.parse(p.stats) as PlayerStatLine,
+    })),
+    updatedAt: record.updatedAt,
+    source: record.source ?? undefined,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Classification Agent
+ *
+ * Drains unprocessed articles through an IArticleClassifier, records each
+ * decision in article_classifications and marks the article processed.
+ */
+
+import type { Article } from "@shared/schema";
+import { storage as defaultStorage } from "../storage";
+import type { IStorage } from "../storage";
+import { withSource } from "../logger";
+import { RuleBasedClassifier } from "./articleClassifier";
+import type { IArticleClassifier, ClassificationResult } from "./articleClassifier";
+
+const log = withSource("classification-agent");
+
+export interface ClassificationRunResult {
+  classified: number;
+  errors: number;
+  byCategory: Record<string, number>;
+}
+
+export class ClassificationAgent {
+  private classifier: IArticleClassifier;
+  private storage: IStorage;
+
+  constructor(classifier?: IArticleClassifier, storage?: IStorage) {
+    this.classifier = classifier || new RuleBasedClassifier();
+    this.storage = storage || defaultStorage;
+  }
+
+  /**
+   * Classify a batch of articles
+   * @param options.articleIds Classify these articles (processed or not) instead of the unprocessed backlog
+   * @param options.limit Max unprocessed articles to pull (default: 100)
+   * @returns Counts of classified articles and failures
+   */
+  async runOnce(options: { articleIds?: string[]; limit?: number } = {}): Promise<ClassificationRunResult> {
+    const articles = await this.loadArticles(options);
+    const result: ClassificationRunResult = { classified: 0, errors: 0, byCategory: {} };
+
+    for (const article of articles) {
+      try {
+        const decision = await this.classifyArticle(article);
+        result.classified += 1;
+        result.byCategory[decision.category] = (result.byCategory[decision.category] ?? 0) + 1;
+      } catch (err) {
+        result.errors += 1;
+        log.warn({ articleId: article.id, err }, "article classification failed");
+      }
+    }
+
+    log.info({ classifierVersion: this.classifier.version, ...result }, "classification batch complete");
+    return result;
+  }
+
+  /**
+   * Classify one article, persist the classification and flag the article processed
+   * @returns The classifier's decision
+   */
+  async classifyArticle(article: Article): Promise<ClassificationResult> {
+    const decision = await this.classifier.classify(article);
+
+    await this.storage.createArticleClassification({
+      articleId: article.id,
+      category: decision.category,
+      confidence: decision.confidence,
+      classifierVersion: this.classifier.version,
+      reasoning: decision.reasoning,
+      keywords: decision.keywords,
+    });
+
+    await this.storage.updateArticle(article.id, {
+      category: decision.category,
+      confidence: decision.confidence,
+      isProcessed: true,
+    });
+
+    return decision;
+  }
+
+  private async loadArticles(options: { articleIds?: string[]; limit?: number }): Promise<Article[]> {
+    if (options.articleIds && options.articleIds.length > 0) {
+      const found = await Promise.all(options.articleIds.map((id) => this.storage.getArticle(id)));
+      return found.filter((a): a is Article => !!a && !a.isDeleted);
+    }
+    return this.storage.getUnprocessedArticles(options.limit ?? 100);
+  }
+}
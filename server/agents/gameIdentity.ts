@@ -0,0 +1,128 @@
+import type { GameAlias } from "@shared/schema";
+import { storage as defaultStorage } from "../storage";
+import type { IStorage } from "../storage";
+import { buildGameKey } from "./adapters/idUtils";
+import { sourceKey } from "./validationService";
+
+// The parts of a game reading that identify it
+export interface GameIdentityInput {
+  gameId: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  startTime: Date;
+  source?: string;
+}
+
+export interface GameIdentityResolverOptions {
+  // Readings of the same teams on the same day further apart than this are different games (doubleheaders)
+  doubleheaderGapMs?: number;
+  // Max source ids remembered in memory between storage lookups
+  cacheSize?: number;
+}
+
+interface KnownGame {
+  gameId: string;
+  startTime?: Date;
+  sources: Set<string>;
+}
+
+/**
+ * Maps source-specific event ids ("NBA_ESPN_401700005", "NBA_CBS_20251020_LAL_BOS")
+ * onto one canonical game per league, schedule date and team pair, and stores each
+ * source's id as an alias.
+ *
+ * The first id a game is seen under becomes its canonical id, so games already in
+ * storage keep their ids. A source never reports the same game twice, so a second
+ * event from the same source for the same key is another game of a doubleheader;
+ * other sources' events join the known game whose start time is closest.
+ */
+export class GameIdentityResolver {
+  private storage: IStorage;
+  private doubleheaderGapMs: number;
+  private cacheSize: number;
+  // "<source>|<sourceGameId>" -> canonical alias
+  private cache = new Map<string, GameAlias>();
+
+  constructor(storage?: IStorage, options: GameIdentityResolverOptions = {}) {
+    this.storage = storage || defaultStorage;
+    this.doubleheaderGapMs = options.doubleheaderGapMs ?? 3 * 60 * 60 * 1000;
+    this.cacheSize = options.cacheSize ?? 5000;
+  }
+
+  /**
+   * Canonical game id for one source's reading; records the alias on first sight
+   */
+  async resolve(sport: string, game: GameIdentityInput): Promise<string> {
+    const source = sourceKey(game.source);
+    const gameKey = buildGameKey(sport, game.awayTeamId, game.homeTeamId, game.startTime);
+
+    const known = await this.lookup(source, game.gameId);
+    if (known) {
+      // Undated source ids get reused across days; only trust the alias for the same key
+      return known.gameKey === gameKey ? known.gameId : game.gameId;
+    }
+
+    const match = this.closestGame(await this.storage.getGameAliasesByKey(gameKey), source, game.startTime);
+    const alias = await this.storage.createGameAlias({
+      gameId: match?.gameId ?? game.gameId,
+      gameKey,
+      source,
+      sourceGameId: game.gameId,
+      startTime: game.startTime,
+    });
+    this.remember(alias);
+    return alias.gameId;
+  }
+
+  /**
+   * Rewrite readings onto canonical ids so readings of one game from different sources share an id
+   */
+  async resolveAll<T extends GameIdentityInput>(sport: string, games: T[]): Promise<T[]> {
+    const out: T[] = [];
+    for (const game of games) {
+      const gameId = await this.resolve(sport, game);
+      out.push(gameId === game.gameId ? game : { ...game, gameId });
+    }
+    return out;
+  }
+
+  /**
+   * A source's own id for a canonical game, e.g. to fetch its box score from that source
+   */
+  async sourceGameIdFor(gameId: string, source: string): Promise<string | undefined> {
+    const key = sourceKey(source);
+    const aliases = await this.storage.getGameAliases(gameId);
+    return aliases.find((a) => a.source === key)?.sourceGameId;
+  }
+
+  // Known game for this key that the source has not already claimed, nearest in start time
+  private closestGame(aliases: GameAlias[], source: string, startTime: Date): KnownGame | undefined {
+    const games = new Map<string, KnownGame>();
+    for (const alias of aliases) {
+      const game = games.get(alias.gameId) ?? { gameId: alias.gameId, startTime: alias.startTime ?? undefined, sources: new Set<string>() };
+      game.sources.add(alias.source);
+      games.set(alias.gameId, game);
+    }
+
+    const distance = (g: KnownGame) => (g.startTime ? Math.abs(g.startTime.getTime() - startTime.getTime()) : 0);
+    return Array.from(games.values())
+      .filter((g) => !g.sources.has(source) && distance(g) <= this.doubleheaderGapMs)
+      .sort((a, b) => distance(a) - distance(b))[0];
+  }
+
+  private async lookup(source: string, sourceGameId: string): Promise<GameAlias | undefined> {
+    const cached = this.cache.get(`${source}|${sourceGameId}`);
+    if (cached) return cached;
+    const alias = await this.storage.getGameAlias(source, sourceGameId);
+    if (alias) this.remember(alias);
+    return alias;
+  }
+
+  private remember(alias: GameAlias): void {
+    if (this.cache.size >= this.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(`${alias.source}|${alias.sourceGameId}`, alias);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * News Agent
+ *
+ * Sweeps active news sources, turns their items into team-scoped articles,
+ * and keeps per-source reliability counters up to date.
+ */
+
+import type { InsertArticle, NewsSource } from "@shared/schema";
+import { storage as defaultStorage } from "../storage";
+import type { IStorage } from "../storage";
+import { withSource } from "../logger";
+import { ethicalFetcher as defaultFetcher } from "../utils/scraping/fetcher";
+import type { EthicalFetcher } from "../utils/scraping/fetcher";
+import { FeedParser } from "../utils/scraping/feedParser";
+import { ArticleScraper } from "../utils/scraping/articleScraper";
+import { TeamMapper } from "../utils/scraping/teamMapper";
+import { deduplicator as defaultDeduplicator, storyClusterer as defaultClusterer, MinHash, lshBandKeys } from "../utils/deduplication";
+import type { Deduplicator, StoryClusterer } from "../utils/deduplication";
+import {
+  tokenize,
+  calculateTermFrequencies,
+  serializeTermFrequencies,
+  calculateContentHash,
+} from "../utils/bm25/tokenizer";
+import { bm25Manager } from "../utils/bm25/indexManager";
+
+const log = withSource("news-agent");
+
+/**
+ * Raw article pulled from a source before team mapping and deduplication
+ */
+export interface ArticleCandidate {
+  title: string;
+  content: string;
+  author?: string | null;
+  publishedAt?: Date | null;
+  sourceUrl: string;
+  sourceName: string;
+}
+
+export interface NewsScrapeResult {
+  sources: number;
+  persisted: number;
+  /** Persisted articles that joined another outlet's story cluster */
+  clustered: number;
+  duplicates: number;
+  skipped: number;
+  errors: number;
+}
+
+export interface SourceScrapeResult {
+  sourceId: string;
+  persisted: number;
+  clustered: number;
+  duplicates: number;
+  skipped: number;
+  error?: string;
+}
+
+export class NewsAgent {
+  private storage: IStorage;
+  private fetcher: Pick<EthicalFetcher, "fetch">;
+  private deduplicator: Pick<Deduplicator, "checkAndGenerateSignature">;
+  private clusterer: Pick<StoryClusterer, "attach">;
+
+  constructor(
+    storage?: IStorage,
+    fetcher?: Pick<EthicalFetcher, "fetch">,
+    deduplicator?: Pick<Deduplicator, "checkAndGenerateSignature">,
+    clusterer?: Pick<StoryClusterer, "attach">,
+  ) {
+    this.storage = storage || defaultStorage;
+    this.fetcher = fetcher || defaultFetcher;
+    this.deduplicator = deduplicator || defaultDeduplicator;
+    this.clusterer = clusterer || defaultClusterer;
+  }
+
+  /**
+   * Scrape all active sources (or the given subset) once
+   * @param options.sourceIds Restrict the sweep to these source ids
+   * @returns Aggregate counters across all scraped sources
+   */
+  async runOnce(options: { sourceIds?: string[] } = {}): Promise<NewsScrapeResult> {
+    const active = await this.storage.getActiveNewsSources();
+    const wanted = options.sourceIds && options.sourceIds.length > 0
+      ? new Set(options.sourceIds)
+      : null;
+    const sources = wanted ? active.filter((s) => wanted.has(s.id)) : active;
+
+    const totals: NewsScrapeResult = { sources: sources.length, persisted: 0, clustered: 0, duplicates: 0, skipped: 0, errors: 0 };
+    for (const source of sources) {
+      const result = await this.scrapeSource(source);
+      totals.persisted += result.persisted;
+      totals.clustered += result.clustered;
+      totals.duplicates += result.duplicates;
+      totals.skipped += result.skipped;
+      if (result.error) totals.errors += 1;
+    }
+
+    log.info({ ...totals }, "news sweep complete");
+    return totals;
+  }
+
+  /**
+   * Scrape a single source, persist new articles and update its counters.
+   * Errors are recorded on the source row rather than thrown.
+   */
+  async scrapeSource(source: NewsSource): Promise<SourceScrapeResult> {
+    const result: SourceScrapeResult = { sourceId: source.id, persisted: 0, clustered: 0, duplicates: 0, skipped: 0 };
+
+    try {
+      const candidates = await this.fetchCandidates(source);
+
+      for (const candidate of candidates) {
+        const outcome = await this.ingestCandidate(source, candidate);
+        if (outcome === "clustered") {
+          result.persisted += 1;
+          result.clustered += 1;
+        } else {
+          result[outcome] += 1;
+        }
+      }
+
+      await this.storage.updateNewsSource(source.id, {
+        totalArticles: source.totalArticles + result.persisted + result.duplicates,
+        relevantArticles: source.relevantArticles + result.persisted,
+        duplicateArticles: source.duplicateArticles + result.duplicates,
+        lastScrapedAt: new Date(),
+        errorMessage: null,
+      });
+
+      log.info({ sourceName: source.name, ...result }, "news source scraped");
+    } catch (err: any) {
+      result.error = err?.message ?? String(err);
+      log.warn({ sourceName: source.name, err }, "news source scrape failed");
+      try {
+        await this.storage.updateNewsSource(source.id, {
+          lastErrorAt: new Date(),
+          errorMessage: result.error,
+        });
+      } catch (updateErr) {
+        log.error({ sourceName: source.name, err: updateErr }, "failed to record news source error");
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the source and extract article candidates according to its type
+   */
+  private async fetchCandidates(source: NewsSource): Promise<ArticleCandidate[]> {
+    switch (source.sourceType) {
+      case "rss": {
+        if (!source.rssUrl) throw new Error(`Source ${source.name} has no rssUrl`);
+        const xml = await this.fetcher.fetch(source.rssUrl, {
+          headers: { Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8" },
+        });
+        return FeedParser.parse(xml, { sourceName: source.name, feedUrl: source.rssUrl }).items;
+      }
+      case "scraper": {
+        const scraper = new ArticleScraper(this.fetcher);
+        return scraper.scrape(source, {
+          // Avoid re-fetching article pages we have already ingested
+          shouldFetch: async (url) => !(await this.storage.getArticleBySourceUrl(url)),
+        });
+      }
+      default:
+        throw new Error(`Unsupported news source type: ${source.sourceType}`);
+    }
+  }
+
+  /**
+   * Map a candidate to its team, deduplicate and persist it.
+   * Near-duplicates from a different outlet are kept and grouped into the
+   * matched article's story cluster; same-outlet duplicates are dropped.
+   * @returns Which counter the candidate should be tallied under
+   */
+  private async ingestCandidate(
+    source: NewsSource,
+    candidate: ArticleCandidate,
+  ): Promise<"persisted" | "clustered" | "duplicates" | "skipped"> {
+    const existing = await this.storage.getArticleBySourceUrl(candidate.sourceUrl);
+    if (existing) return "skipped";
+
+    const teamMatch = await this.resolveTeam(candidate);
+    if (!teamMatch) {
+      log.debug({ sourceName: source.name, url: candidate.sourceUrl }, "no team match for article");
+      return "skipped";
+    }
+
+    const text = `${candidate.title} ${candidate.content}`;
+    const { result, signature } = await this.deduplicator.checkAndGenerateSignature(text, teamMatch.teamId);
+    const clusterWith = result.isDuplicate && result.matchedArticle
+      && result.matchedArticle.sourceName !== candidate.sourceName
+      ? result.matchedArticle
+      : undefined;
+    if (result.isDuplicate && !clusterWith) {
+      log.debug(
+        { sourceName: source.name, url: candidate.sourceUrl, similarArticleId: result.similarArticleId, similarity: result.similarity },
+        "duplicate article skipped",
+      );
+      return "duplicates";
+    }
+
+    const tokens = tokenize(text);
+    const article: InsertArticle = {
+      teamId: teamMatch.teamId,
+      title: candidate.title,
+      content: candidate.content,
+      author: candidate.author ?? null,
+      publishedAt: candidate.publishedAt ?? new Date(),
+      sourceUrl: candidate.sourceUrl,
+      sourceName: candidate.sourceName,
+      sourceType: source.sourceType,
+      wordCount: tokens.length,
+      termFrequencies: serializeTermFrequencies(calculateTermFrequencies(tokens)),
+      contentHash: calculateContentHash(text),
+      minHash: MinHash.serialize(signature),
+      lshBands: lshBandKeys(signature),
+      relevanceScore: Math.min(100, teamMatch.mentions * 25),
+    };
+
+    const created = await this.storage.createArticle(article);
+    try {
+      await bm25Manager.addArticle(created);
+    } catch (err) {
+      log.warn({ articleId: created.id, err }, "failed to index article");
+    }
+
+    if (clusterWith) {
+      try {
+        await this.clusterer.attach(created, clusterWith);
+      } catch (err) {
+        log.warn({ articleId: created.id, matchedArticleId: clusterWith.id, err }, "failed to attach article to story cluster");
+      }
+      return "clustered";
+    }
+    return "persisted";
+  }
+
+  /**
+   * Pick the most mentioned known team for a candidate
+   */
+  private async resolveTeam(candidate: ArticleCandidate): Promise<{ teamId: string; mentions: number } | null> {
+    // Headline mentions count double so the subject team wins over passing references
+    const mentions = TeamMapper.findTeamsInText(`${candidate.title} ${candidate.title} ${candidate.content}`);
+    for (const match of mentions) {
+      const team = await this.storage.getTeam(match.teamId);
+      if (team) return match;
+    }
+    return null;
+  }
+}
@@ -8,15 +8,19 @@ import {
 } from "../types/errors";
 import { storage as defaultStorage } from "../storage";
 import type { IStorage } from "../storage";
-import type { InsertGame, Game } from "@shared/schema";
+import type { InsertGame, Game, InsertGamePlay, GamePlayRecord, InsertTeamRanking, TeamRankingRecord } from "@shared/schema";
 import { logger, withSource } from "../logger";
-import { broadcast, broadcastUserTeamUpdate, broadcastUserTeamStatusChange } from "../ws";
+import { broadcast, broadcastUserTeamUpdate, broadcastUserTeamStatusChange, broadcastGamePlays } from "../ws";
 import { config } from "../config";
 import { metrics } from "../metrics";
 import { createRedis, connectRedis } from "../jobs/redis";
 import type { Redis } from "ioredis";
 import { ValidationService } from "./validationService";
-import type { GameScore, ScheduleGame } from "./types";
+import type { PriorScore } from "./validationService";
+import { GameIdentityResolver } from "./gameIdentity";
+import type { GameIdentityInput } from "./gameIdentity";
+import type { GameScore, ScheduleGame, BoxScore, BoxScoreSport, ValidatedScores, CollegeLeague, RankingPoll } from "./types";
+import { toBoxScoreRecords, fromBoxScoreRecords } from "./boxScoreRecords";
 
 let cacheClient: Redis | null = null;
 async function getCacheClient(): Promise<Redis | null> {
@@ -49,17 +53,20 @@ function normalizeDate(input?: string | Date): Date | undefined {
 export class ScoresAgent {
   private source: IScoreSource;
   private storage: IStorage;
+  private identity: GameIdentityResolver;
 
   constructor(source: IScoreSource, storage?: IStorage) {
     this.source = source;
     this.storage = storage || defaultStorage;
+    this.identity = new GameIdentityResolver(this.storage);
   }
 
   // Sanitize team IDs to enforce LEAGUE_TEAMCODE format and uppercase
   private sanitizeTeamIds(ids: string[]): string[] {
     const out: string[] = [];
     const seen = new Set<string>();
-    const re = /^[A-Z]{2,4}_[A-Z0-9]+$/;
+    // League prefixes run from NBA to BUNDESLIGA
+    const re = /^[A-Z]{2,10}_[A-Z0-9]+$/;
     for (const raw of ids) {
       if (!raw) continue;
       const upper = raw.toUpperCase().trim();
@@ -139,7 +146,7 @@ export class ScoresAgent {
       if (teamIds.length > 0) {
         const teamCodes = Array.from(new Set(teamIds.map((t) => t.split("_")[1]).filter(Boolean)));
         if (mode === "schedule" && typeof this.source.fetchSchedule === "function") {
-          const schedule: ScheduleGame[] = await this.source.fetchSchedule!(teamCodes, startDate, endDate);
+          const schedule: ScheduleGame[] = await this.resolveGameIds(sport, await this.source.fetchSchedule!(teamCodes, startDate, endDate));
           items = schedule.slice(0, limit).map((g) => ({
             id: g.gameId,
             homeTeamId: g.homeTeamId,
@@ -147,13 +154,19 @@ export class ScoresAgent {
             homePts: 0,
             awayPts: 0,
             status: g.status ?? "scheduled",
+            statusDetail: g.statusDetail ?? undefined,
+            statusReason: g.statusReason ?? undefined,
             period: undefined,
             timeRemaining: undefined,
             startTime: g.startTime,
           }));
         } else if (typeof this.source.fetchLive === "function") {
-          const liveScores: GameScore[] = await this.source.fetchLive!(teamCodes);
-          const validated = validator.validateForTeams(liveScores, teamIds);
+          const fetchedAt = new Date();
+          const liveScores: GameScore[] = await this.resolveGameIds(sport, (await this.source.fetchLive!(teamCodes))
+            .map((s) => ({ ...s, fetchedAt: s.fetchedAt ?? fetchedAt })));
+          const previous = await this.loadPriorScores(liveScores.map((s) => s.gameId));
+          const validated = validator.validateForTeams(liveScores, teamIds, previous);
+          await this.recordReconciliation(sport, validated);
           items = validated.items.map((s) => ({
             id: s.gameId,
             homeTeamId: s.homeTeamId,
@@ -161,6 +174,8 @@ export class ScoresAgent {
             homePts: s.homePts,
             awayPts: s.awayPts,
             status: s.status,
+            statusDetail: s.statusDetail ?? undefined,
+            statusReason: s.statusReason ?? undefined,
             period: s.period ?? undefined,
             timeRemaining: s.timeRemaining ?? undefined,
             startTime: s.startTime,
@@ -171,7 +186,7 @@ export class ScoresAgent {
         }
       } else {
         if (mode === "schedule" && typeof this.source.fetchSchedule === "function") {
-          const schedule: ScheduleGame[] = await this.source.fetchSchedule!([], startDate, endDate);
+          const schedule: ScheduleGame[] = await this.resolveGameIds(sport, await this.source.fetchSchedule!([], startDate, endDate));
           items = schedule.slice(0, limit).map((g) => ({
             id: g.gameId,
             homeTeamId: g.homeTeamId,
@@ -179,12 +194,14 @@ export class ScoresAgent {
             homePts: 0,
             awayPts: 0,
             status: g.status ?? "scheduled",
+            statusDetail: g.statusDetail ?? undefined,
+            statusReason: g.statusReason ?? undefined,
             period: undefined,
             timeRemaining: undefined,
             startTime: g.startTime,
           }));
         } else if (typeof this.source.fetchFeaturedGames === "function" && mode === "featured") {
-          const featured: ScheduleGame[] = await this.source.fetchFeaturedGames!(sport, limit);
+          const featured: ScheduleGame[] = await this.resolveGameIds(sport, await this.source.fetchFeaturedGames!(sport, limit));
           items = featured.map((g) => ({
             id: g.gameId,
             homeTeamId: g.homeTeamId,
@@ -192,6 +209,8 @@ export class ScoresAgent {
             homePts: 0,
             awayPts: 0,
             status: g.status ?? "scheduled",
+            statusDetail: g.statusDetail ?? undefined,
+            statusReason: g.statusReason ?? undefined,
             period: undefined,
             timeRemaining: undefined,
             startTime: g.startTime,
@@ -226,6 +245,14 @@ export class ScoresAgent {
       return { persisted, skipped, errors, items: out };
     }
 
+    // Schedule entries only seed upcoming games; once a game has started, live polling owns its row
+    if (mode === "schedule") {
+      const prior = await this.loadPriorScores(items.map((g) => g.id));
+      const before = items.length;
+      items = items.filter((g) => (prior.get(g.id)?.status ?? "scheduled") === "scheduled");
+      skipped += before - items.length;
+    }
+
     // Detect changes before persisting games
     const { scoreChanges, statusChanges } = await this.detectGameChanges(items);
 
@@ -257,6 +284,8 @@ export class ScoresAgent {
                 score: saved.awayPts
               },
               status: saved.status,
+              statusDetail: saved.statusDetail,
+              statusReason: saved.statusReason,
               period: saved.period,
               timeRemaining: saved.timeRemaining,
               timestamp: new Date()
@@ -265,17 +294,20 @@ export class ScoresAgent {
           
           if (hadStatusChange) {
             // For status changes, we need to broadcast for both teams
+            const statusDetails = { statusDetail: saved.statusDetail ?? null, statusReason: saved.statusReason ?? null };
             await broadcastUserTeamStatusChange(
               saved.id,
               saved.homeTeamId,
               'unknown', // We don't have the old status in this context
-              saved.status
+              saved.status,
+              statusDetails
             );
             await broadcastUserTeamStatusChange(
               saved.id,
               saved.awayTeamId,
               'unknown', // We don't have the old status in this context
-              saved.status
+              saved.status,
+              statusDetails
             );
           }
         } catch (bErr) {
@@ -315,6 +347,24 @@ export class ScoresAgent {
       }
     }
 
+    // Pull play-by-play for games in progress
+    if (typeof this.source.fetchPlays === "function") {
+      for (const game of out) {
+        if (game.status !== "in_progress") continue;
+        try {
+          await this.ingestPlays(game);
+        } catch (pErr) {
+          logError(log, new ScoreFetchError(
+            `Failed to ingest plays: ${pErr instanceof Error ? pErr.message : String(pErr)}`,
+            { gameId: game.id, sourceError: pErr instanceof Error ? pErr.message : String(pErr) }
+          ), {
+            operation: 'runOnce-ingest-plays',
+            gameId: game.id
+          });
+        }
+      }
+    }
+
     // Populate cache with results (skip for schedule mode)
     if (mode !== "schedule") {
       try {
@@ -356,6 +406,72 @@ export class ScoresAgent {
     return parts[0] || '';
   }
 
+  /**
+   * The id ESPN knows a canonical game by, since every adapter fetches box scores
+   * and plays from ESPN's summary; falls back to the canonical id when ESPN has no
+   * alias for it or the lookup fails
+   */
+  private async detailGameId(gameId: string): Promise<string> {
+    try {
+      return (await this.identity.sourceGameIdFor(gameId, 'espn')) ?? gameId;
+    } catch (error) {
+      logger.warn({ gameId, error }, 'Game alias lookup failed; using canonical id');
+      return gameId;
+    }
+  }
+
+  /**
+   * Map source event ids onto canonical game ids so every source's readings of a game
+   * reconcile and persist together; keeps the source ids if resolution fails
+   */
+  private async resolveGameIds<T extends GameIdentityInput>(sport: string, games: T[]): Promise<T[]> {
+    try {
+      return await this.identity.resolveAll(sport, games);
+    } catch (error) {
+      logger.warn({ sport, error }, 'Game identity resolution failed; keeping source ids');
+      return games;
+    }
+  }
+
+  /**
+   * Last persisted score per game, so reconciliation never moves a score backwards
+   */
+  private async loadPriorScores(gameIds: string[]): Promise<Map<string, PriorScore>> {
+    const prior = new Map<string, PriorScore>();
+    for (const id of Array.from(new Set(gameIds))) {
+      try {
+        const game = await this.storage.getGame(id);
+        if (game) prior.set(id, { homePts: game.homePts, awayPts: game.awayPts, status: game.status });
+      } catch (error) {
+        logger.warn({ gameId: id, error }, 'Error loading prior score');
+      }
+    }
+    return prior;
+  }
+
+  /**
+   * Export reconciliation accuracy to metrics and persist any source disagreements
+   */
+  private async recordReconciliation(sport: string, validated: ValidatedScores): Promise<void> {
+    metrics.recordScoreReconciliation(sport, validated);
+
+    const discrepancies = validated.discrepancies ?? [];
+    if (discrepancies.length === 0) return;
+    try {
+      await this.storage.createScoreDiscrepancies(discrepancies.map((d) => ({
+        gameId: d.gameId,
+        field: d.field,
+        resolvedValue: d.resolvedValue,
+        resolvedSource: d.resolvedSource ?? null,
+        readings: JSON.stringify(d.readings),
+        sources: d.readings.map((r) => r.source),
+      })));
+      withSource("scores-agent").info({ sport, count: discrepancies.length }, "score sources disagreed");
+    } catch (error) {
+      logger.warn({ sport, error }, 'Failed to persist score discrepancies');
+    }
+  }
+
   /**
    * Detect significant changes in games that warrant broadcasting
    */
@@ -383,6 +499,11 @@ export class ScoresAgent {
           statusChanges.push(newGame);
         }
 
+        // Check for sub-state changes (rain delay, overtime, shootout)
+        if ((existingGame.statusDetail ?? null) !== (newGame.statusDetail ?? null)) {
+          statusChanges.push(newGame);
+        }
+
         // Check for period changes (significant for live games)
         if (existingGame.period !== newGame.period) {
           statusChanges.push(newGame);
@@ -694,4 +815,109 @@ export class ScoresAgent {
   async getUserFavoriteTeamBySport(firebaseUid: string, sport: string): Promise<UserFavoriteTeam[]> {
     return this.getUserFavoriteTeams(firebaseUid, sport);
   }
-}
\ No newline at end of file
+
+  /**
+   * Fetch a game's box score from the source and persist it
+   *
+   * @param gameId - Stored game id
+   * @returns The fetched box score
+   * @throws ScoreFetchError - If the source cannot provide box scores or had no data for the game
+   */
+  async syncBoxScore(gameId: string): Promise<BoxScore> {
+    if (!this.source.fetchBoxScore) {
+      throw new ScoreFetchError('Score source does not provide box scores', { gameId });
+    }
+    const boxScore = await this.source.fetchBoxScore(await this.detailGameId(gameId));
+    // Adapters answer failures with a zero-filled placeholder; never let it replace real data
+    if (boxScore.source === 'unavailable') {
+      throw new ScoreFetchError('Box score unavailable from source', { gameId });
+    }
+
+    const sport = (boxScore.sport ?? gameId.split('_')[0]) as BoxScoreSport;
+    const records = toBoxScoreRecords({ ...boxScore, gameId }, sport);
+    await this.storage.saveBoxScore(records.boxScore, records.players);
+    return { ...boxScore, gameId };
+  }
+
+  /**
+   * Read a persisted box score
+   *
+   * @param gameId - Stored game id
+   * @returns The box score, or undefined if none has been synced yet
+   */
+  async getBoxScore(gameId: string): Promise<BoxScore | undefined> {
+    const record = await this.storage.getBoxScore(gameId);
+    if (!record) return undefined;
+    return fromBoxScoreRecords(record, await this.storage.getBoxScorePlayerStats(gameId));
+  }
+
+  /**
+   * Fetch a college poll from the source and replace the stored copy
+   *
+   * @param league - NCAAF or NCAAB
+   * @param poll - "ap" or "coaches"
+   * @returns The stored poll ordered by rank; the previous copy is kept when the source has none
+   * @throws ScoreFetchError - If the source does not provide rankings
+   */
+  async syncRankings(league: CollegeLeague, poll: RankingPoll): Promise<TeamRankingRecord[]> {
+    if (!this.source.fetchRankings) {
+      throw new ScoreFetchError('Score source does not provide rankings', { league, poll });
+    }
+    const rankings = await this.source.fetchRankings(poll);
+    if (!rankings) return this.storage.getTeamRankings(league, poll);
+
+    const rows: InsertTeamRanking[] = rankings.teams.map((t) => ({
+      league,
+      poll,
+      season: rankings.season ?? null,
+      week: rankings.week ?? null,
+      rank: t.rank,
+      teamId: t.teamId,
+      teamName: t.teamName,
+      previousRank: t.previousRank ?? null,
+      record: t.record ?? null,
+      points: t.points ?? null,
+      firstPlaceVotes: t.firstPlaceVotes ?? null,
+    }));
+    return this.storage.replaceTeamRankings(league, poll, rows);
+  }
+
+  /**
+   * Fetch plays newer than the last stored sequence, persist them and push them
+   * to subscribers of either team
+   *
+   * @param game - Stored game to ingest plays for
+   * @returns Plays that were not stored before, ordered by sequence
+   * @throws ScoreFetchError - If the source cannot provide plays
+   */
+  async ingestPlays(game: Game): Promise<GamePlayRecord[]> {
+    if (!this.source.fetchPlays) {
+      throw new ScoreFetchError('Score source does not provide play-by-play', { gameId: game.id });
+    }
+    const since = await this.storage.getLatestGamePlaySequence(game.id);
+    const plays = await this.source.fetchPlays(await this.detailGameId(game.id), since);
+
+    const rows: InsertGamePlay[] = plays
+      .filter((p) => p.sequence > since)
+      .map((p) => ({
+        gameId: game.id,
+        sequence: p.sequence,
+        period: p.period ?? null,
+        clock: p.clock ?? null,
+        teamId: p.teamId ?? null,
+        playType: p.playType ?? null,
+        description: p.description,
+        scoringPlay: p.scoringPlay,
+        scoreValue: p.scoreValue ?? null,
+        homePts: p.homePts ?? null,
+        awayPts: p.awayPts ?? null,
+        occurredAt: p.occurredAt ?? null,
+        source: p.source ?? null,
+      }));
+    if (rows.length === 0) return [];
+
+    const inserted = await this.storage.insertGamePlays(rows);
+    broadcastGamePlays(game, inserted);
+    return inserted;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Summary Agent
+ *
+ * Builds a grounded team briefing from the team's top BM25-ranked recent
+ * articles and latest score, generates it through an ISummaryProvider and
+ * stores it with the model name and cited article ids.
+ */
+
+import type { Article, GameScoreData, Summary, Team } from "@shared/schema";
+import { storage as defaultStorage } from "../storage";
+import type { IStorage } from "../storage";
+import { withSource } from "../logger";
+import { ValidationError } from "../types/errors";
+import { bm25Manager } from "../utils/bm25/indexManager";
+import { tokenize } from "../utils/bm25/tokenizer";
+import { createSummaryProvider, ExtractiveSummaryProvider } from "./summaryProviders";
+import type { ISummaryProvider, SummaryInput, SummarySourceArticle } from "./summaryProviders";
+
+const log = withSource("summary-agent");
+
+// Keep prompts comfortably inside small context windows
+const MAX_EXCERPT_CHARS = 1200;
+
+export interface SummaryOptions {
+  /** Days of coverage to consider (default: 7) */
+  windowDays?: number;
+  /** Max articles placed in the prompt (default: 6) */
+  maxArticles?: number;
+}
+
+export class SummaryAgent {
+  private provider: ISummaryProvider;
+  private storage: IStorage;
+
+  constructor(provider?: ISummaryProvider, storage?: IStorage) {
+    this.provider = provider || createSummaryProvider();
+    this.storage = storage || defaultStorage;
+  }
+
+  /**
+   * Generate and persist a summary for a team
+   * Falls back to the extractive provider if a remote provider fails.
+   * @returns The stored summary
+   */
+  async generate(teamId: string, options: SummaryOptions = {}): Promise<Summary> {
+    const team = await this.storage.getTeam(teamId);
+    if (!team) {
+      throw new ValidationError("Unknown team for summary generation", { teamId });
+    }
+
+    const articles = await this.selectArticles(team, options.windowDays ?? 7, options.maxArticles ?? 6);
+    const score = await this.storage.getLatestTeamScore(teamId);
+    const input = this.buildInput(team, articles, score);
+
+    let output;
+    try {
+      output = await this.provider.generate(input);
+    } catch (err) {
+      if (this.provider.name === "extractive") throw err;
+      log.warn({ teamId, provider: this.provider.name, err }, "summary provider failed; falling back to extractive");
+      output = await new ExtractiveSummaryProvider().generate(input);
+    }
+
+    const refToId = new Map(input.articles.map((a) => [a.ref, a.id]));
+    const sourceArticleIds = output.citedRefs
+      .map((ref) => refToId.get(ref))
+      .filter((id): id is string => !!id);
+
+    const summary = await this.storage.createSummary({
+      teamId,
+      content: output.text,
+      model: output.model.slice(0, 50),
+      sourceArticleIds,
+    });
+
+    log.info(
+      { teamId, provider: this.provider.name, model: summary.model, articles: articles.length, cited: sourceArticleIds.length },
+      "summary generated",
+    );
+    return summary;
+  }
+
+  /**
+   * Pick the team's best recent articles: BM25 ranking against the team's
+   * name first, topped up with the most recent coverage if the index is thin.
+   */
+  private async selectArticles(team: Team, windowDays: number, maxArticles: number): Promise<Article[]> {
+    const cutoff = Date.now() - windowDays * 24 * 60 * 60 * 1000;
+    const picked: Article[] = [];
+    const seen = new Set<string>();
+    const accept = (article: Article | undefined) => {
+      if (!article || seen.has(article.id) || article.isDeleted) return;
+      if (article.publishedAt.getTime() < cutoff) return;
+      seen.add(article.id);
+      picked.push(article);
+    };
+
+    try {
+      if ((await bm25Manager.getIndex(team.id)).size() === 0) {
+        await bm25Manager.rebuildIndex(team.id);
+      }
+      const terms = tokenize(`${team.name} ${team.code}`);
+      const results = await bm25Manager.search({ terms, teamId: team.id }, maxArticles * 3);
+      for (const result of results) {
+        if (picked.length >= maxArticles) break;
+        accept(await this.storage.getArticle(result.documentId));
+      }
+    } catch (err) {
+      log.warn({ teamId: team.id, err }, "BM25 ranking unavailable; using recent articles");
+    }
+
+    if (picked.length < maxArticles) {
+      const recent = await this.storage.getRecentArticles(team.id, windowDays);
+      for (const article of recent) {
+        if (picked.length >= maxArticles) break;
+        accept(article);
+      }
+    }
+
+    return picked;
+  }
+
+  private buildInput(team: Team, articles: Article[], score: GameScoreData | undefined): SummaryInput {
+    const sources: SummarySourceArticle[] = articles.map((a, idx) => ({
+      ref: `A${idx + 1}`,
+      id: a.id,
+      title: a.title,
+      content: a.content.length > MAX_EXCERPT_CHARS ? `${a.content.slice(0, MAX_EXCERPT_CHARS)}…` : a.content,
+      publishedAt: a.publishedAt,
+      sourceName: a.sourceName,
+    }));
+
+    const system = [
+      "You write short, factual briefings for fans of a sports team.",
+      "Use ONLY the facts in the provided score and articles; never add outside knowledge.",
+      "Cite every claim taken from an article with its label in square brackets, e.g. [A2].",
+      "If the sources do not cover something, do not mention it. Keep it under 120 words.",
+    ].join(" ");
+
+    const lines: string[] = [`Team: ${team.name} (${team.league})`];
+    if (score) {
+      const us = score.isHomeGame ? score.homeTeam : score.awayTeam;
+      const them = score.isHomeGame ? score.awayTeam : score.homeTeam;
+      lines.push(
+        `Latest game: ${us.name} ${us.score} - ${them.score} ${them.name}, status ${score.status}` +
+          (score.period ? `, period ${score.period}` : "") +
+          (score.timeRemaining ? `, ${score.timeRemaining} remaining` : "") +
+          `, started ${score.startTime.toISOString()}`,
+      );
+    } else {
+      lines.push("Latest game: none on record");
+    }
+    lines.push("", "Articles:");
+    for (const s of sources) {
+      lines.push(`[${s.ref}] ${s.title} (${s.sourceName}, ${s.publishedAt.toISOString()})`, s.content, "");
+    }
+    lines.push(`Write the briefing for ${team.name} fans now.`);
+
+    return { teamName: team.name, system, prompt: lines.join("\n"), articles: sources };
+  }
+}
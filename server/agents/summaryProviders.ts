@@ -0,0 +1,222 @@
+/**
+ * Summary Providers
+ *
+ * Pluggable text generators for team summaries: DeepSeek, any
+ * OpenAI-compatible chat completions endpoint, and a deterministic local
+ * extractive summarizer used in development and tests.
+ */
+
+import { config } from "../config";
+import { ServiceUnavailableError, ValidationError } from "../types/errors";
+import { tokenize } from "../utils/bm25/tokenizer";
+
+/**
+ * Source article handed to a provider; `ref` is the citation label used in the prompt
+ */
+export interface SummarySourceArticle {
+  ref: string; // e.g. "A1"
+  id: string;
+  title: string;
+  content: string;
+  publishedAt: Date;
+  sourceName: string;
+}
+
+export interface SummaryInput {
+  teamName: string;
+  system: string;
+  prompt: string;
+  articles: SummarySourceArticle[];
+}
+
+export interface SummaryOutput {
+  text: string;
+  model: string;
+  /** Citation refs (e.g. "A1") the text relies on */
+  citedRefs: string[];
+}
+
+export interface ISummaryProvider {
+  readonly name: string;
+  generate(input: SummaryInput): Promise<SummaryOutput>;
+}
+
+/**
+ * Extract [A1]-style citation refs from generated text
+ */
+export function extractCitationRefs(text: string): string[] {
+  const refs = new Set<string>();
+  for (const match of Array.from(text.matchAll(/\[((?:A\d+\s*,\s*)*A\d+)\]/g))) {
+    match[1]
+      .split(",")
+      .map((r) => r.trim())
+      .forEach((r) => refs.add(r));
+  }
+  return Array.from(refs);
+}
+
+/**
+ * Provider for OpenAI-style `/chat/completions` APIs (DeepSeek speaks the same protocol)
+ */
+export class ChatCompletionsProvider implements ISummaryProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private timeoutMs: number;
+
+  constructor(options: { name: string; baseUrl: string; apiKey: string; model: string; timeoutMs?: number }) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+  }
+
+  async generate(input: SummaryInput): Promise<SummaryOutput> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0.2,
+          max_tokens: 600,
+          messages: [
+            { role: "system", content: input.system },
+            { role: "user", content: input.prompt },
+          ],
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new ServiceUnavailableError(`Summary provider ${this.name} returned HTTP ${response.status}`, {
+          provider: this.name,
+          status: response.status,
+        });
+      }
+
+      const body: any = await response.json();
+      const text = String(body?.choices?.[0]?.message?.content ?? "").trim();
+      if (!text) {
+        throw new ServiceUnavailableError(`Summary provider ${this.name} returned an empty completion`, {
+          provider: this.name,
+        });
+      }
+
+      return {
+        text,
+        model: String(body?.model ?? this.model),
+        citedRefs: extractCitationRefs(text),
+      };
+    } catch (err: any) {
+      if (err instanceof ServiceUnavailableError) throw err;
+      throw new ServiceUnavailableError(`Summary provider ${this.name} request failed: ${err?.message ?? String(err)}`, {
+        provider: this.name,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Deterministic extractive summarizer
+ * Scores sentences by how many of the corpus' frequent terms they contain and
+ * returns the best few, each cited back to its article. No network access.
+ */
+export class ExtractiveSummaryProvider implements ISummaryProvider {
+  readonly name = "extractive";
+  private maxSentences: number;
+
+  constructor(maxSentences: number = 4) {
+    this.maxSentences = maxSentences;
+  }
+
+  async generate(input: SummaryInput): Promise<SummaryOutput> {
+    if (input.articles.length === 0) {
+      return { text: `No recent coverage found for the ${input.teamName}.`, model: "extractive-v1", citedRefs: [] };
+    }
+
+    const corpusFreq = new Map<string, number>();
+    for (const article of input.articles) {
+      for (const token of Array.from(new Set(tokenize(`${article.title} ${article.content}`)))) {
+        corpusFreq.set(token, (corpusFreq.get(token) ?? 0) + 1);
+      }
+    }
+
+    type Candidate = { ref: string; sentence: string; score: number; order: number };
+    const candidates: Candidate[] = [];
+    input.articles.forEach((article, articleIdx) => {
+      const sentences = `${article.title}. ${article.content}`
+        .split(/(?<=[.!?])\s+/)
+        .map((s) => s.trim())
+        .filter((s) => s.length >= 20);
+      sentences.forEach((sentence, sentenceIdx) => {
+        const tokens = tokenize(sentence);
+        if (tokens.length === 0) return;
+        const weight = tokens.reduce((sum, t) => sum + (corpusFreq.get(t) ?? 0), 0) / Math.sqrt(tokens.length);
+        // Favor earlier articles (better ranked) and leading sentences
+        const score = weight / (1 + articleIdx * 0.1) / (1 + sentenceIdx * 0.05);
+        candidates.push({ ref: article.ref, sentence: sentence.replace(/[.!?]*$/, "."), score, order: articleIdx * 1000 + sentenceIdx });
+      });
+    });
+
+    const chosen: Candidate[] = [];
+    const seen = new Set<string>();
+    for (const candidate of candidates.sort((a, b) => b.score - a.score || a.order - b.order)) {
+      const key = candidate.sentence.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      chosen.push(candidate);
+      if (chosen.length >= this.maxSentences) break;
+    }
+    chosen.sort((a, b) => a.order - b.order);
+
+    return {
+      text: chosen.map((c) => `${c.sentence} [${c.ref}]`).join(" "),
+      model: "extractive-v1",
+      citedRefs: Array.from(new Set(chosen.map((c) => c.ref))),
+    };
+  }
+}
+
+/**
+ * Build the configured summary provider
+ * @param name Provider override; defaults to config.summary.provider
+ * @throws ValidationError when the chosen provider is missing credentials
+ */
+export function createSummaryProvider(name: string = config.summary.provider): ISummaryProvider {
+  switch (name) {
+    case "deepseek":
+      if (!config.deepseekApiKey) {
+        throw new ValidationError("DEEPSEEK_API_KEY is required for the deepseek summary provider");
+      }
+      return new ChatCompletionsProvider({
+        name: "deepseek",
+        baseUrl: "https://api.deepseek.com",
+        apiKey: config.deepseekApiKey,
+        model: config.summary.model ?? "deepseek-chat",
+      });
+    case "openai":
+      if (!config.summary.openaiBaseUrl || !config.summary.openaiApiKey) {
+        throw new ValidationError("OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_API_KEY are required for the openai summary provider");
+      }
+      return new ChatCompletionsProvider({
+        name: "openai",
+        baseUrl: config.summary.openaiBaseUrl,
+        apiKey: config.summary.openaiApiKey,
+        model: config.summary.model ?? "gpt-4o-mini",
+      });
+    case "extractive":
+      return new ExtractiveSummaryProvider();
+    default:
+      throw new ValidationError(`Unknown summary provider: ${name}`, { provider: name });
+  }
+}
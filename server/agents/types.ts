@@ -1,14 +1,51 @@
+import type { GameStatus, GameStatusDetail } from "@shared/schema";
+
 export interface GameScore {
   gameId: string;
   homeTeamId: string; // e.g., "NBA_BOS"
   awayTeamId: string; // e.g., "NBA_LAL"
   homePts: number;
   awayPts: number;
-  status: "scheduled" | "in_progress" | "final";
+  status: GameStatus;
+  statusDetail?: GameStatusDetail | null; // e.g. "overtime" on a final, "rain" on a delay
+  statusReason?: string | null; // source's explanation, e.g. "Postponed due to inclement weather"
   period?: string | null;
   timeRemaining?: string | null;
   startTime: Date;
   source?: string; // e.g., "balldontlie" | "espn"
+  fetchedAt?: Date; // when the source was read; used to break ties between sources
+  soccer?: SoccerMatchState; // set by the soccer adapter only
+  homeRank?: number; // AP Top 25 rank at game time (college only)
+  awayRank?: number;
+  neutralSite?: boolean; // bowl, tournament and showcase games; "home" is only the listed designation
+}
+
+export type SoccerLeague = "MLS" | "EPL" | "UCL" | "LALIGA" | "BUNDESLIGA" | "SERIEA";
+
+export type SoccerMatchPhase =
+  | "pre_match"
+  | "first_half"
+  | "halftime"
+  | "second_half"
+  | "end_of_regulation" // break before extra time
+  | "extra_time_first_half"
+  | "extra_time_halftime"
+  | "extra_time_second_half"
+  | "penalties"
+  | "full_time"
+  | "postponed"
+  | "abandoned";
+
+export interface SoccerMatchState {
+  league: SoccerLeague;
+  phase: SoccerMatchPhase;
+  minute?: number; // elapsed regulation minute, e.g. 90 for "90'+4'"
+  stoppageMinutes?: number; // added-time minutes played beyond `minute`
+  result?: "home" | "draw" | "away"; // three-way result once full time
+  decidedBy?: "regulation" | "extra_time" | "penalties";
+  shootout?: { home: number; away: number };
+  leg?: number; // 1 or 2 in a two-legged tie
+  aggregate?: { home: number; away: number }; // tie total including this match
 }
 
 export interface ScheduleGame {
@@ -16,26 +53,215 @@ export interface ScheduleGame {
   homeTeamId: string;
   awayTeamId: string;
   startTime: Date;
-  status: "scheduled" | "in_progress" | "final";
+  status: GameStatus;
+  statusDetail?: GameStatusDetail | null;
+  statusReason?: string | null;
   source?: string;
+  neutralSite?: boolean;
+}
+
+export type CollegeLeague = "NCAAF" | "NCAAB";
+export type RankingPoll = "ap" | "coaches";
+
+export interface TeamRanking {
+  teamId: string;
+  teamName: string;
+  rank: number;
+  previousRank?: number; // 0 or absent when unranked last week
+  record?: string; // "7-1"
+  points?: number;
+  firstPlaceVotes?: number;
+}
+
+export interface PollRankings {
+  league: CollegeLeague;
+  poll: RankingPoll;
+  season?: number;
+  week?: number;
+  teams: TeamRanking[]; // ordered by rank
 }
 
+export type BoxScoreSport = "NBA" | "NFL" | "MLB" | "NHL";
+export type BoxScoreSide = "home" | "away";
+
 export interface BoxScoreTeamTotals {
   pts: number;
+  teamId?: string;
+  // Team stat lines as reported by the source, keyed by stat name (e.g., "fieldGoalPct": "47.1")
+  stats?: Record<string, string>;
+}
+
+// ===== Player stat lines (one per stat group a player appears in) =====
+
+export interface BasketballStatLine {
+  kind: "basketball";
+  minutes: number;
+  pts: number;
+  reb: number;
+  oreb: number;
+  dreb: number;
+  ast: number;
+  stl: number;
+  blk: number;
+  tov: number;
+  pf: number;
+  plusMinus: number;
+  fgm: number;
+  fga: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+}
+
+export interface BattingStatLine {
+  kind: "batting";
+  ab: number;
+  r: number;
+  h: number;
+  rbi: number;
+  hr: number;
+  bb: number;
+  so: number;
+  avg: number | null;
+}
+
+export interface PitchingStatLine {
+  kind: "pitching";
+  outs: number; // innings pitched as outs recorded (6.1 IP -> 19)
+  h: number;
+  r: number;
+  er: number;
+  bb: number;
+  so: number;
+  hr: number;
+  pitches: number | null;
+  era: number | null;
+}
+
+export interface SkaterStatLine {
+  kind: "skater";
+  goals: number;
+  assists: number;
+  points: number;
+  plusMinus: number;
+  shots: number;
+  hits: number;
+  blocks: number;
+  pim: number;
+  toi: string | null; // "18:42"
+}
+
+export interface GoalieStatLine {
+  kind: "goalie";
+  saves: number;
+  shotsAgainst: number;
+  goalsAgainst: number;
+  savePct: number | null;
+  toi: string | null;
+}
+
+export interface PassingStatLine {
+  kind: "passing";
+  completions: number;
+  attempts: number;
+  yards: number;
+  td: number;
+  int: number;
+  sacks: number;
+  rating: number | null;
+}
+
+export interface RushingStatLine {
+  kind: "rushing";
+  attempts: number;
+  yards: number;
+  td: number;
+  long: number;
+}
+
+export interface ReceivingStatLine {
+  kind: "receiving";
+  receptions: number;
+  targets: number;
+  yards: number;
+  td: number;
+  long: number;
+}
+
+export type PlayerStatLine =
+  | BasketballStatLine
+  | BattingStatLine
+  | PitchingStatLine
+  | SkaterStatLine
+  | GoalieStatLine
+  | PassingStatLine
+  | RushingStatLine
+  | ReceivingStatLine;
+
+export type PlayerStatGroup = PlayerStatLine["kind"];
+
+export interface BoxScorePlayerLine {
+  playerId: string;
+  name: string;
+  side: BoxScoreSide;
+  teamId?: string;
+  position?: string | null;
+  starter?: boolean;
+  stats: PlayerStatLine;
 }
 
 export interface BoxScore {
   gameId: string;
+  sport?: BoxScoreSport;
   home: BoxScoreTeamTotals;
   away: BoxScoreTeamTotals;
+  players?: BoxScorePlayerLine[];
   updatedAt: Date;
   source?: string;
 }
 
+// Single play-by-play event; `sequence` increases monotonically within a game
+export interface GamePlay {
+  gameId: string;
+  sequence: number;
+  period?: string | null; // e.g., "Q3", "Top 5th", "P2"
+  clock?: string | null;  // e.g., "4:32"
+  teamId?: string | null; // Team credited with the play, when known
+  playType?: string | null; // Source play type, e.g., "Jump Shot", "Pass Reception"
+  description: string;    // e.g., "Jayson Tatum makes 26-foot three point jumper"
+  scoringPlay: boolean;
+  scoreValue?: number;
+  homePts?: number | null; // Score after the play
+  awayPts?: number | null;
+  occurredAt?: Date | null;
+  source?: string;
+}
+
+export interface SourceReading {
+  source: string;
+  value: string;
+  weight: number;
+  fetchedAt?: Date;
+}
+
+/**
+ * Sources disagreeing on one field of a game, with the value reconciliation settled on
+ */
+export interface ScoreDiscrepancyReport {
+  gameId: string;
+  field: "score" | "status";
+  resolvedValue: string;
+  resolvedSource?: string;
+  readings: SourceReading[];
+}
+
 export interface ValidatedScores {
   items: GameScore[];
   sourcesChecked: string[];
-  accuracy?: number; // optional metric for validation accuracy
+  accuracy?: number; // fraction of games where every source agreed on status and score
+  sourceAgreement?: Record<string, { agreed: number; total: number }>; // per source, over games reported by 2+ sources
+  discrepancies?: ScoreDiscrepancyReport[];
 }
 
 export interface IScoreSource {
@@ -46,7 +272,9 @@ export interface IScoreSource {
   fetchLive?(teamCodes: string[]): Promise<GameScore[]>; // Multiple teams
   fetchSchedule?(teamCodes: string[], startDate: Date, endDate: Date): Promise<ScheduleGame[]>;
   fetchBoxScore?(gameId: string): Promise<BoxScore>;
+  fetchPlays?(gameId: string, sinceSequence?: number): Promise<GamePlay[]>; // Plays after sinceSequence, oldest first
   fetchFeaturedGames?(sport: string, limit: number): Promise<ScheduleGame[]>; // For overview mode
+  fetchRankings?(poll: RankingPoll): Promise<PollRankings | null>; // College polls; null when the poll is not published
 }
 
 // User-specific interfaces
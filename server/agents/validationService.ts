@@ -1,9 +1,69 @@
-import type { GameScore, ValidatedScores } from "./types";
+import type { GameScore, ScoreDiscrepancyReport, SourceReading, ValidatedScores } from "./types";
+import { config } from "../config";
 
-// Simple validation service scaffold that enforces team filtering, de-duplicates by gameId,
-// and performs basic majority voting across sources for the same game.
+type Status = GameScore["status"];
+
+// Last persisted state of a game; reconciled scores never fall below it
+export interface PriorScore {
+  homePts: number;
+  awayPts: number;
+  status: string;
+}
+
+export interface ValidationServiceOptions {
+  weights?: Record<string, number>; // source key -> trust weight
+  defaultWeight?: number; // weight for sources without a configured entry
+}
+
+// Later statuses win ties and are never walked back. Stoppages rank with live play
+// so a delayed or suspended game can resume; call-offs outrank anything but a final.
+const STATUS_RANK: Record<Status, number> = {
+  scheduled: 0,
+  postponed: 0,
+  in_progress: 1,
+  delayed: 1,
+  suspended: 1,
+  cancelled: 2,
+  final: 3,
+};
+
+/**
+ * Collapse adapter source labels ("ESPN API", "ESPN.com", "CBS Sports", "NHL.com")
+ * onto the keys used for trust weights
+ */
+export function sourceKey(source?: string): string {
+  const s = (source ?? "").toLowerCase();
+  if (!s) return "unknown";
+  if (s.includes("espn")) return "espn";
+  if (s.includes("cbs")) return "cbs";
+  if (s.includes("nhl")) return "nhl";
+  return s.replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "unknown";
+}
+
+function scoreValue(s: GameScore): string {
+  return `${s.homePts}-${s.awayPts}`;
+}
+
+function fetchedAtMs(s: GameScore): number {
+  return s.fetchedAt?.getTime() ?? 0;
+}
+
+// Enforces team filtering, de-duplicates by gameId and reconciles status and points
+// across sources by trust-weighted vote, reporting where sources disagree.
 export class ValidationService {
-  validateForTeams(scores: GameScore[], teamIds: string[]): ValidatedScores {
+  private weights: Record<string, number>;
+  private defaultWeight: number;
+
+  constructor(options: ValidationServiceOptions = {}) {
+    this.weights = options.weights ?? config.scoreSourceWeights;
+    this.defaultWeight = options.defaultWeight ?? 0.5;
+  }
+
+  weightFor(source?: string): number {
+    return this.weights[sourceKey(source)] ?? this.defaultWeight;
+  }
+
+  validateForTeams(scores: GameScore[], teamIds: string[], previous?: Map<string, PriorScore>): ValidatedScores {
     const teamSet = new Set((teamIds || []).map((t) => t.toUpperCase()));
 
     // Filter to only games where either team is one of the requested teamIds
@@ -19,6 +79,9 @@ export class ValidationService {
 
     const out: GameScore[] = [];
     const sourcesChecked: string[] = [];
+    const discrepancies: ScoreDiscrepancyReport[] = [];
+    const sourceAgreement: Record<string, { agreed: number; total: number }> = {};
+    let unanimous = 0;
 
     for (const entry of Array.from(groups.entries())) {
       const gameId = entry[0];
@@ -28,28 +91,109 @@ export class ValidationService {
         if (it.source) sourcesChecked.push(it.source);
       }
 
-      // Majority voting for status; if tie, prefer in_progress > final > scheduled
-      const statusCounts: Record<GameScore["status"], number> = { scheduled: 0, in_progress: 0, final: 0 };
+      // One vote per source: its freshest reading
+      const latestBySource = new Map<string, GameScore>();
       for (const it of items) {
-        statusCounts[it.status] = (statusCounts[it.status] || 0) + 1;
+        const key = sourceKey(it.source);
+        const current = latestBySource.get(key);
+        if (!current || fetchedAtMs(it) >= fetchedAtMs(current)) latestBySource.set(key, it);
       }
-      const majorityStatus = (Object.entries(statusCounts) as Array<[GameScore["status"], number]>)
-        .sort((a: [GameScore["status"], number], b: [GameScore["status"], number]) => b[1] - a[1])[0]?.[0] || items[0].status;
+      const readings = Array.from(latestBySource.values());
 
-      // For points, choose the item with the latest startTime (as proxy for freshness)
-      const chosen = items.slice().sort((a: GameScore, b: GameScore) => b.startTime.getTime() - a.startTime.getTime())[0];
-      out.push({ ...chosen, status: majorityStatus });
-    }
+      const prior = previous?.get(gameId);
+      const status = this.resolveStatus(readings, prior);
+      const chosen = this.resolveScore(readings);
+      const homePts = prior ? Math.max(chosen.homePts, prior.homePts) : chosen.homePts;
+      const awayPts = prior ? Math.max(chosen.awayPts, prior.awayPts) : chosen.awayPts;
+      const resolved: GameScore = { ...chosen, status, homePts, awayPts, ...this.resolveStatusDetail(readings, status) };
+      out.push(resolved);
 
-    // Simple accuracy heuristic: fraction of groups with unanimity on status
-    let unanimous = 0;
-    for (const entry of Array.from(groups.entries())) {
-      const items = entry[1];
-      const set = new Set(items.map((i: GameScore) => i.status));
-      if (set.size === 1) unanimous++;
+      const statuses = new Set(readings.map((r) => r.status));
+      const scoreValues = new Set(readings.map(scoreValue));
+      if (statuses.size === 1 && scoreValues.size === 1) unanimous++;
+
+      if (readings.length < 2) continue;
+
+      if (statuses.size > 1) {
+        discrepancies.push(this.report(gameId, "status", status, chosen.source, readings, (r) => r.status));
+      }
+      if (scoreValues.size > 1) {
+        discrepancies.push(this.report(gameId, "score", scoreValue(resolved), chosen.source, readings, scoreValue));
+      }
+      for (const r of readings) {
+        const key = sourceKey(r.source);
+        const counts = sourceAgreement[key] ?? { agreed: 0, total: 0 };
+        counts.total++;
+        if (r.status === status && scoreValue(r) === scoreValue(resolved)) counts.agreed++;
+        sourceAgreement[key] = counts;
+      }
     }
+
     const accuracy = groups.size > 0 ? unanimous / groups.size : undefined;
 
-    return { items: out, sourcesChecked, accuracy };
+    return { items: out, sourcesChecked, accuracy, sourceAgreement, discrepancies };
+  }
+
+  // Weighted vote; ties go to the later status, and a persisted later status is kept
+  private resolveStatus(readings: GameScore[], prior?: PriorScore): Status {
+    const votes = new Map<Status, number>();
+    for (const r of readings) {
+      votes.set(r.status, (votes.get(r.status) ?? 0) + this.weightFor(r.source));
+    }
+    const voted = Array.from(votes.entries())
+      .sort((a, b) => b[1] - a[1] || STATUS_RANK[b[0]] - STATUS_RANK[a[0]])[0][0];
+
+    const priorStatus = prior?.status as Status | undefined;
+    if (priorStatus && priorStatus in STATUS_RANK && STATUS_RANK[priorStatus] > STATUS_RANK[voted]) {
+      return priorStatus;
+    }
+    return voted;
+  }
+
+  // Sub-state and reason of the freshest reading that reported the resolved status
+  private resolveStatusDetail(readings: GameScore[], status: Status): Pick<GameScore, "statusDetail" | "statusReason"> {
+    const matching = readings
+      .filter((r) => r.status === status)
+      .sort((a, b) => fetchedAtMs(b) - fetchedAtMs(a))[0];
+    return { statusDetail: matching?.statusDetail ?? undefined, statusReason: matching?.statusReason ?? undefined };
+  }
+
+  // Weighted vote on the (home, away) pair; ties go to the freshest supporting reading,
+  // whose period and clock are carried along
+  private resolveScore(readings: GameScore[]): GameScore {
+    const candidates = new Map<string, { weight: number; best: GameScore }>();
+    for (const r of readings) {
+      const key = scoreValue(r);
+      const weight = this.weightFor(r.source);
+      const candidate = candidates.get(key);
+      if (!candidate) {
+        candidates.set(key, { weight, best: r });
+        continue;
+      }
+      candidate.weight += weight;
+      const bestWeight = this.weightFor(candidate.best.source);
+      if (weight > bestWeight || (weight === bestWeight && fetchedAtMs(r) > fetchedAtMs(candidate.best))) {
+        candidate.best = r;
+      }
+    }
+    return Array.from(candidates.values())
+      .sort((a, b) => b.weight - a.weight || fetchedAtMs(b.best) - fetchedAtMs(a.best))[0].best;
+  }
+
+  private report(
+    gameId: string,
+    field: ScoreDiscrepancyReport["field"],
+    resolvedValue: string,
+    resolvedSource: string | undefined,
+    readings: GameScore[],
+    valueOf: (r: GameScore) => string,
+  ): ScoreDiscrepancyReport {
+    const sourceReadings: SourceReading[] = readings.map((r) => ({
+      source: r.source ?? "unknown",
+      value: valueOf(r),
+      weight: this.weightFor(r.source),
+      fetchedAt: r.fetchedAt,
+    }));
+    return { gameId, field, resolvedValue, resolvedSource, readings: sourceReadings };
   }
-}
\ No newline at end of file
+}
@@ -8,6 +8,11 @@ const EnvSchema = z.object({
   REDIS_URL: z.string().optional(),
   SESSION_SECRET: z.string().optional(),
   DEEPSEEK_API_KEY: z.string().optional(),
+  // Summary generation: provider selection and OpenAI-compatible endpoint
+  SUMMARY_PROVIDER: z.enum(["deepseek", "openai", "extractive"]).optional(),
+  SUMMARY_MODEL: z.string().optional(),
+  OPENAI_COMPAT_BASE_URL: z.string().optional(),
+  OPENAI_COMPAT_API_KEY: z.string().optional(),
   FIREBASE_PROJECT_ID: z.string().optional(),
   FIREBASE_CLIENT_EMAIL: z.string().optional(),
   FIREBASE_PRIVATE_KEY: z.string().optional(),
@@ -15,17 +20,23 @@ const EnvSchema = z.object({
   ALLOW_DEV_HEADER: z.string().optional(),
   JOBS_ENABLED: z.string().optional(),
   JOB_QUEUE_PREFIX: z.string().optional(),
+  GAME_SIMULATOR_ENABLED: z.string().optional(),
   // Force in-memory storage for local/dev regardless of DATABASE_URL
   USE_MEM_STORAGE: z.string().optional(),
   // Background jobs intervals and maintenance
   LIVE_SCORES_INTERVAL_MS: z.string().optional(),
   NONLIVE_SCORES_INTERVAL_MS: z.string().optional(),
+  SCORES_POLLING_MODE: z.enum(["adaptive", "fixed"]).optional(),
   CLEANUP_RUN_AT_CRON: z.string().optional(),
+  NEWS_SCRAPE_INTERVAL_MS: z.string().optional(),
   // Web scraping configuration
   SCRAPER_USER_AGENT: z.string().optional(),
   SCRAPER_RATE_LIMIT_MS: z.string().optional(),
   SCRAPER_TIMEOUT_MS: z.string().optional(),
   SCRAPER_MAX_RETRIES: z.string().optional(),
+  // Fixture capture for offline work: live (default), record, or replay
+  SCRAPER_FIXTURE_MODE: z.enum(["live", "record", "replay"]).optional(),
+  SCRAPER_FIXTURE_DIR: z.string().optional(),
   // Proxy configuration (optional)
   PROXY_URL: z.string().optional(),
   PROXY_USERNAME: z.string().optional(),
@@ -35,6 +46,15 @@ const EnvSchema = z.object({
   CORS_CREDENTIALS: z.string().optional(),
   // DB monitoring
   DB_SLOW_QUERY_MS: z.string().optional(),
+  // Realtime: window for coalescing score changes into one protocol-2 frame
+  WS_SCORE_BATCH_WINDOW_MS: z.string().optional(),
+  // Realtime: connection lifecycle (liveness, idle eviction, per-connection limits)
+  WS_HEARTBEAT_INTERVAL_MS: z.string().optional(),
+  WS_IDLE_TIMEOUT_MS: z.string().optional(),
+  WS_MAX_MESSAGES_PER_WINDOW: z.string().optional(),
+  WS_MAX_SUBSCRIPTIONS: z.string().optional(),
+  // Score reconciliation trust weights, e.g. "espn=1,nhl=0.9,cbs=0.7"
+  SCORE_SOURCE_WEIGHTS: z.string().optional(),
 });
 
 const parsed = EnvSchema.safeParse(process.env);
@@ -59,12 +79,35 @@ function parseCsvList(val: string | undefined): string[] {
     .filter((v) => v.length > 0);
 }
 
+// Default trust per score source; keys match ValidationService source keys
+const DEFAULT_SCORE_SOURCE_WEIGHTS: Record<string, number> = {
+  espn: 1,
+  nhl: 0.9,
+  cbs: 0.7,
+};
+
+function parseWeights(val: string | undefined, defaults: Record<string, number>): Record<string, number> {
+  const weights = { ...defaults };
+  for (const entry of parseCsvList(val)) {
+    const [key, raw] = entry.split("=").map((v) => v.trim());
+    const weight = parseFloat(raw ?? "");
+    if (!key || !Number.isFinite(weight) || weight < 0) {
+      console.warn(`Ignoring invalid score source weight "${entry}".`);
+      continue;
+    }
+    weights[key.toLowerCase()] = weight;
+  }
+  return weights;
+}
+
 // Interval bounds and parsing helpers for background jobs
 const INTERVAL_BOUNDS = {
   LIVE_MIN_MS: 10_000, // 10s minimum to avoid over-scraping
   LIVE_MAX_MS: 300_000, // 5m maximum for live checks
   NONLIVE_MIN_MS: 300_000, // 5m minimum for featured refreshes
   NONLIVE_MAX_MS: 86_400_000, // 24h maximum for non-live updates
+  NEWS_MIN_MS: 300_000, // 5m minimum between news source sweeps
+  NEWS_MAX_MS: 86_400_000, // 24h maximum for news source sweeps
 } as const;
 
 function parseIntervalMs(
@@ -103,6 +146,13 @@ export const config = {
   redisUrl: env.REDIS_URL,
   sessionSecret: env.SESSION_SECRET,
   deepseekApiKey: env.DEEPSEEK_API_KEY,
+  summary: {
+    // Default to DeepSeek when a key is present, otherwise the local extractive summarizer
+    provider: env.SUMMARY_PROVIDER ?? (env.DEEPSEEK_API_KEY ? "deepseek" : "extractive"),
+    model: env.SUMMARY_MODEL,
+    openaiBaseUrl: env.OPENAI_COMPAT_BASE_URL,
+    openaiApiKey: env.OPENAI_COMPAT_API_KEY,
+  },
   firebase: {
     projectId: env.FIREBASE_PROJECT_ID,
     clientEmail: env.FIREBASE_CLIENT_EMAIL,
@@ -111,6 +161,9 @@ export const config = {
   // When false, development behaves like production (no x-dev-firebase-uid override)
   // Default: disabled except during tests, can be explicitly enabled via env
   allowDevHeader: ["1", "true", "yes"].includes((env.ALLOW_DEV_HEADER ?? (env.NODE_ENV === 'test' ? 'true' : 'false')).toLowerCase()),
+  // Dev game simulator routes; never available in production
+  gameSimulatorEnabled: env.NODE_ENV !== "production"
+    && ["1", "true", "yes"].includes((env.GAME_SIMULATOR_ENABLED ?? "true").toLowerCase()),
   jobsEnabled: ["1", "true", "yes"].includes((env.JOBS_ENABLED ?? "").toLowerCase()),
   jobQueuePrefix: env.JOB_QUEUE_PREFIX ?? "jobs",
   // Background jobs intervals and maintenance
@@ -126,18 +179,40 @@ export const config = {
     maxMs: INTERVAL_BOUNDS.NONLIVE_MAX_MS,
     name: "NONLIVE_SCORES_INTERVAL_MS",
   }),
+  // "adaptive" polls games off the persisted schedule; "fixed" polls every team on LIVE_SCORES_INTERVAL_MS
+  scoresPollingMode: env.SCORES_POLLING_MODE ?? "adaptive",
   cleanupRunAtCron: env.CLEANUP_RUN_AT_CRON ?? "0 3 * * *", // daily at 03:00 UTC
+  newsScrapeIntervalMs: parseIntervalMs(env.NEWS_SCRAPE_INTERVAL_MS, {
+    defaultMs: 900_000,
+    minMs: INTERVAL_BOUNDS.NEWS_MIN_MS,
+    maxMs: INTERVAL_BOUNDS.NEWS_MAX_MS,
+    name: "NEWS_SCRAPE_INTERVAL_MS",
+  }),
   // Web scraping configuration
   scraperUserAgent: env.SCRAPER_USER_AGENT ?? 'CornerLeagueMedia/1.0 (+https://cornerleague.com/bot; contact@cornerleague.com)',
   scraperRateLimitMs: parseInt(env.SCRAPER_RATE_LIMIT_MS ?? '2000', 10),
   scraperTimeoutMs: parseInt(env.SCRAPER_TIMEOUT_MS ?? '10000', 10),
   scraperMaxRetries: parseInt(env.SCRAPER_MAX_RETRIES ?? '3', 10),
+  scraperFixtureMode: env.SCRAPER_FIXTURE_MODE ?? 'live',
+  scraperFixtureDir: env.SCRAPER_FIXTURE_DIR ?? 'server/tests/fixtures/recorded',
   // Proxy configuration (optional)
   proxyUrl: env.PROXY_URL,
   proxyUsername: env.PROXY_USERNAME,
   proxyPassword: env.PROXY_PASSWORD,
   // DB monitoring
   dbSlowQueryMs: Math.min(10_000, Math.max(50, parseInt(env.DB_SLOW_QUERY_MS ?? '200', 10) || 200)),
+  // Realtime: score changes within this window share one batched frame (protocol 2 clients)
+  wsScoreBatchWindowMs: Math.min(5_000, Math.max(50, parseInt(env.WS_SCORE_BATCH_WINDOW_MS ?? '250', 10) || 250)),
+  // Realtime: sockets are pinged this often and dropped when a ping goes unanswered
+  wsHeartbeatIntervalMs: Math.min(300_000, Math.max(5_000, parseInt(env.WS_HEARTBEAT_INTERVAL_MS ?? '30000', 10) || 30_000)),
+  // Realtime: sockets that send nothing (client heartbeats included) for this long are closed
+  wsIdleTimeoutMs: Math.min(86_400_000, Math.max(60_000, parseInt(env.WS_IDLE_TIMEOUT_MS ?? '600000', 10) || 600_000)),
+  // Realtime: client messages allowed per connection per 10s window
+  wsMaxMessagesPerWindow: Math.min(1_000, Math.max(5, parseInt(env.WS_MAX_MESSAGES_PER_WINDOW ?? '30', 10) || 30)),
+  // Realtime: team subscriptions allowed per connection
+  wsMaxSubscriptions: Math.min(1_000, Math.max(1, parseInt(env.WS_MAX_SUBSCRIPTIONS ?? '50', 10) || 50)),
+  // Score reconciliation
+  scoreSourceWeights: parseWeights(env.SCORE_SOURCE_WEIGHTS, DEFAULT_SCORE_SOURCE_WEIGHTS),
   // CORS configuration
   cors: {
     allowedOrigins:
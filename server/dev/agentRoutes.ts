@@ -1,19 +1,156 @@
 import { ScoresAgent } from "../agents/scoresAgent";
 import { SportAdapterFactory } from "../agents/adapters";
+import { SimulatedScoreSource, gameSimulator, type SimulatedGame } from "../agents/adapters/simulatedScoreSource";
 import { sendFriendlyDbError } from "../routes";
 import { queues } from "../jobs/queues";
 import { config } from "../config";
 import { defaultJobOptions, getScoresIngestHealth } from "../jobs/workers";
+import { UserTeamScoresError, ValidationError } from "../types/errors";
+import { logger } from "../logger";
 
-import type { Express } from "express";
+import type { Express, Response } from "express";
+
+// Present a simulated game the way the adapters report it, plus its controls
+function presentSimulatedGame(game: SimulatedGame) {
+  return { ...gameSimulator.toGameScore(game), sport: game.sport, speed: game.speed, paused: game.paused };
+}
+
+// Push a simulated game through the scores pipeline so it is persisted and broadcast
+async function publishSimulatedGame(game: SimulatedGame) {
+  const agent = new ScoresAgent(new SimulatedScoreSource(game.sport));
+  return agent.runOnce({ teamIds: [game.homeTeamId, game.awayTeamId], sport: game.sport, mode: "live" });
+}
+
+async function sendSimulatorResult(res: Response, game: SimulatedGame) {
+  await publishSimulatedGame(game);
+  res.json(presentSimulatedGame(gameSimulator.get(game.gameId) ?? game));
+}
+
+async function sendSimulatorError(res: Response, err: unknown, action: string) {
+  if (err instanceof UserTeamScoresError) {
+    return res.status(err.statusCode).json({ error: err.message, code: err.code });
+  }
+  return await sendFriendlyDbError(res, err, action);
+}
+
+let simulatorFeed: NodeJS.Timeout | null = null;
+// Finals already published by the feed, so each final goes out once
+const publishedFinals = new Set<string>();
+
+// Simulated games. Every control publishes the game through the ScoresAgent,
+// so changes reach storage and WebSocket clients right away; these routes are
+// never registered in production, where they would write fake scores for real teams.
+function attachSimulatorRoutes(app: Express) {
+  app.get("/api/dev/simulator/games", (req, res) => {
+    const sport = typeof req.query.sport === "string" ? req.query.sport : undefined;
+    res.json({ games: gameSimulator.list(sport).map(presentSimulatedGame), feedRunning: simulatorFeed !== null });
+  });
+
+  app.post("/api/dev/simulator/games", async (req, res) => {
+    try {
+      const { sport = "NBA", homeTeamId, awayTeamId, startTime, speed } = req.body || {};
+      const game = gameSimulator.create({
+        sport,
+        homeTeamId,
+        awayTeamId,
+        startTime: startTime ? new Date(startTime) : undefined,
+        speed: speed !== undefined ? Number(speed) : undefined,
+      });
+      await sendSimulatorResult(res.status(201), game);
+    } catch (err) {
+      return await sendSimulatorError(res, err, "createSimulatedGame");
+    }
+  });
+
+  app.post("/api/dev/simulator/games/:id/start", async (req, res) => {
+    try {
+      await sendSimulatorResult(res, gameSimulator.start(req.params.id));
+    } catch (err) {
+      return await sendSimulatorError(res, err, "startSimulatedGame");
+    }
+  });
+
+  app.post("/api/dev/simulator/games/:id/pause", async (req, res) => {
+    try {
+      await sendSimulatorResult(res, gameSimulator.pause(req.params.id));
+    } catch (err) {
+      return await sendSimulatorError(res, err, "pauseSimulatedGame");
+    }
+  });
+
+  // Body: { seconds } to play that much game time, { period, clockSeconds? } to play
+  // until that period (half-innings for MLB), or { to: "final" }
+  app.post("/api/dev/simulator/games/:id/jump", async (req, res) => {
+    try {
+      const { seconds, period, clockSeconds, to } = req.body || {};
+      const target = to === "final"
+        ? { to: "final" as const }
+        : period !== undefined
+          ? { period: Number(period), clockSeconds: clockSeconds !== undefined ? Number(clockSeconds) : undefined }
+          : { seconds: Number(seconds) };
+      if ("period" in target && !Number.isFinite(target.period)) throw new ValidationError("period must be a number");
+      if ("seconds" in target && !Number.isFinite(target.seconds)) throw new ValidationError("Provide seconds, period or to: \"final\"");
+      await sendSimulatorResult(res, gameSimulator.jump(req.params.id, target));
+    } catch (err) {
+      return await sendSimulatorError(res, err, "jumpSimulatedGame");
+    }
+  });
+
+  app.post("/api/dev/simulator/games/:id/score", async (req, res) => {
+    try {
+      const { homePts, awayPts } = req.body || {};
+      await sendSimulatorResult(res, gameSimulator.setScore(req.params.id, Number(homePts), Number(awayPts)));
+    } catch (err) {
+      return await sendSimulatorError(res, err, "setSimulatedScore");
+    }
+  });
+
+  app.post("/api/dev/simulator/games/:id/speed", async (req, res) => {
+    try {
+      await sendSimulatorResult(res, gameSimulator.setSpeed(req.params.id, Number(req.body?.speed)));
+    } catch (err) {
+      return await sendSimulatorError(res, err, "setSimulatedSpeed");
+    }
+  });
+
+  app.delete("/api/dev/simulator/games/:id", (req, res) => {
+    const removed = gameSimulator.remove(req.params.id);
+    if (!removed) return res.status(404).json({ error: `No simulated game ${req.params.id}` });
+    res.status(204).end();
+  });
+
+  // Publish every unfinished simulated game on an interval, like the scores_ingest job would
+  app.post("/api/dev/simulator/feed", (req, res) => {
+    const intervalMs = Math.max(1000, Number(req.body?.intervalMs) || 5000);
+    if (simulatorFeed) clearInterval(simulatorFeed);
+    simulatorFeed = setInterval(() => {
+      const games = gameSimulator.list().filter((g) => g.status !== "final" || !publishedFinals.has(g.gameId));
+      games.filter((g) => g.status === "final").forEach((g) => publishedFinals.add(g.gameId));
+      void Promise.all(games.map(publishSimulatedGame)).catch((err) => {
+        logger.warn({ err }, "simulator feed publish failed");
+      });
+    }, intervalMs);
+    simulatorFeed.unref?.();
+    res.json({ feedRunning: true, intervalMs });
+  });
+
+  app.delete("/api/dev/simulator/feed", (_req, res) => {
+    if (simulatorFeed) clearInterval(simulatorFeed);
+    simulatorFeed = null;
+    res.json({ feedRunning: false });
+  });
+}
 
 export function attachDevAgentRoutes(app: Express) {
   app.post("/api/dev/agents/scores/run", async (req, res) => {
     try {
       const { teamIds, limit, source = "dummy", sport = "NBA", mode, startDate, endDate } = req.body || {};
-      // Use SportAdapterFactory to get the appropriate adapter for the sport
-      // Falls back to DummyScoreSource for not-yet-implemented adapters
-      const adapter = SportAdapterFactory.getAdapter(sport);
+      // source "simulator" plays stateful simulated games; otherwise use SportAdapterFactory,
+      // which falls back to DummyScoreSource for not-yet-implemented adapters
+      if (source === "simulator" && !config.gameSimulatorEnabled) {
+        return res.status(404).json({ error: "Game simulator is disabled" });
+      }
+      const adapter = source === "simulator" ? new SimulatedScoreSource(sport) : SportAdapterFactory.getAdapter(sport);
       const agent = new ScoresAgent(adapter);
       const result = await agent.runOnce({ teamIds, limit, sport, mode, startDate, endDate });
       res.json(result);
@@ -22,6 +159,10 @@ export function attachDevAgentRoutes(app: Express) {
     }
   });
 
+  if (config.gameSimulatorEnabled) {
+    attachSimulatorRoutes(app);
+  }
+
   // Enqueue a scores_ingest job (dev only)
   app.post("/api/dev/jobs/scores_ingest/enqueue", async (req, res) => {
     try {
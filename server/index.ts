@@ -163,7 +163,7 @@ app.use((req, res, next) => {
   const server = await registerRoutes(app);
 
   // Initialize WebSocket server for live updates
-  const { initWs } = await import("./ws");
+  const { initWs, stopWsFanout } = await import("./ws");
   initWs(server);
 
   // Initialize job workers when enabled
@@ -247,6 +247,7 @@ app.use((req, res, next) => {
       if (jobs) {
         try { await jobs.stop(); } catch {}
       }
+      try { await stopWsFanout(); } catch {}
     };
     process.on("SIGINT", stopOnce);
     process.on("SIGTERM", stopOnce);
@@ -0,0 +1,193 @@
+import type { Game } from "@shared/schema";
+import { config } from "../config";
+import { withSource } from "../logger";
+import { storage as defaultStorage } from "../storage";
+import type { IStorage } from "../storage";
+
+const log = withSource("poll-scheduler");
+
+export type PollPhase = "pregame" | "live" | "break" | "stoppage";
+
+export interface PollIntervals {
+  liveMs: number; // in progress, and past the scheduled start
+  breakMs: number; // halftime and intermissions
+  stoppageMs: number; // delayed or suspended
+  // Before the start, checked nearest first: poll every `everyMs` once within `withinMs` of it
+  pregame: Array<{ withinMs: number; everyMs: number }>;
+  // Give up on a game this long after its scheduled start if no final ever arrives
+  maxGameMs: number;
+}
+
+export interface GamePollPlan {
+  gameId: string;
+  sport: string;
+  teamIds: string[];
+  phase: PollPhase;
+  everyMs: number;
+}
+
+export interface ScoresPollJob {
+  sport: string;
+  teamIds: string[];
+  gameIds: string[];
+  jobId: string;
+}
+
+export interface AdaptivePollSchedulerOptions {
+  storage?: IStorage;
+  intervals?: Partial<PollIntervals>;
+  now?: () => number;
+}
+
+export function defaultPollIntervals(liveMs: number = config.liveScoresIntervalMs): PollIntervals {
+  return {
+    liveMs,
+    breakMs: Math.max(liveMs, 3 * 60 * 1000),
+    stoppageMs: Math.max(liveMs, 5 * 60 * 1000),
+    pregame: [
+      { withinMs: 10 * 60 * 1000, everyMs: Math.max(liveMs, 2 * 60 * 1000) },
+      { withinMs: 30 * 60 * 1000, everyMs: Math.max(liveMs, 5 * 60 * 1000) },
+    ],
+    maxGameMs: 8 * 60 * 60 * 1000,
+  };
+}
+
+// League prefix of a team id ("NBA_LAL" -> "NBA")
+function sportOf(game: Pick<Game, "homeTeamId">): string {
+  return game.homeTeamId.split("_")[0].toUpperCase();
+}
+
+/**
+ * How often to poll a persisted game right now, or null when it needs no polling.
+ *
+ * Upcoming games ramp up through the pregame steps to the live interval at the
+ * scheduled start; halftime and intermissions back off to the break interval,
+ * delays and suspensions to the stoppage interval. Finished, postponed and
+ * cancelled games are not polled.
+ */
+export function planGamePoll(
+  game: Pick<Game, "id" | "homeTeamId" | "awayTeamId" | "status" | "statusDetail" | "startTime">,
+  now: number,
+  intervals: PollIntervals = defaultPollIntervals()
+): GamePollPlan | null {
+  const untilStart = game.startTime.getTime() - now;
+  if (-untilStart > intervals.maxGameMs) return null;
+
+  const plan = (phase: PollPhase, everyMs: number): GamePollPlan => ({
+    gameId: game.id,
+    sport: sportOf(game),
+    teamIds: [game.homeTeamId, game.awayTeamId],
+    phase,
+    everyMs,
+  });
+
+  switch (game.status) {
+    case "final":
+    case "postponed":
+    case "cancelled":
+      return null;
+    case "delayed":
+    case "suspended":
+      return plan("stoppage", intervals.stoppageMs);
+    case "in_progress":
+      return game.statusDetail === "halftime" || game.statusDetail === "intermission"
+        ? plan("break", intervals.breakMs)
+        : plan("live", intervals.liveMs);
+    default: {
+      // Still scheduled: poll at the live interval once the start time passes so tip-off is picked up
+      if (untilStart <= 0) return plan("live", intervals.liveMs);
+      const step = intervals.pregame.find((s) => untilStart <= s.withinMs);
+      return step ? plan("pregame", step.everyMs) : null;
+    }
+  }
+}
+
+/**
+ * Polls live scores off the persisted schedule instead of per-team timers.
+ *
+ * Each tick reads the games around the current time, works out which are due
+ * for a poll (see planGamePoll) and batches them into one scores_ingest job per
+ * league covering both teams of every due game. Teams without a game in the
+ * window are not polled at all.
+ */
+export class AdaptivePollScheduler {
+  private storage: IStorage;
+  private intervals: PollIntervals;
+  private now: () => number;
+  // gameId -> when it was last enqueued
+  private lastPolledAt = new Map<string, number>();
+
+  constructor(options: AdaptivePollSchedulerOptions = {}) {
+    this.storage = options.storage || defaultStorage;
+    const defaults = defaultPollIntervals(options.intervals?.liveMs);
+    this.intervals = { ...defaults, ...options.intervals };
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Games due for a poll right now, batched per league
+   */
+  async due(): Promise<ScoresPollJob[]> {
+    const now = this.now();
+    const lead = Math.max(0, ...this.intervals.pregame.map((s) => s.withinMs));
+    const games = await this.storage.getGamesStartingBetween(
+      new Date(now - this.intervals.maxGameMs),
+      new Date(now + lead)
+    );
+
+    const batches = new Map<string, { teamIds: Set<string>; gameIds: string[] }>();
+    const active = new Set<string>();
+    for (const game of games) {
+      const plan = planGamePoll(game, now, this.intervals);
+      if (!plan) continue;
+      active.add(plan.gameId);
+
+      const last = this.lastPolledAt.get(plan.gameId);
+      if (last !== undefined && now - last < plan.everyMs) continue;
+
+      const batch = batches.get(plan.sport) ?? { teamIds: new Set<string>(), gameIds: [] };
+      plan.teamIds.forEach((t) => batch.teamIds.add(t));
+      batch.gameIds.push(plan.gameId);
+      batches.set(plan.sport, batch);
+    }
+
+    // Forget games that finished or dropped out of the window
+    for (const gameId of Array.from(this.lastPolledAt.keys())) {
+      if (!active.has(gameId)) this.lastPolledAt.delete(gameId);
+    }
+
+    // One job id per league per live-interval slot, so overlapping ticks don't double-poll
+    const slot = Math.floor(now / this.intervals.liveMs);
+    return Array.from(batches.entries()).map(([sport, batch]) => ({
+      sport,
+      teamIds: Array.from(batch.teamIds),
+      gameIds: batch.gameIds,
+      jobId: `scores_ingest:poll:${sport}:${slot}`,
+    }));
+  }
+
+  /**
+   * Enqueue every due batch and mark its games as polled
+   *
+   * @param enqueue - Adds one scores_ingest job (see initWorkers)
+   * @returns The batches enqueued
+   */
+  async tick(enqueue: (job: ScoresPollJob) => Promise<unknown>): Promise<ScoresPollJob[]> {
+    const jobs = await this.due();
+    const now = this.now();
+    const enqueued: ScoresPollJob[] = [];
+    for (const job of jobs) {
+      try {
+        await enqueue(job);
+        job.gameIds.forEach((id) => this.lastPolledAt.set(id, now));
+        enqueued.push(job);
+      } catch (e) {
+        log.warn({ sport: job.sport, gameIds: job.gameIds, err: e }, "failed to enqueue scores poll");
+      }
+    }
+    if (enqueued.length > 0) {
+      log.info({ batches: enqueued.map((j) => ({ sport: j.sport, games: j.gameIds.length })) }, "scores poll tick");
+    }
+    return enqueued;
+  }
+}
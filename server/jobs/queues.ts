@@ -32,9 +32,26 @@ if (!config.redisUrl || !config.jobsEnabled) {
       removeRepeatableByKey: noop,
       clean: noopArray,
     } as any,
-    newsScrape: {} as any,
-    classifyArticles: {} as any,
-    generateSummary: {} as any,
+    newsScrape: {
+      add: noop,
+      getJob: noop,
+      getRepeatableJobs: noopArray,
+      removeRepeatableByKey: noop,
+      clean: noopArray,
+    } as any,
+    classifyArticles: {
+      add: noop,
+      getJob: noop,
+      getRepeatableJobs: noopArray,
+      removeRepeatableByKey: noop,
+      clean: noopArray,
+    } as any,
+    generateSummary: {
+      add: noop,
+      getJob: noop,
+      getJobs: noopArray,
+      clean: noopArray,
+    } as any,
     maintenance: {
       add: noop,
     } as any,
@@ -0,0 +1,141 @@
+import { randomUUID } from "crypto";
+import type { Job } from "bullmq";
+import { config } from "../config";
+import { withSource } from "../logger";
+import { queues } from "./queues";
+import { defaultJobOptions } from "./workers";
+import { SummaryAgent } from "../agents/summaryAgent";
+
+const log = withSource("summary-jobs");
+
+export interface GenerateSummaryPayload {
+  teamId: string;
+  windowDays?: number;
+  maxArticles?: number;
+}
+
+export type SummaryJobState = "queued" | "active" | "completed" | "failed";
+
+export interface SummaryJobStatus {
+  jobId: string;
+  teamId: string;
+  state: SummaryJobState;
+  summaryId?: string;
+  error?: string;
+}
+
+// Completed jobs stay pollable for an hour
+const RETAIN_MS = 60 * 60 * 1000;
+
+// In-process job table used when BullMQ is disabled (no REDIS_URL or JOBS_ENABLED=false)
+const localJobs = new Map<string, SummaryJobStatus & { updatedAt: number }>();
+
+function queueEnabled(): boolean {
+  return !!config.redisUrl && config.jobsEnabled;
+}
+
+function pruneLocalJobs(now: number = Date.now()) {
+  for (const [id, job] of Array.from(localJobs.entries())) {
+    if ((job.state === "completed" || job.state === "failed") && now - job.updatedAt > RETAIN_MS) {
+      localJobs.delete(id);
+    }
+  }
+}
+
+function mapBullState(state: string): SummaryJobState {
+  switch (state) {
+    case "active":
+      return "active";
+    case "completed":
+      return "completed";
+    case "failed":
+      return "failed";
+    default:
+      return "queued"; // waiting, delayed, prioritized, waiting-children
+  }
+}
+
+/**
+ * Queue summary generation for a team and return a pollable job id.
+ * Unless `force` is set, a request for a team that already has a job in
+ * flight returns that job instead of starting another.
+ */
+export async function enqueueSummaryJob(payload: GenerateSummaryPayload, options: { force?: boolean } = {}): Promise<SummaryJobStatus> {
+  if (queueEnabled()) {
+    if (!options.force) {
+      const inFlight: Job<GenerateSummaryPayload>[] = await queues.generateSummary.getJobs(["waiting", "active", "delayed"]);
+      const existing = inFlight.find((j) => j?.data?.teamId === payload.teamId);
+      if (existing) {
+        return { jobId: String(existing.id), teamId: payload.teamId, state: mapBullState(await existing.getState()) };
+      }
+    }
+    const jobId = randomUUID();
+    await queues.generateSummary.add("generate_summary", payload, {
+      ...defaultJobOptions(),
+      jobId,
+      removeOnComplete: { age: RETAIN_MS / 1000 },
+      removeOnFail: { age: RETAIN_MS / 1000 },
+    });
+    return { jobId, teamId: payload.teamId, state: "queued" };
+  }
+
+  pruneLocalJobs();
+  if (!options.force) {
+    const existing = Array.from(localJobs.values()).find(
+      (j) => j.teamId === payload.teamId && (j.state === "queued" || j.state === "active"),
+    );
+    if (existing) {
+      const { updatedAt: _updatedAt, ...status } = existing;
+      return status;
+    }
+  }
+
+  const jobId = randomUUID();
+  const job = { jobId, teamId: payload.teamId, state: "queued" as SummaryJobState, updatedAt: Date.now() };
+  localJobs.set(jobId, job);
+
+  // Run outside the request; failures are recorded on the job entry
+  setImmediate(async () => {
+    Object.assign(job, { state: "active", updatedAt: Date.now() });
+    try {
+      const summary = await new SummaryAgent().generate(payload.teamId, payload);
+      Object.assign(job, { state: "completed", summaryId: summary.id, updatedAt: Date.now() });
+    } catch (err: any) {
+      log.error({ jobId, teamId: payload.teamId, err }, "local summary job failed");
+      Object.assign(job, { state: "failed", error: err?.message ?? String(err), updatedAt: Date.now() });
+    }
+  });
+
+  return { jobId, teamId: payload.teamId, state: "queued" };
+}
+
+/**
+ * Look up a summary job by id
+ * @returns Status, or undefined if unknown or expired
+ */
+export async function getSummaryJobStatus(jobId: string): Promise<SummaryJobStatus | undefined> {
+  const local = localJobs.get(jobId);
+  if (local) {
+    const { updatedAt: _updatedAt, ...status } = local;
+    return status;
+  }
+  if (!queueEnabled()) return undefined;
+
+  const job: Job<GenerateSummaryPayload, { summaryId?: string }> | undefined = await queues.generateSummary.getJob(jobId);
+  if (!job) return undefined;
+  const state = mapBullState(await job.getState());
+  return {
+    jobId,
+    teamId: String(job.data?.teamId ?? ""),
+    state,
+    summaryId: state === "completed" ? job.returnvalue?.summaryId : undefined,
+    error: state === "failed" ? job.failedReason ?? undefined : undefined,
+  };
+}
+
+/**
+ * Clear the in-process job table (tests)
+ */
+export function resetLocalSummaryJobs(): void {
+  localJobs.clear();
+}
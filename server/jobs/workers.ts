@@ -3,9 +3,14 @@ import { config } from "../config";
 import { createRedis, closeRedis, connectRedis } from "./redis";
 import { withSource } from "../logger";
 import { ScoresAgent } from "../agents/scoresAgent";
+import { NewsAgent } from "../agents/newsAgent";
+import { ClassificationAgent } from "../agents/classificationAgent";
+import { SummaryAgent } from "../agents/summaryAgent";
+import type { GenerateSummaryPayload } from "./summaryJobs";
 import { SportAdapterFactory } from "../agents/adapters";
 import { storage } from "../storage";
 import { queues, queueEvents } from "./queues";
+import { AdaptivePollScheduler } from "./pollScheduler";
 import type { Redis } from "ioredis";
 
 const log = withSource("jobs");
@@ -89,6 +94,17 @@ export interface ScoresIngestPayload {
   teamIds?: string[];
   limit?: number;
   sport?: string; // Optional sport override
+  // Defaults to "live" with teamIds, else "featured"; "poll" runs one adaptive polling tick
+  mode?: "live" | "schedule" | "featured" | "poll";
+}
+
+export interface NewsScrapePayload {
+  sourceIds?: string[]; // Optional subset of sources; defaults to all active sources
+}
+
+export interface ClassifyArticlesPayload {
+  articleIds?: string[]; // Explicit articles to (re)classify; defaults to the unprocessed backlog
+  limit?: number;
 }
 
 export interface MaintenancePayload {
@@ -128,11 +144,22 @@ export async function initWorkers() {
   }
 
   const connection = createRedis();
+  const pollScheduler = new AdaptivePollScheduler();
 
   const scoresWorker = new Worker<ScoresIngestPayload>(
     "scores_ingest",
     async (job) => {
       const { teamIds, limit, sport } = job.data || {};
+      if (job.data?.mode === "poll") {
+        // Fan out one live fetch per league for the games due now
+        const enqueued = await pollScheduler.tick((batch) => queues.scoresIngest.add(
+          "scores_ingest",
+          { teamIds: batch.teamIds, limit: Math.max(5, batch.gameIds.length), sport: batch.sport, mode: "live" },
+          { ...defaultJobOptions(), jobId: batch.jobId }
+        ));
+        await job.log(`scores_ingest poll: ${JSON.stringify(enqueued.map((b) => ({ sport: b.sport, gameIds: b.gameIds })))}`);
+        return { persisted: 0, skipped: 0, errors: 0, enqueued: enqueued.length };
+      }
       // Use SportAdapterFactory to get the appropriate adapter
       // Detect sport from team IDs (e.g., "NBA_LAL") or use explicit sport parameter
       const detectedSport = sport || detectSportFromTeamIds(teamIds);
@@ -141,7 +168,7 @@ export async function initWorkers() {
       try {
         await job.updateProgress(5);
         await job.log(`scores_ingest start: teamIds=${JSON.stringify(teamIds ?? [])}, limit=${limit ?? 5}`);
-        const mode = (teamIds && teamIds.length > 0) ? "live" : "featured";
+        const mode = job.data?.mode ?? ((teamIds && teamIds.length > 0) ? "live" : "featured");
         const result = await primaryAgent.runOnce({ teamIds, limit, sport: detectedSport, mode });
         await job.updateProgress(70);
         await job.log(`scores_ingest primary result: ${JSON.stringify(result)}`);
@@ -190,9 +217,13 @@ export async function initWorkers() {
     log.info({ jobId: job.id, persisted: result?.persisted }, "scores_ingest completed");
   });
 
-  // Schedule live scores jobs per team across supported leagues using configured interval
+  // Schedule live scores polling: adaptive off the persisted schedule, or per team on a fixed interval
   try {
-    await scheduleLiveTeamJobs();
+    if (config.scoresPollingMode === "fixed") {
+      await scheduleLiveTeamJobs();
+    } else {
+      await scheduleAdaptivePollingJobs();
+    }
   } catch (e) {
     log.warn({ err: e }, "scheduling repeatable scores_ingest failed");
   }
@@ -204,6 +235,99 @@ export async function initWorkers() {
     log.warn({ err: e }, "scheduling featured scores_ingest failed");
   }
 
+  // News ingestion worker and scheduling
+  const newsWorker = new Worker<NewsScrapePayload>(
+    "news_scrape",
+    async (job) => {
+      const { sourceIds } = job.data || {};
+      await job.updateProgress(5);
+      await job.log(`news_scrape start: sourceIds=${JSON.stringify(sourceIds ?? [])}`);
+      const agent = new NewsAgent();
+      const result = await agent.runOnce({ sourceIds });
+      await job.updateProgress(90);
+      await job.log(`news_scrape result: ${JSON.stringify(result)}`);
+      if (result.persisted > 0) {
+        // Classify freshly ingested articles right away instead of waiting for the sweep
+        try {
+          await queues.classifyArticles.add("classify_articles", { limit: Math.max(100, result.persisted) }, defaultJobOptions());
+        } catch (e) {
+          log.warn({ err: e }, "failed to enqueue classify_articles after news_scrape");
+        }
+      }
+      await job.updateProgress(100);
+      return result;
+    },
+    { connection, prefix: config.jobQueuePrefix, concurrency: 1 }
+  );
+
+  newsWorker.on("failed", (job, err) => {
+    log.error({ jobId: job?.id, err }, "news_scrape failed");
+  });
+
+  newsWorker.on("completed", (job, result) => {
+    log.info({ jobId: job.id, result }, "news_scrape completed");
+  });
+
+  try {
+    await scheduleNewsScrapeJob();
+  } catch (e) {
+    log.warn({ err: e }, "scheduling news_scrape failed");
+  }
+
+  // Article classification worker and scheduling
+  const classifyWorker = new Worker<ClassifyArticlesPayload>(
+    "classify_articles",
+    async (job) => {
+      const { articleIds, limit } = job.data || {};
+      await job.updateProgress(5);
+      await job.log(`classify_articles start: articleIds=${articleIds?.length ?? 0}, limit=${limit ?? 100}`);
+      const agent = new ClassificationAgent();
+      const result = await agent.runOnce({ articleIds, limit });
+      await job.updateProgress(95);
+      await job.log(`classify_articles result: ${JSON.stringify(result)}`);
+      await job.updateProgress(100);
+      return result;
+    },
+    { connection, prefix: config.jobQueuePrefix, concurrency: 1 }
+  );
+
+  classifyWorker.on("failed", (job, err) => {
+    log.error({ jobId: job?.id, err }, "classify_articles failed");
+  });
+
+  classifyWorker.on("completed", (job, result) => {
+    log.info({ jobId: job.id, result }, "classify_articles completed");
+  });
+
+  try {
+    await scheduleClassifyArticlesJob();
+  } catch (e) {
+    log.warn({ err: e }, "scheduling classify_articles failed");
+  }
+
+  // On-demand summary generation worker (enqueued by POST /api/summary/:teamId/generate)
+  const summaryWorker = new Worker<GenerateSummaryPayload>(
+    "generate_summary",
+    async (job) => {
+      const { teamId, windowDays, maxArticles } = job.data;
+      await job.updateProgress(5);
+      await job.log(`generate_summary start: teamId=${teamId}`);
+      const agent = new SummaryAgent();
+      const summary = await agent.generate(teamId, { windowDays, maxArticles });
+      await job.updateProgress(100);
+      return { summaryId: summary.id, model: summary.model, sourceArticleIds: summary.sourceArticleIds ?? [] };
+    },
+    { connection, prefix: config.jobQueuePrefix, concurrency: 2 }
+  );
+
+  summaryWorker.on("failed", (job, err) => {
+    log.error({ jobId: job?.id, teamId: job?.data?.teamId, err }, "generate_summary failed");
+  });
+
+  summaryWorker.on("completed", (job, result) => {
+    log.info({ jobId: job.id, teamId: job.data.teamId, result }, "generate_summary completed");
+  });
+
   // Maintenance/cleanup worker and scheduling
   const maintenanceWorker = new Worker<MaintenancePayload>(
     "maintenance",
@@ -248,6 +372,9 @@ export async function initWorkers() {
 
   async function stop() {
     try { await scoresWorker.close(); } catch {}
+    try { await newsWorker.close(); } catch {}
+    try { await classifyWorker.close(); } catch {}
+    try { await summaryWorker.close(); } catch {}
     try { await maintenanceWorker.close(); } catch {}
     try { await closeRedis(connection); } catch {}
   }
@@ -283,6 +410,34 @@ export async function scheduleLiveTeamJobs(): Promise<void> {
   }
 }
 
+/**
+ * Schedule adaptive live polling: a schedule sync per league on the non-live
+ * interval, plus a polling tick on the live interval that enqueues fetches only
+ * for games near or in progress (see AdaptivePollScheduler).
+ */
+export async function scheduleAdaptivePollingJobs(): Promise<void> {
+  const leagues = ["NBA", "NFL", "MLB", "NHL"] as const;
+  const baseOpts = { ...defaultJobOptions(), removeOnComplete: true };
+  for (const league of leagues) {
+    try {
+      await queues.scoresIngest.add(
+        "scores_ingest",
+        { teamIds: [], limit: 100, sport: league, mode: "schedule" },
+        { ...baseOpts, jobId: `scores_ingest:schedule:${league}`, repeat: { every: config.nonliveScoresIntervalMs } }
+      );
+      log.info({ league, everyMs: config.nonliveScoresIntervalMs }, "repeatable schedule sync scheduled");
+    } catch (e) {
+      log.warn({ league, err: e }, "failed to schedule schedule sync");
+    }
+  }
+  await queues.scoresIngest.add(
+    "scores_ingest",
+    { mode: "poll" },
+    { ...baseOpts, jobId: "scores_ingest:poll", repeat: { every: config.liveScoresIntervalMs } }
+  );
+  log.info({ everyMs: config.liveScoresIntervalMs }, "repeatable scores poll tick scheduled");
+}
+
 /**
  * Schedule repeatable featured (sport-scoped) jobs for supported leagues.
  * Uses config.nonliveScoresIntervalMs and unique per-sport jobId.
@@ -304,6 +459,34 @@ export async function scheduleFeaturedSportJobs(): Promise<void> {
   }
 }
 
+/**
+ * Schedule the repeatable news sweep across all active sources.
+ * Uses config.newsScrapeIntervalMs and a single well-known jobId.
+ */
+export async function scheduleNewsScrapeJob(): Promise<void> {
+  const baseOpts = { ...defaultJobOptions(), removeOnComplete: true };
+  await queues.newsScrape.add(
+    "news_scrape",
+    {},
+    { ...baseOpts, jobId: "news_scrape:all", repeat: { every: config.newsScrapeIntervalMs } }
+  );
+  log.info({ everyMs: config.newsScrapeIntervalMs }, "repeatable news_scrape scheduled");
+}
+
+/**
+ * Schedule the repeatable classification sweep over unprocessed articles.
+ * Runs on the news interval as a backstop for articles not classified on ingest.
+ */
+export async function scheduleClassifyArticlesJob(): Promise<void> {
+  const baseOpts = { ...defaultJobOptions(), removeOnComplete: true };
+  await queues.classifyArticles.add(
+    "classify_articles",
+    { limit: 100 },
+    { ...baseOpts, jobId: "classify_articles:sweep", repeat: { every: config.newsScrapeIntervalMs } }
+  );
+  log.info({ everyMs: config.newsScrapeIntervalMs }, "repeatable classify_articles scheduled");
+}
+
 /**
  * Schedule maintenance job using cron pattern from config or default daily interval.
  */
@@ -374,16 +557,20 @@ export async function deleteKeysByPattern(client: Redis, pattern: string): Promi
 
 /**
  * Ensure only desired repeatable jobs exist for scores_ingest.
- * Removes obsolete repeatables when teams or intervals change.
+ * Removes obsolete repeatables when teams, intervals or the polling mode change.
  */
 export async function reconcileRepeatableScoresJobs(): Promise<number> {
   const leagues = ["NBA", "NFL", "MLB", "NHL"] as const;
   const desiredIds = new Set<string>();
   for (const league of leagues) {
     try {
-      const teams = await storage.getTeamsByLeague(league);
-      for (const team of teams) {
-        desiredIds.add(`scores_ingest:${team.id}`);
+      if (config.scoresPollingMode === "fixed") {
+        const teams = await storage.getTeamsByLeague(league);
+        for (const team of teams) {
+          desiredIds.add(`scores_ingest:${team.id}`);
+        }
+      } else {
+        desiredIds.add(`scores_ingest:schedule:${league}`);
       }
       desiredIds.add(`scores_ingest:featured:${league}`);
     } catch (e) {
@@ -392,6 +579,8 @@ export async function reconcileRepeatableScoresJobs(): Promise<number> {
   }
 
   let removed = 0;
+  if (config.scoresPollingMode !== "fixed") desiredIds.add("scores_ingest:poll");
+
   const reps = await queues.scoresIngest.getRepeatableJobs();
   for (const r of reps) {
     const id = (r as any).id as string | undefined;
@@ -144,6 +144,37 @@ const rateLimitHitsTotal = new Counter({
   registers: [register],
 });
 
+// Score reconciliation metrics
+const scoreSourceReadingsTotal = new Counter({
+  name: 'score_source_readings_total',
+  help: 'Multi-source score readings by source and whether they matched the reconciled result',
+  labelNames: ['source', 'outcome'], // outcome: agreed | disagreed
+  registers: [register],
+});
+
+const scoreSourceAccuracy = new Gauge({
+  name: 'score_source_accuracy',
+  help: 'Fraction of multi-source readings that matched the reconciled result, per source',
+  labelNames: ['source'],
+  registers: [register],
+});
+
+const scoreReconciliationAccuracy = new Gauge({
+  name: 'score_reconciliation_accuracy',
+  help: 'Fraction of games in the last reconciliation where all sources agreed',
+  labelNames: ['sport'],
+  registers: [register],
+});
+
+const scoreDiscrepanciesTotal = new Counter({
+  name: 'score_discrepancies_total',
+  help: 'Total games where score sources disagreed, by sport and field',
+  labelNames: ['sport', 'field'], // field: score | status
+  registers: [register],
+});
+
+const sourceReadingTally = new Map<string, { agreed: number; total: number }>();
+
 // Helpers
 function observeDbQuery(operation: string, table: string, durationMs: number, rows: number) {
   try {
@@ -225,6 +256,31 @@ function recordRateLimitHit(endpoint: string, scope: 'ip' | 'user') {
   } catch { /* no-op */ }
 }
 
+function recordScoreReconciliation(
+  sport: string,
+  result: {
+    accuracy?: number;
+    sourceAgreement?: Record<string, { agreed: number; total: number }>;
+    discrepancies?: Array<{ field: string }>;
+  }
+) {
+  try {
+    if (result.accuracy !== undefined) scoreReconciliationAccuracy.labels(sport).set(result.accuracy);
+    for (const [source, counts] of Object.entries(result.sourceAgreement ?? {})) {
+      scoreSourceReadingsTotal.labels(source, 'agreed').inc(counts.agreed);
+      scoreSourceReadingsTotal.labels(source, 'disagreed').inc(counts.total - counts.agreed);
+      const tally = sourceReadingTally.get(source) ?? { agreed: 0, total: 0 };
+      tally.agreed += counts.agreed;
+      tally.total += counts.total;
+      sourceReadingTally.set(source, tally);
+      if (tally.total > 0) scoreSourceAccuracy.labels(source).set(tally.agreed / tally.total);
+    }
+    for (const d of result.discrepancies ?? []) {
+      scoreDiscrepanciesTotal.labels(sport, d.field).inc();
+    }
+  } catch { /* no-op */ }
+}
+
 async function getMetricsContent(): Promise<string> {
   return await register.metrics();
 }
@@ -249,6 +305,10 @@ export const metrics = {
   criticalErrorsTotal,
   alertsTriggeredTotal,
   rateLimitHitsTotal,
+  scoreSourceReadingsTotal,
+  scoreSourceAccuracy,
+  scoreReconciliationAccuracy,
+  scoreDiscrepanciesTotal,
   observeDbQuery,
   recordCacheEvent,
   observeApiRequest,
@@ -258,5 +318,6 @@ export const metrics = {
   updateErrorRate,
   recordAlert,
   recordRateLimitHit,
+  recordScoreReconciliation,
   getMetricsContent,
 } as const;
\ No newline at end of file
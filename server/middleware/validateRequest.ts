@@ -2,6 +2,8 @@ import type { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { SportAdapterFactory } from '../agents/adapters/sportAdapterFactory';
 import { logger, withSource } from '../logger';
+import { ARTICLE_CATEGORIES } from '../../shared/schema';
+import { decodeArticleCursor } from '../utils/articleCursor';
 
 const log = withSource('validateRequest');
 
@@ -80,6 +82,59 @@ const UserTeamScoresQuerySchema = z.object({
   endDate: isoDate.optional(),
 });
 
+const pageSchema = z
+  .preprocess((v) => (typeof v === 'string' ? (/^\d+$/.test(v) ? parseInt(v, 10) : NaN) : v), z.number().int().min(1).max(1000))
+  .optional()
+  .default(1);
+
+const pageSizeSchema = z
+  .preprocess((v) => (typeof v === 'string' ? (/^\d+$/.test(v) ? parseInt(v, 10) : NaN) : v), z.number().int().min(1).max(50))
+  .optional()
+  .default(10);
+
+const ArticleSearchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1, 'Search query is required').max(200),
+    teamIds: TeamIdsUnion,
+    category: z.enum(ARTICLE_CATEGORIES).optional(),
+    startDate: isoDate.optional(),
+    endDate: isoDate.optional(),
+    page: pageSchema,
+    pageSize: pageSizeSchema,
+  })
+  .superRefine((data, ctx) => {
+    if (data.startDate && data.endDate) {
+      if (new Date(data.startDate).getTime() > new Date(data.endDate).getTime()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['startDate'],
+          message: 'startDate must be before or equal to endDate',
+        });
+      }
+    }
+  });
+
+const ArticlesFeedQuerySchema = z.object({
+  teamIds: TeamIdsUnion,
+  category: z.enum(ARTICLE_CATEGORIES).optional(),
+  minRelevance: z
+    .preprocess((v) => (typeof v === 'string' ? (/^\d+$/.test(v) ? parseInt(v, 10) : NaN) : v), z.number().int().min(0).max(100))
+    .optional(),
+  cursor: z
+    .string()
+    .optional()
+    .transform((token, ctx) => {
+      if (!token) return undefined;
+      const cursor = decodeArticleCursor(token);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return cursor;
+    }),
+  limit: limitSchema,
+});
+
 function sendValidationError(res: Response, reqPath: string, issues: z.ZodIssue[]) {
   const requestId = (res as any).locals?.requestId || (res as any).requestId || (res as any).id || (res as any).locals?.id;
   if (issues?.length) {
@@ -124,4 +179,22 @@ export function validateUserTeamScoresQuery(req: Request, res: Response, next: N
   }
   req.validated = { ...(req.validated || {}), query: parsed.data };
   return next();
-}
\ No newline at end of file
+}
+
+export function validateArticleSearchQuery(req: Request, res: Response, next: NextFunction) {
+  const parsed = ArticleSearchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return sendValidationError(res, req.path, parsed.error.issues);
+  }
+  req.validated = { ...(req.validated || {}), query: parsed.data };
+  return next();
+}
+
+export function validateArticlesFeedQuery(req: Request, res: Response, next: NextFunction) {
+  const parsed = ArticlesFeedQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return sendValidationError(res, req.path, parsed.error.issues);
+  }
+  req.validated = { ...(req.validated || {}), query: parsed.data };
+  return next();
+}
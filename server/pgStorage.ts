@@ -14,6 +14,18 @@ import type {
   InsertSummary,
   Game,
   InsertGame,
+  BoxScoreRecord,
+  InsertBoxScore,
+  BoxScorePlayerStat,
+  InsertBoxScorePlayerStat,
+  GamePlayRecord,
+  InsertGamePlay,
+  ScoreDiscrepancy,
+  InsertScoreDiscrepancy,
+  TeamRankingRecord,
+  InsertTeamRanking,
+  GameAlias,
+  InsertGameAlias,
   Update,
   InsertUpdate,
   Experience,
@@ -24,8 +36,13 @@ import type {
   InsertUserProfile,
   Article,
   InsertArticle,
+  ArticleFeedQuery,
+  StoryCluster,
+  InsertStoryCluster,
   BM25Index,
   InsertBM25Index,
+  BM25IndexDocument,
+  InsertBM25IndexDocument,
   NewsSource,
   InsertNewsSource,
   ArticleClassification,
@@ -34,7 +51,8 @@ import type {
 } from "../shared/schema";
 import { db } from "./db";
 import * as schema from "../shared/schema";
-import { eq, and, or, lt, gt, gte, lte, inArray, desc, sql } from "drizzle-orm";
+import { eq, and, or, lt, gt, gte, lte, inArray, isNull, isNotNull, arrayOverlaps, desc, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { metrics } from "./metrics";
 import { config } from "./config";
 import { withSource } from "./logger";
@@ -185,6 +203,11 @@ export class PgStorage implements IStorage {
     return rows[0];
   }
 
+  async getSummaryById(id: string): Promise<Summary | undefined> {
+    const rows = await db!.select().from(schema.summaries).where(eq(schema.summaries.id, id));
+    return rows[0];
+  }
+
   async getSummaryByTeamId(teamId: string): Promise<Summary | undefined> {
     const rows = await db!.select().from(schema.summaries).where(eq(schema.summaries.teamId, teamId));
     return rows[0];
@@ -216,6 +239,177 @@ export class PgStorage implements IStorage {
     return rows[0];
   }
 
+  // Box Scores
+  async saveBoxScore(boxScore: InsertBoxScore, players: InsertBoxScorePlayerStat[]): Promise<BoxScoreRecord> {
+    return await execWithMetrics("upsert", "box_scores", async () => {
+      return await db!.transaction(async (tx) => {
+        const { gameId, ...changes } = boxScore;
+        const rows = await tx
+          .insert(schema.boxScores)
+          .values(boxScore)
+          .onConflictDoUpdate({
+            target: schema.boxScores.gameId,
+            set: { ...changes, updatedAt: boxScore.updatedAt ?? new Date() },
+          })
+          .returning();
+        // Players drop out of a live box score only through corrections; replace wholesale
+        await tx.delete(schema.boxScorePlayerStats).where(eq(schema.boxScorePlayerStats.gameId, gameId));
+        if (players.length > 0) {
+          await tx.insert(schema.boxScorePlayerStats).values(players);
+        }
+        return rows[0];
+      });
+    }, { gameId: boxScore.gameId, players: players.length });
+  }
+
+  async getBoxScore(gameId: string): Promise<BoxScoreRecord | undefined> {
+    const rows = await execWithMetrics("select", "box_scores", async () => {
+      return await db!.select().from(schema.boxScores).where(eq(schema.boxScores.gameId, gameId));
+    }, { gameId });
+    return rows[0];
+  }
+
+  async getBoxScorePlayerStats(gameId: string): Promise<BoxScorePlayerStat[]> {
+    return await execWithMetrics("select", "box_score_player_stats", async () => {
+      return await db!
+        .select()
+        .from(schema.boxScorePlayerStats)
+        .where(eq(schema.boxScorePlayerStats.gameId, gameId));
+    }, { gameId });
+  }
+
+  // Game Plays
+  async insertGamePlays(plays: InsertGamePlay[]): Promise<GamePlayRecord[]> {
+    if (plays.length === 0) return [];
+    const rows = await execWithMetrics("insert", "game_plays", async () => {
+      return await db!
+        .insert(schema.gamePlays)
+        .values(plays)
+        .onConflictDoNothing({ target: [schema.gamePlays.gameId, schema.gamePlays.sequence] })
+        .returning();
+    }, { gameId: plays[0].gameId, count: plays.length });
+    return rows.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async getGamePlays(gameId: string, sinceSequence: number = 0, limit: number = 500): Promise<GamePlayRecord[]> {
+    return await execWithMetrics("select", "game_plays", async () => {
+      return await db!
+        .select()
+        .from(schema.gamePlays)
+        .where(and(eq(schema.gamePlays.gameId, gameId), gt(schema.gamePlays.sequence, sinceSequence)))
+        .orderBy(schema.gamePlays.sequence)
+        .limit(limit);
+    }, { gameId, sinceSequence, limit });
+  }
+
+  async getLatestGamePlaySequence(gameId: string): Promise<number> {
+    const rows = await execWithMetrics("select_latest", "game_plays", async () => {
+      return await db!
+        .select({ sequence: sql<number>`coalesce(max(${schema.gamePlays.sequence}), 0)` })
+        .from(schema.gamePlays)
+        .where(eq(schema.gamePlays.gameId, gameId));
+    }, { gameId });
+    return Number(rows[0]?.sequence ?? 0);
+  }
+
+  // Score Discrepancies
+  async createScoreDiscrepancies(discrepancies: InsertScoreDiscrepancy[]): Promise<ScoreDiscrepancy[]> {
+    if (discrepancies.length === 0) return [];
+    return await execWithMetrics("insert", "score_discrepancies", async () => {
+      return await db!.insert(schema.scoreDiscrepancies).values(discrepancies).returning();
+    }, { count: discrepancies.length });
+  }
+
+  async getScoreDiscrepancies(options: { gameId?: string; since?: Date; limit?: number } = {}): Promise<ScoreDiscrepancy[]> {
+    const { gameId, since, limit = 100 } = options;
+    let where: any = undefined;
+    if (gameId) where = eq(schema.scoreDiscrepancies.gameId, gameId);
+    if (since) where = and(where, gte(schema.scoreDiscrepancies.detectedAt, since));
+    return await execWithMetrics("select", "score_discrepancies", async () => {
+      return await db!
+        .select()
+        .from(schema.scoreDiscrepancies)
+        .where(where)
+        .orderBy(desc(schema.scoreDiscrepancies.detectedAt))
+        .limit(limit);
+    }, { gameId, limit });
+  }
+
+  // Team Rankings
+  async replaceTeamRankings(league: string, poll: string, rankings: InsertTeamRanking[]): Promise<TeamRankingRecord[]> {
+    return await execWithMetrics("replace", "team_rankings", async () => {
+      return await db!.transaction(async (tx) => {
+        await tx
+          .delete(schema.teamRankings)
+          .where(and(eq(schema.teamRankings.league, league), eq(schema.teamRankings.poll, poll)));
+        if (rankings.length === 0) return [];
+        const rows = await tx
+          .insert(schema.teamRankings)
+          .values(rankings.map((r) => ({ ...r, league, poll })))
+          .returning();
+        return rows.sort((a, b) => a.rank - b.rank);
+      });
+    }, { league, poll, count: rankings.length });
+  }
+
+  async getTeamRankings(league: string, poll: string): Promise<TeamRankingRecord[]> {
+    return await execWithMetrics("select", "team_rankings", async () => {
+      return await db!
+        .select()
+        .from(schema.teamRankings)
+        .where(and(eq(schema.teamRankings.league, league), eq(schema.teamRankings.poll, poll)))
+        .orderBy(schema.teamRankings.rank);
+    }, { league, poll });
+  }
+
+  // Game Aliases
+  async createGameAlias(alias: InsertGameAlias): Promise<GameAlias> {
+    return await execWithMetrics("insert", "game_aliases", async () => {
+      const [created] = await db!
+        .insert(schema.gameAliases)
+        .values(alias)
+        .onConflictDoNothing({ target: [schema.gameAliases.source, schema.gameAliases.sourceGameId] })
+        .returning();
+      if (created) return created;
+      const [existing] = await db!
+        .select()
+        .from(schema.gameAliases)
+        .where(and(eq(schema.gameAliases.source, alias.source), eq(schema.gameAliases.sourceGameId, alias.sourceGameId)))
+        .limit(1);
+      return existing;
+    }, { gameId: alias.gameId, source: alias.source });
+  }
+
+  async getGameAlias(source: string, sourceGameId: string): Promise<GameAlias | undefined> {
+    const rows = await execWithMetrics("select", "game_aliases", async () => {
+      return await db!
+        .select()
+        .from(schema.gameAliases)
+        .where(and(eq(schema.gameAliases.source, source), eq(schema.gameAliases.sourceGameId, sourceGameId)))
+        .limit(1);
+    }, { source, sourceGameId });
+    return rows[0];
+  }
+
+  async getGameAliasesByKey(gameKey: string): Promise<GameAlias[]> {
+    return await execWithMetrics("select", "game_aliases", async () => {
+      return await db!
+        .select()
+        .from(schema.gameAliases)
+        .where(eq(schema.gameAliases.gameKey, gameKey));
+    }, { gameKey });
+  }
+
+  async getGameAliases(gameId: string): Promise<GameAlias[]> {
+    return await execWithMetrics("select", "game_aliases", async () => {
+      return await db!
+        .select()
+        .from(schema.gameAliases)
+        .where(eq(schema.gameAliases.gameId, gameId))
+        .orderBy(schema.gameAliases.createdAt);
+    }, { gameId });
+  }
+
   async getGamesByTeamId(teamId: string, limit: number = 10, startDate?: Date, endDate?: Date): Promise<Game[]> {
     // Fetch top-N recent games for both home and away paths using indexes with optional time window
     let start = performance.now();
@@ -268,6 +462,16 @@ export class PgStorage implements IStorage {
     return rows;
   }
 
+  async getGamesStartingBetween(startDate: Date, endDate: Date): Promise<Game[]> {
+    return await execWithMetrics("select_window", "games", async () => {
+      return await db!
+        .select()
+        .from(schema.games)
+        .where(and(gte(schema.games.startTime, startDate), lte(schema.games.startTime, endDate)))
+        .orderBy(schema.games.startTime);
+    }, { startDate, endDate });
+  }
+
   async getLatestTeamScore(teamId: string): Promise<GameScoreData | undefined> {
     const log = withSource("db");
     
@@ -699,6 +903,13 @@ export class PgStorage implements IStorage {
     return rows[0];
   }
 
+  async getArticlesByIds(ids: string[]): Promise<Article[]> {
+    if (ids.length === 0) return [];
+    return await execWithMetrics("select_ids", "articles", async () => {
+      return await db!.select().from(schema.articles).where(inArray(schema.articles.id, ids));
+    }, { count: ids.length });
+  }
+
   async getArticlesByTeam(teamId: string, limit: number = 50): Promise<Article[]> {
     return await execWithMetrics("select_team", "articles", async () => {
       return await db!
@@ -752,6 +963,116 @@ export class PgStorage implements IStorage {
     }, { teamId, days });
   }
 
+  async getArticleLshCandidates(teamId: string, bandKeys: string[], since: Date): Promise<Article[]> {
+    return await execWithMetrics("select_lsh_candidates", "articles", async () => {
+      return await db!
+        .select()
+        .from(schema.articles)
+        .where(and(
+          eq(schema.articles.teamId, teamId),
+          sql`${schema.articles.publishedAt} >= ${since}`,
+          eq(schema.articles.isDeleted, false),
+          or(
+            bandKeys.length > 0 ? arrayOverlaps(schema.articles.lshBands, bandKeys) : sql`false`,
+            // Rows written before LSH bucketing still need a direct comparison
+            and(isNull(schema.articles.lshBands), isNotNull(schema.articles.minHash))
+          )
+        ))
+        .orderBy(desc(schema.articles.publishedAt));
+    }, { teamId, bands: bandKeys.length });
+  }
+
+  async getArticlesByClusterIds(clusterIds: string[]): Promise<Article[]> {
+    if (clusterIds.length === 0) return [];
+    return await execWithMetrics("select_clusters", "articles", async () => {
+      return await db!
+        .select()
+        .from(schema.articles)
+        .where(and(
+          inArray(schema.articles.clusterId, clusterIds),
+          eq(schema.articles.isDeleted, false)
+        ))
+        .orderBy(schema.articles.publishedAt);
+    }, { count: clusterIds.length });
+  }
+
+  // Story Clusters
+  async createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster> {
+    const rows = await execWithMetrics("insert", "story_clusters", async () => {
+      return await db!.insert(schema.storyClusters).values(cluster).returning();
+    }, { teamId: cluster.teamId });
+    return rows[0];
+  }
+
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    const rows = await execWithMetrics("select", "story_clusters", async () => {
+      return await db!.select().from(schema.storyClusters).where(eq(schema.storyClusters.id, id));
+    }, { id });
+    return rows[0];
+  }
+
+  async getStoryClustersByIds(ids: string[]): Promise<StoryCluster[]> {
+    if (ids.length === 0) return [];
+    return await execWithMetrics("select_ids", "story_clusters", async () => {
+      return await db!.select().from(schema.storyClusters).where(inArray(schema.storyClusters.id, ids));
+    }, { count: ids.length });
+  }
+
+  async updateStoryCluster(id: string, cluster: Partial<StoryCluster>): Promise<StoryCluster | undefined> {
+    const rows = await execWithMetrics("update", "story_clusters", async () => {
+      return await db!
+        .update(schema.storyClusters)
+        .set(cluster)
+        .where(eq(schema.storyClusters.id, id))
+        .returning();
+    }, { id });
+    return rows[0];
+  }
+
+  async getArticlesFeed(query: ArticleFeedQuery): Promise<Article[]> {
+    const member = alias(schema.articles, "cluster_member");
+    const feedFilters = (table: typeof schema.articles | typeof member) => {
+      const filters = [eq(table.isDeleted, false)];
+      if (query.teamIds && query.teamIds.length > 0) {
+        filters.push(inArray(table.teamId, query.teamIds));
+      }
+      if (query.category) {
+        filters.push(eq(table.category, query.category));
+      }
+      if (query.minRelevance != null) {
+        filters.push(gte(table.relevanceScore, query.minRelevance));
+      }
+      return filters;
+    };
+
+    const conditions = feedFilters(schema.articles);
+    if (query.collapseClusters) {
+      // Show each cluster's earliest member that is itself in the feed, so a
+      // deleted or filtered-out canonical article does not hide the story
+      conditions.push(sql`NOT EXISTS (
+        SELECT 1 FROM ${schema.articles} AS ${sql.identifier("cluster_member")}
+        WHERE ${and(
+          eq(member.clusterId, schema.articles.clusterId),
+          ...feedFilters(member),
+          sql`(${member.publishedAt}, ${member.id}) < (${schema.articles.publishedAt}, ${schema.articles.id})`,
+        )}
+      )`);
+    }
+    if (query.cursor) {
+      // Row comparison keeps the seek on the (team_id, published_at, id) index
+      conditions.push(sql`(${schema.articles.publishedAt}, ${schema.articles.id}) < (${query.cursor.publishedAt}, ${query.cursor.id})`);
+    }
+
+    return await execWithMetrics("select_feed", "articles", async () => {
+      return await db!
+        .select()
+        .from(schema.articles)
+        .where(and(...conditions))
+        .orderBy(desc(schema.articles.publishedAt), desc(schema.articles.id))
+        .limit(query.limit);
+    }, { teams: query.teamIds?.length ?? 0, category: query.category, limit: query.limit });
+  }
+
   async updateArticle(id: string, article: Partial<Article>): Promise<Article | undefined> {
     const rows = await execWithMetrics("update", "articles", async () => {
       return await db!
@@ -821,6 +1142,129 @@ export class PgStorage implements IStorage {
     return rows[0];
   }
 
+  async incrementBM25IndexVersion(teamId: string): Promise<number> {
+    // Single upsert so concurrent writers each observe a distinct version
+    const rows = await execWithMetrics("increment_version", "bm25_indexes", async () => {
+      return await db!
+        .insert(schema.bm25Indexes)
+        .values({ teamId, version: 1 })
+        .onConflictDoUpdate({
+          target: schema.bm25Indexes.teamId,
+          set: { version: sql`${schema.bm25Indexes.version} + 1`, updatedAt: new Date() },
+        })
+        .returning({ version: schema.bm25Indexes.version });
+    }, { teamId });
+    return rows[0].version;
+  }
+
+  async acquireBM25RebuildLock(teamId: string, owner: string, staleBefore: Date): Promise<boolean> {
+    await db!.insert(schema.bm25Indexes).values({ teamId }).onConflictDoNothing({ target: schema.bm25Indexes.teamId });
+    const rows = await execWithMetrics("acquire_lock", "bm25_indexes", async () => {
+      return await db!
+        .update(schema.bm25Indexes)
+        .set({ rebuildInProgress: true, rebuildOwner: owner, rebuildStartedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(schema.bm25Indexes.teamId, teamId),
+          or(
+            eq(schema.bm25Indexes.rebuildInProgress, false),
+            eq(schema.bm25Indexes.rebuildOwner, owner),
+            lt(schema.bm25Indexes.rebuildStartedAt, staleBefore),
+            sql`${schema.bm25Indexes.rebuildStartedAt} IS NULL`,
+          ),
+        ))
+        .returning({ id: schema.bm25Indexes.id });
+    }, { teamId });
+    return rows.length > 0;
+  }
+
+  async releaseBM25RebuildLock(teamId: string, owner: string, stats: Partial<BM25Index> = {}): Promise<void> {
+    await execWithMetrics("release_lock", "bm25_indexes", async () => {
+      return await db!
+        .update(schema.bm25Indexes)
+        .set({ ...stats, rebuildInProgress: false, rebuildOwner: null, rebuildStartedAt: null, updatedAt: new Date() })
+        .where(and(eq(schema.bm25Indexes.teamId, teamId), eq(schema.bm25Indexes.rebuildOwner, owner)));
+    }, { teamId });
+  }
+
+  async getBM25IndexDocuments(teamId: string): Promise<BM25IndexDocument[]> {
+    return await execWithMetrics("select_team", "bm25_index_documents", async () => {
+      return await db!
+        .select()
+        .from(schema.bm25IndexDocuments)
+        .where(eq(schema.bm25IndexDocuments.teamId, teamId));
+    }, { teamId });
+  }
+
+  async getBM25IndexDocumentsSince(teamId: string, since: Date): Promise<BM25IndexDocument[]> {
+    return await execWithMetrics("select_team_since", "bm25_index_documents", async () => {
+      return await db!
+        .select()
+        .from(schema.bm25IndexDocuments)
+        .where(and(
+          eq(schema.bm25IndexDocuments.teamId, teamId),
+          gte(schema.bm25IndexDocuments.updatedAt, since),
+        ));
+    }, { teamId });
+  }
+
+  async getBM25IndexDocumentIds(teamId: string): Promise<string[]> {
+    return await execWithMetrics("select_team_ids", "bm25_index_documents", async () => {
+      const rows = await db!
+        .select({ documentId: schema.bm25IndexDocuments.documentId })
+        .from(schema.bm25IndexDocuments)
+        .where(eq(schema.bm25IndexDocuments.teamId, teamId));
+      return rows.map((row) => row.documentId);
+    }, { teamId });
+  }
+
+  async upsertBM25IndexDocument(doc: InsertBM25IndexDocument): Promise<void> {
+    await execWithMetrics("upsert", "bm25_index_documents", async () => {
+      return await db!
+        .insert(schema.bm25IndexDocuments)
+        .values(doc)
+        .onConflictDoUpdate({
+          target: [schema.bm25IndexDocuments.teamId, schema.bm25IndexDocuments.documentId],
+          set: {
+            docLength: doc.docLength,
+            termFrequencies: doc.termFrequencies,
+            metadata: doc.metadata ?? null,
+            updatedAt: new Date(),
+          },
+        });
+    }, { teamId: doc.teamId });
+  }
+
+  async deleteBM25IndexDocument(teamId: string, documentId: string): Promise<void> {
+    await execWithMetrics("delete", "bm25_index_documents", async () => {
+      return await db!
+        .delete(schema.bm25IndexDocuments)
+        .where(and(
+          eq(schema.bm25IndexDocuments.teamId, teamId),
+          eq(schema.bm25IndexDocuments.documentId, documentId),
+        ));
+    }, { teamId });
+  }
+
+  async replaceBM25IndexDocuments(teamId: string, docs: InsertBM25IndexDocument[], unchangedSince: Date): Promise<void> {
+    await execWithMetrics("replace_team", "bm25_index_documents", async () => {
+      return await db!.transaction(async (tx) => {
+        // Rows written after the rebuild started are newer than the rebuild's view; keep them
+        await tx
+          .delete(schema.bm25IndexDocuments)
+          .where(and(
+            eq(schema.bm25IndexDocuments.teamId, teamId),
+            lt(schema.bm25IndexDocuments.updatedAt, unchangedSince),
+          ));
+        for (let i = 0; i < docs.length; i += 500) {
+          await tx
+            .insert(schema.bm25IndexDocuments)
+            .values(docs.slice(i, i + 500))
+            .onConflictDoNothing({ target: [schema.bm25IndexDocuments.teamId, schema.bm25IndexDocuments.documentId] });
+        }
+      });
+    }, { teamId, docs: docs.length });
+  }
+
   // News Sources
   async createNewsSource(source: InsertNewsSource): Promise<NewsSource> {
     const rows = await execWithMetrics("insert", "news_sources", async () => {
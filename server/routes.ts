@@ -10,19 +10,25 @@ import { db } from "./db";
 import { teams } from "../shared/schema";
 import { createRedis, connectRedis, closeRedis } from "./jobs/redis";
 import * as queuesMod from "./jobs/queues";
-import { getWsStats } from "./ws";
+import { parseSearchDate, searchArticles } from "./utils/bm25/articleSearch";
+import { encodeArticleCursor } from "./utils/articleCursor";
+import { storyClusterer } from "./utils/deduplication";
+import { enqueueSummaryJob, getSummaryJobStatus } from "./jobs/summaryJobs";
+import { getWsStats, openEventStream, handleEventStreamMessage } from "./ws";
 import { withSource } from "./logger";
 import { performance } from "perf_hooks";
 import { insertUserProfileSchema } from "../shared/schema";
 import { insertUpdateSchema, insertExperienceSchema, insertRsvpSchema, insertTeamSchema, insertGameSchema, insertUserSchema } from "../shared/schema";
+import type { TeamRankingRecord } from "../shared/schema";
 import { authenticateFirebase } from "./middleware/authenticateFirebase";
 import { loadUserContext } from "./middleware/loadUserContext";
 import { validateTeamAccess } from "./middleware/teamAccessGuard";
-import { validateScoresQuery, validateScheduleQuery, validateBoxScoreParams, validateUserTeamScoresQuery } from "./middleware/validateRequest";
+import { validateScoresQuery, validateScheduleQuery, validateBoxScoreParams, validateUserTeamScoresQuery, validateArticleSearchQuery, validateArticlesFeedQuery } from "./middleware/validateRequest";
 import { config } from "./config";
 import { metrics } from "./metrics";
 import { ScoresAgent } from "./agents/scoresAgent";
 import { SportAdapterFactory } from "./agents/adapters";
+import { TeamMapper } from "./utils/scraping/teamMapper";
 import { 
   UserTeamScoresError,
   NoFavoriteTeamError,
@@ -101,9 +107,18 @@ function handleApiError(
   return res.status(500).json(errorResponse);
 }
 
+// Stored box scores of in-progress games are refetched after this long
+const BOX_SCORE_LIVE_TTL_MS = 30_000;
+// Games the source has a box score for; scheduled, delayed, postponed and cancelled ones may never have started
+const BOX_SCORE_STATUSES = new Set(["in_progress", "suspended", "final"]);
+// Polls are published weekly; stored copies are refetched after this long
+const RANKINGS_TTL_MS = 60 * 60 * 1000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Concurrency guard to prevent overlapping refreshes per sport
   const refreshInFlight = new Set<string>();
+  // One upstream rankings sync per league:poll; concurrent requests share it
+  const rankingsSyncs = new Map<string, Promise<TeamRankingRecord[]>>();
   // Basic rate limits for auth endpoints with custom error handling
   const authLimiter = rateLimit({ 
     windowMs: 60 * 1000, 
@@ -338,6 +353,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Server-Sent Events fallback for clients that can't upgrade to /ws (same messages, same ?token= auth)
+  app.get("/api/stream", async (req, res) => {
+    try {
+      await openEventStream(req, res);
+    } catch (error) {
+      if (res.headersSent) return res.end();
+      return handleApiError(
+        error as Error,
+        res,
+        'open-event-stream',
+        { endpoint: '/api/stream' }
+      );
+    }
+  });
+
+  // Subscription changes for an event stream: the client messages /ws would take over the socket
+  app.post("/api/stream/:connectionId/messages", authenticateFirebase, async (req, res) => {
+    try {
+      const authUid = (req.user as any)?.uid;
+      if (!authUid) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      const result = await handleEventStreamMessage(req.params.connectionId, String(authUid), req.body);
+      if (result === 'not_found') {
+        return res.status(404).json({ error: "Event stream not found" });
+      }
+      if (result === 'invalid') {
+        return res.status(400).json({ error: "Invalid message format" });
+      }
+      if (result === 'rate_limited') {
+        return res.status(429).json({ error: "Rate limit exceeded" });
+      }
+      return res.status(202).json({ accepted: true });
+    } catch (error) {
+      return handleApiError(
+        error as Error,
+        res,
+        'event-stream-message',
+        { endpoint: '/api/stream/:connectionId/messages' }
+      );
+    }
+  });
+
   // Error monitoring endpoints
   app.get("/api/monitoring/errors", async (_req, res) => {
     try {
@@ -486,6 +544,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recent disagreements between score sources (ESPN, CBS, NHL.com)
+  app.get("/api/monitoring/score-discrepancies", async (req, res) => {
+    try {
+      const limit = Math.min(200, Number(req.query.limit) || 50);
+      const gameId = typeof req.query.gameId === "string" && req.query.gameId ? req.query.gameId : undefined;
+      const rows = await storage.getScoreDiscrepancies({ gameId, limit });
+      const discrepancies = rows.map((d) => ({ ...d, readings: JSON.parse(d.readings) }));
+      return res.json({ discrepancies, total: discrepancies.length });
+    } catch (error) {
+      return handleApiError(
+        error as Error,
+        res,
+        'get-score-discrepancies',
+        { endpoint: '/api/monitoring/score-discrepancies' }
+      );
+    }
+  });
+
   // Session smoke test: increments a counter stored in the session
   app.get("/api/session-ping", async (req, res) => {
     const s: any = req.session as any;
@@ -938,7 +1014,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
     try {
       const { teamId } = req.params;
-      const { model, force } = req.body ?? {};
+      const { force, windowDays, maxArticles } = req.body ?? {};
       
       if (!teamId) {
         throw new ValidationError('Team ID is required', { teamId });
@@ -949,14 +1025,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!userTeams.includes(String(teamId))) {
         return res.status(403).json({ error: 'Access denied', teamId });
       }
-      
-      // Stub generation: create a placeholder summary entry
-      const created = await storage.createSummary({
-        teamId,
-        content: `Summary generation ${force ? "(force) " : ""}queued for team ${teamId}.`,
-        model: typeof model === "string" ? model : undefined,
-      });
-      return res.status(202).json(created);
+
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        throw new ValidationError('Unknown team', { teamId });
+      }
+
+      const job = await enqueueSummaryJob(
+        {
+          teamId,
+          windowDays: Number.isInteger(windowDays) && windowDays > 0 && windowDays <= 30 ? windowDays : undefined,
+          maxArticles: Number.isInteger(maxArticles) && maxArticles > 0 && maxArticles <= 12 ? maxArticles : undefined,
+        },
+        { force: force === true },
+      );
+      return res.status(202).json({ ...job, statusUrl: `/api/summary/jobs/${job.jobId}` });
     } catch (error) {
       return handleApiError(
         error as Error,
@@ -964,7 +1047,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'generate-summary',
         {
           teamId: req.params.teamId,
-          model: req.body?.model,
           force: req.body?.force,
           userAgent: req.get('User-Agent'),
           clientIP: req.ip
@@ -974,6 +1056,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
   );
 
+  app.get(
+    "/api/summary/jobs/:jobId",
+    authenticateFirebase,
+    loadUserContext,
+    async (req, res) => {
+    try {
+      const job = await getSummaryJobStatus(req.params.jobId);
+      if (!job) return res.status(404).json({ error: "Not found" });
+
+      const userTeams = Array.isArray(req.userContext?.teamIds) ? req.userContext!.teamIds : [];
+      if (!userTeams.includes(job.teamId)) {
+        return res.status(403).json({ error: 'Access denied', teamId: job.teamId });
+      }
+
+      const summary = job.summaryId ? await storage.getSummaryById(job.summaryId) : undefined;
+      return res.json({ ...job, summary: summary ?? null });
+    } catch (error) {
+      return handleApiError(
+        error as Error,
+        res,
+        'get-summary-job',
+        {
+          jobId: req.params.jobId,
+          userAgent: req.get('User-Agent'),
+          clientIP: req.ip
+        }
+      );
+    }
+  }
+  );
+
   // --- Phase 3: Experiences & RSVPs ---
   app.get("/api/experiences", authenticateFirebase, async (req, res) => {
     try {
@@ -1151,6 +1264,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Articles feed - newest first, keyset-paginated on (publishedAt, id)
+  app.get(
+    "/api/articles",
+    apiGetLimiter,
+    authenticateFirebase,
+    validateArticlesFeedQuery,
+    loadUserContext,
+    validateTeamAccess,
+    async (req, res) => {
+    try {
+      const query = req.validated?.query ?? {};
+      const limit = query.limit ?? 10;
+      const teamIds = req.access?.authorizedTeamIds ?? [];
+      // Like search, the feed is scoped to the caller's teams; no teams means no articles
+      if (teamIds.length === 0) {
+        return res.json({ items: [], nextCursor: null, limit });
+      }
+      // Fetch one extra row to learn whether another page exists
+      const rows = await storage.getArticlesFeed({
+        teamIds,
+        category: query.category,
+        minRelevance: query.minRelevance,
+        cursor: query.cursor,
+        limit: limit + 1,
+        // One card per story; other outlets are listed under `story`
+        collapseClusters: true,
+      });
+      const page = rows.slice(0, limit);
+      const nextCursor = rows.length > limit ? encodeArticleCursor(page[page.length - 1]) : null;
+      const threads = await storyClusterer.getThreads(page.map((a) => a.clusterId));
+      // Indexing internals are not part of the API
+      const items = page.map(({ termFrequencies, minHash, contentHash, ...article }) => ({
+        ...article,
+        story: (article.clusterId && threads.get(article.clusterId)) || null,
+      }));
+      return res.json({ items, nextCursor, limit });
+    } catch (error) {
+      return handleApiError(
+        error as Error,
+        res,
+        'articles-feed',
+        {
+          category: req.query?.category,
+          userAgent: req.get('User-Agent'),
+          clientIP: req.ip
+        }
+      );
+    }
+    },
+  );
+
+  // Article search - BM25 full-text search scoped to the caller's teams
+  app.get(
+    "/api/articles/search",
+    apiGetLimiter,
+    authenticateFirebase,
+    validateArticleSearchQuery,
+    loadUserContext,
+    validateTeamAccess,
+    async (req, res) => {
+    try {
+      const query = req.validated?.query ?? {};
+      const result = await searchArticles({
+        query: String(query.q ?? ""),
+        teamIds: req.access?.authorizedTeamIds ?? [],
+        category: query.category,
+        startDate: query.startDate ? parseSearchDate(query.startDate, 'start') : undefined,
+        endDate: query.endDate ? parseSearchDate(query.endDate, 'end') : undefined,
+        page: query.page,
+        pageSize: query.pageSize,
+      });
+      return res.json(result);
+    } catch (error) {
+      return handleApiError(
+        error as Error,
+        res,
+        'search-articles',
+        {
+          q: req.query?.q,
+          userAgent: req.get('User-Agent'),
+          clientIP: req.ip
+        }
+      );
+    }
+    },
+  );
+
   // User Team Scores endpoint - returns scores for user's favorite teams
   app.get(
     "/api/user-team-scores",
@@ -1363,11 +1563,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
       }
+
+      // Serve the stored box score; fetch it on first view and keep live games fresh
+      const agent = new ScoresAgent(SportAdapterFactory.getAdapter(String(game.homeTeamId).split('_')[0]));
+      let boxScore = await agent.getBoxScore(game.id);
+      const stale = !boxScore || (game.status === 'in_progress' && Date.now() - boxScore.updatedAt.getTime() > BOX_SCORE_LIVE_TTL_MS);
+      if (BOX_SCORE_STATUSES.has(game.status) && stale) {
+        try {
+          boxScore = await agent.syncBoxScore(game.id);
+        } catch (err) {
+          withSource('box-score').warn({ err, gameId: game.id }, 'box score refresh failed; serving stored copy');
+        }
+      }
+
       {
         const durationMs = performance.now() - t0;
         try { metrics.observeApiRequest('/api/scores/:gameId', 'GET', 200, durationMs); } catch {}
       }
-      return res.json(game);
+      return res.json({ ...game, boxScore: boxScore ?? null });
     } catch (error) {
       {
         const durationMs = performance.now() - t0;
@@ -1393,6 +1606,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // College poll rankings: AP (default) or coaches, synced from the source when stale
+  app.get("/api/rankings/:league", userScoresLimiter, async (req, res) => {
+    const t0 = performance.now();
+    try {
+      const league = String(req.params.league).toUpperCase();
+      const poll = String(req.query.poll ?? "ap").toLowerCase();
+      if (league !== "NCAAF" && league !== "NCAAB") {
+        throw new ValidationError('Rankings are available for NCAAF and NCAAB only', { league });
+      }
+      if (poll !== "ap" && poll !== "coaches") {
+        throw new ValidationError('poll must be "ap" or "coaches"', { poll });
+      }
+
+      let rankings = await storage.getTeamRankings(league, poll);
+      const stale = rankings.length === 0 || Date.now() - rankings[0].fetchedAt.getTime() > RANKINGS_TTL_MS;
+      if (stale) {
+        const key = `${league}:${poll}`;
+        let sync = rankingsSyncs.get(key);
+        if (!sync) {
+          sync = new ScoresAgent(SportAdapterFactory.getAdapter(league))
+            .syncRankings(league, poll)
+            .finally(() => rankingsSyncs.delete(key));
+          rankingsSyncs.set(key, sync);
+        }
+        try {
+          rankings = await sync;
+        } catch (err) {
+          withSource('rankings').warn({ err, league, poll }, 'rankings refresh failed; serving stored copy');
+        }
+      }
+
+      {
+        const durationMs = performance.now() - t0;
+        try { metrics.observeApiRequest('/api/rankings/:league', 'GET', 200, durationMs); } catch {}
+      }
+      return res.json({
+        league,
+        poll,
+        season: rankings[0]?.season ?? null,
+        week: rankings[0]?.week ?? null,
+        updatedAt: rankings[0]?.fetchedAt ?? null,
+        teams: rankings.map((r) => ({
+          teamId: r.teamId,
+          teamName: r.teamName,
+          rank: r.rank,
+          previousRank: r.previousRank,
+          record: r.record,
+          points: r.points,
+          firstPlaceVotes: r.firstPlaceVotes,
+          conference: TeamMapper.getConference(r.teamId) ?? null,
+        })),
+      });
+    } catch (error) {
+      {
+        const durationMs = performance.now() - t0;
+        const status = error instanceof ValidationError ? 400 : 500;
+        try { metrics.observeApiRequest('/api/rankings/:league', 'GET', status, durationMs); } catch {}
+      }
+      return handleApiError(
+        error as Error,
+        res,
+        'get-rankings',
+        { endpoint: '/api/rankings/:league', league: req.params.league }
+      );
+    }
+  });
+
   // Manual refresh endpoint for scores
   app.post(
     "/api/scores/refresh",
@@ -1437,6 +1717,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           homeScore: typeof g.homePts === "number" ? g.homePts : 0,
           awayScore: typeof g.awayPts === "number" ? g.awayPts : 0,
           status: g.status,
+          statusDetail: g.statusDetail ?? undefined,
+          statusReason: g.statusReason ?? undefined,
           quarter: g.period ? String(g.period) : undefined,
           timeRemaining: g.timeRemaining ?? undefined,
           lastUpdated: new Date().toISOString(),
@@ -3,6 +3,7 @@ import * as schema from "../shared/schema";
 import { withSource } from "./logger";
 import { eq } from "drizzle-orm";
 import { seedArticles } from "./seeds/articles";
+import { TeamMapper } from "./utils/scraping/teamMapper";
 
 const log = withSource("seed");
 
@@ -24,6 +25,14 @@ async function main() {
       ])
       .onConflictDoNothing();
 
+    // College programs come from the team data files; games reference them by ID
+    const collegeTeams = ["NCAAF", "NCAAB"].flatMap((league) => TeamMapper.getLeagueTeams(league));
+    log.info({ count: collegeTeams.length }, "seeding college teams");
+    await db
+      .insert(schema.teams)
+      .values(collegeTeams.map((t) => ({ id: t.id, league: t.league, code: t.code, name: t.name })))
+      .onConflictDoNothing();
+
     log.info("seeding user");
     let [user] = await db
       .insert(schema.users)
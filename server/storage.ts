@@ -11,6 +11,18 @@ import {
   type InsertSummary,
   type Game,
   type InsertGame,
+  type BoxScoreRecord,
+  type InsertBoxScore,
+  type BoxScorePlayerStat,
+  type InsertBoxScorePlayerStat,
+  type GamePlayRecord,
+  type InsertGamePlay,
+  type ScoreDiscrepancy,
+  type InsertScoreDiscrepancy,
+  type TeamRankingRecord,
+  type InsertTeamRanking,
+  type GameAlias,
+  type InsertGameAlias,
   type Update,
   type InsertUpdate,
   type Experience,
@@ -21,8 +33,13 @@ import {
   type InsertUserProfile,
   type Article,
   type InsertArticle,
+  type ArticleFeedQuery,
+  type StoryCluster,
+  type InsertStoryCluster,
   type BM25Index,
   type InsertBM25Index,
+  type BM25IndexDocument,
+  type InsertBM25IndexDocument,
   type NewsSource,
   type InsertNewsSource,
   type ArticleClassification,
@@ -61,6 +78,7 @@ export interface IStorage {
 
   // Summaries
   createSummary(summary: InsertSummary): Promise<Summary>;
+  getSummaryById(id: string): Promise<Summary | undefined>;
   getSummaryByTeamId(teamId: string): Promise<Summary | undefined>;
   getLatestSummaryByTeamId(teamId: string): Promise<Summary | undefined>;
 
@@ -69,10 +87,43 @@ export interface IStorage {
   getGame(id: string): Promise<Game | undefined>;
   getGamesByTeamId(teamId: string, limit?: number, startDate?: Date, endDate?: Date): Promise<Game[]>;
   getGamesByTeamIds(teamIds: string[], limit?: number, startDate?: Date, endDate?: Date): Promise<Game[]>;
+  /** Games of any team scheduled to start within [startDate, endDate], earliest first */
+  getGamesStartingBetween(startDate: Date, endDate: Date): Promise<Game[]>;
   getLatestTeamScore(teamId: string): Promise<GameScoreData | undefined>;
   hasScoreChanged(gameId: string, homePts: number, awayPts: number): Promise<boolean>;
   deleteOldGames(olderThan: Date): Promise<void>;
 
+  // Box Scores
+  /** Upsert a game's box score and replace its player stat lines */
+  saveBoxScore(boxScore: InsertBoxScore, players: InsertBoxScorePlayerStat[]): Promise<BoxScoreRecord>;
+  getBoxScore(gameId: string): Promise<BoxScoreRecord | undefined>;
+  getBoxScorePlayerStats(gameId: string): Promise<BoxScorePlayerStat[]>;
+
+  // Game Plays
+  /** Insert plays, ignoring sequences already stored; returns only the newly inserted rows */
+  insertGamePlays(plays: InsertGamePlay[]): Promise<GamePlayRecord[]>;
+  getGamePlays(gameId: string, sinceSequence?: number, limit?: number): Promise<GamePlayRecord[]>;
+  getLatestGamePlaySequence(gameId: string): Promise<number>;
+
+  // Score Discrepancies
+  createScoreDiscrepancies(discrepancies: InsertScoreDiscrepancy[]): Promise<ScoreDiscrepancy[]>;
+  /** Most recent first */
+  getScoreDiscrepancies(options?: { gameId?: string; since?: Date; limit?: number }): Promise<ScoreDiscrepancy[]>;
+
+  // Team Rankings
+  /** Replace a league's poll with a freshly fetched one */
+  replaceTeamRankings(league: string, poll: string, rankings: InsertTeamRanking[]): Promise<TeamRankingRecord[]>;
+  /** Ordered by rank */
+  getTeamRankings(league: string, poll: string): Promise<TeamRankingRecord[]>;
+
+  // Game Aliases
+  /** Record a source's id for a canonical game; an existing alias for the same source id is returned unchanged */
+  createGameAlias(alias: InsertGameAlias): Promise<GameAlias>;
+  getGameAlias(source: string, sourceGameId: string): Promise<GameAlias | undefined>;
+  /** Every alias recorded for games with this league / date / team-pair key */
+  getGameAliasesByKey(gameKey: string): Promise<GameAlias[]>;
+  getGameAliases(gameId: string): Promise<GameAlias[]>;
+
   // Updates
   createUpdate(update: InsertUpdate): Promise<Update>;
   getUpdate(id: string): Promise<Update | undefined>;
@@ -109,10 +160,24 @@ export interface IStorage {
   // Articles
   createArticle(article: InsertArticle): Promise<Article>;
   getArticle(id: string): Promise<Article | undefined>;
+  getArticlesByIds(ids: string[]): Promise<Article[]>;
   getArticlesByTeam(teamId: string, limit?: number): Promise<Article[]>;
   getArticlesByTeamAndCategory(teamId: string, category: string, limit?: number): Promise<Article[]>;
   getArticleBySourceUrl(sourceUrl: string): Promise<Article | undefined>;
   getRecentArticles(teamId: string, days: number): Promise<Article[]>;
+  /**
+   * Recent articles sharing at least one LSH band bucket, plus recent
+   * articles with a MinHash signature but no buckets yet
+   */
+  getArticleLshCandidates(teamId: string, bandKeys: string[], since: Date): Promise<Article[]>;
+  getArticlesFeed(query: ArticleFeedQuery): Promise<Article[]>;
+  getArticlesByClusterIds(clusterIds: string[]): Promise<Article[]>;
+
+  // Story Clusters
+  createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster>;
+  getStoryCluster(id: string): Promise<StoryCluster | undefined>;
+  getStoryClustersByIds(ids: string[]): Promise<StoryCluster[]>;
+  updateStoryCluster(id: string, cluster: Partial<StoryCluster>): Promise<StoryCluster | undefined>;
   updateArticle(id: string, article: Partial<Article>): Promise<Article | undefined>;
   deleteArticle(id: string): Promise<void>;
   getUnprocessedArticles(limit?: number): Promise<Article[]>;
@@ -121,6 +186,15 @@ export interface IStorage {
   getBM25IndexByTeam(teamId: string): Promise<BM25Index | undefined>;
   createBM25Index(index: InsertBM25Index): Promise<BM25Index>;
   updateBM25IndexStats(teamId: string, stats: Partial<BM25Index>): Promise<BM25Index | undefined>;
+  incrementBM25IndexVersion(teamId: string): Promise<number>;
+  acquireBM25RebuildLock(teamId: string, owner: string, staleBefore: Date): Promise<boolean>;
+  releaseBM25RebuildLock(teamId: string, owner: string, stats?: Partial<BM25Index>): Promise<void>;
+  getBM25IndexDocuments(teamId: string): Promise<BM25IndexDocument[]>;
+  getBM25IndexDocumentsSince(teamId: string, since: Date): Promise<BM25IndexDocument[]>;
+  getBM25IndexDocumentIds(teamId: string): Promise<string[]>;
+  upsertBM25IndexDocument(doc: InsertBM25IndexDocument): Promise<void>;
+  deleteBM25IndexDocument(teamId: string, documentId: string): Promise<void>;
+  replaceBM25IndexDocuments(teamId: string, docs: InsertBM25IndexDocument[], unchangedSince: Date): Promise<void>;
 
   // News Sources
   createNewsSource(source: InsertNewsSource): Promise<NewsSource>;
@@ -150,8 +224,22 @@ export class MemStorage implements IStorage {
   private userProfiles: Map<string, UserProfile>;
   private articles: Map<string, Article>;
   private bm25Indexes: Map<string, BM25Index>;
+  private bm25IndexDocuments: Map<string, BM25IndexDocument>; // `${teamId}:${documentId}` -> row
   private newsSources: Map<string, NewsSource>;
   private articleClassifications: Map<string, ArticleClassification>;
+  private storyClusters: Map<string, StoryCluster>;
+  private boxScores: Map<string, BoxScoreRecord>;
+  private boxScorePlayerStats: Map<string, BoxScorePlayerStat[]>;
+  // gameId -> sequence -> play
+  private gamePlays: Map<string, Map<number, GamePlayRecord>>;
+  private scoreDiscrepancies: ScoreDiscrepancy[];
+  // "<league>|<poll>" -> ranked teams
+  private teamRankings: Map<string, TeamRankingRecord[]>;
+  // "<source>|<sourceGameId>" -> alias
+  private gameAliases: Map<string, GameAlias>;
+  // "<teamId>|<bandKey>" -> article ids, mirroring the GIN index on lsh_bands
+  private lshBuckets: Map<string, Set<string>>;
+  private unbucketedArticleIds: Set<string>;
 
   constructor() {
     this.users = new Map();
@@ -166,8 +254,18 @@ export class MemStorage implements IStorage {
     this.userProfiles = new Map();
     this.articles = new Map();
     this.bm25Indexes = new Map();
+    this.bm25IndexDocuments = new Map();
     this.newsSources = new Map();
     this.articleClassifications = new Map();
+    this.storyClusters = new Map();
+    this.boxScores = new Map();
+    this.boxScorePlayerStats = new Map();
+    this.gamePlays = new Map();
+    this.scoreDiscrepancies = [];
+    this.teamRankings = new Map();
+    this.gameAliases = new Map();
+    this.lshBuckets = new Map();
+    this.unbucketedArticleIds = new Set();
   }
 
   // Users
@@ -282,12 +380,17 @@ export class MemStorage implements IStorage {
       id,
       ...insertSummary,
       model: insertSummary.model ?? null,
+      sourceArticleIds: insertSummary.sourceArticleIds ?? null,
       generatedAt: new Date(),
     };
     this.summaries.set(id, summary);
     return summary;
   }
 
+  async getSummaryById(id: string): Promise<Summary | undefined> {
+    return this.summaries.get(id);
+  }
+
   async getSummaryByTeamId(teamId: string): Promise<Summary | undefined> {
     return Array.from(this.summaries.values()).find(
       (s) => s.teamId === teamId,
@@ -307,6 +410,8 @@ export class MemStorage implements IStorage {
       ...game,
       period: game.period ?? null,
       timeRemaining: game.timeRemaining ?? null,
+      statusDetail: game.statusDetail ?? null,
+      statusReason: game.statusReason ?? null,
       cachedAt: new Date(),
     };
     this.games.set(game.id, gameWithCache);
@@ -341,6 +446,12 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getGamesStartingBetween(startDate: Date, endDate: Date): Promise<Game[]> {
+    return Array.from(this.games.values())
+      .filter((g) => g.startTime >= startDate && g.startTime <= endDate)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
   async deleteOldGames(olderThan: Date): Promise<void> {
     for (const [id, game] of Array.from(this.games.entries())) {
       if (game.cachedAt < olderThan) {
@@ -349,6 +460,159 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Box Scores
+  async saveBoxScore(boxScore: InsertBoxScore, players: InsertBoxScorePlayerStat[]): Promise<BoxScoreRecord> {
+    const record: BoxScoreRecord = {
+      ...boxScore,
+      homeTeamId: boxScore.homeTeamId ?? null,
+      awayTeamId: boxScore.awayTeamId ?? null,
+      homeStats: boxScore.homeStats ?? null,
+      awayStats: boxScore.awayStats ?? null,
+      source: boxScore.source ?? null,
+      updatedAt: boxScore.updatedAt ?? new Date(),
+    };
+    this.boxScores.set(record.gameId, record);
+    this.boxScorePlayerStats.set(
+      record.gameId,
+      players.map((p) => ({
+        id: randomUUID(),
+        ...p,
+        teamId: p.teamId ?? null,
+        position: p.position ?? null,
+        starter: p.starter ?? false,
+      }))
+    );
+    return record;
+  }
+
+  async getBoxScore(gameId: string): Promise<BoxScoreRecord | undefined> {
+    return this.boxScores.get(gameId);
+  }
+
+  async getBoxScorePlayerStats(gameId: string): Promise<BoxScorePlayerStat[]> {
+    return this.boxScorePlayerStats.get(gameId) ?? [];
+  }
+
+  // Game Plays
+  async insertGamePlays(plays: InsertGamePlay[]): Promise<GamePlayRecord[]> {
+    const inserted: GamePlayRecord[] = [];
+    for (const play of plays) {
+      let byGame = this.gamePlays.get(play.gameId);
+      if (!byGame) {
+        byGame = new Map();
+        this.gamePlays.set(play.gameId, byGame);
+      }
+      if (byGame.has(play.sequence)) continue;
+
+      const record: GamePlayRecord = {
+        id: randomUUID(),
+        ...play,
+        period: play.period ?? null,
+        clock: play.clock ?? null,
+        teamId: play.teamId ?? null,
+        playType: play.playType ?? null,
+        scoringPlay: play.scoringPlay ?? false,
+        scoreValue: play.scoreValue ?? null,
+        homePts: play.homePts ?? null,
+        awayPts: play.awayPts ?? null,
+        occurredAt: play.occurredAt ?? null,
+        source: play.source ?? null,
+        createdAt: new Date(),
+      };
+      byGame.set(play.sequence, record);
+      inserted.push(record);
+    }
+    return inserted.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async getGamePlays(gameId: string, sinceSequence: number = 0, limit: number = 500): Promise<GamePlayRecord[]> {
+    return Array.from(this.gamePlays.get(gameId)?.values() ?? [])
+      .filter((p) => p.sequence > sinceSequence)
+      .sort((a, b) => a.sequence - b.sequence)
+      .slice(0, limit);
+  }
+
+  async getLatestGamePlaySequence(gameId: string): Promise<number> {
+    let latest = 0;
+    this.gamePlays.get(gameId)?.forEach((_play, sequence) => {
+      if (sequence > latest) latest = sequence;
+    });
+    return latest;
+  }
+
+  // Score Discrepancies
+  async createScoreDiscrepancies(discrepancies: InsertScoreDiscrepancy[]): Promise<ScoreDiscrepancy[]> {
+    const created = discrepancies.map((d) => ({
+      id: randomUUID(),
+      ...d,
+      resolvedSource: d.resolvedSource ?? null,
+      detectedAt: d.detectedAt ?? new Date(),
+    }));
+    this.scoreDiscrepancies.push(...created);
+    return created;
+  }
+
+  async getScoreDiscrepancies(options: { gameId?: string; since?: Date; limit?: number } = {}): Promise<ScoreDiscrepancy[]> {
+    const { gameId, since, limit = 100 } = options;
+    return this.scoreDiscrepancies
+      .filter((d) => (!gameId || d.gameId === gameId) && (!since || d.detectedAt >= since))
+      .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Team Rankings
+  async replaceTeamRankings(league: string, poll: string, rankings: InsertTeamRanking[]): Promise<TeamRankingRecord[]> {
+    const fetchedAt = new Date();
+    const created: TeamRankingRecord[] = rankings
+      .map((r) => ({
+        id: randomUUID(),
+        ...r,
+        league,
+        poll,
+        season: r.season ?? null,
+        week: r.week ?? null,
+        previousRank: r.previousRank ?? null,
+        record: r.record ?? null,
+        points: r.points ?? null,
+        firstPlaceVotes: r.firstPlaceVotes ?? null,
+        fetchedAt,
+      }))
+      .sort((a, b) => a.rank - b.rank);
+    this.teamRankings.set(`${league}|${poll}`, created);
+    return created;
+  }
+
+  async getTeamRankings(league: string, poll: string): Promise<TeamRankingRecord[]> {
+    return this.teamRankings.get(`${league}|${poll}`) ?? [];
+  }
+
+  // Game Aliases
+  async createGameAlias(alias: InsertGameAlias): Promise<GameAlias> {
+    const key = `${alias.source}|${alias.sourceGameId}`;
+    const existing = this.gameAliases.get(key);
+    if (existing) return existing;
+    const created: GameAlias = {
+      id: randomUUID(),
+      ...alias,
+      startTime: alias.startTime ?? null,
+      createdAt: new Date(),
+    };
+    this.gameAliases.set(key, created);
+    return created;
+  }
+
+  async getGameAlias(source: string, sourceGameId: string): Promise<GameAlias | undefined> {
+    return this.gameAliases.get(`${source}|${sourceGameId}`);
+  }
+
+  async getGameAliasesByKey(gameKey: string): Promise<GameAlias[]> {
+    return Array.from(this.gameAliases.values()).filter((a) => a.gameKey === gameKey);
+  }
+
+  async getGameAliases(gameId: string): Promise<GameAlias[]> {
+    return Array.from(this.gameAliases.values()).filter((a) => a.gameId === gameId);
+  }
+
   async getLatestTeamScore(teamId: string): Promise<GameScoreData | undefined> {
     try {
       // Input validation
@@ -694,18 +958,50 @@ export class MemStorage implements IStorage {
       termFrequencies: article.termFrequencies ?? null,
       contentHash: article.contentHash ?? null,
       minHash: article.minHash ?? null,
+      lshBands: article.lshBands ?? null,
       relevanceScore: article.relevanceScore ?? null,
+      clusterId: article.clusterId ?? null,
       isProcessed: article.isProcessed ?? false,
       isDeleted: article.isDeleted ?? false,
     };
     this.articles.set(id, newArticle);
+    this.indexArticleLsh(undefined, newArticle);
     return newArticle;
   }
 
+  private indexArticleLsh(previous: Article | undefined, next: Article): void {
+    if (previous?.lshBands) {
+      for (const key of previous.lshBands) {
+        this.lshBuckets.get(`${previous.teamId}|${key}`)?.delete(previous.id);
+      }
+    }
+    this.unbucketedArticleIds.delete(next.id);
+
+    if (next.lshBands) {
+      for (const key of next.lshBands) {
+        const bucketKey = `${next.teamId}|${key}`;
+        let bucket = this.lshBuckets.get(bucketKey);
+        if (!bucket) {
+          bucket = new Set();
+          this.lshBuckets.set(bucketKey, bucket);
+        }
+        bucket.add(next.id);
+      }
+    } else if (next.minHash) {
+      this.unbucketedArticleIds.add(next.id);
+    }
+  }
+
   async getArticle(id: string): Promise<Article | undefined> {
     return this.articles.get(id);
   }
 
+  async getArticlesByIds(ids: string[]): Promise<Article[]> {
+    return ids
+      .map((id) => this.articles.get(id))
+      .filter((a): a is Article => !!a);
+  }
+
   async getArticlesByTeam(teamId: string, limit: number = 50): Promise<Article[]> {
     return Array.from(this.articles.values())
       .filter((a) => a.teamId === teamId && !a.isDeleted)
@@ -737,12 +1033,73 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
   }
 
+  async getArticleLshCandidates(teamId: string, bandKeys: string[], since: Date): Promise<Article[]> {
+    const ids = new Set(this.unbucketedArticleIds);
+    for (const key of bandKeys) {
+      const bucket = this.lshBuckets.get(`${teamId}|${key}`);
+      if (bucket) bucket.forEach((id) => ids.add(id));
+    }
+
+    return Array.from(ids)
+      .map((id) => this.articles.get(id))
+      .filter((a): a is Article => !!a && a.teamId === teamId && a.publishedAt >= since && !a.isDeleted)
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  }
+
+  async getArticlesFeed(query: ArticleFeedQuery): Promise<Article[]> {
+    const teams = query.teamIds && query.teamIds.length > 0 ? new Set(query.teamIds) : null;
+    const cursor = query.cursor;
+    const matches = (a: Article) => {
+      if (a.isDeleted) return false;
+      if (teams && !teams.has(a.teamId)) return false;
+      if (query.category && a.category !== query.category) return false;
+      if (query.minRelevance != null && (a.relevanceScore ?? 0) < query.minRelevance) return false;
+      return true;
+    };
+
+    // A cluster shows its earliest member that is itself in the feed, so a
+    // deleted or filtered-out canonical article does not hide the story
+    const shownByCluster = new Map<string, Article>();
+    if (query.collapseClusters) {
+      for (const a of Array.from(this.articles.values())) {
+        if (!a.clusterId || !matches(a)) continue;
+        const shown = shownByCluster.get(a.clusterId);
+        const t = a.publishedAt.getTime();
+        if (!shown || t < shown.publishedAt.getTime() || (t === shown.publishedAt.getTime() && a.id < shown.id)) {
+          shownByCluster.set(a.clusterId, a);
+        }
+      }
+    }
+
+    return Array.from(this.articles.values())
+      .filter((a) => {
+        if (!matches(a)) return false;
+        if (query.collapseClusters && a.clusterId && shownByCluster.get(a.clusterId)?.id !== a.id) return false;
+        if (cursor) {
+          const t = a.publishedAt.getTime();
+          const c = cursor.publishedAt.getTime();
+          if (t > c || (t === c && a.id >= cursor.id)) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+      .slice(0, query.limit);
+  }
+
+  async getArticlesByClusterIds(clusterIds: string[]): Promise<Article[]> {
+    const wanted = new Set(clusterIds);
+    return Array.from(this.articles.values())
+      .filter((a) => a.clusterId && wanted.has(a.clusterId) && !a.isDeleted)
+      .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  }
+
   async updateArticle(id: string, article: Partial<Article>): Promise<Article | undefined> {
     const existing = this.articles.get(id);
     if (!existing) return undefined;
 
     const updated = { ...existing, ...article, id };
     this.articles.set(id, updated);
+    this.indexArticleLsh(existing, updated);
     return updated;
   }
 
@@ -777,6 +1134,9 @@ export class MemStorage implements IStorage {
       b: index.b ?? '0.75',
       lastRebuiltAt: index.lastRebuiltAt ?? null,
       rebuildInProgress: index.rebuildInProgress ?? false,
+      rebuildOwner: index.rebuildOwner ?? null,
+      rebuildStartedAt: index.rebuildStartedAt ?? null,
+      version: index.version ?? 0,
       avgQueryTimeMs: index.avgQueryTimeMs ?? null,
       totalQueries: index.totalQueries ?? 0,
       createdAt: new Date(),
@@ -795,6 +1155,107 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async incrementBM25IndexVersion(teamId: string): Promise<number> {
+    const existing = (await this.getBM25IndexByTeam(teamId)) ?? (await this.createBM25Index({ teamId }));
+    const updated = await this.updateBM25IndexStats(teamId, { version: existing.version + 1 });
+    return updated!.version;
+  }
+
+  async acquireBM25RebuildLock(teamId: string, owner: string, staleBefore: Date): Promise<boolean> {
+    const existing = (await this.getBM25IndexByTeam(teamId)) ?? (await this.createBM25Index({ teamId }));
+    const held =
+      existing.rebuildInProgress &&
+      existing.rebuildOwner !== owner &&
+      (existing.rebuildStartedAt?.getTime() ?? 0) >= staleBefore.getTime();
+    if (held) return false;
+    await this.updateBM25IndexStats(teamId, { rebuildInProgress: true, rebuildOwner: owner, rebuildStartedAt: new Date() });
+    return true;
+  }
+
+  async releaseBM25RebuildLock(teamId: string, owner: string, stats: Partial<BM25Index> = {}): Promise<void> {
+    const existing = await this.getBM25IndexByTeam(teamId);
+    if (!existing || existing.rebuildOwner !== owner) return;
+    await this.updateBM25IndexStats(teamId, { ...stats, rebuildInProgress: false, rebuildOwner: null, rebuildStartedAt: null });
+  }
+
+  async getBM25IndexDocuments(teamId: string): Promise<BM25IndexDocument[]> {
+    return Array.from(this.bm25IndexDocuments.values()).filter((doc) => doc.teamId === teamId);
+  }
+
+  async getBM25IndexDocumentsSince(teamId: string, since: Date): Promise<BM25IndexDocument[]> {
+    return Array.from(this.bm25IndexDocuments.values()).filter(
+      (doc) => doc.teamId === teamId && doc.updatedAt.getTime() >= since.getTime()
+    );
+  }
+
+  async getBM25IndexDocumentIds(teamId: string): Promise<string[]> {
+    return Array.from(this.bm25IndexDocuments.values())
+      .filter((doc) => doc.teamId === teamId)
+      .map((doc) => doc.documentId);
+  }
+
+  async upsertBM25IndexDocument(doc: InsertBM25IndexDocument): Promise<void> {
+    const key = `${doc.teamId}:${doc.documentId}`;
+    const existing = this.bm25IndexDocuments.get(key);
+    this.bm25IndexDocuments.set(key, {
+      id: existing?.id ?? randomUUID(),
+      ...doc,
+      metadata: doc.metadata ?? null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async deleteBM25IndexDocument(teamId: string, documentId: string): Promise<void> {
+    this.bm25IndexDocuments.delete(`${teamId}:${documentId}`);
+  }
+
+  async replaceBM25IndexDocuments(teamId: string, docs: InsertBM25IndexDocument[], unchangedSince: Date): Promise<void> {
+    // Rows written after the rebuild started are newer than the rebuild's view; keep them
+    for (const [key, row] of Array.from(this.bm25IndexDocuments.entries())) {
+      if (row.teamId === teamId && row.updatedAt.getTime() < unchangedSince.getTime()) {
+        this.bm25IndexDocuments.delete(key);
+      }
+    }
+    for (const doc of docs) {
+      if (!this.bm25IndexDocuments.has(`${teamId}:${doc.documentId}`)) {
+        await this.upsertBM25IndexDocument(doc);
+      }
+    }
+  }
+
+  // Story Clusters
+  async createStoryCluster(cluster: InsertStoryCluster): Promise<StoryCluster> {
+    const id = randomUUID();
+    const newCluster: StoryCluster = {
+      id,
+      ...cluster,
+      articleCount: cluster.articleCount ?? 1,
+      sourceCount: cluster.sourceCount ?? 1,
+      createdAt: new Date(),
+    };
+    this.storyClusters.set(id, newCluster);
+    return newCluster;
+  }
+
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    return this.storyClusters.get(id);
+  }
+
+  async getStoryClustersByIds(ids: string[]): Promise<StoryCluster[]> {
+    return ids
+      .map((id) => this.storyClusters.get(id))
+      .filter((c): c is StoryCluster => !!c);
+  }
+
+  async updateStoryCluster(id: string, cluster: Partial<StoryCluster>): Promise<StoryCluster | undefined> {
+    const existing = this.storyClusters.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...cluster };
+    this.storyClusters.set(id, updated);
+    return updated;
+  }
+
   // News Sources
   async createNewsSource(source: InsertNewsSource): Promise<NewsSource> {
     const id = randomUUID();
@@ -189,6 +189,8 @@ export const sampleGames: Game[] = [
     period: '4',
     timeRemaining: null,
     startTime: new Date('2024-01-15T20:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-15T23:30:00Z')
   },
   
@@ -203,6 +205,8 @@ export const sampleGames: Game[] = [
     period: '3',
     timeRemaining: '7:23',
     startTime: new Date('2024-01-16T22:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-16T23:45:00Z')
   },
   
@@ -217,6 +221,8 @@ export const sampleGames: Game[] = [
     period: null,
     timeRemaining: null,
     startTime: new Date('2024-01-17T20:30:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-16T12:00:00Z')
   },
   
@@ -231,6 +237,8 @@ export const sampleGames: Game[] = [
     period: '4',
     timeRemaining: null,
     startTime: new Date('2024-01-14T18:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-14T21:30:00Z')
   },
   
@@ -245,6 +253,8 @@ export const sampleGames: Game[] = [
     period: '9',
     timeRemaining: null,
     startTime: new Date('2024-01-15T19:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-15T22:15:00Z')
   },
 
@@ -259,6 +269,8 @@ export const sampleGames: Game[] = [
     period: '3',
     timeRemaining: null,
     startTime: new Date('2024-01-12T23:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-13T01:30:00Z')
   },
 
@@ -273,6 +285,8 @@ export const sampleGames: Game[] = [
     period: '2',
     timeRemaining: '12:10',
     startTime: new Date('2024-01-18T00:00:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-18T00:45:00Z')
   },
 
@@ -287,6 +301,8 @@ export const sampleGames: Game[] = [
     period: null,
     timeRemaining: null,
     startTime: new Date('2024-01-20T00:30:00Z'),
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date('2024-01-18T12:00:00Z')
   }
 ];
@@ -618,6 +634,8 @@ export const performanceTestData = {
     period: '4',
     timeRemaining: null,
     startTime: new Date(Date.now() - i * 24 * 60 * 60 * 1000), // i days ago
+    statusDetail: null,
+    statusReason: null,
     cachedAt: new Date()
   }))
 };
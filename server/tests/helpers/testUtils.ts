@@ -48,6 +48,23 @@ export function createMockArticle(overrides: any = {}): Article {
   };
 }
 
+/**
+ * Generate a minimal article insert payload for storage-level tests
+ * (empty body, unique source URL, published now unless overridden)
+ */
+export function createMockInsertArticle(overrides: Partial<InsertArticle> = {}): InsertArticle {
+  return {
+    teamId: 'NBA_LAL',
+    title: 'Untitled',
+    content: '',
+    sourceUrl: `https://news.example.com/${randomUUID()}`,
+    sourceName: 'Example',
+    sourceType: 'rss',
+    publishedAt: new Date(),
+    ...overrides,
+  };
+}
+
 /**
  * Generate a mock news source
  */
@@ -410,6 +427,7 @@ export function generateSimilarText(original: string, changePercent: number = 0.
 export const testUtils = {
   // Mock data
   createMockArticle,
+  createMockInsertArticle,
   createMockNewsSource,
   createMockClassification,
   createMockBM25Index,
@@ -144,6 +144,8 @@ export function createMockGame(overrides: Partial<Game> = {}): Game {
     period: '4',
     timeRemaining: null,
     startTime: new Date(now.getTime() - 2 * 60 * 60 * 1000), // 2 hours ago
+    statusDetail: null,
+    statusReason: null,
     cachedAt: now,
     ...overrides
   };
@@ -20,6 +20,8 @@ describe('ScoresAgent Integration (1.5.9) — NBA Live via Factory', () => {
       ...game,
       period: game.period ?? null,
       timeRemaining: game.timeRemaining ?? null,
+      statusDetail: game.statusDetail ?? null,
+      statusReason: game.statusReason ?? null,
       cachedAt: new Date(),
     }));
     // Disable Redis caching for deterministic test behavior
@@ -63,7 +65,7 @@ describe('ScoresAgent Integration (1.5.9) — NBA Live via Factory', () => {
         status: 'scheduled',
         period: undefined,
         timeRemaining: undefined,
-        startTime: later, // later startTime should be chosen for points
+        startTime: later, // a later startTime is not a freshness signal
         source: 'CBS Sports',
       },
       {
@@ -97,12 +99,11 @@ describe('ScoresAgent Integration (1.5.9) — NBA Live via Factory', () => {
     // Ensure broadcast invoked twice (once per persisted item)
     expect(broadcastSpy).toHaveBeenCalledTimes(2);
 
-    // Validate merge behavior: majority status is 'in_progress' for LAL_BOS; points come from later item
+    // Validate merge behavior: ESPN outweighs CBS on both status and points
     const merged = result.items.find((g) => g.id === 'NBA_2025_01_LAL_BOS');
     expect(merged).toBeTruthy();
-    // Current ValidationService picks majority count; tie resolves by entry order (scheduled wins)
-    expect(merged!.status).toBe('scheduled');
-    expect(merged!.homePts).toBe(69); // later startTime points selected
+    expect(merged!.status).toBe('in_progress');
+    expect(merged!.homePts).toBe(70);
     expect(merged!.awayPts).toBe(68);
     expect(merged!.homeTeamId).toBe('NBA_LAL');
     expect(merged!.awayTeamId).toBe('NBA_BOS');
@@ -120,6 +121,8 @@ describe('ScoresAgent Integration (1.5.9) — NHL Featured via Factory', () => {
       ...game,
       period: game.period ?? null,
       timeRemaining: game.timeRemaining ?? null,
+      statusDetail: game.statusDetail ?? null,
+      statusReason: game.statusReason ?? null,
       cachedAt: new Date(),
     }));
     prevRedisUrl2 = config.redisUrl as any;
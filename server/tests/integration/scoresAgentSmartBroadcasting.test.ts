@@ -70,6 +70,55 @@ describe('ScoresAgent Smart Broadcasting Integration', () => {
       expect(broadcastUserTeamUpdate).toHaveBeenCalled();
     });
 
+    it('should persist and broadcast the sub-state and reason of a postponed game', async () => {
+      const startTime = new Date();
+      await storage.createGame({
+        id: 'MLB_2025_01_NYY_BOS',
+        homeTeamId: 'MLB_NYY',
+        awayTeamId: 'MLB_BOS',
+        homePts: 0,
+        awayPts: 0,
+        status: 'scheduled',
+        startTime,
+      });
+
+      const postponed: GameScore = {
+        gameId: 'MLB_2025_01_NYY_BOS',
+        homeTeamId: 'MLB_NYY',
+        awayTeamId: 'MLB_BOS',
+        homePts: 0,
+        awayPts: 0,
+        status: 'postponed',
+        statusDetail: 'rain',
+        statusReason: 'Postponed - Rain',
+        period: null,
+        timeRemaining: null,
+        startTime,
+        source: 'test'
+      };
+
+      vi.spyOn(scoreSource, 'fetchLive').mockResolvedValue([postponed]);
+
+      await scoresAgent.runOnce({
+        sport: 'MLB',
+        mode: 'live',
+        teamIds: ['MLB_NYY', 'MLB_BOS']
+      });
+
+      expect(await storage.getGame('MLB_2025_01_NYY_BOS')).toMatchObject({
+        status: 'postponed',
+        statusDetail: 'rain',
+        statusReason: 'Postponed - Rain',
+      });
+      expect(broadcastUserTeamStatusChange).toHaveBeenCalledWith(
+        'MLB_2025_01_NYY_BOS',
+        'MLB_NYY',
+        'unknown',
+        'postponed',
+        { statusDetail: 'rain', statusReason: 'Postponed - Rain' }
+      );
+    });
+
     it('should call broadcastUserTeamStatusChange for status changes', async () => {
       // Setup existing game
       const oldGame: InsertGame = {
@@ -114,13 +163,15 @@ describe('ScoresAgent Smart Broadcasting Integration', () => {
         'NBA_2025_01_LAL_BOS',
         'NBA_LAL',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
       expect(broadcastUserTeamStatusChange).toHaveBeenCalledWith(
         'NBA_2025_01_LAL_BOS',
         'NBA_BOS',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
     });
 
@@ -170,13 +221,15 @@ describe('ScoresAgent Smart Broadcasting Integration', () => {
         'NBA_2025_01_LAL_BOS',
         'NBA_LAL',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
       expect(broadcastUserTeamStatusChange).toHaveBeenCalledWith(
         'NBA_2025_01_LAL_BOS',
         'NBA_BOS',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
     });
 
@@ -209,13 +262,15 @@ describe('ScoresAgent Smart Broadcasting Integration', () => {
         'NBA_2025_01_LAL_BOS',
         'NBA_LAL',
         'unknown',
-        'in_progress'
+        'in_progress',
+        { statusDetail: null, statusReason: null }
       );
       expect(broadcastUserTeamStatusChange).toHaveBeenCalledWith(
         'NBA_2025_01_LAL_BOS',
         'NBA_BOS',
         'unknown',
-        'in_progress'
+        'in_progress',
+        { statusDetail: null, statusReason: null }
       );
     });
 
@@ -367,13 +422,15 @@ describe('ScoresAgent Smart Broadcasting Integration', () => {
         'NBA_2025_01_GSW_MIA',
         'NBA_GSW',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
       expect(broadcastUserTeamStatusChange).toHaveBeenCalledWith(
         'NBA_2025_01_GSW_MIA',
         'NBA_MIA',
         'unknown',
-        'final'
+        'final',
+        { statusDetail: null, statusReason: null }
       );
     });
   });
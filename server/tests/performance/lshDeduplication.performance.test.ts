@@ -0,0 +1,112 @@
+/**
+ * LSH Deduplication Benchmarks
+ * Compares LSH-bucketed duplicate lookups against a full scan of the check window
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { MemStorage } from '../../storage';
+import { MinHash, type MinHashSignature } from '../../utils/deduplication/minHash';
+import { lshBandKeys } from '../../utils/deduplication/lsh';
+import { Deduplicator } from '../../utils/deduplication/deduplicator';
+import { benchmark } from '../helpers/testUtils';
+
+const ARTICLE_COUNT = 50_000;
+const TEAM_ID = 'NBA_LAL';
+
+const STORY = 'LeBron James scored 35 points as the Lakers beat the Celtics 120-118 in overtime on Tuesday night at Crypto.com Arena.';
+const RELATED = 'LeBron James scored 35 points as the Lakers beat the Celtics 120-118 in overtime Tuesday night at Crypto.com Arena.';
+
+// Deterministic filler signatures; computing 50k real signatures would dominate the setup
+function syntheticSignature(seed: number): MinHashSignature {
+  let state = seed * 2654435761 + 1;
+  const hashes = new Array(128);
+  for (let i = 0; i < 128; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    hashes[i] = state & 0x7fffffff;
+  }
+  return { hashes, shingleSize: 3, numHashes: 128 };
+}
+
+/**
+ * The pre-LSH lookup: deserialize and compare every article in the window
+ */
+async function fullScan(storage: MemStorage, minHash: MinHash, content: string, threshold: number) {
+  const signature = minHash.signature(content);
+  for (const article of await storage.getRecentArticles(TEAM_ID, 7)) {
+    if (!article.minHash) continue;
+    if (minHash.similarity(signature, MinHash.deserialize(article.minHash)) >= threshold) {
+      return article;
+    }
+  }
+  return undefined;
+}
+
+describe('Performance Benchmarks - MinHash LSH (50k articles)', () => {
+  const minHash = new MinHash();
+  let storage: MemStorage;
+  let deduplicator: Deduplicator;
+  let storyId: string;
+
+  beforeAll(async () => {
+    storage = new MemStorage();
+    deduplicator = new Deduplicator(0.85, 7, storage);
+
+    const publishedAt = new Date();
+    for (let i = 0; i < ARTICLE_COUNT; i++) {
+      const signature = syntheticSignature(i);
+      await storage.createArticle({
+        teamId: TEAM_ID,
+        title: `Filler ${i}`,
+        content: '',
+        sourceUrl: `https://news.example.com/filler-${i}`,
+        sourceName: 'Filler',
+        sourceType: 'rss',
+        publishedAt,
+        minHash: MinHash.serialize(signature),
+        lshBands: lshBandKeys(signature),
+      });
+    }
+
+    // Oldest in the window so the full scan has to walk past all the filler
+    const signature = minHash.signature(STORY);
+    const story = await storage.createArticle({
+      teamId: TEAM_ID,
+      title: 'Lakers beat Celtics in overtime',
+      content: STORY,
+      sourceUrl: 'https://news.example.com/story',
+      sourceName: 'Example',
+      sourceType: 'rss',
+      publishedAt: new Date(publishedAt.getTime() - 60_000),
+      minHash: MinHash.serialize(signature),
+      lshBands: lshBandKeys(signature),
+    });
+    storyId = story.id;
+  }, 120_000);
+
+  it('finds the same duplicate as a full scan', async () => {
+    const scanned = await fullScan(storage, minHash, RELATED, 0.85);
+    const result = await deduplicator.checkDuplicate(RELATED, TEAM_ID);
+
+    expect(scanned?.id).toBe(storyId);
+    expect(result.isDuplicate).toBe(true);
+    expect(result.similarArticleId).toBe(storyId);
+  });
+
+  it('only verifies colliding candidates', async () => {
+    const candidates = await storage.getArticleLshCandidates(
+      TEAM_ID,
+      lshBandKeys(minHash.signature(RELATED)),
+      new Date(Date.now() - 7 * 86400000)
+    );
+
+    expect(candidates.length).toBeLessThan(10);
+    expect(candidates.map((a) => a.id)).toContain(storyId);
+  });
+
+  it('should be at least 20x faster than a full scan', async () => {
+    const scan = await benchmark(() => fullScan(storage, minHash, RELATED, 0.85), 3);
+    const lsh = await benchmark(() => deduplicator.checkDuplicate(RELATED, TEAM_ID), 20);
+
+    expect(lsh.avgDuration * 20).toBeLessThan(scan.avgDuration);
+  }, 60_000);
+});
@@ -0,0 +1,111 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { CollegeAdapter, parseCollegeRankings } from '@server/agents/adapters/collegeAdapter';
+import { SportAdapterFactory } from '@server/agents/adapters/sportAdapterFactory';
+import { ScoresAgent } from '@server/agents/scoresAgent';
+import { MemStorage } from '@server/storage';
+import { TeamMapper } from '@server/utils/scraping/teamMapper';
+import adapterTestUtils from '@server/tests/helpers/adapterTestUtils';
+
+describe('CollegeAdapter.fetchLive (ESPN JSON)', () => {
+  beforeEach(() => {
+    adapterTestUtils.resetScrapingMocks();
+    adapterTestUtils.mockRobotsAllowAll();
+    adapterTestUtils.mockRateLimiterImmediate();
+  });
+
+  it('parses ranks, neutral sites, halftime and overtime finals', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/ncaaf-scoreboard.sample.json');
+    const spy = adapterTestUtils.mockEthicalFetcherSequence([json]);
+
+    const results = await new CollegeAdapter('NCAAF').fetchLive([]);
+    expect(spy).toHaveBeenCalledWith(expect.stringContaining('football/college-football/scoreboard?groups=80'));
+    results.forEach((g) => adapterTestUtils.assertGameScoreBasic(g));
+
+    const [live, halftime, overtime, scheduled] = results;
+    expect(live).toMatchObject({
+      gameId: 'NCAAF_ESPN_401752001',
+      homeTeamId: 'NCAAF_UGA',
+      awayTeamId: 'NCAAF_FLA',
+      homePts: 24,
+      awayPts: 17,
+      status: 'in_progress',
+      period: 'Q3',
+      timeRemaining: '10:12',
+      homeRank: 5,
+      neutralSite: true,
+    });
+    expect(live.awayRank).toBeUndefined();
+    expect(halftime).toMatchObject({ period: 'HALF', timeRemaining: null, homeRank: 1, awayRank: 12, neutralSite: false });
+    expect(overtime).toMatchObject({ homeTeamId: 'NCAAF_TAMU', awayTeamId: 'NCAAF_MISS', status: 'final', period: '2OT' });
+    expect(scheduled).toMatchObject({ status: 'scheduled', period: null, awayTeamId: 'NCAAF_MURR' });
+  });
+
+  it('filters by team code', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/ncaaf-scoreboard.sample.json');
+    adapterTestUtils.mockEthicalFetcherSequence([json]);
+
+    const results = await new CollegeAdapter('NCAAF').fetchLive(['PSU']);
+    expect(results.map((g) => g.gameId)).toEqual(['NCAAF_ESPN_401752002']);
+  });
+
+  it('features live games first, then the best-ranked matchups', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/ncaaf-scoreboard.sample.json');
+    adapterTestUtils.mockEthicalFetcherSequence([json]);
+
+    const featured = await new CollegeAdapter('NCAAF').fetchFeaturedGames('NCAAF', 3);
+    expect(featured.map((g) => g.gameId)).toEqual(['NCAAF_ESPN_401752002', 'NCAAF_ESPN_401752001', 'NCAAF_ESPN_401752004']);
+    expect(featured[1].neutralSite).toBe(true);
+  });
+});
+
+describe('college rankings', () => {
+  beforeEach(() => {
+    adapterTestUtils.resetScrapingMocks();
+    adapterTestUtils.mockRobotsAllowAll();
+    adapterTestUtils.mockRateLimiterImmediate();
+  });
+
+  it('parses the AP and coaches polls ordered by rank', () => {
+    const data = JSON.parse(adapterTestUtils.loadFixtureHtml('espn/ncaaf-rankings.sample.json'));
+
+    const ap = parseCollegeRankings('NCAAF', 'ap', data);
+    expect(ap).toMatchObject({ league: 'NCAAF', poll: 'ap', season: 2025, week: 10 });
+    expect(ap!.teams.map((t) => [t.rank, t.teamId])).toEqual([[1, 'NCAAF_OSU'], [2, 'NCAAF_IU'], [3, 'NCAAF_ALA'], [25, 'NCAAF_USF']]);
+    expect(ap!.teams[0]).toMatchObject({ teamName: 'Ohio State', previousRank: 2, record: '9-0', points: 1540, firstPlaceVotes: 52 });
+
+    expect(parseCollegeRankings('NCAAF', 'coaches', data)!.teams).toHaveLength(1);
+    expect(parseCollegeRankings('NCAAF', 'coaches', { rankings: [] })).toBeNull();
+  });
+
+  it('replaces the stored poll on sync', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/ncaaf-rankings.sample.json');
+    const spy = adapterTestUtils.mockEthicalFetcherSequence([json, json]);
+    const storage = new MemStorage();
+    const agent = new ScoresAgent(new CollegeAdapter('NCAAF'), storage);
+
+    await agent.syncRankings('NCAAF', 'ap');
+    const stored = await agent.syncRankings('NCAAF', 'ap');
+
+    expect(spy).toHaveBeenCalledWith(expect.stringContaining('football/college-football/rankings'));
+    expect(stored).toHaveLength(4);
+    expect(await storage.getTeamRankings('NCAAF', 'ap')).toEqual(stored);
+    expect(await storage.getTeamRankings('NCAAF', 'coaches')).toEqual([]);
+  });
+});
+
+describe('college team mapping and factory', () => {
+  it('maps programs from the data files and looks up conferences', () => {
+    expect(TeamMapper.mapTeam('Texas A&M Aggies', 'NCAAF')).toBe('NCAAF_TAMU');
+    expect(TeamMapper.mapTeam('Miami (OH)', 'NCAAB')).toBe('NCAAB_MOH');
+    expect(TeamMapper.getConference('NCAAB_GONZ')).toBe('West Coast');
+    expect(TeamMapper.getConference('NCAAF_ND')).toBe('FBS Independents');
+    expect(TeamMapper.getTeamsByConference('NCAAB', 'big east')).toContain('NCAAB_VILL');
+    expect(TeamMapper.getTeamsByConference('NCAAF', 'SEC')).toHaveLength(16);
+  });
+
+  it('returns college adapters for each alias', () => {
+    expect(SportAdapterFactory.getAdapter('College Football')).toBeInstanceOf(CollegeAdapter);
+    expect(SportAdapterFactory.getAdapter('CBB')).toBeInstanceOf(CollegeAdapter);
+    expect(SportAdapterFactory.isSupported('NCAAB')).toBe(true);
+  });
+});
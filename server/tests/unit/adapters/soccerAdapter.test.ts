@@ -0,0 +1,137 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { SoccerAdapter, parseSoccerEvent, parseMatchClock } from '@server/agents/adapters/soccerAdapter';
+import { SportAdapterFactory } from '@server/agents/adapters/sportAdapterFactory';
+import { TeamMapper } from '@server/utils/scraping/teamMapper';
+import adapterTestUtils from '@server/tests/helpers/adapterTestUtils';
+
+function tieEvent(status: object, home: object, away: object, leg?: number) {
+  return {
+    id: '750001',
+    date: '2026-03-11T20:00Z',
+    competitions: [{
+      date: '2026-03-11T20:00Z',
+      ...(leg ? { leg: { value: leg, displayValue: `Leg ${leg}` } } : {}),
+      competitors: [
+        { homeAway: 'home', team: { abbreviation: 'CEL', displayName: 'Celtic' }, ...home },
+        { homeAway: 'away', team: { abbreviation: 'RMA', displayName: 'Real Madrid' }, ...away },
+      ],
+    }],
+    status,
+  };
+}
+
+describe('SoccerAdapter.fetchLive (ESPN JSON)', () => {
+  beforeEach(() => {
+    adapterTestUtils.resetScrapingMocks();
+    adapterTestUtils.mockRobotsAllowAll();
+    adapterTestUtils.mockRateLimiterImmediate();
+  });
+
+  it('parses match phases, stoppage time and three-way results', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/epl-scoreboard.sample.json');
+    const spy = adapterTestUtils.mockEthicalFetcherSequence([json]);
+
+    const results = await new SoccerAdapter(['EPL']).fetchLive([]);
+    expect(spy).toHaveBeenCalledWith(expect.stringContaining('soccer/eng.1/scoreboard'));
+    expect(results.map((g) => g.gameId)).toEqual(['EPL_ESPN_740601', 'EPL_ESPN_740602', 'EPL_ESPN_740603', 'EPL_ESPN_740604']);
+    results.forEach((g) => adapterTestUtils.assertGameScoreBasic(g));
+
+    const [live, halftime, fullTime, scheduled] = results;
+    expect(live).toMatchObject({
+      homeTeamId: 'EPL_CHE',
+      awayTeamId: 'EPL_ARS',
+      homePts: 1,
+      awayPts: 2,
+      status: 'in_progress',
+      period: '2H',
+      timeRemaining: "90'+4'",
+      soccer: { league: 'EPL', phase: 'second_half', minute: 90, stoppageMinutes: 4 },
+    });
+    expect(halftime).toMatchObject({ status: 'in_progress', period: 'HT', soccer: { phase: 'halftime' } });
+    expect(fullTime).toMatchObject({
+      awayTeamId: 'EPL_MCI',
+      status: 'final',
+      period: 'FT',
+      soccer: { phase: 'full_time', result: 'draw', decidedBy: 'regulation' },
+    });
+    expect(scheduled).toMatchObject({ status: 'scheduled', period: null, soccer: { phase: 'pre_match' } });
+  });
+
+  it('filters by team code', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/epl-scoreboard.sample.json');
+    adapterTestUtils.mockEthicalFetcherSequence([json]);
+
+    const results = await new SoccerAdapter(['EPL']).fetchLive(['LIV']);
+    expect(results.map((g) => g.gameId)).toEqual(['EPL_ESPN_740602']);
+  });
+
+  it('keeps other leagues when one scoreboard fails', async () => {
+    const json = adapterTestUtils.loadFixtureHtml('espn/epl-scoreboard.sample.json');
+    adapterTestUtils.mockEthicalFetcherSequence([new Error('timeout'), json]);
+
+    const results = await new SoccerAdapter(['MLS', 'EPL']).fetchLive([]);
+    expect(results).toHaveLength(4);
+  });
+});
+
+describe('parseSoccerEvent', () => {
+  it('reports extra time, the leg and aggregate score of a second leg', () => {
+    const game = parseSoccerEvent('UCL', tieEvent(
+      { displayClock: "105'+1'", period: 3, type: { name: 'STATUS_FIRST_HALF_EXTRA_TIME', state: 'in' } },
+      { score: '2', aggregateScore: '3' },
+      { score: '1', aggregateScore: '3' },
+      2,
+    ));
+
+    expect(game).toMatchObject({
+      homeTeamId: 'UCL_CEL',
+      awayTeamId: 'LALIGA_RMA',
+      status: 'in_progress',
+      period: 'ET1',
+      soccer: { phase: 'extra_time_first_half', minute: 105, stoppageMinutes: 1, leg: 2, aggregate: { home: 3, away: 3 } },
+    });
+  });
+
+  it('decides a shootout winner from penalty scores', () => {
+    const game = parseSoccerEvent('UCL', tieEvent(
+      { period: 5, type: { name: 'STATUS_FINAL_PEN', state: 'post' } },
+      { score: '1', shootoutScore: 3 },
+      { score: '1', shootoutScore: 4 },
+    ));
+
+    expect(game?.status).toBe('final');
+    expect(game?.soccer).toMatchObject({ result: 'away', decidedBy: 'penalties', shootout: { home: 3, away: 4 } });
+  });
+
+  it('uses the match score as the aggregate of a first leg', () => {
+    const game = parseSoccerEvent('UCL', tieEvent(
+      { displayClock: "30'", period: 1, type: { name: 'STATUS_FIRST_HALF', state: 'in' } },
+      { score: '1' },
+      { score: '0' },
+      1,
+    ));
+    expect(game?.soccer).toMatchObject({ leg: 1, aggregate: { home: 1, away: 0 } });
+  });
+
+  it('parses clocks with and without added time', () => {
+    expect(parseMatchClock("45'+3'")).toEqual({ minute: 45, stoppageMinutes: 3 });
+    expect(parseMatchClock("67'")).toEqual({ minute: 67, stoppageMinutes: undefined });
+    expect(parseMatchClock('')).toEqual({});
+  });
+});
+
+describe('soccer team mapping and factory', () => {
+  it('maps clubs per league and keeps domestic IDs in the Champions League', () => {
+    expect(TeamMapper.mapTeam('Arsenal', 'EPL')).toBe('EPL_ARS');
+    expect(TeamMapper.mapTeam('Inter Miami CF', 'MLS')).toBe('MLS_MIA');
+    expect(TeamMapper.mapTeam('Bayern Munich', 'UCL')).toBe('BUNDESLIGA_BAY');
+    expect(TeamMapper.mapTeam('Benfica', 'UCL')).toBe('UCL_BEN');
+    expect(TeamMapper.findTeam('Nowhere FC', 'SERIEA')).toBeUndefined();
+  });
+
+  it('returns a soccer adapter for the sport and each league', () => {
+    expect(SportAdapterFactory.getAdapter('SOCCER')).toBeInstanceOf(SoccerAdapter);
+    expect(SportAdapterFactory.getAdapter('EPL')).toBeInstanceOf(SoccerAdapter);
+    expect(SportAdapterFactory.isSupported('SERIEA')).toBe(true);
+  });
+});
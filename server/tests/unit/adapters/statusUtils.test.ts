@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseEspnStatus, parseStatusText } from '@server/agents/adapters/statusUtils';
+import { parseCollegeEvent } from '@server/agents/adapters/collegeAdapter';
+import { parseSoccerEvent } from '@server/agents/adapters/soccerAdapter';
+
+function espnStatus(name: string, state: string, detail = '', period?: number) {
+  return { period, type: { name, state, detail } };
+}
+
+function event(status: object) {
+  return {
+    id: '401',
+    status,
+    competitions: [{
+      date: '2025-11-01T19:30:00Z',
+      competitors: [
+        { homeAway: 'home', score: '0', team: { abbreviation: 'UGA', location: 'Georgia', name: 'Bulldogs' } },
+        { homeAway: 'away', score: '0', team: { abbreviation: 'FLA', location: 'Florida', name: 'Gators' } },
+      ],
+    }],
+  };
+}
+
+describe('parseEspnStatus', () => {
+  it('keeps postponed and cancelled games out of final', () => {
+    expect(parseEspnStatus(espnStatus('STATUS_POSTPONED', 'post', 'Postponed - Inclement Weather'), 4)).toEqual({
+      status: 'postponed',
+      statusDetail: 'weather',
+      statusReason: 'Postponed - Inclement Weather',
+    });
+    expect(parseEspnStatus(espnStatus('STATUS_CANCELED', 'post', 'Canceled'), 4)).toEqual({ status: 'cancelled', statusReason: 'Canceled' });
+    expect(parseEspnStatus(espnStatus('STATUS_ABANDONED', 'post'), 2)).toEqual({ status: 'cancelled', statusDetail: 'abandoned' });
+  });
+
+  it('reports rain delays and suspensions', () => {
+    expect(parseEspnStatus(espnStatus('STATUS_RAIN_DELAY', 'in', 'Rain Delay'), 9, true))
+      .toEqual({ status: 'delayed', statusDetail: 'rain', statusReason: 'Rain Delay' });
+    expect(parseEspnStatus(espnStatus('STATUS_SUSPENDED', 'in', 'Suspended - Rain'), 9, true))
+      .toMatchObject({ status: 'suspended', statusDetail: 'rain' });
+  });
+
+  it('marks finals and live games past regulation', () => {
+    expect(parseEspnStatus(espnStatus('STATUS_FINAL', 'post', 'Final/OT', 5), 4)).toEqual({ status: 'final', statusDetail: 'overtime' });
+    expect(parseEspnStatus(espnStatus('STATUS_FINAL', 'post', 'Final/SO', 4), 3)).toEqual({ status: 'final', statusDetail: 'shootout' });
+    expect(parseEspnStatus(espnStatus('STATUS_FINAL', 'post', 'Final/10', 10), 9, true)).toEqual({ status: 'final', statusDetail: 'extra_innings' });
+    expect(parseEspnStatus(espnStatus('STATUS_FINAL', 'post', 'Final', 4), 4)).toEqual({ status: 'final' });
+    expect(parseEspnStatus(espnStatus('STATUS_HALFTIME', 'in', 'Halftime', 2), 4)).toEqual({ status: 'in_progress', statusDetail: 'halftime' });
+    expect(parseEspnStatus(espnStatus('STATUS_IN_PROGRESS', 'in', 'End of 2nd Intermission', 2), 3))
+      .toEqual({ status: 'in_progress', statusDetail: 'intermission' });
+    expect(parseEspnStatus(espnStatus('STATUS_SCHEDULED', 'pre', 'Sat, November 1st'), 4)).toEqual({ status: 'scheduled' });
+  });
+});
+
+describe('parseStatusText', () => {
+  it('recognizes scraped stoppages and finals, leaving live text to the adapter', () => {
+    expect(parseStatusText('PPD', 9, true)).toEqual({ status: 'postponed', statusReason: 'PPD' });
+    expect(parseStatusText('Rain Delay', 9, true)).toMatchObject({ status: 'delayed', statusDetail: 'rain' });
+    expect(parseStatusText('F/11', 9, true)).toEqual({ status: 'final', statusDetail: 'extra_innings' });
+    expect(parseStatusText('F/9', 9, true)).toEqual({ status: 'final' });
+    expect(parseStatusText('Final/2OT', 4)).toEqual({ status: 'final', statusDetail: 'overtime' });
+    expect(parseStatusText('Q3 4:12', 4)).toBeNull();
+    expect(parseStatusText('7:30 PM ET', 4)).toBeNull();
+  });
+});
+
+describe('league parsers', () => {
+  it('no longer reports a postponed college game as scheduled or final', () => {
+    const game = parseCollegeEvent('NCAAF', event(espnStatus('STATUS_POSTPONED', 'post', 'Postponed')));
+    expect(game).toMatchObject({ status: 'postponed', statusReason: 'Postponed', period: null });
+  });
+
+  it('reports abandoned matches and shootout finals in soccer', () => {
+    expect(parseSoccerEvent('EPL', event(espnStatus('STATUS_ABANDONED', 'post', 'Abandoned'))))
+      .toMatchObject({ status: 'cancelled', statusDetail: 'abandoned', soccer: { phase: 'abandoned' } });
+    expect(parseSoccerEvent('UCL', event(espnStatus('STATUS_FINAL_PEN', 'post', 'FT-Pens', 4))))
+      .toMatchObject({ status: 'final', statusDetail: 'shootout', soccer: { decidedBy: 'penalties' } });
+  });
+});
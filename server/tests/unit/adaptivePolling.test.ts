@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AdaptivePollScheduler, defaultPollIntervals, planGamePoll, type ScoresPollJob } from '../../jobs/pollScheduler';
+import { MemStorage } from '../../storage';
+import type { InsertGame } from '@shared/schema';
+
+const MIN = 60_000;
+const TIP_OFF = new Date('2025-10-21T23:30:00Z').getTime();
+const intervals = defaultPollIntervals(30_000);
+
+function game(id: string, home: string, away: string, overrides: Partial<InsertGame> = {}): InsertGame {
+  return {
+    id,
+    homeTeamId: home,
+    awayTeamId: away,
+    homePts: 0,
+    awayPts: 0,
+    status: 'scheduled',
+    startTime: new Date(TIP_OFF),
+    ...overrides,
+  };
+}
+
+function plan(overrides: Partial<InsertGame>, now: number) {
+  const g = game('NBA_1', 'NBA_BOS', 'NBA_NYK', overrides);
+  return planGamePoll({ ...g, statusDetail: g.statusDetail ?? null }, now, intervals);
+}
+
+describe('planGamePoll', () => {
+  it('ramps up before tip-off and polls at the live interval from the start', () => {
+    expect(plan({}, TIP_OFF - 2 * 60 * MIN)).toBeNull();
+    expect(plan({}, TIP_OFF - 25 * MIN)).toMatchObject({ phase: 'pregame', everyMs: 5 * MIN });
+    expect(plan({}, TIP_OFF - 5 * MIN)).toMatchObject({ phase: 'pregame', everyMs: 2 * MIN });
+    expect(plan({}, TIP_OFF + MIN)).toMatchObject({ phase: 'live', everyMs: 30_000, teamIds: ['NBA_BOS', 'NBA_NYK'] });
+  });
+
+  it('backs off at halftime and during stoppages', () => {
+    const now = TIP_OFF + 70 * MIN;
+    expect(plan({ status: 'in_progress' }, now)).toMatchObject({ phase: 'live', everyMs: 30_000 });
+    expect(plan({ status: 'in_progress', statusDetail: 'halftime' }, now)).toMatchObject({ phase: 'break', everyMs: 3 * MIN });
+    expect(plan({ status: 'in_progress', statusDetail: 'intermission' }, now)).toMatchObject({ phase: 'break' });
+    expect(plan({ status: 'delayed', statusDetail: 'rain' }, now)).toMatchObject({ phase: 'stoppage', everyMs: 5 * MIN });
+  });
+
+  it('stops for finished, postponed and cancelled games and abandons stale ones', () => {
+    const now = TIP_OFF + 2 * 60 * MIN;
+    expect(plan({ status: 'final' }, now)).toBeNull();
+    expect(plan({ status: 'postponed' }, now)).toBeNull();
+    expect(plan({ status: 'cancelled' }, now)).toBeNull();
+    expect(plan({ status: 'in_progress' }, TIP_OFF + 9 * 60 * MIN)).toBeNull();
+  });
+});
+
+describe('AdaptivePollScheduler', () => {
+  let storage: MemStorage;
+  let now: number;
+  let enqueued: ScoresPollJob[];
+  let scheduler: AdaptivePollScheduler;
+  const enqueue = async (job: ScoresPollJob) => { enqueued.push(job); };
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    now = TIP_OFF + 10 * MIN;
+    enqueued = [];
+    scheduler = new AdaptivePollScheduler({ storage, intervals, now: () => now });
+  });
+
+  it('batches every due game of a league into one fetch and skips teams without a game', async () => {
+    await storage.createGame(game('NBA_1', 'NBA_BOS', 'NBA_NYK', { status: 'in_progress' }));
+    await storage.createGame(game('NBA_2', 'NBA_LAL', 'NBA_GSW', { status: 'in_progress' }));
+    await storage.createGame(game('NHL_1', 'NHL_BOS', 'NHL_TOR', { status: 'in_progress' }));
+    await storage.createGame(game('NBA_3', 'NBA_MIA', 'NBA_CHI', { startTime: new Date(TIP_OFF + 6 * 60 * MIN) }));
+
+    await scheduler.tick(enqueue);
+
+    expect(enqueued.map((j) => [j.sport, j.teamIds.sort(), j.gameIds])).toEqual([
+      ['NBA', ['NBA_BOS', 'NBA_GSW', 'NBA_LAL', 'NBA_NYK'], ['NBA_1', 'NBA_2']],
+      ['NHL', ['NHL_BOS', 'NHL_TOR'], ['NHL_1']],
+    ]);
+    expect(enqueued[0].jobId).toBe(`scores_ingest:poll:NBA:${Math.floor(now / 30_000)}`);
+  });
+
+  it('waits out the break interval and stops once the game is final', async () => {
+    await storage.createGame(game('NBA_1', 'NBA_BOS', 'NBA_NYK', { status: 'in_progress', statusDetail: 'halftime' }));
+    await scheduler.tick(enqueue);
+    now += MIN;
+    await scheduler.tick(enqueue);
+    expect(enqueued).toHaveLength(1);
+
+    now += 2 * MIN;
+    await scheduler.tick(enqueue);
+    expect(enqueued).toHaveLength(2);
+
+    await storage.createGame(game('NBA_1', 'NBA_BOS', 'NBA_NYK', { status: 'final', homePts: 110, awayPts: 104 }));
+    now += 60 * MIN;
+    await scheduler.tick(enqueue);
+    expect(enqueued).toHaveLength(2);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ArticleScraper } from '../../utils/scraping/articleScraper';
+import { ValidationError } from '../../types/errors';
+import type { NewsSource } from '@shared/schema';
+
+const LIST_HTML = `
+<html><body>
+  <ul class="stories">
+    <li class="story"><a class="headline" href="/2025/10/lakers-guard">Lakers add guard</a></li>
+    <li class="story"><a class="headline" href="https://other.example.com/abs">Absolute link</a></li>
+    <li class="story"><a class="headline" href="/2025/10/lakers-guard">Duplicate link</a></li>
+    <li class="story"><span>No link here</span></li>
+  </ul>
+</body></html>`;
+
+const ARTICLE_HTML = `
+<html><body>
+  <article>
+    <h1 class="title">Lakers add veteran guard</h1>
+    <span class="byline">By Sam Reporter</span>
+    <time datetime="2025-10-14T18:00:00Z">Oct 14</time>
+    <div class="body">
+      <p>The Lakers signed a veteran guard.</p>
+      <div class="ad">BUY TICKETS</div>
+      <p>He is expected to play Friday.</p>
+    </div>
+  </article>
+</body></html>`;
+
+const CONFIG = {
+  itemSelector: 'li.story',
+  linkSelector: 'a.headline',
+  titleSelector: 'h1.title',
+  bodySelector: 'div.body',
+  authorSelector: '.byline',
+  dateSelector: 'time',
+  dateAttribute: 'datetime',
+  removeSelectors: ['.ad'],
+};
+
+function makeSource(overrides: Partial<NewsSource> = {}): NewsSource {
+  return {
+    id: 'src-1',
+    name: 'Lakers Site',
+    domain: 'lakers.example.com',
+    sourceType: 'scraper',
+    rssUrl: null,
+    baseUrl: 'https://lakers.example.com/news',
+    selectorConfig: JSON.stringify(CONFIG),
+    totalArticles: 0,
+    relevantArticles: 0,
+    duplicateArticles: 0,
+    reliabilityScore: null,
+    isActive: true,
+    lastScrapedAt: null,
+    lastErrorAt: null,
+    errorMessage: null,
+    requestsPerMinute: 6000,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('ArticleScraper - config', () => {
+  it('applies defaults to a valid config', () => {
+    const config = ArticleScraper.parseConfig(JSON.stringify({
+      itemSelector: '.item',
+      titleSelector: 'h1',
+      bodySelector: '.body',
+    }));
+    expect(config.linkSelector).toBe('a');
+    expect(config.linkAttribute).toBe('href');
+    expect(config.dateFormat).toBe('iso');
+    expect(config.maxArticles).toBe(20);
+    expect(config.removeSelectors).toEqual([]);
+  });
+
+  it('rejects missing, malformed and incomplete configs', () => {
+    expect(() => ArticleScraper.parseConfig(null)).toThrow(ValidationError);
+    expect(() => ArticleScraper.parseConfig('{not json')).toThrow(ValidationError);
+    expect(() => ArticleScraper.parseConfig(JSON.stringify({ itemSelector: '.item' }))).toThrow(/failed validation/);
+  });
+});
+
+describe('ArticleScraper - dates', () => {
+  it('parses the built-in formats', () => {
+    expect(ArticleScraper.parseDate('2025-10-14T18:00:00Z', 'iso')?.toISOString()).toBe('2025-10-14T18:00:00.000Z');
+    expect(ArticleScraper.parseDate('Tue, 14 Oct 2025 18:00:00 GMT', 'rfc2822')?.toISOString()).toBe('2025-10-14T18:00:00.000Z');
+    expect(ArticleScraper.parseDate('1760464800', 'unix')?.toISOString()).toBe('2025-10-14T18:00:00.000Z');
+    expect(ArticleScraper.parseDate('1760464800000', 'unix_ms')?.toISOString()).toBe('2025-10-14T18:00:00.000Z');
+  });
+
+  it('parses token patterns as UTC', () => {
+    expect(ArticleScraper.parseDate('10/14/2025 06:05 PM', 'MM/DD/YYYY hh:mm A')?.toISOString()).toBe('2025-10-14T18:05:00.000Z');
+    expect(ArticleScraper.parseDate('October 4, 2025', 'MMMM D, YYYY')?.toISOString()).toBe('2025-10-04T00:00:00.000Z');
+    expect(ArticleScraper.parseDate('Updated 10/14', 'MM/DD/YYYY')).toBeNull();
+  });
+});
+
+describe('ArticleScraper - scrape', () => {
+  it('follows list links to article pages and extracts candidates', async () => {
+    const fetcher = {
+      fetch: vi.fn(async (url: string) => (url.endsWith('/news') ? LIST_HTML : ARTICLE_HTML)),
+    };
+    const scraper = new ArticleScraper(fetcher as any);
+
+    const items = await scraper.scrape(makeSource());
+
+    expect(fetcher.fetch).toHaveBeenCalledTimes(3);
+    expect(items.map((i) => i.sourceUrl)).toEqual([
+      'https://lakers.example.com/2025/10/lakers-guard',
+      'https://other.example.com/abs',
+    ]);
+    expect(items[0]).toMatchObject({
+      title: 'Lakers add veteran guard',
+      content: 'The Lakers signed a veteran guard. He is expected to play Friday.',
+      author: 'By Sam Reporter',
+      sourceName: 'Lakers Site',
+    });
+    expect((items[0].publishedAt as Date).toISOString()).toBe('2025-10-14T18:00:00.000Z');
+  });
+
+  it('skips urls rejected by shouldFetch and tolerates article failures', async () => {
+    const fetcher = {
+      fetch: vi.fn(async (url: string) => {
+        if (url.endsWith('/news')) return LIST_HTML;
+        throw new Error('HTTP 404: Not Found');
+      }),
+    };
+    const scraper = new ArticleScraper(fetcher as any);
+
+    const items = await scraper.scrape(makeSource(), {
+      shouldFetch: (url) => !url.includes('lakers-guard'),
+    });
+
+    expect(items).toEqual([]);
+    expect(fetcher.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses listUrl over baseUrl and fails when neither is set', async () => {
+    const fetcher = { fetch: vi.fn().mockResolvedValue('<html></html>') };
+    const scraper = new ArticleScraper(fetcher as any);
+
+    await scraper.scrape(makeSource({
+      selectorConfig: JSON.stringify({ ...CONFIG, listUrl: 'https://lakers.example.com/latest' }),
+    }));
+    expect(fetcher.fetch).toHaveBeenCalledWith('https://lakers.example.com/latest');
+
+    await expect(scraper.scrape(makeSource({ baseUrl: null }))).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemStorage } from '../../storage';
+import { BM25IndexManager } from '../../utils/bm25/indexManager';
+import { buildSnippet, parseSearchDate, searchArticles } from '../../utils/bm25/articleSearch';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('buildSnippet', () => {
+  it('highlights matched terms ignoring case and punctuation', () => {
+    const snippet = buildSnippet('Latest Injury, update: the guard is out.', new Set(['injury', 'update']));
+    expect(snippet.highlights.map(([s, e]) => snippet.text.slice(s, e))).toEqual(['Injury', 'update']);
+  });
+
+  it('windows long text around the matches', () => {
+    const filler = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const snippet = buildSnippet(`${filler} ankle sprain reported ${filler}`, new Set(['ankle']), 10);
+    expect(snippet.text.startsWith('… ')).toBe(true);
+    expect(snippet.text.endsWith(' …')).toBe(true);
+    const [[s, e]] = snippet.highlights;
+    expect(snippet.text.slice(s, e)).toBe('ankle');
+  });
+});
+
+describe('searchArticles', () => {
+  let storage: MemStorage;
+  let manager: BM25IndexManager;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    manager = new BM25IndexManager(1.5, 0.75, { storage });
+    const docs = [
+      createMockInsertArticle({ title: 'Lakers injury update', content: 'The Lakers injury report lists the center with an ankle sprain.', category: 'injury' }),
+      createMockInsertArticle({ title: 'Lakers trade talk', content: 'An injury to a rival guard could change the trade market.', category: 'trade' }),
+      createMockInsertArticle({ title: 'Celtics injury update', content: 'Boston injury news.', teamId: 'NBA_BOS', category: 'injury' }),
+      createMockInsertArticle({ title: 'Old Lakers injury update', content: 'Injury news from last season.', publishedAt: new Date('2024-03-01T00:00:00Z') }),
+    ];
+    for (const doc of docs) {
+      await manager.addArticle(await storage.createArticle(doc));
+    }
+  });
+
+  it('returns ranked, team-scoped hits with scores and snippets', async () => {
+    const result = await searchArticles({ query: 'injury update', teamIds: ['NBA_LAL'] }, { storage, manager });
+
+    expect(result.total).toBe(3);
+    expect(result.items.every((hit) => hit.teamId === 'NBA_LAL')).toBe(true);
+    expect(result.items[2].title).toBe('Lakers trade talk'); // matches "injury" only
+    const scores = result.items.map((hit) => hit.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(result.items[0].snippet.highlights.length).toBeGreaterThan(0);
+  });
+
+  it('filters by category and date range and paginates', async () => {
+    const injuries = await searchArticles({ query: 'injury', teamIds: ['NBA_LAL'], category: 'injury' }, { storage, manager });
+    expect(injuries.items.map((hit) => hit.title)).toEqual(['Lakers injury update']);
+
+    const recent = await searchArticles(
+      { query: 'injury', teamIds: ['NBA_LAL'], startDate: new Date('2025-01-01T00:00:00Z') },
+      { storage, manager }
+    );
+    expect(recent.items.map((hit) => hit.title)).not.toContain('Old Lakers injury update');
+
+    const page2 = await searchArticles({ query: 'injury', teamIds: ['NBA_LAL'], page: 2, pageSize: 2 }, { storage, manager });
+    expect(page2).toMatchObject({ page: 2, pageSize: 2, total: 3 });
+    expect(page2.items).toHaveLength(1);
+  });
+
+  it('includes the whole end day for date-only end bounds', async () => {
+    const endOfDay = await storage.createArticle(
+      createMockInsertArticle({ title: 'Late Lakers injury note', publishedAt: new Date('2024-03-01T23:30:00Z') })
+    );
+    await manager.addArticle(endOfDay);
+
+    const result = await searchArticles(
+      { query: 'injury', teamIds: ['NBA_LAL'], endDate: parseSearchDate('2024-03-01', 'end') },
+      { storage, manager }
+    );
+    expect(result.items.map((hit) => hit.title).sort()).toEqual(['Late Lakers injury note', 'Old Lakers injury update']);
+    expect(parseSearchDate('2024-03-01T12:00:00Z', 'end').toISOString()).toBe('2024-03-01T12:00:00.000Z');
+    expect(parseSearchDate('2024-03-01', 'start').toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('excludes soft-deleted articles', async () => {
+    const [hit] = (await searchArticles({ query: 'ankle', teamIds: ['NBA_LAL'] }, { storage, manager })).items;
+    await storage.updateArticle(hit.id, { isDeleted: true });
+    expect((await searchArticles({ query: 'ankle', teamIds: ['NBA_LAL'] }, { storage, manager })).total).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemStorage } from '../../storage';
+import { encodeArticleCursor, decodeArticleCursor } from '../../utils/articleCursor';
+import type { Article } from '@shared/schema';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('article feed cursors', () => {
+  it('round-trips (publishedAt, id) and rejects malformed tokens', () => {
+    const token = encodeArticleCursor({ publishedAt: new Date('2025-01-10T12:00:00Z'), id: 'abc' });
+    expect(decodeArticleCursor(token)).toEqual({ publishedAt: new Date('2025-01-10T12:00:00Z'), id: 'abc' });
+    expect(decodeArticleCursor('not-a-cursor')).toBeUndefined();
+    expect(decodeArticleCursor(Buffer.from('{"p":"nope","i":"x"}').toString('base64url'))).toBeUndefined();
+  });
+});
+
+describe('MemStorage.getArticlesFeed', () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+  });
+
+  async function pageThrough(limit: number, filter: { teamIds?: string[] } = {}): Promise<Article[][]> {
+    const pages: Article[][] = [];
+    let cursor: { publishedAt: Date; id: string } | undefined;
+    for (;;) {
+      const page = await storage.getArticlesFeed({ ...filter, cursor, limit });
+      if (page.length === 0) break;
+      pages.push(page);
+      const last = page[page.length - 1];
+      cursor = decodeArticleCursor(encodeArticleCursor(last));
+    }
+    return pages;
+  }
+
+  it('pages newest first without gaps or repeats, even when timestamps tie', async () => {
+    const sameTime = new Date('2025-01-10T12:00:00Z');
+    for (let i = 0; i < 5; i++) {
+      await storage.createArticle(createMockInsertArticle({ title: `tie ${i}`, publishedAt: sameTime }));
+    }
+    await storage.createArticle(createMockInsertArticle({ title: 'newest', publishedAt: new Date('2025-01-11T00:00:00Z') }));
+    await storage.createArticle(createMockInsertArticle({ title: 'oldest', publishedAt: new Date('2025-01-01T00:00:00Z') }));
+    await storage.createArticle(createMockInsertArticle({ title: 'other team', teamId: 'NBA_BOS' }));
+
+    const pages = await pageThrough(2, { teamIds: ['NBA_LAL'] });
+    const titles = pages.flat().map((a) => a.title);
+
+    expect(pages.map((p) => p.length)).toEqual([2, 2, 2, 1]);
+    expect(titles[0]).toBe('newest');
+    expect(titles[titles.length - 1]).toBe('oldest');
+    expect(new Set(titles).size).toBe(7);
+    expect(titles).not.toContain('other team');
+  });
+
+  it('filters category, relevance and soft-deleted rows', async () => {
+    await storage.createArticle(createMockInsertArticle({ title: 'injury high', category: 'injury', relevanceScore: 75 }));
+    await storage.createArticle(createMockInsertArticle({ title: 'injury low', category: 'injury', relevanceScore: 25 }));
+    await storage.createArticle(createMockInsertArticle({ title: 'trade', category: 'trade', relevanceScore: 100 }));
+    const deleted = await storage.createArticle(createMockInsertArticle({ title: 'injury deleted', category: 'injury', relevanceScore: 90 }));
+    await storage.updateArticle(deleted.id, { isDeleted: true });
+
+    const rows = await storage.getArticlesFeed({ teamIds: ['NBA_LAL'], category: 'injury', minRelevance: 50, limit: 10 });
+    expect(rows.map((a) => a.title)).toEqual(['injury high']);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'http';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, isDev: true, allowDevHeader: true, useMemStorage: true } };
+});
+
+import { storage } from '../../storage';
+import { registerRoutes } from '../../routes';
+import { bm25Manager } from '../../utils/bm25/indexManager';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('Article routes team scoping', () => {
+  let app: express.Express;
+  let server: Server;
+
+  beforeAll(async () => {
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+    await storage.createTeam({ id: 'NBA_BOS', league: 'NBA', code: 'BOS', name: 'Boston Celtics' });
+    await storage.createUserProfile({ firebaseUid: 'fan', favoriteSports: ['NBA'], favoriteTeams: ['NBA_LAL'] });
+    await storage.createUserProfile({ firebaseUid: 'no-favorites', favoriteSports: ['NBA'], favoriteTeams: [] });
+    for (const teamId of ['NBA_LAL', 'NBA_BOS']) {
+      const article = await storage.createArticle(createMockInsertArticle({ teamId, title: `${teamId} injury update` }));
+      await bm25Manager.addArticle(article);
+    }
+
+    app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+  });
+
+  afterAll(async () => {
+    if (server.listening) await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('scopes the feed to the caller\'s favorite teams', async () => {
+    const res = await request(app).get('/api/articles').set('x-dev-firebase-uid', 'fan');
+    expect(res.status).toBe(200);
+    expect(res.body.items.map((a: any) => a.teamId)).toEqual(['NBA_LAL']);
+  });
+
+  it('returns no articles from the feed or search for a user without favorites', async () => {
+    const feed = await request(app).get('/api/articles').set('x-dev-firebase-uid', 'no-favorites');
+    expect(feed.status).toBe(200);
+    expect(feed.body).toEqual({ items: [], nextCursor: null, limit: 10 });
+
+    const search = await request(app).get('/api/articles/search?q=injury').set('x-dev-firebase-uid', 'no-favorites');
+    expect(search.status).toBe(200);
+    expect(search.body.items).toEqual([]);
+    expect(search.body.total).toBe(0);
+  });
+});
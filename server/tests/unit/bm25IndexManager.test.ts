@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemStorage } from '../../storage';
+import { BM25IndexManager } from '../../utils/bm25/indexManager';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('BM25IndexManager persistence', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('hydrates a fresh manager from the persisted snapshot without re-reading articles', async () => {
+    const writer = new BM25IndexManager(1.5, 0.75, { storage });
+    const injury = await storage.createArticle(createMockInsertArticle({ title: 'Lakers injury update', content: 'Ankle sprain for the center' }));
+    const trade = await storage.createArticle(createMockInsertArticle({ title: 'Lakers trade rumors', content: 'Guard linked to deadline deal' }));
+    await writer.addArticle(injury);
+    await writer.addArticle(trade);
+
+    const expected = await writer.search({ terms: ['ankle', 'injury'], teamId: 'NBA_LAL' });
+
+    const loadArticles = vi.spyOn(storage, 'getArticlesByTeam');
+    const reader = new BM25IndexManager(1.5, 0.75, { storage });
+    const results = await reader.search({ terms: ['ankle', 'injury'], teamId: 'NBA_LAL' });
+
+    expect(loadArticles).not.toHaveBeenCalled();
+    expect(results.map((r) => r.documentId)).toEqual(expected.map((r) => r.documentId));
+    expect(results[0].score).toBeCloseTo(expected[0].score, 6);
+    expect(results[0].metadata?.publishedAt).toBeInstanceOf(Date);
+    expect(reader.getDocumentCount('NBA_LAL')).toBe(2);
+  });
+
+  it('converges across instances via the persisted version', async () => {
+    const a = new BM25IndexManager(1.5, 0.75, { storage, syncCheckMs: 0 });
+    const b = new BM25IndexManager(1.5, 0.75, { storage, syncCheckMs: 0 });
+
+    const first = await storage.createArticle(createMockInsertArticle({ title: 'Lakers win opener' }));
+    await a.addArticle(first);
+    expect((await b.search({ terms: ['opener'], teamId: 'NBA_LAL' })).map((r) => r.documentId)).toEqual([first.id]);
+
+    // b writes while a's copy is behind; a must pick up b's change instead of diverging
+    const second = await storage.createArticle(createMockInsertArticle({ title: 'Lakers lose rematch' }));
+    await b.addArticle(second);
+    const fullReads = vi.spyOn(storage, 'getBM25IndexDocuments');
+    await a.removeDocument(first.id, 'NBA_LAL');
+    expect(fullReads).not.toHaveBeenCalled();
+
+    expect((await a.getIndex('NBA_LAL')).getDocumentIds()).toEqual([second.id]);
+    expect((await b.getIndex('NBA_LAL')).getDocumentIds()).toEqual([second.id]);
+    expect((await storage.getBM25IndexDocuments('NBA_LAL')).map((row) => row.documentId)).toEqual([second.id]);
+    expect((await storage.getBM25IndexByTeam('NBA_LAL'))?.version).toBe(3);
+  });
+
+  it('rebuilds under the lock and records the snapshot', async () => {
+    await storage.createArticle(createMockInsertArticle({ title: 'Lakers practice report' }));
+    await storage.createArticle(createMockInsertArticle({ title: 'Lakers film session' }));
+
+    const manager = new BM25IndexManager(1.5, 0.75, { storage });
+    await manager.rebuildIndex('NBA_LAL');
+
+    const meta = await storage.getBM25IndexByTeam('NBA_LAL');
+    expect(meta?.rebuildInProgress).toBe(false);
+    expect(meta?.rebuildOwner).toBeNull();
+    expect(meta?.totalDocuments).toBe(2);
+    expect(meta?.lastRebuiltAt).toBeInstanceOf(Date);
+    expect(await storage.getBM25IndexDocuments('NBA_LAL')).toHaveLength(2);
+  });
+
+  it('waits for another instance holding the rebuild lock, then hydrates its result', async () => {
+    const owner = new BM25IndexManager(1.5, 0.75, { storage });
+    const doc = await storage.createArticle(createMockInsertArticle({ title: 'Lakers sign veteran' }));
+    await owner.addArticle(doc);
+
+    expect(await storage.acquireBM25RebuildLock('NBA_LAL', 'other-host:1', new Date(0))).toBe(true);
+
+    const waiter = new BM25IndexManager(1.5, 0.75, { storage, rebuildPollMs: 5 });
+    const loadArticles = vi.spyOn(storage, 'getArticlesByTeam');
+    const done = waiter.rebuildIndex('NBA_LAL');
+    setTimeout(() => { storage.releaseBM25RebuildLock('NBA_LAL', 'other-host:1'); }, 20);
+    await done;
+
+    expect(loadArticles).not.toHaveBeenCalled();
+    expect(waiter.getDocumentCount('NBA_LAL')).toBe(1);
+  });
+
+  it('stops waiting on a long rebuild and keeps serving the loaded index', async () => {
+    const manager = new BM25IndexManager(1.5, 0.75, { storage, syncCheckMs: 0, rebuildPollMs: 5, rebuildWaitMs: 30 });
+    const doc = await storage.createArticle(createMockInsertArticle({ title: 'Lakers sign veteran' }));
+    await manager.addArticle(doc);
+
+    expect(await storage.acquireBM25RebuildLock('NBA_LAL', 'other-host:1', new Date(0))).toBe(true);
+    // The other instance has already cleared the snapshot it is rewriting
+    await storage.replaceBM25IndexDocuments('NBA_LAL', [], new Date(Date.now() + 1));
+    await storage.incrementBM25IndexVersion('NBA_LAL');
+
+    const started = Date.now();
+    await manager.rebuildIndex('NBA_LAL');
+    expect(Date.now() - started).toBeLessThan(1_000);
+
+    const results = await manager.search({ terms: ['veteran'], teamId: 'NBA_LAL' });
+    expect(results.map((r) => r.documentId)).toEqual([doc.id]);
+  });
+
+  it('takes over an abandoned rebuild lock', async () => {
+    await storage.createArticle(createMockInsertArticle({ title: 'Lakers road trip preview' }));
+    await storage.acquireBM25RebuildLock('NBA_LAL', 'crashed-host:1', new Date(0));
+    await storage.updateBM25IndexStats('NBA_LAL', { rebuildStartedAt: new Date(Date.now() - 60_000) });
+
+    const manager = new BM25IndexManager(1.5, 0.75, { storage, rebuildLockTtlMs: 1_000 });
+    await manager.rebuildIndex('NBA_LAL');
+
+    expect(manager.getDocumentCount('NBA_LAL')).toBe(1);
+    expect((await storage.getBM25IndexByTeam('NBA_LAL'))?.rebuildInProgress).toBe(false);
+  });
+});
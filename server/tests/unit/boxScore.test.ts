@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseEspnBoxScore, resolveEspnEventId } from '../../agents/adapters/espnBoxScore';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import type { IScoreSource } from '../../agents/types';
+
+function header(home: { id: string; abbr: string; score: string }, away: { id: string; abbr: string; score: string }) {
+  return {
+    competitions: [{
+      competitors: [
+        { homeAway: 'home', score: home.score, team: { id: home.id, abbreviation: home.abbr } },
+        { homeAway: 'away', score: away.score, team: { id: away.id, abbreviation: away.abbr } },
+      ],
+    }],
+  };
+}
+
+const NBA_SUMMARY = {
+  header: header({ id: '13', abbr: 'LAL', score: '112' }, { id: '2', abbr: 'BOS', score: '108' }),
+  boxscore: {
+    teams: [
+      { team: { id: '2' }, homeAway: 'away', statistics: [{ name: 'fieldGoalPct', displayValue: '44.9' }] },
+      { team: { id: '13' }, homeAway: 'home', statistics: [{ name: 'fieldGoalPct', displayValue: '51.2' }] },
+    ],
+    players: [
+      {
+        team: { id: '13' },
+        statistics: [{
+          keys: ['minutes', 'fieldGoalsMade-fieldGoalsAttempted', 'threePointFieldGoalsMade-threePointFieldGoalsAttempted', 'freeThrowsMade-freeThrowsAttempted', 'offensiveRebounds', 'defensiveRebounds', 'rebounds', 'assists', 'steals', 'blocks', 'turnovers', 'fouls', 'plusMinus', 'points'],
+          athletes: [
+            { starter: true, athlete: { id: '1966', displayName: 'LeBron James', position: { abbreviation: 'F' } }, stats: ['38', '12-21', '3-7', '6-8', '1', '9', '10', '11', '2', '1', '4', '2', '+9', '33'] },
+            { starter: false, didNotPlay: true, athlete: { id: '9999', displayName: 'Bench Guy' }, stats: [] },
+          ],
+        }],
+      },
+    ],
+  },
+};
+
+describe('parseEspnBoxScore', () => {
+  it('maps basketball shooting splits and team lines by side', () => {
+    const box = parseEspnBoxScore('NBA', 'NBA_ESPN_401700001', NBA_SUMMARY);
+
+    expect(box.home).toMatchObject({ pts: 112, teamId: 'NBA_LAL', stats: { fieldGoalPct: '51.2' } });
+    expect(box.away).toMatchObject({ pts: 108, teamId: 'NBA_BOS' });
+    expect(box.players).toHaveLength(1);
+    expect(box.players![0]).toMatchObject({
+      playerId: '1966',
+      side: 'home',
+      teamId: 'NBA_LAL',
+      starter: true,
+      stats: { kind: 'basketball', pts: 33, fgm: 12, fga: 21, fg3m: 3, fg3a: 7, ftm: 6, fta: 8, reb: 10, ast: 11, plusMinus: 9 },
+    });
+  });
+
+  it('maps batting and pitching lines, converting innings pitched to outs', () => {
+    const box = parseEspnBoxScore('MLB', 'MLB_ESPN_401700002', {
+      header: header({ id: '10', abbr: 'NYY', score: '5' }, { id: '2', abbr: 'BOS', score: '3' }),
+      boxscore: {
+        players: [{
+          team: { id: '10' },
+          statistics: [
+            { type: 'batting', labels: ['H-AB', 'AB', 'R', 'H', 'RBI', 'HR', 'BB', 'K', 'AVG'], athletes: [
+              { athlete: { id: '33192', displayName: 'Aaron Judge' }, stats: ['2-4', '4', '2', '2', '3', '1', '0', '1', '.311'] },
+            ] },
+            { type: 'pitching', labels: ['IP', 'H', 'R', 'ER', 'BB', 'K', 'HR', 'PC', 'ERA'], athletes: [
+              { athlete: { id: '32815', displayName: 'Gerrit Cole' }, stats: ['6.1', '5', '3', '3', '2', '8', '1', '101', '3.12'] },
+            ] },
+          ],
+        }],
+      },
+    });
+
+    expect(box.players!.map((p) => p.stats)).toEqual([
+      { kind: 'batting', ab: 4, r: 2, h: 2, rbi: 3, hr: 1, bb: 0, so: 1, avg: 0.311 },
+      { kind: 'pitching', outs: 19, h: 5, r: 3, er: 3, bb: 2, so: 8, hr: 1, pitches: 101, era: 3.12 },
+    ]);
+  });
+
+  it('maps skater and goalie lines', () => {
+    const box = parseEspnBoxScore('NHL', 'NHL_ESPN_401700003', {
+      header: header({ id: '21', abbr: 'TOR', score: '4' }, { id: '1', abbr: 'BOS', score: '2' }),
+      boxscore: {
+        players: [{
+          team: { id: '21' },
+          statistics: [
+            { name: 'forwards', keys: ['goals', 'assists', 'plusMinus', 'shotsTotal', 'hits', 'blockedShots', 'penaltyMinutes', 'timeOnIce'], athletes: [
+              { athlete: { id: '3899938', displayName: 'Auston Matthews', position: { abbreviation: 'C' } }, stats: ['2', '1', '+2', '6', '1', '0', '2', '20:14'] },
+            ] },
+            { name: 'goalies', keys: ['goalsAgainst', 'shotsAgainst', 'saves', 'savePct', 'timeOnIce'], athletes: [
+              { athlete: { id: '4587843', displayName: 'Joseph Woll' }, stats: ['2', '31', '29', '.935', '60:00'] },
+            ] },
+          ],
+        }],
+      },
+    });
+
+    expect(box.players![0].stats).toEqual({ kind: 'skater', goals: 2, assists: 1, points: 3, plusMinus: 2, shots: 6, hits: 1, blocks: 0, pim: 2, toi: '20:14' });
+    expect(box.players![1].stats).toEqual({ kind: 'goalie', saves: 29, shotsAgainst: 31, goalsAgainst: 2, savePct: 0.935, toi: '60:00' });
+  });
+
+  it('maps passing, rushing and receiving and skips uncovered groups', () => {
+    const box = parseEspnBoxScore('NFL', 'NFL_ESPN_401700004', {
+      header: header({ id: '17', abbr: 'NE', score: '24' }, { id: '15', abbr: 'MIA', score: '17' }),
+      boxscore: {
+        players: [{
+          team: { id: '17' },
+          statistics: [
+            { name: 'passing', keys: ['completions/passingAttempts', 'passingYards', 'yardsPerPassAttempt', 'passingTouchdowns', 'interceptions', 'sacks-sackYardsLost', 'QBRating'], athletes: [
+              { athlete: { id: '1', displayName: 'Drake Maye' }, stats: ['23/34', '276', '8.1', '2', '1', '3-18', '101.4'] },
+            ] },
+            { name: 'rushing', keys: ['rushingAttempts', 'rushingYards', 'yardsPerRushAttempt', 'rushingTouchdowns', 'longRushing'], athletes: [
+              { athlete: { id: '2', displayName: 'Rhamondre Stevenson' }, stats: ['18', '84', '4.7', '1', '22'] },
+            ] },
+            { name: 'receiving', keys: ['receptions', 'receivingYards', 'yardsPerReception', 'receivingTouchdowns', 'longReception', 'receivingTargets'], athletes: [
+              { athlete: { id: '3', displayName: 'Hunter Henry' }, stats: ['7', '92', '13.1', '1', '31', '9'] },
+            ] },
+            { name: 'kicking', keys: ['fieldGoalsMade/fieldGoalAttempts'], athletes: [
+              { athlete: { id: '4', displayName: 'Kicker' }, stats: ['1/1'] },
+            ] },
+          ],
+        }],
+      },
+    });
+
+    expect(box.players!.map((p) => p.stats.kind)).toEqual(['passing', 'rushing', 'receiving']);
+    expect(box.players![0].stats).toEqual({ kind: 'passing', completions: 23, attempts: 34, yards: 276, td: 2, int: 1, sacks: 3, rating: 101.4 });
+    expect(box.players![2].stats).toMatchObject({ kind: 'receiving', receptions: 7, targets: 9, yards: 92 });
+  });
+});
+
+describe('resolveEspnEventId', () => {
+  it('uses embedded event ids and looks up stable ids on the scoreboard', async () => {
+    const fetcher = {
+      fetch: vi.fn().mockResolvedValue(JSON.stringify({
+        events: [{
+          id: '401700005',
+          competitions: [{ competitors: [
+            { homeAway: 'home', team: { abbreviation: 'BOS' } },
+            { homeAway: 'away', team: { abbreviation: 'LAL' } },
+          ] }],
+        }],
+      })),
+    };
+
+    expect(await resolveEspnEventId('MLB', 'MLB_ESPN_401581234', fetcher)).toBe('401581234');
+    expect(fetcher.fetch).not.toHaveBeenCalled();
+
+    expect(await resolveEspnEventId('NBA', 'NBA_ESPN_20251014_LAL_BOS', fetcher)).toBe('401700005');
+    expect(fetcher.fetch).toHaveBeenCalledWith(expect.stringContaining('basketball/nba/scoreboard?dates=20251014'));
+  });
+});
+
+describe('ScoresAgent box scores', () => {
+  it('persists synced box scores and reads them back', async () => {
+    const storage = new MemStorage();
+    const source: IScoreSource = {
+      fetchRecentGames: async () => [],
+      fetchBoxScore: async (gameId) => parseEspnBoxScore('NBA', gameId, NBA_SUMMARY),
+    };
+    const agent = new ScoresAgent(source, storage);
+
+    expect(await agent.getBoxScore('NBA_ESPN_401700001')).toBeUndefined();
+    await agent.syncBoxScore('NBA_ESPN_401700001');
+
+    const stored = await agent.getBoxScore('NBA_ESPN_401700001');
+    expect(stored?.sport).toBe('NBA');
+    expect(stored?.home).toEqual({ pts: 112, teamId: 'NBA_LAL', stats: { fieldGoalPct: '51.2' } });
+    expect(stored?.players?.[0].stats).toMatchObject({ kind: 'basketball', pts: 33 });
+    expect(await storage.getBoxScorePlayerStats('NBA_ESPN_401700001')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'http';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, isDev: true, allowDevHeader: true, useMemStorage: true } };
+});
+
+import { storage } from '../../storage';
+import { registerRoutes } from '../../routes';
+import { NBAAdapter } from '../../agents/adapters/nbaAdapter';
+import { toBoxScoreRecords } from '../../agents/boxScoreRecords';
+
+describe('GET /api/scores/:gameId box score refresh', () => {
+  const uid = 'box-score-fan';
+  const gameId = 'NBA_ESPN_401700001';
+  const postponedId = 'NBA_ESPN_401700002';
+  let app: express.Express;
+  let server: Server;
+
+  beforeAll(async () => {
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+    await storage.createTeam({ id: 'NBA_BOS', league: 'NBA', code: 'BOS', name: 'Boston Celtics' });
+    await storage.createUserProfile({ firebaseUid: uid, favoriteSports: ['NBA'], favoriteTeams: ['NBA_LAL'] });
+    await storage.createGame({
+      id: gameId,
+      homeTeamId: 'NBA_LAL',
+      awayTeamId: 'NBA_BOS',
+      homePts: 88,
+      awayPts: 80,
+      status: 'in_progress',
+      startTime: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    });
+
+    // A live game's stored copy older than the refresh TTL
+    const records = toBoxScoreRecords({
+      gameId,
+      sport: 'NBA',
+      home: { pts: 88, teamId: 'NBA_LAL' },
+      away: { pts: 80, teamId: 'NBA_BOS' },
+      players: [{ playerId: '1966', name: 'LeBron James', side: 'home', teamId: 'NBA_LAL', starter: true, stats: { kind: 'basketball', pts: 25 } }],
+      updatedAt: new Date(Date.now() - 5 * 60 * 1000),
+      source: 'espn',
+    } as any, 'NBA');
+    await storage.saveBoxScore(records.boxScore, records.players);
+
+    await storage.createGame({
+      id: postponedId,
+      homeTeamId: 'NBA_LAL',
+      awayTeamId: 'NBA_BOS',
+      homePts: 0,
+      awayPts: 0,
+      status: 'postponed',
+      startTime: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    });
+
+    app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    if (server.listening) await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('keeps serving the stored copy when the source only has a placeholder', async () => {
+    const fetchBoxScore = vi.spyOn(NBAAdapter.prototype, 'fetchBoxScore').mockResolvedValue({
+      gameId,
+      sport: 'NBA',
+      home: { pts: 0 },
+      away: { pts: 0 },
+      players: [],
+      updatedAt: new Date(),
+      source: 'unavailable',
+    });
+
+    const res = await request(app).get(`/api/scores/${gameId}`).set('x-dev-firebase-uid', uid);
+
+    expect(fetchBoxScore).toHaveBeenCalledWith(gameId);
+    expect(res.status).toBe(200);
+    expect(res.body.boxScore).toMatchObject({ home: { pts: 88 }, away: { pts: 80 } });
+    expect(res.body.boxScore.players).toHaveLength(1);
+  });
+
+  it('does not ask the source for a box score of a game that was never played', async () => {
+    const fetchBoxScore = vi.spyOn(NBAAdapter.prototype, 'fetchBoxScore');
+
+    const res = await request(app).get(`/api/scores/${postponedId}`).set('x-dev-firebase-uid', uid);
+
+    expect(res.status).toBe(200);
+    expect(res.body.boxScore).toBeNull();
+    expect(fetchBoxScore).not.toHaveBeenCalled();
+  });
+});
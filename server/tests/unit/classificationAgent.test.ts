@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemStorage } from '../../storage';
+import { RuleBasedClassifier } from '../../agents/articleClassifier';
+import type { IArticleClassifier } from '../../agents/articleClassifier';
+import { ClassificationAgent } from '../../agents/classificationAgent';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('RuleBasedClassifier', () => {
+  const classifier = new RuleBasedClassifier();
+
+  it('detects injury news', async () => {
+    const result = await classifier.classify({
+      title: 'Star forward suffers ankle sprain, listed day-to-day',
+      content: 'The forward injured his ankle in the third quarter and will undergo an MRI on Monday.',
+    });
+    expect(result.category).toBe('injury');
+    expect(result.confidence).toBeGreaterThanOrEqual(60);
+    expect(result.reasoning).toContain('injury');
+    expect(result.keywords.length).toBeGreaterThan(0);
+  });
+
+  it('detects trade news', async () => {
+    const result = await classifier.classify({
+      title: 'Lakers trade guard to Jazz ahead of deadline',
+      content: 'Los Angeles acquired two second-round draft picks in exchange for the guard.',
+    });
+    expect(result.category).toBe('trade');
+  });
+
+  it('detects roster moves', async () => {
+    const result = await classifier.classify({
+      title: 'Team waives veteran center, recalls rookie',
+      content: 'The club also signed a two-way contract with an undrafted free agent.',
+    });
+    expect(result.category).toBe('roster');
+  });
+
+  it('falls back to general when no rule fires', async () => {
+    const result = await classifier.classify({
+      title: 'Fans pack arena for preseason opener',
+      content: 'The atmosphere was electric as the season tipped off downtown.',
+    });
+    expect(result.category).toBe('general');
+    expect(result.reasoning).toMatch(/defaulting to general/);
+  });
+
+  it('is deterministic', async () => {
+    const input = { title: 'Quarterback ruled out with concussion', content: 'He entered the concussion protocol.' };
+    expect(await classifier.classify(input)).toEqual(await classifier.classify(input));
+  });
+});
+
+describe('ClassificationAgent', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('classifies unprocessed articles, records reasoning and marks them processed', async () => {
+    const injury = await storage.createArticle(createMockInsertArticle({
+      title: 'Guard ruled out with hamstring strain',
+      content: 'He is out indefinitely after an MRI.',
+    }));
+    const already = await storage.createArticle(createMockInsertArticle({ title: 'Old news', isProcessed: true }));
+
+    const agent = new ClassificationAgent(undefined, storage);
+    const result = await agent.runOnce();
+
+    expect(result).toEqual({ classified: 1, errors: 0, byCategory: { injury: 1 } });
+
+    const updated = await storage.getArticle(injury.id);
+    expect(updated?.category).toBe('injury');
+    expect(updated?.isProcessed).toBe(true);
+    expect(updated?.confidence).toBeGreaterThan(0);
+
+    const [classification] = await storage.getClassificationsByArticle(injury.id);
+    expect(classification.classifierVersion).toBe('rules-1.0');
+    expect(classification.reasoning).toContain('injury');
+    expect(Array.isArray(classification.keywords)).toBe(true);
+
+    expect(await storage.getClassificationsByArticle(already.id)).toHaveLength(0);
+  });
+
+  it('accepts a pluggable classifier and counts failures without stopping the batch', async () => {
+    const a = await storage.createArticle(createMockInsertArticle({ title: 'First' }));
+    const b = await storage.createArticle(createMockInsertArticle({ title: 'Second' }));
+
+    const flaky: IArticleClassifier = {
+      version: 'stub-1',
+      classify: async (input) => {
+        if (input.title === 'First') throw new Error('model unavailable');
+        return { category: 'roster', confidence: 77, reasoning: 'stub', keywords: [] };
+      },
+    };
+
+    const agent = new ClassificationAgent(flaky, storage);
+    const result = await agent.runOnce({ articleIds: [a.id, b.id] });
+
+    expect(result).toEqual({ classified: 1, errors: 1, byCategory: { roster: 1 } });
+    expect((await storage.getArticle(a.id))?.isProcessed).toBe(false);
+    expect((await storage.getArticle(b.id))?.category).toBe('roster');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, gameSimulatorEnabled: false, useMemStorage: true } };
+});
+
+import { attachDevAgentRoutes } from '../../dev/agentRoutes';
+import { gameSimulator } from '../../agents/adapters/simulatedScoreSource';
+
+describe('Dev simulator routes when disabled', () => {
+  const app = express();
+  app.use(express.json());
+  attachDevAgentRoutes(app);
+
+  it('does not register the simulator controls', async () => {
+    const res = await request(app)
+      .post('/api/dev/simulator/games')
+      .send({ sport: 'NBA', homeTeamId: 'NBA_LAL', awayTeamId: 'NBA_BOS' });
+
+    expect(res.status).toBe(404);
+    expect(gameSimulator.list()).toEqual([]);
+  });
+
+  it('refuses simulator-sourced agent runs', async () => {
+    const res = await request(app).post('/api/dev/agents/scores/run').send({ source: 'simulator', sport: 'NBA' });
+    expect(res.status).toBe(404);
+  });
+});
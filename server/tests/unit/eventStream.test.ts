@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, isDev: true, allowDevHeader: true, wsMaxMessagesPerWindow: 5, wsMaxSubscriptions: 2 } };
+});
+
+vi.mock('../../storage', () => ({
+  storage: { getUserProfile: vi.fn(async () => null) },
+}));
+
+import { openEventStream, handleEventStreamMessage, broadcastToTeamSubscribers, broadcastToUsers, getWsHealthMetrics } from '../../ws';
+import { WsBroker } from '../../wsBroker';
+
+// Just enough of IncomingMessage/ServerResponse for an event stream
+function streamRequest(query: string) {
+  const req = Object.assign(new EventEmitter(), {
+    url: `/api/stream${query}`,
+    headers: { host: 'localhost' } as Record<string, string>,
+    socket: { remoteAddress: '127.0.0.1' },
+  });
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 0,
+    chunks: [] as string[],
+    ended: false,
+    writeHead(status: number) { res.statusCode = status; return res; },
+    write(chunk: string) { res.chunks.push(chunk); return true; },
+    end(chunk?: string) { if (chunk) res.chunks.push(chunk); res.ended = true; return res; },
+  });
+  const events = () => res.chunks
+    .filter((c) => c.startsWith('data: '))
+    .map((c) => JSON.parse(c.slice('data: '.length)));
+  return { req, res, events };
+}
+
+async function open(userId: string) {
+  const stream = streamRequest(`?devUid=${userId}`);
+  await openEventStream(stream.req as any, stream.res as any);
+  const status = stream.events().find((e) => e.type === 'connection-status');
+  return { ...stream, connectionId: status?.payload.connectionId as string };
+}
+
+describe('Event stream fallback', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rejects streams without credentials', async () => {
+    const { req, res } = streamRequest('');
+    await openEventStream(req as any, res as any);
+    expect(res.statusCode).toBe(401);
+    expect(res.ended).toBe(true);
+  });
+
+  it('delivers the same messages as the socket until the client goes away', async () => {
+    const stream = await open('sse-user-1');
+    expect(stream.res.statusCode).toBe(200);
+    expect(stream.connectionId).toEqual(expect.any(String));
+    expect(stream.events().map((e) => e.type)).toEqual(['connection-status', 'user-teams-loaded']);
+
+    broadcastToUsers({ type: 'connection-status', payload: { status: 'connected', message: 'hello' } }, ['sse-user-1']);
+    expect(stream.events().at(-1)).toMatchObject({ payload: { message: 'hello' } });
+
+    stream.res.emit('close');
+    const before = stream.res.chunks.length;
+    broadcastToUsers({ type: 'connection-status', payload: { status: 'connected', message: 'gone' } }, ['sse-user-1']);
+    expect(stream.res.chunks.length).toBe(before);
+    expect(await handleEventStreamMessage(stream.connectionId, 'sse-user-1', { type: 'subscribe', teamId: 'NBA_BOS' })).toBe('not_found');
+  });
+
+  it('applies subscription changes sent over REST by the stream owner only', async () => {
+    const stream = await open('sse-user-2');
+
+    expect(await handleEventStreamMessage(stream.connectionId, 'someone-else', { type: 'subscribe', teamId: 'NBA_BOS' })).toBe('not_found');
+    expect(await handleEventStreamMessage(stream.connectionId, 'sse-user-2', { teamId: 'NBA_BOS' })).toBe('invalid');
+    expect(await handleEventStreamMessage(stream.connectionId, 'sse-user-2', { type: 'subscribe', teamId: 'NBA_BOS' })).toBe('accepted');
+    expect(stream.events().at(-1)).toMatchObject({ type: 'subscription-confirmation', payload: { teamId: 'NBA_BOS', success: true } });
+
+    broadcastToTeamSubscribers({ type: 'connection-status', payload: { status: 'connected', message: 'bos' } }, ['NBA_BOS']);
+    expect(stream.events().at(-1)).toMatchObject({ payload: { message: 'bos' } });
+
+    stream.res.emit('close');
+  });
+
+  it('caps subscriptions and closes streams that flood the message endpoint', async () => {
+    const stream = await open('sse-user-3');
+    const send = (message: object) => handleEventStreamMessage(stream.connectionId, 'sse-user-3', message);
+
+    await send({ type: 'subscribe', teamId: 'NBA_BOS' });
+    await send({ type: 'subscribe', teamId: 'NBA_NYK' });
+    expect(await send({ type: 'subscribe', teamId: 'NBA_LAL' })).toBe('accepted');
+    expect(stream.events().at(-1)).toMatchObject({
+      type: 'subscription-confirmation',
+      payload: { teamId: 'NBA_LAL', success: false, message: 'Subscription limit reached (2 teams)' },
+    });
+
+    // Acks don't count toward the limit
+    expect(await send({ type: 'score-ack', revs: {} })).toBe('accepted');
+    expect(await send({ type: 'unsubscribe', teamId: 'NBA_NYK' })).toBe('accepted');
+    expect(await send({ type: 'subscribe', teamId: 'NBA_LAL' })).toBe('accepted');
+
+    const evictions = getWsHealthMetrics().healthMetrics.evictions.rate_limited;
+    const results = [];
+    for (let i = 0; i < 6; i++) results.push(await send({ type: 'subscribe', teamId: 'NBA_BOS' }));
+    expect(results).toEqual(Array(6).fill('rate_limited'));
+    expect(stream.res.ended).toBe(true);
+    expect(getWsHealthMetrics().healthMetrics.evictions.rate_limited).toBe(evictions + 1);
+
+    stream.res.emit('close');
+    expect(await send({ type: 'subscribe', teamId: 'NBA_BOS' })).toBe('not_found');
+  });
+
+  it('reports unknown streams as not found', async () => {
+    const stream = await open('sse-user-4');
+    const [nodeId] = stream.connectionId.split('.');
+    const subscribe = { type: 'subscribe', teamId: 'NBA_BOS' };
+
+    expect(await handleEventStreamMessage(`${nodeId}.missing`, 'sse-user-4', subscribe)).toBe('not_found');
+    // Another node's stream can't be reached without the broker
+    expect(await handleEventStreamMessage('other-node.stream', 'sse-user-4', subscribe)).toBe('not_found');
+
+    stream.res.emit('close');
+  });
+
+  it('relays messages for streams held by another node through the broker', async () => {
+    vi.spyOn(WsBroker.prototype, 'subscribed', 'get').mockReturnValue(true);
+    const publish = vi.spyOn(WsBroker.prototype, 'publish').mockImplementation(() => {});
+
+    expect(await handleEventStreamMessage('other-node.stream', 'sse-user-5', { teamId: 'NBA_BOS' })).toBe('invalid');
+    expect(await handleEventStreamMessage('other-node.stream', 'sse-user-5', { type: 'subscribe', teamId: 'NBA_BOS' })).toBe('accepted');
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish).toHaveBeenCalledWith('stream', {
+      kind: 'stream-message',
+      nodeId: 'other-node',
+      connectionId: 'other-node.stream',
+      userId: 'sse-user-5',
+      message: { type: 'subscribe', teamId: 'NBA_BOS' },
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { FeedParser } from '../../utils/scraping/feedParser';
+
+const NOW = new Date('2025-10-20T12:00:00Z');
+
+describe('FeedParser - RSS 2.0', () => {
+  const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Celtics Beat &amp; More</title>
+    <link>https://beat.example.com/</link>
+    <lastBuildDate>Mon, 13 Oct 2025 09:00:00 GMT</lastBuildDate>
+    <item>
+      <title><![CDATA[Celtics&rsquo; bench shines in <em>preseason</em> win]]></title>
+      <link>/2025/10/bench-shines</link>
+      <dc:creator><![CDATA[Jane Writer]]></dc:creator>
+      <pubDate>Sun, 12 Oct 2025 23:30:00 -0400</pubDate>
+      <description>Short teaser</description>
+      <content:encoded><![CDATA[<p>The Celtics&#8217; reserves</p><p>outscored the starters &amp; then some.</p>]]></content:encoded>
+    </item>
+    <item>
+      <title>Escaped markup item</title>
+      <guid isPermaLink="true">https://beat.example.com/escaped</guid>
+      <description>&lt;p&gt;Tatum &amp;amp; Brown&lt;/p&gt;</description>
+    </item>
+    <item>
+      <title>No link at all</title>
+      <guid isPermaLink="false">abc-123</guid>
+    </item>
+  </channel>
+</rss>`;
+
+  it('normalizes items, decoding CDATA and entities', () => {
+    const feed = FeedParser.parse(rss, { sourceName: 'Celtics Beat', feedUrl: 'https://beat.example.com/feed', now: NOW });
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('Celtics Beat & More');
+    expect(feed.items).toHaveLength(2);
+
+    const [first, second] = feed.items;
+    expect(first.title).toBe('Celtics’ bench shines in preseason win');
+    expect(first.content).toBe('The Celtics’ reserves outscored the starters & then some.');
+    expect(first.author).toBe('Jane Writer');
+    expect(first.sourceName).toBe('Celtics Beat');
+    expect((first.publishedAt as Date).toISOString()).toBe('2025-10-13T03:30:00.000Z');
+
+    expect(second.sourceUrl).toBe('https://beat.example.com/escaped');
+    expect(second.content).toBe('Tatum & Brown');
+  });
+
+  it('resolves relative links against the channel link', () => {
+    const feed = FeedParser.parse(rss, { sourceName: 'Celtics Beat', now: NOW });
+    expect(feed.items[0].sourceUrl).toBe('https://beat.example.com/2025/10/bench-shines');
+  });
+
+  it('falls back to channel date, then to now, when items have no date', () => {
+    const feed = FeedParser.parse(rss, { sourceName: 'Celtics Beat', now: NOW });
+    expect((feed.items[1].publishedAt as Date).toISOString()).toBe('2025-10-13T09:00:00.000Z');
+
+    const bare = `<rss><channel><item><title>Undated</title><link>https://x.example.com/a</link></item></channel></rss>`;
+    const bareFeed = FeedParser.parse(bare, { sourceName: 'X', now: NOW });
+    expect(bareFeed.items[0].publishedAt).toEqual(NOW);
+  });
+});
+
+describe('FeedParser - Atom 1.0', () => {
+  const atom = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:base="https://blog.example.org/nhl/">
+  <title type="html">Bruins &lt;b&gt;Blog&lt;/b&gt;</title>
+  <link rel="self" href="https://blog.example.org/nhl/atom.xml"/>
+  <link rel="alternate" href="https://blog.example.org/nhl/"/>
+  <updated>2025-10-10T10:00:00Z</updated>
+  <author><name>Feed Author</name></author>
+  <entry>
+    <title>Bruins recall forward</title>
+    <link rel="edit" href="/admin/edit/1"/>
+    <link rel="alternate" href="posts/recall-forward"/>
+    <published>2025-10-11T15:00:00Z</published>
+    <summary>Summary text</summary>
+    <content type="html">&lt;p&gt;The Bruins recalled a forward from Providence.&lt;/p&gt;</content>
+  </entry>
+  <entry>
+    <title>Undated entry</title>
+    <link href="posts/undated"/>
+    <author><name>Entry Author</name></author>
+    <summary>Only a summary</summary>
+  </entry>
+</feed>`;
+
+  it('parses entries with alternate links, xml:base resolution and author fallback', () => {
+    const feed = FeedParser.parse(atom, { sourceName: 'Bruins Blog', now: NOW });
+
+    expect(feed.format).toBe('atom');
+    expect(feed.title).toBe('Bruins Blog');
+    expect(feed.link).toBe('https://blog.example.org/nhl/');
+    expect(feed.items).toHaveLength(2);
+
+    const [first, second] = feed.items;
+    expect(first.sourceUrl).toBe('https://blog.example.org/nhl/posts/recall-forward');
+    expect(first.content).toBe('The Bruins recalled a forward from Providence.');
+    expect(first.author).toBe('Feed Author');
+    expect((first.publishedAt as Date).toISOString()).toBe('2025-10-11T15:00:00.000Z');
+
+    expect(second.author).toBe('Entry Author');
+    expect(second.content).toBe('Only a summary');
+    expect((second.publishedAt as Date).toISOString()).toBe('2025-10-10T10:00:00.000Z');
+  });
+
+  it('never falls back to self or edit links', () => {
+    const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <title>Edit links only</title>
+    <link rel="edit" href="https://blog.example.org/admin/edit/2"/>
+    <link rel="self" href="https://blog.example.org/entries/2.xml"/>
+  </entry>
+  <entry>
+    <title>Related link</title>
+    <link rel="edit" href="https://blog.example.org/admin/edit/3"/>
+    <link rel="related" href="https://blog.example.org/posts/3"/>
+  </entry>
+</feed>`;
+    const feed = FeedParser.parse(xml, { sourceName: 'Bruins Blog', now: NOW });
+
+    expect(feed.items.map((i) => i.sourceUrl)).toEqual(['https://blog.example.org/posts/3']);
+  });
+});
+
+describe('FeedParser - helpers', () => {
+  it('returns an empty result for non-feed documents', () => {
+    const feed = FeedParser.parse('<html><body>nope</body></html>', { sourceName: 'X' });
+    expect(feed.format).toBe('unknown');
+    expect(feed.items).toEqual([]);
+  });
+
+  it('rejects unparseable dates and unresolved links', () => {
+    expect(FeedParser.parseDate('not a date')).toBeNull();
+    expect(FeedParser.parseDate('')).toBeNull();
+    expect(FeedParser.resolveUrl('/relative', undefined)).toBeNull();
+    expect(FeedParser.resolveUrl('https://a.example.com/x', undefined)).toBe('https://a.example.com/x');
+  });
+});
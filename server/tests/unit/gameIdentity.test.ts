@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../ws', () => ({
+  broadcast: vi.fn(),
+  broadcastUserTeamUpdate: vi.fn(),
+  broadcastUserTeamStatusChange: vi.fn(),
+  broadcastGamePlays: vi.fn(),
+}));
+
+import { GameIdentityResolver } from '../../agents/gameIdentity';
+import { buildGameKey, buildStableGameId, formatScheduleDate } from '../../agents/adapters/idUtils';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import type { GameScore, IScoreSource } from '../../agents/types';
+
+function reading(gameId: string, source: string, startTime: Date, overrides: Partial<GameScore> = {}): GameScore {
+  return {
+    gameId,
+    homeTeamId: 'MLB_NYY',
+    awayTeamId: 'MLB_BOS',
+    homePts: 0,
+    awayPts: 0,
+    status: 'in_progress',
+    startTime,
+    source,
+    ...overrides,
+  };
+}
+
+const FIRST_PITCH = new Date('2025-06-01T17:05:00Z');
+const NIGHTCAP = new Date('2025-06-01T22:10:00Z');
+
+describe('schedule dates', () => {
+  it('keeps a late West Coast game on its venue-local date', () => {
+    const tipOff = new Date('2025-10-21T02:30:00Z'); // 7:30 PM PT on Oct 20
+    expect(formatScheduleDate('NBA', tipOff)).toBe('20251020');
+    expect(buildStableGameId('NBA', 'CBS', 'NBA_GSW', 'NBA_LAL', tipOff)).toBe('NBA_CBS_20251020_GSW_LAL');
+    expect(formatScheduleDate('EPL', new Date('2025-10-20T19:00:00Z'))).toBe('20251020');
+  });
+
+  it('keys a game on the team pair regardless of home/away designation', () => {
+    expect(buildGameKey('NCAAF', 'NCAAF_UGA', 'NCAAF_FLA', FIRST_PITCH))
+      .toBe(buildGameKey('NCAAF', 'NCAAF_FLA', 'NCAAF_UGA', FIRST_PITCH));
+  });
+});
+
+describe('GameIdentityResolver', () => {
+  let storage: MemStorage;
+  let resolver: GameIdentityResolver;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    resolver = new GameIdentityResolver(storage);
+  });
+
+  it('maps each source id for a game onto the first id it was seen under', async () => {
+    const espn = await resolver.resolve('MLB', reading('MLB_ESPN_401700001', 'ESPN API', FIRST_PITCH));
+    const cbs = await resolver.resolve('MLB', reading('MLB_CBS_20250601_BOS_NYY', 'CBS Sports', new Date(FIRST_PITCH.getTime() + 5 * 60_000)));
+
+    expect(espn).toBe('MLB_ESPN_401700001');
+    expect(cbs).toBe('MLB_ESPN_401700001');
+    expect((await storage.getGameAliases('MLB_ESPN_401700001')).map((a) => [a.source, a.sourceGameId])).toEqual([
+      ['espn', 'MLB_ESPN_401700001'],
+      ['cbs', 'MLB_CBS_20250601_BOS_NYY'],
+    ]);
+    expect(await resolver.sourceGameIdFor('MLB_ESPN_401700001', 'CBS Sports')).toBe('MLB_CBS_20250601_BOS_NYY');
+  });
+
+  it('keeps the two games of a doubleheader apart and matches other sources by start time', async () => {
+    await resolver.resolve('MLB', reading('MLB_ESPN_401700001', 'ESPN API', FIRST_PITCH));
+    await resolver.resolve('MLB', reading('MLB_ESPN_401700002', 'ESPN API', NIGHTCAP));
+
+    expect(await resolver.resolve('MLB', reading('MLB_CBS_G2', 'CBS Sports', NIGHTCAP))).toBe('MLB_ESPN_401700002');
+    expect(await resolver.resolve('MLB', reading('MLB_CBS_G1', 'CBS Sports', FIRST_PITCH))).toBe('MLB_ESPN_401700001');
+  });
+
+  it('does not reuse an undated source id for the same matchup on another day', async () => {
+    await resolver.resolve('MLB', reading('MLB_CBS_BOS_NYY', 'CBS Sports', FIRST_PITCH));
+    const nextDay = new Date(FIRST_PITCH.getTime() + 24 * 60 * 60_000);
+    await resolver.resolve('MLB', reading('MLB_ESPN_401700009', 'ESPN API', nextDay));
+
+    expect(await resolver.resolve('MLB', reading('MLB_CBS_BOS_NYY', 'CBS Sports', nextDay))).toBe('MLB_CBS_BOS_NYY');
+  });
+});
+
+describe('ScoresAgent with multiple sources', () => {
+  it('reconciles and persists one game when sources report it under different ids', async () => {
+    const storage = new MemStorage();
+    const source: IScoreSource = {
+      fetchRecentGames: async () => [],
+      fetchLive: async () => [
+        reading('MLB_ESPN_401700001', 'ESPN API', FIRST_PITCH, { homePts: 3, awayPts: 2 }),
+        reading('MLB_CBS_20250601_BOS_NYY', 'CBS Sports', FIRST_PITCH, { homePts: 3, awayPts: 1 }),
+      ],
+    };
+
+    const result = await new ScoresAgent(source, storage).runOnce({ teamIds: ['MLB_NYY'], sport: 'MLB', mode: 'live' });
+
+    expect(result.items.map((g) => g.id)).toEqual(['MLB_ESPN_401700001']);
+    expect(await storage.getGame('MLB_CBS_20250601_BOS_NYY')).toBeUndefined();
+    expect(await storage.getScoreDiscrepancies({ gameId: 'MLB_ESPN_401700001' })).toMatchObject([
+      { field: 'score', resolvedValue: '3-2' },
+    ]);
+  });
+
+  it('fetches box scores and plays under ESPN\'s id when another source created the canonical id', async () => {
+    const storage = new MemStorage();
+    const resolver = new GameIdentityResolver(storage);
+    const gameId = await resolver.resolve('MLB', reading('MLB_CBS_20250601_BOS_NYY', 'CBS Sports', FIRST_PITCH));
+    await resolver.resolve('MLB', reading('MLB_ESPN_401700001', 'ESPN API', FIRST_PITCH));
+    const game = await storage.createGame({ id: gameId, homeTeamId: 'MLB_NYY', awayTeamId: 'MLB_BOS', homePts: 3, awayPts: 2, status: 'in_progress', startTime: FIRST_PITCH });
+
+    const fetchBoxScore = vi.fn(async (id: string) => ({
+      gameId: id,
+      sport: 'MLB',
+      home: { pts: 3 },
+      away: { pts: 2 },
+      players: [],
+      updatedAt: new Date(),
+      source: 'espn',
+    }));
+    const fetchPlays = vi.fn(async () => []);
+    const agent = new ScoresAgent({ fetchRecentGames: async () => [], fetchBoxScore, fetchPlays } as IScoreSource, storage);
+
+    expect((await agent.syncBoxScore(gameId)).gameId).toBe('MLB_CBS_20250601_BOS_NYY');
+    await agent.ingestPlays(game);
+
+    expect(fetchBoxScore).toHaveBeenCalledWith('MLB_ESPN_401700001');
+    expect(fetchPlays).toHaveBeenCalledWith('MLB_ESPN_401700001', 0);
+    expect(await storage.getBoxScore(gameId)).toBeDefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../ws', () => ({
+  broadcast: vi.fn(),
+  broadcastUserTeamUpdate: vi.fn(),
+  broadcastUserTeamStatusChange: vi.fn(),
+  broadcastGamePlays: vi.fn(),
+}));
+
+import { parseEspnPlays } from '../../agents/adapters/espnPlays';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import { broadcastGamePlays } from '../../ws';
+import type { GamePlay, IScoreSource } from '../../agents/types';
+
+const HEADER = {
+  competitions: [{
+    competitors: [
+      { homeAway: 'home', team: { id: '2', abbreviation: 'BOS' } },
+      { homeAway: 'away', team: { id: '13', abbreviation: 'LAL' } },
+    ],
+  }],
+};
+
+const NBA_SUMMARY = {
+  header: HEADER,
+  plays: [
+    { id: 'a', sequenceNumber: '4', text: 'Jayson Tatum makes 26-foot three point jumper', type: { text: 'Jump Shot' }, period: { number: 1 }, clock: { displayValue: '11:32' }, team: { id: '2' }, scoringPlay: true, scoreValue: 3, homeScore: 3, awayScore: 0, wallclock: '2025-10-22T23:41:05Z' },
+    { id: 'b', sequenceNumber: '7', text: 'LeBron James defensive rebound', type: { text: 'Defensive Rebound' }, period: { number: 1 }, clock: { displayValue: '11:10' }, team: { id: '13' }, homeScore: 3, awayScore: 0 },
+    { id: 'c', sequenceNumber: '2', text: '', type: { text: '' } },
+  ],
+};
+
+describe('parseEspnPlays', () => {
+  it('orders plays by sequence, maps teams and skips empty plays', () => {
+    const plays = parseEspnPlays('NBA', 'NBA_ESPN_401700010', NBA_SUMMARY);
+
+    expect(plays.map((p) => p.sequence)).toEqual([4, 7]);
+    expect(plays[0]).toMatchObject({
+      gameId: 'NBA_ESPN_401700010',
+      period: 'Q1',
+      clock: '11:32',
+      teamId: 'NBA_BOS',
+      playType: 'Jump Shot',
+      description: 'Jayson Tatum makes 26-foot three point jumper',
+      scoringPlay: true,
+      scoreValue: 3,
+      homePts: 3,
+      awayPts: 0,
+    });
+    expect(plays[0].occurredAt).toEqual(new Date('2025-10-22T23:41:05Z'));
+    expect(plays[1]).toMatchObject({ teamId: 'NBA_LAL', scoringPlay: false });
+  });
+
+  it('only returns plays after sinceSequence', () => {
+    expect(parseEspnPlays('NBA', 'NBA_ESPN_401700010', NBA_SUMMARY, 4).map((p) => p.sequence)).toEqual([7]);
+  });
+
+  it('reads NFL plays from drives without repeating the current drive', () => {
+    const touchdown = { id: 'p2', sequenceNumber: '120', text: 'D.Maye pass short right to H.Henry for 12 yards, TOUCHDOWN', period: { number: 2 }, scoringPlay: true, scoreValue: 6 };
+    const plays = parseEspnPlays('NFL', 'NFL_ESPN_401700011', {
+      header: {
+        competitions: [{
+          competitors: [
+            { homeAway: 'home', team: { id: '17', abbreviation: 'NE' } },
+            { homeAway: 'away', team: { id: '15', abbreviation: 'MIA' } },
+          ],
+        }],
+      },
+      drives: {
+        previous: [
+          { team: { id: '15' }, plays: [{ id: 'p1', sequenceNumber: '101', text: 'T.Tagovailoa pass incomplete', period: { number: 2 } }] },
+          { team: { id: '17' }, plays: [touchdown] },
+        ],
+        current: { team: { id: '17' }, plays: [touchdown] },
+      },
+    });
+
+    expect(plays).toHaveLength(2);
+    expect(plays[0]).toMatchObject({ sequence: 101, teamId: 'NFL_MIA', period: 'Q2' });
+    expect(plays[1]).toMatchObject({ sequence: 120, teamId: 'NFL_NE', scoringPlay: true, scoreValue: 6 });
+  });
+});
+
+describe('MemStorage game plays', () => {
+  it('ignores sequences that are already stored', async () => {
+    const storage = new MemStorage();
+    const base = { gameId: 'NBA_ESPN_1', description: 'play', scoringPlay: false };
+
+    const first = await storage.insertGamePlays([{ ...base, sequence: 2 }, { ...base, sequence: 1 }]);
+    const second = await storage.insertGamePlays([{ ...base, sequence: 2 }, { ...base, sequence: 3 }]);
+
+    expect(first.map((p) => p.sequence)).toEqual([1, 2]);
+    expect(second.map((p) => p.sequence)).toEqual([3]);
+    expect(await storage.getLatestGamePlaySequence('NBA_ESPN_1')).toBe(3);
+    expect((await storage.getGamePlays('NBA_ESPN_1', 1)).map((p) => p.sequence)).toEqual([2, 3]);
+  });
+});
+
+describe('ScoresAgent.ingestPlays', () => {
+  beforeEach(() => {
+    vi.mocked(broadcastGamePlays).mockClear();
+  });
+
+  it('asks for plays after the stored sequence and broadcasts only new ones', async () => {
+    const storage = new MemStorage();
+    const game = await storage.createGame({
+      id: 'NBA_ESPN_401700010',
+      homeTeamId: 'NBA_BOS',
+      awayTeamId: 'NBA_LAL',
+      homePts: 3,
+      awayPts: 0,
+      status: 'in_progress',
+      startTime: new Date('2025-10-22T23:30:00Z'),
+    });
+    const fetchPlays = vi.fn(async (gameId: string, since: number = 0): Promise<GamePlay[]> =>
+      parseEspnPlays('NBA', gameId, NBA_SUMMARY, since));
+    const source: IScoreSource = { fetchRecentGames: async () => [], fetchPlays };
+    const agent = new ScoresAgent(source, storage);
+
+    const first = await agent.ingestPlays(game);
+    expect(fetchPlays).toHaveBeenLastCalledWith(game.id, 0);
+    expect(first.map((p) => p.sequence)).toEqual([4, 7]);
+    expect(broadcastGamePlays).toHaveBeenCalledWith(game, first);
+
+    const second = await agent.ingestPlays(game);
+    expect(fetchPlays).toHaveBeenLastCalledWith(game.id, 7);
+    expect(second).toEqual([]);
+    expect(broadcastGamePlays).toHaveBeenCalledTimes(1);
+  });
+});
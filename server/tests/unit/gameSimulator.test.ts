@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../ws', () => ({
+  broadcast: vi.fn(),
+  broadcastUserTeamUpdate: vi.fn(),
+  broadcastUserTeamStatusChange: vi.fn(),
+  broadcastGamePlays: vi.fn(),
+}));
+
+import { GameSimulator, SimulatedScoreSource } from '../../agents/adapters/simulatedScoreSource';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import { ValidationError } from '../../types/errors';
+
+// Deterministic uniform [0, 1) generator
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const NEVER_SCORES = () => 0.99;
+
+describe('GameSimulator', () => {
+  let wall: number;
+  const now = () => wall;
+
+  beforeEach(() => {
+    wall = Date.parse('2025-11-01T19:00:00Z');
+  });
+
+  it('moves a game from scheduled through a running clock to final', () => {
+    const sim = new GameSimulator({ now, random: seeded(7) });
+    const game = sim.create({ sport: 'nba', homeTeamId: 'BOS', awayTeamId: 'NBA_LAL', startTime: new Date(wall + 60_000), speed: 10 });
+    expect(game).toMatchObject({ homeTeamId: 'NBA_BOS', awayTeamId: 'NBA_LAL', status: 'scheduled' });
+
+    wall += 30_000;
+    expect(sim.toGameScore(sim.get(game.gameId)!)).toMatchObject({ status: 'scheduled', period: null, homePts: 0 });
+
+    wall += 60_000; // 30 wall seconds after tip-off at 10x = 5:00 played
+    const live = sim.toGameScore(sim.get(game.gameId)!);
+    expect(live).toMatchObject({ status: 'in_progress', period: '1', timeRemaining: '7:00', source: 'simulator' });
+    expect(live.homePts + live.awayPts).toBeGreaterThan(0);
+
+    const final = sim.jump(game.gameId, { to: 'final' });
+    expect(final.status).toBe('final');
+    expect(final.homePts).not.toBe(final.awayPts);
+    expect(final.homePts + final.awayPts).toBeGreaterThan(150);
+    expect(sim.toGameScore(final).timeRemaining).toBeNull();
+  });
+
+  it('stops the clock while paused', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    const { gameId } = sim.create({ sport: 'NHL', homeTeamId: 'BOS', awayTeamId: 'TOR', speed: 60 });
+    wall += 10_000;
+    sim.pause(gameId);
+    wall += 60_000;
+    expect(sim.toGameScore(sim.get(gameId)!)).toMatchObject({ period: '1', timeRemaining: '10:00' });
+
+    sim.start(gameId);
+    wall += 10_000;
+    expect(sim.toGameScore(sim.get(gameId)!)).toMatchObject({ period: '2', timeRemaining: '20:00' });
+  });
+
+  it('plays overtime when regulation ends tied', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    const { gameId } = sim.create({ sport: 'NBA', homeTeamId: 'BOS', awayTeamId: 'LAL' });
+
+    sim.jump(gameId, { period: 4, clockSeconds: 1 });
+    sim.setScore(gameId, 100, 100);
+    const overtime = sim.jump(gameId, { seconds: 2 });
+    expect(sim.toGameScore(overtime)).toMatchObject({ status: 'in_progress', period: 'OT', timeRemaining: '4:59' });
+
+    sim.setScore(gameId, 103, 100);
+    const final = sim.jump(gameId, { to: 'final' });
+    expect(sim.toGameScore(final)).toMatchObject({ status: 'final', period: 'OT', homePts: 103, awayPts: 100 });
+  });
+
+  it('settles a tied NHL game with a shootout after sudden-death overtime', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    const { gameId } = sim.create({ sport: 'NHL', homeTeamId: 'BOS', awayTeamId: 'TOR' });
+    sim.jump(gameId, { period: 4 });
+    expect(sim.toGameScore(sim.get(gameId)!)).toMatchObject({ period: 'OT', timeRemaining: '5:00' });
+
+    const final = sim.jump(gameId, { to: 'final' });
+    expect(sim.toGameScore(final)).toMatchObject({ status: 'final', period: 'SO', homePts: 0, awayPts: 1 });
+  });
+
+  it('skips the bottom of the ninth for a leading home team and ends on a walk-off', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    const skipped = sim.create({ sport: 'MLB', homeTeamId: 'NYY', awayTeamId: 'BOS' });
+    sim.jump(skipped.gameId, { period: 17 });
+    expect(sim.toGameScore(sim.setScore(skipped.gameId, 3, 1))).toMatchObject({ period: '9', timeRemaining: 'Top' });
+    expect(sim.jump(skipped.gameId, { to: 'final' })).toMatchObject({ status: 'final', period: 17 });
+
+    const walkOff = sim.create({ sport: 'MLB', homeTeamId: 'NYY', awayTeamId: 'BOS' });
+    sim.jump(walkOff.gameId, { period: 20, clockSeconds: 60 });
+    sim.setScore(walkOff.gameId, 2, 1);
+    const final = sim.jump(walkOff.gameId, { seconds: 1 });
+    expect(sim.toGameScore(final)).toMatchObject({ status: 'final', period: '10', homePts: 2 });
+  });
+
+  it('lets soccer matches end in a draw', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    const { gameId } = sim.create({ sport: 'EPL', homeTeamId: 'ARS', awayTeamId: 'CHE' });
+    sim.jump(gameId, { period: 2, clockSeconds: 20 * 60 });
+    expect(sim.toGameScore(sim.get(gameId)!)).toMatchObject({ period: '2H', timeRemaining: "66'", soccer: { phase: 'second_half', minute: 66 } });
+
+    const final = sim.toGameScore(sim.jump(gameId, { to: 'final' }));
+    expect(final).toMatchObject({ status: 'final', period: 'FT', soccer: { phase: 'full_time', result: 'draw' } });
+  });
+
+  it('rejects unsupported sports, backwards jumps and bad scores', () => {
+    const sim = new GameSimulator({ now, random: NEVER_SCORES });
+    expect(() => sim.create({ sport: 'CRICKET', homeTeamId: 'A', awayTeamId: 'B' })).toThrow(ValidationError);
+    const { gameId } = sim.create({ sport: 'NFL', homeTeamId: 'KC', awayTeamId: 'BUF' });
+    sim.jump(gameId, { period: 3 });
+    expect(() => sim.jump(gameId, { period: 2 })).toThrow('Cannot jump backwards');
+    expect(() => sim.setScore(gameId, -1, 0)).toThrow(ValidationError);
+    expect(() => sim.pause('NFL_SIM_missing')).toThrow('No simulated game');
+  });
+});
+
+describe('SimulatedScoreSource', () => {
+  it('feeds consistent, advancing scores through the scores pipeline', async () => {
+    let wall = Date.parse('2025-11-01T19:00:00Z');
+    const sim = new GameSimulator({ now: () => wall, random: seeded(42) });
+    const storage = new MemStorage();
+    const agent = new ScoresAgent(new SimulatedScoreSource('NBA', sim), storage);
+    const run = () => agent.runOnce({ teamIds: ['NBA_BOS', 'NBA_LAL'], sport: 'NBA', mode: 'live' });
+
+    await run();
+    const [game] = sim.list('NBA');
+    expect(game).toMatchObject({ homeTeamId: 'NBA_BOS', awayTeamId: 'NBA_LAL' });
+
+    sim.setSpeed(game.gameId, 5); // five game minutes per wall minute
+    const seen: Array<{ homePts: number; awayPts: number }> = [];
+    for (let i = 0; i < 5; i++) {
+      wall += 60_000;
+      await run();
+      seen.push((await storage.getGame(game.gameId))!);
+    }
+
+    expect(sim.list('NBA')).toHaveLength(1);
+    for (let i = 1; i < seen.length; i++) {
+      expect(seen[i].homePts).toBeGreaterThanOrEqual(seen[i - 1].homePts);
+      expect(seen[i].awayPts).toBeGreaterThanOrEqual(seen[i - 1].awayPts);
+    }
+    expect(await storage.getGame(game.gameId)).toMatchObject({ status: 'in_progress', period: '3' });
+  });
+});
@@ -2,13 +2,17 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as queuesMod from "../../jobs/queues";
 import * as workers from "../../jobs/workers";
 import * as storageMod from "../../storage";
+import { config } from "../../config";
 
 describe("maintenance performMaintenance", () => {
+  const pollingMode = config.scoresPollingMode;
   let cleanMock: any;
   let fakeClient: any;
+  let removeRepeatableByKey: any;
 
   beforeEach(() => {
     vi.restoreAllMocks();
+    (config as any).scoresPollingMode = "fixed";
     cleanMock = vi.fn().mockImplementation((_grace: number, _limit: number, type: string) => {
       if (type === "completed") return Promise.resolve(["c1", "c2"]);
       if (type === "failed") return Promise.resolve(["f1"]);
@@ -21,7 +25,7 @@ describe("maintenance performMaintenance", () => {
       { id: "scores_ingest:obsolete_team", key: "rep3" },
       { id: "scores_ingest:featured:SOCCER", key: "rep4" },
     ]);
-    const removeRepeatableByKey = vi.fn().mockResolvedValue(undefined);
+    removeRepeatableByKey = vi.fn().mockResolvedValue(undefined);
     vi.spyOn(queuesMod, "queues", "get").mockReturnValue({
       scoresIngest: { clean: cleanMock, getRepeatableJobs, removeRepeatableByKey } as any,
     } as any);
@@ -54,6 +58,7 @@ describe("maintenance performMaintenance", () => {
   });
 
   afterEach(() => {
+    (config as any).scoresPollingMode = pollingMode;
     vi.restoreAllMocks();
   });
 
@@ -78,4 +83,13 @@ describe("maintenance performMaintenance", () => {
     expect(delCalls[0]).toEqual(["scores:teams:NBA_LAL", "scores:teams:NBA_BOS"]);
     expect(delCalls[1]).toEqual(["scores:sport:NBA:featured", "scores:sport:NFL:featured", "scores:sport:MLB:featured"]);
   });
-});
\ No newline at end of file
+
+  it("drops per-team repeatables when polling adaptively", async () => {
+    (config as any).scoresPollingMode = "adaptive";
+    const summary = await workers.performMaintenance(fakeClient);
+    // Both per-team repeatables and the unknown featured league go; the NBA featured job stays
+    expect(summary.removedRepeatables).toBe(3);
+    const removedKeys = removeRepeatableByKey.mock.calls.map(([key]: any[]) => key).sort();
+    expect(removedKeys).toEqual(["rep1", "rep3", "rep4"]);
+  });
+});
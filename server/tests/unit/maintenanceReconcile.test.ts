@@ -1,10 +1,19 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import * as queuesMod from "../../jobs/queues";
 import * as workers from "../../jobs/workers";
 import * as storageMod from "../../storage";
+import { config } from "../../config";
 
 describe("maintenance reconcile repeatables", () => {
+  const pollingMode = config.scoresPollingMode;
+
+  afterEach(() => {
+    (config as any).scoresPollingMode = pollingMode;
+    vi.restoreAllMocks();
+  });
+
   it("removes obsolete repeatable jobs not in desired set", async () => {
+    (config as any).scoresPollingMode = "fixed";
     vi.spyOn(storageMod, "storage", "get").mockReturnValue({
       getTeamsByLeague: async (league: string) => {
         if (league === "NBA") return [{ id: "nba_bos" }, { id: "nba_lal" }];
@@ -32,4 +41,25 @@ describe("maintenance reconcile repeatables", () => {
     expect(removeRepeatableByKey).toHaveBeenCalledWith("rep3");
     expect(removeRepeatableByKey).toHaveBeenCalledWith("rep4");
   });
-});
\ No newline at end of file
+
+  it("drops per-team repeatables in adaptive mode and keeps the schedule sync and poll tick", async () => {
+    (config as any).scoresPollingMode = "adaptive";
+    vi.spyOn(storageMod, "storage", "get").mockReturnValue({
+      getTeamsByLeague: async () => [{ id: "nba_bos" }],
+    } as any);
+
+    const getRepeatableJobs = vi.fn().mockResolvedValue([
+      { id: "scores_ingest:nba_bos", key: "rep1" },
+      { id: "scores_ingest:featured:NBA", key: "rep2" },
+      { id: "scores_ingest:schedule:NBA", key: "rep3" },
+      { id: "scores_ingest:poll", key: "rep4" },
+    ]);
+    const removeRepeatableByKey = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(queuesMod, "queues", "get").mockReturnValue({
+      scoresIngest: { getRepeatableJobs, removeRepeatableByKey } as any,
+    } as any);
+
+    expect(await workers.reconcileRepeatableScoresJobs()).toBe(1);
+    expect(removeRepeatableByKey).toHaveBeenCalledWith("rep1");
+  });
+});
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MinHash, type MinHashSignature } from '../../utils/deduplication/minHash';
+import { lshBandKeys, lshCandidateProbability } from '../../utils/deduplication/lsh';
 import testUtils from '../helpers/testUtils';
 
 describe('MinHash - Signature Generation', () => {
@@ -627,3 +628,38 @@ describe('MinHash - Global Singleton', () => {
     expect(signature.shingleSize).toBe(3);
   });
 });
+
+describe('MinHash - LSH Banding', () => {
+  let minHash: MinHash;
+
+  beforeEach(() => {
+    minHash = new MinHash();
+  });
+
+  it('should produce one band key per 8 rows, tagged with the band index', () => {
+    const keys = lshBandKeys(minHash.signature('Lakers sign veteran guard'));
+
+    expect(keys).toHaveLength(16);
+    keys.forEach((key, band) => expect(key).toMatch(new RegExp(`^b${band}:[0-9a-f]{8}$`)));
+  });
+
+  it('should share buckets for near-duplicates but not for unrelated text', () => {
+    const original = lshBandKeys(minHash.signature(
+      'The Lakers announced the signing of a veteran guard on Tuesday afternoon.'
+    ));
+    const edited = lshBandKeys(minHash.signature(
+      'The Lakers announced the signing of a veteran guard on Tuesday afternoon!'
+    ));
+    const unrelated = lshBandKeys(minHash.signature(
+      'Celtics list two starters as questionable ahead of the road trip.'
+    ));
+
+    expect(edited.some((key) => original.includes(key))).toBe(true);
+    expect(unrelated.some((key) => original.includes(key))).toBe(false);
+  });
+
+  it('should almost always surface pairs at the duplicate threshold', () => {
+    expect(lshCandidateProbability(0.85)).toBeGreaterThan(0.99);
+    expect(lshCandidateProbability(0.3)).toBeLessThan(0.01);
+  });
+});
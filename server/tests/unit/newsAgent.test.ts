@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemStorage } from '../../storage';
+import { NewsAgent } from '../../agents/newsAgent';
+import { minHash } from '../../utils/deduplication';
+import { bm25Manager } from '../../utils/bm25/indexManager';
+import { TeamMapper } from '../../utils/scraping/teamMapper';
+
+const FEED = `<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Beat Feed</title>
+    <item>
+      <title>Lakers sign veteran guard</title>
+      <link>https://news.example.com/lakers-sign-guard</link>
+      <description>The Lakers announced the signing of a veteran guard on Tuesday.</description>
+      <pubDate>Tue, 14 Oct 2025 18:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Celtics injury report</title>
+      <link>https://news.example.com/celtics-injury</link>
+      <description>The Celtics listed two starters as questionable.</description>
+    </item>
+    <item>
+      <title>League office memo</title>
+      <link>https://news.example.com/memo</link>
+      <description>No team is mentioned in this item.</description>
+    </item>
+  </channel>
+</rss>`;
+
+describe('NewsAgent', () => {
+  let storage: MemStorage;
+  let fetcher: { fetch: ReturnType<typeof vi.fn> };
+  let dedupe: { checkAndGenerateSignature: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+    await storage.createTeam({ id: 'NBA_BOS', league: 'NBA', code: 'BOS', name: 'Boston Celtics' });
+
+    fetcher = { fetch: vi.fn().mockResolvedValue(FEED) };
+    dedupe = {
+      checkAndGenerateSignature: vi.fn(async (content: string) => ({
+        result: { isDuplicate: false },
+        signature: minHash.signature(content),
+      })),
+    };
+    vi.spyOn(bm25Manager, 'addArticle').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ingests feed items mapped to known teams and updates source counters', async () => {
+    const source = await storage.createNewsSource({
+      name: 'Beat Feed',
+      domain: 'news.example.com',
+      sourceType: 'rss',
+      rssUrl: 'https://news.example.com/feed.xml',
+    });
+
+    const agent = new NewsAgent(storage, fetcher as any, dedupe as any);
+    const result = await agent.runOnce();
+
+    expect(fetcher.fetch).toHaveBeenCalledWith('https://news.example.com/feed.xml', expect.any(Object));
+    expect(result).toEqual({ sources: 1, persisted: 2, clustered: 0, duplicates: 0, skipped: 1, errors: 0 });
+
+    const lakers = await storage.getArticlesByTeam('NBA_LAL');
+    expect(lakers).toHaveLength(1);
+    expect(lakers[0].sourceUrl).toBe('https://news.example.com/lakers-sign-guard');
+    expect(lakers[0].publishedAt.toISOString()).toBe('2025-10-14T18:00:00.000Z');
+    expect(lakers[0].minHash).toBeTruthy();
+    expect(lakers[0].contentHash).toBeTruthy();
+    expect(lakers[0].isProcessed).toBe(false);
+
+    const updated = await storage.getNewsSource(source.id);
+    expect(updated?.totalArticles).toBe(2);
+    expect(updated?.relevantArticles).toBe(2);
+    expect(updated?.lastScrapedAt).toBeInstanceOf(Date);
+    expect(updated?.errorMessage).toBeNull();
+  });
+
+  it('skips already ingested urls and counts duplicates', async () => {
+    const source = await storage.createNewsSource({
+      name: 'Beat Feed',
+      domain: 'news.example.com',
+      sourceType: 'rss',
+      rssUrl: 'https://news.example.com/feed.xml',
+    });
+    await storage.createArticle({
+      teamId: 'NBA_LAL',
+      title: 'Lakers sign veteran guard',
+      content: 'Existing copy',
+      sourceUrl: 'https://news.example.com/lakers-sign-guard',
+      sourceName: 'Beat Feed',
+      sourceType: 'rss',
+      publishedAt: new Date(),
+    });
+    dedupe.checkAndGenerateSignature.mockResolvedValue({
+      result: { isDuplicate: true, similarArticleId: 'other', similarity: 0.9 },
+      signature: { hashes: [], shingleSize: 3, numHashes: 128 },
+    });
+
+    const agent = new NewsAgent(storage, fetcher as any, dedupe as any);
+    const result = await agent.scrapeSource(source);
+
+    expect(result).toMatchObject({ persisted: 0, duplicates: 1, skipped: 2 });
+    const updated = await storage.getNewsSource(source.id);
+    expect(updated?.duplicateArticles).toBe(1);
+  });
+
+  it('records fetch failures on the source without throwing', async () => {
+    const source = await storage.createNewsSource({
+      name: 'Broken Feed',
+      domain: 'broken.example.com',
+      sourceType: 'rss',
+      rssUrl: 'https://broken.example.com/feed.xml',
+    });
+    fetcher.fetch.mockRejectedValue(new Error('HTTP 503: Service Unavailable'));
+
+    const agent = new NewsAgent(storage, fetcher as any, dedupe as any);
+    const result = await agent.runOnce({ sourceIds: [source.id] });
+
+    expect(result.errors).toBe(1);
+    const updated = await storage.getNewsSource(source.id);
+    expect(updated?.errorMessage).toContain('HTTP 503');
+    expect(updated?.lastErrorAt).toBeInstanceOf(Date);
+  });
+
+  it('does not assign nicknames shared across leagues to any team', async () => {
+    await storage.createTeam({ id: 'NHL_NYR', league: 'NHL', code: 'NYR', name: 'New York Rangers' });
+    await storage.createTeam({ id: 'MLB_TEX', league: 'MLB', code: 'TEX', name: 'Texas Rangers' });
+    fetcher.fetch.mockResolvedValue(`<?xml version="1.0"?>
+<rss version="2.0">
+  <channel>
+    <title>Beat Feed</title>
+    <item>
+      <title>Rangers rally late</title>
+      <link>https://news.example.com/rangers-rally</link>
+      <description>The Rangers scored twice in the final minutes.</description>
+    </item>
+  </channel>
+</rss>`);
+    const source = await storage.createNewsSource({
+      name: 'Beat Feed',
+      domain: 'news.example.com',
+      sourceType: 'rss',
+      rssUrl: 'https://news.example.com/feed.xml',
+    });
+
+    const agent = new NewsAgent(storage, fetcher as any, dedupe as any);
+    const result = await agent.scrapeSource(source);
+
+    expect(result).toMatchObject({ persisted: 0, skipped: 1 });
+    expect(TeamMapper.findTeamsInText('Rangers rally late')).toEqual([]);
+    expect(TeamMapper.findTeamsInText('Rangers rally late', ['NHL'])).toEqual([{ teamId: 'NHL_NYR', mentions: 1 }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'http';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, isDev: true, allowDevHeader: true, useMemStorage: true } };
+});
+
+import { registerRoutes } from '../../routes';
+import { ScoresAgent } from '../../agents/scoresAgent';
+
+describe('GET /api/rankings/:league refresh', () => {
+  let app: express.Express;
+  let server: Server;
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    if (server.listening) await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('shares one upstream sync between concurrent requests for stale rankings', async () => {
+    let resolveSync!: () => void;
+    const released = new Promise<void>((resolve) => { resolveSync = resolve; });
+    const syncRankings = vi.spyOn(ScoresAgent.prototype, 'syncRankings').mockImplementation(async () => {
+      await released;
+      return [{
+        id: 'NCAAF_ap_ALA',
+        league: 'NCAAF',
+        poll: 'ap',
+        season: 2026,
+        week: 8,
+        teamId: 'NCAAF_ALA',
+        teamName: 'Alabama',
+        rank: 1,
+        fetchedAt: new Date(),
+      } as any];
+    });
+
+    const responses = Promise.all([1, 2, 3].map(() => request(app).get('/api/rankings/ncaaf')));
+    await vi.waitFor(() => expect(syncRankings).toHaveBeenCalled());
+    // Let the other requests reach the route while the first sync is still pending
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    resolveSync();
+
+    for (const res of await responses) {
+      expect(res.status).toBe(200);
+      expect(res.body.teams).toEqual([expect.objectContaining({ teamName: 'Alabama', rank: 1 })]);
+    }
+    expect(syncRankings).toHaveBeenCalledTimes(1);
+  });
+});
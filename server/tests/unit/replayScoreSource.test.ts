@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../../ws', () => ({
+  broadcast: vi.fn(),
+  broadcastUserTeamUpdate: vi.fn(),
+  broadcastUserTeamStatusChange: vi.fn(),
+  broadcastGamePlays: vi.fn(),
+}));
+
+import { ethicalFetcher } from '../../utils/scraping/fetcher';
+import { FixtureStore } from '../../utils/scraping/fixtureStore';
+import { globalRobotsChecker } from '../../utils/scraping/robotsChecker';
+import { globalRateLimiter } from '../../utils/scraping/rateLimiter';
+import { ReplayScoreSource } from '../../agents/adapters/replayScoreSource';
+import { CollegeAdapter } from '../../agents/adapters/collegeAdapter';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import { broadcastUserTeamUpdate } from '../../ws';
+
+const SCOREBOARD_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/college-football/scoreboard?groups=80&limit=400';
+const T0 = new Date('2025-11-01T19:30:00Z');
+
+function scoreboard(state: 'pre' | 'in' | 'post', period: number, homePts: number, awayPts: number): string {
+  return JSON.stringify({
+    events: [{
+      id: '401752001',
+      date: T0.toISOString(),
+      status: { displayClock: '8:00', period, type: { name: state === 'post' ? 'STATUS_FINAL' : 'STATUS_IN_PROGRESS', state } },
+      competitions: [{
+        date: T0.toISOString(),
+        competitors: [
+          { homeAway: 'home', score: String(homePts), team: { abbreviation: 'UGA', location: 'Georgia', name: 'Bulldogs' } },
+          { homeAway: 'away', score: String(awayPts), team: { abbreviation: 'FLA', location: 'Florida', name: 'Gators' } },
+        ],
+      }],
+    }],
+  });
+}
+
+describe('EthicalFetcher fixture modes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    vi.spyOn(globalRobotsChecker, 'canFetch').mockResolvedValue(true);
+    vi.spyOn(globalRateLimiter, 'waitIfNeeded').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    ethicalFetcher.setFixtureMode('live');
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records live responses and replays them by URL without the network', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('first'))
+      .mockResolvedValueOnce(new Response('second'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    ethicalFetcher.setFixtureMode('record', { dir });
+    await ethicalFetcher.fetch(SCOREBOARD_URL);
+    await ethicalFetcher.fetch(SCOREBOARD_URL);
+
+    const stored = new FixtureStore(dir).get(SCOREBOARD_URL);
+    expect(stored?.responses.map((r) => r.body)).toEqual(['first', 'second']);
+
+    ethicalFetcher.setFixtureMode('replay', { dir });
+    expect(await ethicalFetcher.fetch(SCOREBOARD_URL)).toBe('first');
+    expect(await ethicalFetcher.fetch(SCOREBOARD_URL)).toBe('second');
+    expect(await ethicalFetcher.fetch(SCOREBOARD_URL)).toBe('second');
+    await expect(ethicalFetcher.fetch('https://www.espn.com/nhl/scoreboard')).rejects.toThrow('No recorded fixture');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('matches recordings made on another day by ignoring the dates param', async () => {
+    await new FixtureStore(dir).append('https://site.api.espn.com/nhl/scoreboard?dates=20250130', 'recorded');
+
+    ethicalFetcher.setFixtureMode('replay', { dir });
+    expect(await ethicalFetcher.fetch('https://site.api.espn.com/nhl/scoreboard?dates=20251019')).toBe('recorded');
+  });
+
+  it('appends concurrent recordings of a URL one line each, in order', async () => {
+    const store = new FixtureStore(dir);
+    await Promise.all(['a', 'b', 'c'].map((body) => store.append(SCOREBOARD_URL, body)));
+
+    const lines = fs.readFileSync(store.fileFor(SCOREBOARD_URL), 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).body)).toEqual(['a', 'b', 'c']);
+    expect(new FixtureStore(dir).get(SCOREBOARD_URL)?.responses.map((r) => r.body)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('ReplayScoreSource', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    const store = new FixtureStore(dir);
+    await store.append(SCOREBOARD_URL, scoreboard('in', 1, 0, 0), T0);
+    await store.append(SCOREBOARD_URL, scoreboard('in', 2, 7, 3), new Date(T0.getTime() + 60 * 60_000));
+    await store.append(SCOREBOARD_URL, scoreboard('post', 4, 24, 17), new Date(T0.getTime() + 180 * 60_000));
+    vi.mocked(broadcastUserTeamUpdate).mockClear();
+  });
+
+  afterEach(() => {
+    ethicalFetcher.setFixtureMode('live');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drives the live pipeline through the recorded timeline at the chosen speed', async () => {
+    let wall = 0;
+    const source = new ReplayScoreSource('NCAAF', { dir, speed: 60, source: new CollegeAdapter('NCAAF'), now: () => wall });
+    const storage = new MemStorage();
+    const agent = new ScoresAgent(source, storage);
+    const run = () => agent.runOnce({ teamIds: ['NCAAF_UGA'], sport: 'NCAAF', mode: 'live' });
+
+    await run();
+    expect(await storage.getGame('NCAAF_ESPN_401752001')).toMatchObject({ homePts: 0, awayPts: 0, status: 'in_progress', period: 'Q1' });
+
+    wall = 60_000; // one wall minute = one recorded hour
+    await run();
+    expect(await storage.getGame('NCAAF_ESPN_401752001')).toMatchObject({ homePts: 7, awayPts: 3, period: 'Q2' });
+    expect(source.isFinished()).toBe(false);
+
+    source.setSpeed(120);
+    wall = 120_000;
+    await run();
+    expect(await storage.getGame('NCAAF_ESPN_401752001')).toMatchObject({ homePts: 24, awayPts: 17, status: 'final' });
+    expect(source.isFinished()).toBe(true);
+    expect(broadcastUserTeamUpdate).toHaveBeenCalledTimes(2);
+
+    source.stop();
+    expect(ethicalFetcher.getFixtureMode()).toBe('live');
+  });
+
+  it('refuses to start without recordings', () => {
+    const empty = new ReplayScoreSource('NCAAF', { dir: path.join(dir, 'missing'), source: new CollegeAdapter('NCAAF') });
+    expect(() => empty.start()).toThrow('No recorded fixtures');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ValidationService, sourceKey } from '../../agents/validationService';
+import { ScoresAgent } from '../../agents/scoresAgent';
+import { MemStorage } from '../../storage';
+import { metrics } from '../../metrics';
+import type { GameScore, IScoreSource } from '../../agents/types';
+
+const GAME_ID = 'NHL_ESPN_20251020_BOS_TOR';
+const START = new Date('2025-10-20T23:00:00Z');
+
+function reading(source: string, homePts: number, awayPts: number, overrides: Partial<GameScore> = {}): GameScore {
+  return {
+    gameId: GAME_ID,
+    homeTeamId: 'NHL_TOR',
+    awayTeamId: 'NHL_BOS',
+    homePts,
+    awayPts,
+    status: 'in_progress',
+    period: 'P2',
+    timeRemaining: '10:00',
+    startTime: START,
+    source,
+    fetchedAt: new Date('2025-10-20T23:40:00Z'),
+    ...overrides,
+  };
+}
+
+const WEIGHTS = { espn: 1, nhl: 0.9, cbs: 0.7 };
+
+describe('ValidationService reconciliation', () => {
+  it('maps adapter source labels onto weight keys', () => {
+    expect(['ESPN API', 'ESPN.com', 'CBS Sports', 'NHL.com', undefined].map(sourceKey))
+      .toEqual(['espn', 'espn', 'cbs', 'nhl', 'unknown']);
+  });
+
+  it('lets agreeing lower-trust sources outvote a single higher-trust source', () => {
+    const svc = new ValidationService({ weights: WEIGHTS });
+    const res = svc.validateForTeams([
+      reading('ESPN API', 2, 1),
+      reading('NHL.com', 3, 1, { period: 'P2', timeRemaining: '8:12' }),
+      reading('CBS Sports', 3, 1),
+    ], ['NHL_TOR']);
+
+    expect(res.items).toHaveLength(1);
+    expect(res.items[0]).toMatchObject({ homePts: 3, awayPts: 1, source: 'NHL.com', timeRemaining: '8:12' });
+    expect(res.accuracy).toBe(0);
+    expect(res.sourceAgreement).toEqual({
+      espn: { agreed: 0, total: 1 },
+      nhl: { agreed: 1, total: 1 },
+      cbs: { agreed: 1, total: 1 },
+    });
+    expect(res.discrepancies).toEqual([{
+      gameId: GAME_ID,
+      field: 'score',
+      resolvedValue: '3-1',
+      resolvedSource: 'NHL.com',
+      readings: [
+        expect.objectContaining({ source: 'ESPN API', value: '2-1', weight: 1 }),
+        expect.objectContaining({ source: 'NHL.com', value: '3-1', weight: 0.9 }),
+        expect.objectContaining({ source: 'CBS Sports', value: '3-1', weight: 0.7 }),
+      ],
+    }]);
+  });
+
+  it('counts only the freshest reading from each source and breaks ties by freshness', () => {
+    const svc = new ValidationService({ weights: { espn: 1, cbs: 1 } });
+    const res = svc.validateForTeams([
+      reading('ESPN API', 1, 1, { fetchedAt: new Date('2025-10-20T23:39:00Z') }),
+      reading('ESPN.com', 2, 1, { fetchedAt: new Date('2025-10-20T23:41:00Z') }),
+      reading('CBS Sports', 1, 2, { fetchedAt: new Date('2025-10-20T23:40:00Z') }),
+    ], []);
+
+    expect(res.items[0]).toMatchObject({ homePts: 2, awayPts: 1, source: 'ESPN.com' });
+  });
+
+  it('never moves a score or status backwards from the persisted game', () => {
+    const svc = new ValidationService({ weights: WEIGHTS });
+    const previous = new Map([[GAME_ID, { homePts: 3, awayPts: 2, status: 'final' }]]);
+    const res = svc.validateForTeams([reading('CBS Sports', 3, 1)], [], previous);
+
+    expect(res.items[0]).toMatchObject({ homePts: 3, awayPts: 2, status: 'final' });
+    expect(res.discrepancies).toEqual([]);
+    expect(res.accuracy).toBe(1);
+  });
+
+  it('reports status disagreements resolved by weight', () => {
+    const svc = new ValidationService({ weights: WEIGHTS });
+    const res = svc.validateForTeams([
+      reading('ESPN API', 4, 2, { status: 'final' }),
+      reading('CBS Sports', 4, 2),
+    ], []);
+
+    expect(res.items[0].status).toBe('final');
+    expect(res.discrepancies!.map((d) => [d.field, d.resolvedValue])).toEqual([['status', 'final']]);
+  });
+
+  it('carries the sub-state of the resolved status and lets a delayed game resume', () => {
+    const svc = new ValidationService({ weights: WEIGHTS });
+    const delayed = svc.validateForTeams([
+      reading('ESPN API', 2, 1, { status: 'delayed', statusDetail: 'weather', statusReason: 'Delayed - Lightning' }),
+      reading('CBS Sports', 2, 1, { statusDetail: 'intermission' }),
+    ], []);
+    expect(delayed.items[0]).toMatchObject({ status: 'delayed', statusDetail: 'weather', statusReason: 'Delayed - Lightning' });
+
+    const previous = new Map([[GAME_ID, { homePts: 2, awayPts: 1, status: 'delayed' }]]);
+    const resumed = svc.validateForTeams([reading('ESPN API', 2, 1)], [], previous);
+    expect(resumed.items[0]).toMatchObject({ status: 'in_progress', statusDetail: undefined, statusReason: undefined });
+  });
+});
+
+describe('ScoresAgent reconciliation', () => {
+  it('persists discrepancies and reports source agreement to metrics', async () => {
+    const storage = new MemStorage();
+    const recordSpy = vi.spyOn(metrics, 'recordScoreReconciliation');
+    const source: IScoreSource = {
+      fetchRecentGames: async () => [],
+      fetchLive: async () => [reading('ESPN API', 2, 1), reading('CBS Sports', 1, 1, { fetchedAt: undefined })],
+    };
+    const agent = new ScoresAgent(source, storage);
+
+    const result = await agent.runOnce({ teamIds: ['NHL_TOR'], sport: 'NHL', mode: 'live' });
+
+    expect(result.items[0]).toMatchObject({ homePts: 2, awayPts: 1 });
+    expect(recordSpy).toHaveBeenCalledWith('NHL', expect.objectContaining({
+      accuracy: 0,
+      sourceAgreement: { espn: { agreed: 1, total: 1 }, cbs: { agreed: 0, total: 1 } },
+    }));
+
+    const [stored] = await storage.getScoreDiscrepancies({ gameId: GAME_ID });
+    expect(stored).toMatchObject({ field: 'score', resolvedValue: '2-1', resolvedSource: 'ESPN API', sources: ['ESPN API', 'CBS Sports'] });
+    const readings = JSON.parse(stored.readings);
+    expect(readings[1]).toMatchObject({ source: 'CBS Sports', value: '1-1' });
+    expect(readings[1].fetchedAt).toBeDefined();
+    recordSpy.mockRestore();
+  });
+});
@@ -20,6 +20,8 @@ describe('ScoresAgent - Live Mode Team Isolation', () => {
       ...game,
       period: game.period ?? null,
       timeRemaining: game.timeRemaining ?? null,
+      statusDetail: game.statusDetail ?? null,
+      statusReason: game.statusReason ?? null,
       cachedAt: new Date(),
     }));
   });
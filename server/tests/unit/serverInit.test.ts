@@ -51,7 +51,7 @@ vi.mock("../../vite", () => ({
   serveStatic: vi.fn(() => {}),
   log: vi.fn(() => {}),
 }));
-vi.mock("../../ws", () => ({ initWs: vi.fn(() => {}) }));
+vi.mock("../../ws", () => ({ initWs: vi.fn(() => {}), stopWsFanout: vi.fn(async () => {}) }));
 // Avoid importing queues/BullMQ via dev agent routes
 vi.mock("../../dev/agentRoutes", () => ({ attachDevAgentRoutes: vi.fn(() => {}) }));
 
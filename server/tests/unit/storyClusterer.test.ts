@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemStorage } from '../../storage';
+import { StoryClusterer } from '../../utils/deduplication';
+import { NewsAgent } from '../../agents/newsAgent';
+import { minHash } from '../../utils/deduplication';
+import { bm25Manager } from '../../utils/bm25/indexManager';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('StoryClusterer', () => {
+  let storage: MemStorage;
+  let clusterer: StoryClusterer;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    clusterer = new StoryClusterer(storage);
+  });
+
+  it('creates a cluster on first match and tracks outlets, span and canonical article', async () => {
+    const first = await storage.createArticle(createMockInsertArticle({ sourceName: 'ESPN', publishedAt: new Date('2025-01-10T12:00:00Z') }));
+    const second = await storage.createArticle(createMockInsertArticle({ sourceName: 'The Athletic', publishedAt: new Date('2025-01-10T13:00:00Z') }));
+    const cluster = await clusterer.attach(second, first);
+
+    expect(cluster.canonicalArticleId).toBe(first.id);
+    expect(cluster.articleCount).toBe(2);
+    expect(cluster.sourceCount).toBe(2);
+    expect((await storage.getArticle(first.id))?.clusterId).toBe(cluster.id);
+
+    // An earlier report surfacing later becomes the canonical article
+    const earlier = await storage.createArticle(createMockInsertArticle({ sourceName: 'ESPN', publishedAt: new Date('2025-01-10T11:00:00Z') }));
+    const updated = await clusterer.attach(earlier, second);
+
+    expect(updated.id).toBe(cluster.id);
+    expect(updated.canonicalArticleId).toBe(earlier.id);
+    expect(updated.articleCount).toBe(3);
+    expect(updated.sourceCount).toBe(2);
+    expect(updated.firstSeenAt.toISOString()).toBe('2025-01-10T11:00:00.000Z');
+    expect(updated.lastUpdatedAt.toISOString()).toBe('2025-01-10T13:00:00.000Z');
+  });
+
+  it('collapses clusters to their canonical article in the feed and describes the thread', async () => {
+    const first = await storage.createArticle(createMockInsertArticle({ sourceName: 'ESPN', publishedAt: new Date('2025-01-10T12:00:00Z') }));
+    const second = await storage.createArticle(createMockInsertArticle({ sourceName: 'The Athletic', publishedAt: new Date('2025-01-10T14:00:00Z') }));
+    const other = await storage.createArticle(createMockInsertArticle({ title: 'Lakers injury report', publishedAt: new Date('2025-01-10T13:00:00Z') }));
+    await clusterer.attach(second, first);
+
+    const feed = await storage.getArticlesFeed({ limit: 10, collapseClusters: true });
+    expect(feed.map((a) => a.id)).toEqual([other.id, first.id]);
+    expect(await storage.getArticlesFeed({ limit: 10 })).toHaveLength(3);
+
+    const threads = await clusterer.getThreads(feed.map((a) => a.clusterId));
+    const thread = threads.get(feed[1].clusterId!);
+    expect(threads.size).toBe(1);
+    expect(thread?.outletCount).toBe(2);
+    expect(thread?.sources.map((s) => s.sourceName)).toEqual(['ESPN', 'The Athletic']);
+  });
+
+  it('keeps the story in the feed when its canonical article is deleted or filtered out', async () => {
+    const first = await storage.createArticle(createMockInsertArticle({ sourceName: 'ESPN', category: 'trade', publishedAt: new Date('2025-01-10T12:00:00Z') }));
+    const second = await storage.createArticle(createMockInsertArticle({ sourceName: 'The Athletic', category: 'injury', publishedAt: new Date('2025-01-10T14:00:00Z') }));
+    await clusterer.attach(second, first);
+
+    const injuries = await storage.getArticlesFeed({ limit: 10, category: 'injury', collapseClusters: true });
+    expect(injuries.map((a) => a.id)).toEqual([second.id]);
+
+    await storage.deleteArticle(first.id);
+    const feed = await storage.getArticlesFeed({ limit: 10, collapseClusters: true });
+    expect(feed.map((a) => a.id)).toEqual([second.id]);
+  });
+});
+
+describe('NewsAgent story clustering', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps near-duplicates from another outlet and clusters them', async () => {
+    const storage = new MemStorage();
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+    vi.spyOn(bm25Manager, 'addArticle').mockResolvedValue();
+
+    const matched = await storage.createArticle(createMockInsertArticle({ sourceName: 'ESPN' }));
+    const source = await storage.createNewsSource({
+      name: 'Beat Feed',
+      domain: 'beat.example.com',
+      sourceType: 'rss',
+      rssUrl: 'https://beat.example.com/feed.xml',
+    });
+    const fetcher = {
+      fetch: vi.fn().mockResolvedValue(`<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Beat Feed</title>
+  <item>
+    <title>Lakers sign veteran guard</title>
+    <link>https://beat.example.com/lakers-sign-guard</link>
+    <description>The Lakers announced the signing of a veteran guard.</description>
+  </item>
+</channel></rss>`),
+    };
+    const dedupe = {
+      checkAndGenerateSignature: vi.fn(async (content: string) => ({
+        result: { isDuplicate: true, similarArticleId: matched.id, similarity: 0.9, matchedArticle: matched },
+        signature: minHash.signature(content),
+      })),
+    };
+
+    const agent = new NewsAgent(storage, fetcher as any, dedupe as any, new StoryClusterer(storage));
+    const result = await agent.scrapeSource(source);
+
+    expect(result).toMatchObject({ persisted: 1, clustered: 1, duplicates: 0 });
+    const articles = await storage.getArticlesByTeam('NBA_LAL');
+    expect(articles).toHaveLength(2);
+    expect(new Set(articles.map((a) => a.clusterId)).size).toBe(1);
+    expect(articles[0].clusterId).toBeTruthy();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemStorage } from '../../storage';
+import { SummaryAgent } from '../../agents/summaryAgent';
+import { ExtractiveSummaryProvider, extractCitationRefs } from '../../agents/summaryProviders';
+import type { ISummaryProvider, SummaryInput } from '../../agents/summaryProviders';
+import { bm25Manager } from '../../utils/bm25/indexManager';
+import { ValidationError } from '../../types/errors';
+import { createMockInsertArticle } from '../helpers/testUtils';
+
+describe('extractCitationRefs', () => {
+  it('collects single and grouped refs once each', () => {
+    expect(extractCitationRefs('Won big [A1]. Star hurt [A2, A3]. Again [A1].')).toEqual(['A1', 'A2', 'A3']);
+    expect(extractCitationRefs('No citations here [1] [B2].')).toEqual([]);
+  });
+});
+
+describe('SummaryAgent', () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('grounds the prompt in BM25-ranked articles and stores cited ids with the model', async () => {
+    const trade = await storage.createArticle(createMockInsertArticle({
+      title: 'Lakers acquire veteran guard in deadline trade',
+      content: 'The Lakers sent two second-round picks to Utah. The guard averaged 14 points this season.',
+    }));
+    const injury = await storage.createArticle(createMockInsertArticle({
+      title: 'Lakers center day-to-day with ankle sprain',
+      content: 'The center rolled his ankle in practice and will be re-evaluated Friday.',
+    }));
+    // Outside the recency window
+    await storage.createArticle(createMockInsertArticle({
+      title: 'Lakers preseason notes',
+      content: 'Old coverage that should not be used for the summary.',
+      publishedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    }));
+
+    vi.spyOn(bm25Manager, 'getIndex').mockResolvedValue({ size: () => 2 } as any);
+    const search = vi.spyOn(bm25Manager, 'search').mockResolvedValue([
+      { documentId: injury.id, score: 4.2 },
+      { documentId: trade.id, score: 2.1 },
+    ] as any);
+
+    const agent = new SummaryAgent(new ExtractiveSummaryProvider(), storage);
+    const summary = await agent.generate('NBA_LAL');
+
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ teamId: 'NBA_LAL' }), expect.any(Number));
+    expect(summary.model).toBe('extractive-v1');
+    expect(summary.content).toMatch(/\[A1\]/);
+    expect(summary.sourceArticleIds).toContain(injury.id);
+    expect(summary.sourceArticleIds!.every((id) => id === injury.id || id === trade.id)).toBe(true);
+    expect((await storage.getLatestSummaryByTeamId('NBA_LAL'))?.id).toBe(summary.id);
+  });
+
+  it('falls back to the extractive provider when a remote provider fails', async () => {
+    const a = await storage.createArticle(createMockInsertArticle({
+      title: 'Lakers win third straight behind late rally',
+      content: 'The Lakers outscored Denver by twelve points in the fourth quarter.',
+    }));
+    vi.spyOn(bm25Manager, 'getIndex').mockResolvedValue({ size: () => 1 } as any);
+    vi.spyOn(bm25Manager, 'search').mockResolvedValue([]);
+
+    let seen: SummaryInput | undefined;
+    const failing: ISummaryProvider = {
+      name: 'deepseek',
+      generate: async (input) => {
+        seen = input;
+        throw new Error('HTTP 503');
+      },
+    };
+
+    const summary = await new SummaryAgent(failing, storage).generate('NBA_LAL');
+
+    expect(seen?.prompt).toContain('[A1] Lakers win third straight');
+    expect(seen?.prompt).toContain('Latest game: none on record');
+    expect(summary.model).toBe('extractive-v1');
+    expect(summary.sourceArticleIds).toEqual([a.id]);
+  });
+
+  it('rejects unknown teams', async () => {
+    const agent = new SummaryAgent(new ExtractiveSummaryProvider(), storage);
+    await expect(agent.generate('NBA_XXX')).rejects.toBeInstanceOf(ValidationError);
+  });
+});
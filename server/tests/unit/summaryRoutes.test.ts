@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'http';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return {
+    config: { ...actual.config, isDev: true, allowDevHeader: true, useMemStorage: true, redisUrl: undefined, jobsEnabled: false },
+  };
+});
+
+import { storage } from '../../storage';
+import { registerRoutes } from '../../routes';
+import { SummaryAgent } from '../../agents/summaryAgent';
+import { resetLocalSummaryJobs } from '../../jobs/summaryJobs';
+
+describe('Summary job routes', () => {
+  const uid = 'summary-route-user';
+  let app: express.Express;
+  let server: Server;
+
+  beforeAll(async () => {
+    await storage.createTeam({ id: 'NBA_LAL', league: 'NBA', code: 'LAL', name: 'Los Angeles Lakers' });
+    await storage.createUserProfile({ firebaseUid: uid, favoriteSports: ['NBA'], favoriteTeams: ['NBA_LAL'] });
+
+    app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    if (server.listening) await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    resetLocalSummaryJobs();
+  });
+
+  it('accepts generation with 202 and a status url, then serves the completed summary', async () => {
+    vi.spyOn(SummaryAgent.prototype, 'generate').mockImplementation(async (teamId: string) =>
+      storage.createSummary({ teamId, content: 'Lakers won again [A1].', model: 'extractive', sourceArticleIds: [] }),
+    );
+
+    const accepted = await request(app)
+      .post('/api/summary/NBA_LAL/generate')
+      .set('x-dev-firebase-uid', uid)
+      .send({});
+
+    expect(accepted.status).toBe(202);
+    expect(accepted.body).toMatchObject({ teamId: 'NBA_LAL', state: 'queued' });
+    expect(accepted.body.statusUrl).toBe(`/api/summary/jobs/${accepted.body.jobId}`);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const status = await request(app).get(accepted.body.statusUrl).set('x-dev-firebase-uid', uid);
+    expect(status.status).toBe(200);
+    expect(status.body).toMatchObject({
+      jobId: accepted.body.jobId,
+      teamId: 'NBA_LAL',
+      state: 'completed',
+      summary: { teamId: 'NBA_LAL', content: 'Lakers won again [A1].' },
+    });
+    expect(status.body.summaryId).toBe(status.body.summary.id);
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    const res = await request(app).get('/api/summary/jobs/does-not-exist').set('x-dev-firebase-uid', uid);
+    expect(res.status).toBe(404);
+  });
+});
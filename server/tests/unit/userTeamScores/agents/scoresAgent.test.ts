@@ -64,7 +64,8 @@ vi.mock('../../../../config', () => ({
     redisUrl: 'redis://localhost:6379',
     jobsEnabled: true,
     useMemStorage: true,
-    databaseUrl: null
+    databaseUrl: null,
+    scoreSourceWeights: { espn: 1 }
   }
 }));
 
@@ -26,7 +26,8 @@ vi.mock('../../config', () => ({
     redisUrl: 'redis://localhost:6379',
     jobsEnabled: true,
     useMemStorage: true,
-    databaseUrl: null
+    databaseUrl: null,
+    scoreSourceWeights: { espn: 1 }
   }
 }));
 
@@ -46,6 +47,8 @@ describe('ScoresAgent - User Team Scores Caching', () => {
       startTime: new Date('2025-10-31T20:00:00Z'),
       period: null,
       timeRemaining: null,
+      statusDetail: null,
+      statusReason: null,
       cachedAt: new Date()
     },
     {
@@ -58,6 +61,8 @@ describe('ScoresAgent - User Team Scores Caching', () => {
       startTime: new Date('2025-10-30T19:00:00Z'),
       period: null,
       timeRemaining: null,
+      statusDetail: null,
+      statusReason: null,
       cachedAt: new Date()
     }
   ];
@@ -7,7 +7,7 @@ vi.mock('../../agents/adapters/sportAdapterFactory', () => ({
   },
 }));
 
-import { validateScoresQuery, validateScheduleQuery, validateBoxScoreParams } from '../../middleware/validateRequest';
+import { validateScoresQuery, validateScheduleQuery, validateBoxScoreParams, validateArticleSearchQuery } from '../../middleware/validateRequest';
 
 function makeReqRes(init?: {
   query?: Record<string, any>;
@@ -81,4 +81,20 @@ describe('validateRequest middleware', () => {
     expect(bad.next).not.toHaveBeenCalled();
     expect(bad.res.statusCode).toBe(400);
   });
-});
\ No newline at end of file
+
+  it('validates article search query: requires q, normalizes teams and pagination', () => {
+    const ok = makeReqRes({ query: { q: ' injury update ', teamIds: 'nba_lal', category: 'injury', page: '2' } });
+    validateArticleSearchQuery(ok.req, ok.res, ok.next);
+    expect(ok.next).toHaveBeenCalledOnce();
+    expect(ok.req.validated?.query).toMatchObject({ q: 'injury update', teamIds: ['NBA_LAL'], category: 'injury', page: 2, pageSize: 10 });
+
+    const missing = makeReqRes({ query: { q: '   ' } });
+    validateArticleSearchQuery(missing.req, missing.res, missing.next);
+    expect(missing.next).not.toHaveBeenCalled();
+    expect(missing.res.statusCode).toBe(400);
+
+    const badCategory = makeReqRes({ query: { q: 'trade', category: 'gossip' } });
+    validateArticleSearchQuery(badCategory.req, badCategory.res, badCategory.next);
+    expect(badCategory.res.statusCode).toBe(400);
+  });
+});
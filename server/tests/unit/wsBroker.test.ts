@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+import { WsBroker } from '../../wsBroker';
+
+// Minimal in-memory stand-in for Redis pub/sub shared by every client created from it
+function fakeRedisBus() {
+  const bus = new EventEmitter();
+  const published: Array<{ channel: string; message: string }> = [];
+  const counters = new Map<string, number>();
+  const createClient = () => {
+    const client = new EventEmitter() as EventEmitter & Record<string, any>;
+    const channels = new Set<string>();
+    client.status = 'ready';
+    client.subscribe = async (...names: string[]) => { names.forEach((n) => channels.add(n)); };
+    client.publish = async (channel: string, message: string) => {
+      published.push({ channel, message });
+      bus.emit('message', channel, message);
+      return 1;
+    };
+    client.incr = async (key: string) => {
+      counters.set(key, (counters.get(key) ?? 0) + 1);
+      return counters.get(key)!;
+    };
+    client.quit = async () => { bus.off('message', relay); };
+    const relay = (channel: string, message: string) => {
+      if (channels.has(channel)) client.emit('message', channel, message);
+    };
+    bus.on('message', relay);
+    return client as unknown as Redis;
+  };
+  return { createClient, published };
+}
+
+describe('WsBroker', () => {
+  it('relays events to other nodes but not back to the publisher', async () => {
+    const { createClient, published } = fakeRedisBus();
+    const api1 = new WsBroker({ createClient, nodeId: 'api-1', channelPrefix: 'test:ws' });
+    const api2 = new WsBroker({ createClient, nodeId: 'api-2', channelPrefix: 'test:ws' });
+    const worker = new WsBroker({ createClient, nodeId: 'worker', channelPrefix: 'test:ws' });
+    const seen1 = vi.fn();
+    const seen2 = vi.fn();
+    await api1.start(seen1);
+    await api2.start(seen2);
+
+    worker.publish('team', { kind: 'teams', teamIds: ['NBA_BOS'] });
+    api1.publish('user', { kind: 'users', userIds: ['u1'] });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(published.map((p) => p.channel)).toEqual(['test:ws:team', 'test:ws:user']);
+    expect(seen1.mock.calls).toEqual([['team', { kind: 'teams', teamIds: ['NBA_BOS'] }, 'worker']]);
+    expect(seen2.mock.calls).toEqual([
+      ['team', { kind: 'teams', teamIds: ['NBA_BOS'] }, 'worker'],
+      ['user', { kind: 'users', userIds: ['u1'] }, 'api-1'],
+    ]);
+
+    await api2.stop();
+    worker.publish('team', { kind: 'teams', teamIds: ['NBA_LAL'] });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(seen2).toHaveBeenCalledTimes(2);
+    expect(seen1).toHaveBeenCalledTimes(2);
+  });
+
+  it('allocates each team sequence once across publishers', async () => {
+    const { createClient } = fakeRedisBus();
+    const api = new WsBroker({ createClient, nodeId: 'api', channelPrefix: 'test:ws' });
+    const worker = new WsBroker({ createClient, nodeId: 'worker', channelPrefix: 'test:ws' });
+
+    const [fromApi, fromWorker] = await Promise.all([
+      api.nextSequences(['NBA_BOS', 'NBA_LAL']),
+      worker.nextSequences(['NBA_BOS']),
+    ]);
+
+    expect(fromApi).toEqual({ NBA_BOS: 1, NBA_LAL: 1 });
+    expect(fromWorker).toEqual({ NBA_BOS: 2 });
+    expect(await api.nextSequences(['NBA_BOS'])).toEqual({ NBA_BOS: 3 });
+  });
+
+  it('stays local-only when Redis is disabled', async () => {
+    const createClient = vi.fn(() => ({ status: 'mock-disabled' }) as unknown as Redis);
+    const broker = new WsBroker({ createClient });
+
+    expect(await broker.start(vi.fn())).toBe(false);
+    expect(() => broker.publish('team', { kind: 'teams' })).not.toThrow();
+    broker.publish('team', { kind: 'teams' });
+    expect(await broker.nextSequences(['NBA_BOS'])).toBeUndefined();
+    expect(createClient).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ScoreDeltaEncoder } from '../../wsDelta';
+
+type Game = { gameId: string; homeScore: number; awayScore: number; status: string; quarter?: string };
+
+const game = (overrides: Partial<Game> = {}): Game => ({
+  gameId: 'g1', homeScore: 0, awayScore: 0, status: 'in_progress', quarter: 'Q1', ...overrides,
+});
+
+describe('ScoreDeltaEncoder', () => {
+  it('sends the full state until the client acknowledges a revision, then only changed fields', () => {
+    const encoder = new ScoreDeltaEncoder<Game>();
+    expect(encoder.encode(game())).toEqual({ rev: 1, gameData: game() });
+    expect(encoder.encode(game())).toBeNull();
+    expect(encoder.encode(game({ homeScore: 7 }))).toEqual({ rev: 2, gameData: game({ homeScore: 7 }) });
+
+    encoder.ack({ g1: 2 });
+    expect(encoder.encode(game({ homeScore: 7, quarter: 'Q2' }))).toEqual({
+      rev: 3, baseRev: 2, gameData: { gameId: 'g1', quarter: 'Q2' },
+    });
+  });
+
+  it('keeps encoding against the last acknowledged revision while acks lag behind', () => {
+    const encoder = new ScoreDeltaEncoder<Game>();
+    encoder.encode(game());
+    encoder.ack({ g1: 1 });
+    encoder.encode(game({ homeScore: 3 }));
+    expect(encoder.encode(game({ homeScore: 3, awayScore: 7 }))).toEqual({
+      rev: 3, baseRev: 1, gameData: { gameId: 'g1', homeScore: 3, awayScore: 7 },
+    });
+
+    // A correction back to the acknowledged value still reaches a client that saw rev 3
+    expect(encoder.encode(game({ homeScore: 0, awayScore: 7 }))).toEqual({
+      rev: 4, baseRev: 1, gameData: { gameId: 'g1', homeScore: 0, awayScore: 7 },
+    });
+
+    // Stale acks don't move the baseline backwards
+    encoder.ack({ g1: 4 });
+    encoder.ack({ g1: 3 });
+    expect(encoder.encode(game({ homeScore: 2, awayScore: 7 }))).toMatchObject({ rev: 5, baseRev: 4 });
+  });
+
+  it('resends the full state when the client acknowledges revision 0', () => {
+    const encoder = new ScoreDeltaEncoder<Game>();
+    encoder.encode(game());
+    encoder.ack({ g1: 1 });
+    encoder.ack({ g1: 0 });
+    expect(encoder.encode(game())).toEqual({ rev: 2, gameData: game() });
+  });
+});
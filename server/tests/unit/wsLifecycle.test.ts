@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionLifecycle, type EvictionReason } from '../../wsLifecycle';
+
+function setup() {
+  let now = 0;
+  const pinged: string[] = [];
+  const evicted: Array<[string, EvictionReason]> = [];
+  const lifecycle = new ConnectionLifecycle<string>(
+    {
+      ping: (conn) => pinged.push(conn),
+      evict: (conn, reason) => evicted.push([conn, reason]),
+    },
+    { heartbeatIntervalMs: 30_000, idleTimeoutMs: 60_000, rateWindowMs: 10_000, maxMessagesPerWindow: 3, now: () => now }
+  );
+  return { lifecycle, pinged, evicted, advance: (ms: number) => { now += ms; } };
+}
+
+describe('ConnectionLifecycle', () => {
+  it('pings live sockets and evicts ones that never answer', () => {
+    const { lifecycle, pinged, evicted } = setup();
+    lifecycle.track('answers');
+    lifecycle.track('half-open');
+    lifecycle.track('stream', { probe: false });
+
+    lifecycle.sweep();
+    expect(pinged).toEqual(['answers', 'half-open']);
+
+    lifecycle.alive('answers');
+    lifecycle.sweep();
+    expect(evicted).toEqual([['half-open', 'heartbeat_timeout']]);
+    expect(pinged).toEqual(['answers', 'half-open', 'answers']);
+  });
+
+  it('evicts sockets that send nothing for the idle timeout, keep-alives included', () => {
+    const { lifecycle, evicted, advance } = setup();
+    lifecycle.track('quiet');
+    lifecycle.track('chatty');
+
+    for (let i = 0; i < 2; i++) {
+      advance(30_000);
+      lifecycle.touch('chatty');
+      lifecycle.alive('quiet');
+      lifecycle.alive('chatty');
+      lifecycle.sweep();
+    }
+
+    expect(evicted).toEqual([['quiet', 'idle']]);
+  });
+
+  it('refuses messages over the window limit and evicts clients that keep going', () => {
+    const { lifecycle, evicted, advance } = setup();
+    lifecycle.track('spammer', { probe: false });
+
+    const verdicts = Array.from({ length: 6 }, () => lifecycle.admit('spammer'));
+    expect(verdicts).toEqual(['accept', 'accept', 'accept', 'reject', 'reject', 'reject']);
+
+    advance(10_000);
+    expect(lifecycle.admit('spammer')).toBe('accept');
+    lifecycle.admit('spammer');
+    lifecycle.admit('spammer');
+    expect([lifecycle.admit('spammer'), lifecycle.admit('spammer'), lifecycle.admit('spammer')]).toEqual(['reject', 'reject', 'reject']);
+    expect(lifecycle.admit('spammer')).toBe('evict');
+    expect(evicted).toEqual([['spammer', 'rate_limited']]);
+
+    // Untracked once evicted
+    expect(lifecycle.admit('spammer')).toBe('accept');
+  });
+
+  it('caps subscriptions per connection', () => {
+    const lifecycle = new ConnectionLifecycle<string>({ ping: () => {}, evict: () => {} }, { maxSubscriptions: 2 });
+    expect(lifecycle.canSubscribe(1)).toBe(true);
+    expect(lifecycle.canSubscribe(2)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ReplayBuffer } from '../../wsReplay';
+
+function buffer(options: { maxEventsPerTeam?: number; maxAgeMs?: number } = {}) {
+  let now = 1_000_000;
+  const replay = new ReplayBuffer<string>({ ...options, now: () => now });
+  const publish = (teamId: string, message: string) => {
+    const seq = replay.next(teamId);
+    replay.record(teamId, seq, message);
+    return seq;
+  };
+  return { replay, publish, advance: (ms: number) => { now += ms; } };
+}
+
+describe('ReplayBuffer', () => {
+  it('numbers events per team and replays the gap after the last seen sequence', () => {
+    const { replay, publish } = buffer();
+    expect(publish('NBA_BOS', 'bos-1')).toBe(1);
+    expect(publish('NBA_LAL', 'lal-1')).toBe(1);
+    publish('NBA_BOS', 'bos-2');
+    publish('NBA_BOS', 'bos-3');
+
+    const result = replay.since('NBA_BOS', 1);
+    expect(result.kind === 'replay' && result.events.map((e) => [e.seq, e.message])).toEqual([[2, 'bos-2'], [3, 'bos-3']]);
+    expect(replay.since('NBA_BOS', 3)).toEqual({ kind: 'replay', events: [] });
+    expect(replay.since('NBA_NYK', 0)).toEqual({ kind: 'replay', events: [] });
+  });
+
+  it('continues numbering from sequences published by other nodes', () => {
+    const { replay, publish } = buffer();
+    replay.record('NBA_BOS', 7, 'remote');
+    expect(publish('NBA_BOS', 'local')).toBe(8);
+  });
+
+  it('never hands out a sequence twice while earlier ones are still unrecorded', () => {
+    const { replay } = buffer();
+    const first = replay.next('NBA_BOS');
+    const second = replay.next('NBA_BOS');
+    expect([first, second]).toEqual([1, 2]);
+    replay.record('NBA_BOS', second, 'second');
+    replay.record('NBA_BOS', first, 'first');
+    expect(replay.since('NBA_BOS', 0)).toMatchObject({ kind: 'replay', events: [{ seq: 1 }, { seq: 2 }] });
+  });
+
+  it('asks for a resync once the gap has been evicted or expired', () => {
+    const { replay, publish, advance } = buffer({ maxEventsPerTeam: 3, maxAgeMs: 60_000 });
+    for (let i = 1; i <= 5; i++) publish('NBA_BOS', `bos-${i}`);
+
+    expect(replay.since('NBA_BOS', 1)).toEqual({ kind: 'resync', reason: 'evicted' });
+    expect(replay.since('NBA_BOS', 2)).toMatchObject({ kind: 'replay', events: [{ seq: 3 }, { seq: 4 }, { seq: 5 }] });
+
+    advance(61_000);
+    expect(replay.since('NBA_BOS', 4)).toEqual({ kind: 'resync', reason: 'evicted' });
+  });
+
+  it('asks for a resync for sequences it never issued, e.g. after a restart', () => {
+    const { replay, publish } = buffer();
+    publish('NBA_BOS', 'bos-1');
+    expect(replay.since('NBA_BOS', 40)).toEqual({ kind: 'resync', reason: 'unknown_sequence' });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+vi.mock('../../config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config')>();
+  return { config: { ...actual.config, isDev: true, allowDevHeader: true, wsScoreBatchWindowMs: 250 } };
+});
+
+vi.mock('../../storage', () => ({
+  storage: {
+    getUserProfile: vi.fn(async () => ({ favoriteTeams: ['NBA_BOS'] })),
+    getTeam: vi.fn(async (id: string) => ({ id, name: 'Boston Celtics', league: 'NBA', code: 'BOS' })),
+  },
+}));
+
+import { openEventStream, handleEventStreamMessage, broadcastUserTeamUpdate } from '../../ws';
+import { storage } from '../../storage';
+
+// An event stream stands in for a socket: same delivery path, easier to observe
+async function open(userId: string, protocol?: number) {
+  const query = `?devUid=${userId}${protocol ? `&protocol=${protocol}` : ''}`;
+  const req = Object.assign(new EventEmitter(), { url: `/api/stream${query}`, headers: { host: 'localhost' }, socket: {} });
+  const chunks: string[] = [];
+  const res = Object.assign(new EventEmitter(), {
+    writeHead: () => res,
+    write: (chunk: string) => { chunks.push(chunk); return true; },
+    end: () => res,
+  });
+  await openEventStream(req as any, res as any);
+  const events = () => chunks.filter((c) => c.startsWith('data: ')).map((c) => JSON.parse(c.slice(6)));
+  const status = events()[0];
+  return { events, close: () => res.emit('close'), connectionId: status.payload.connectionId as string, protocol: status.payload.protocol };
+}
+
+const game = (id: string, awayTeamId: string, homeScore: number) => ({
+  id, sport: 'NBA', homeTeamId: 'NBA_BOS', awayTeamId, homeTeam: 'Celtics', awayTeam: awayTeamId,
+  homeScore, awayScore: 10, status: 'in_progress', quarter: 'Q2', timeRemaining: '5:00',
+});
+
+describe('Score update wire protocol', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps sending full messages to protocol 1 clients and batched deltas to protocol 2 clients', async () => {
+    const legacy = await open('batch-legacy');
+    const current = await open('batch-current', 2);
+    expect(legacy.protocol).toBe(1);
+    expect(current.protocol).toBe(2);
+    vi.useFakeTimers();
+
+    await broadcastUserTeamUpdate(game('batch-g1', 'NBA_NYK', 50));
+    await broadcastUserTeamUpdate(game('batch-g2', 'NBA_LAL', 60));
+
+    expect(legacy.events().filter((e) => e.type === 'user-team-score-update').map((e) => e.payload.gameData.homeScore)).toEqual([50, 60]);
+    expect(current.events().some((e) => e.type === 'score-batch')).toBe(false);
+
+    vi.advanceTimersByTime(250);
+    const batches = () => current.events().filter((e) => e.type === 'score-batch');
+    expect(batches()).toHaveLength(1);
+    expect(batches()[0].payload.updates).toMatchObject([
+      { teamId: 'NBA_BOS', rev: 1, gameData: { gameId: 'batch-g1', homeScore: 50, awayTeam: 'NBA_NYK' } },
+      { teamId: 'NBA_BOS', rev: 1, gameData: { gameId: 'batch-g2', homeScore: 60 } },
+    ]);
+
+    expect(await handleEventStreamMessage(current.connectionId, 'batch-current', { type: 'score-ack', revs: { 'batch-g1': 1 } })).toBe('accepted');
+    vi.advanceTimersByTime(1000);
+    await broadcastUserTeamUpdate(game('batch-g1', 'NBA_NYK', 52));
+    vi.advanceTimersByTime(250);
+
+    expect(batches()).toHaveLength(2);
+    expect(batches()[1].payload.updates).toEqual([
+      expect.objectContaining({ rev: 2, baseRev: 1, gameData: { gameId: 'batch-g1', homeScore: 52 } }),
+    ]);
+
+    legacy.close();
+    current.close();
+  });
+
+  it('numbers the update for each favorite team when a user follows both sides', async () => {
+    vi.mocked(storage.getUserProfile).mockResolvedValue({ favoriteTeams: ['NBA_BOS', 'NBA_NYK'] } as any);
+    const legacy = await open('both-legacy');
+    const current = await open('both-current', 2);
+    vi.mocked(storage.getUserProfile).mockResolvedValue({ favoriteTeams: ['NBA_BOS'] } as any);
+    vi.useFakeTimers();
+
+    await broadcastUserTeamUpdate(game('both-g1', 'NBA_NYK', 70));
+    vi.advanceTimersByTime(250);
+
+    const seqs = legacy.events().filter((e) => e.type === 'user-team-score-update').map((e) => [e.payload.teamId, e.payload.seq]);
+    expect(seqs.map(([teamId]) => teamId)).toEqual(['NBA_BOS', 'NBA_NYK']);
+    expect(seqs.every(([, seq]) => typeof seq === 'number')).toBe(true);
+
+    const [batch] = current.events().filter((e) => e.type === 'score-batch');
+    expect(batch.payload.updates).toEqual([
+      expect.objectContaining({ teamId: 'NBA_BOS', seq: seqs[0][1], rev: 1 }),
+      expect.objectContaining({ teamId: 'NBA_NYK', seq: seqs[1][1], rev: 1 }),
+    ]);
+
+    legacy.close();
+    current.close();
+  });
+});
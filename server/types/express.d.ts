@@ -16,6 +16,12 @@ declare global {
       limit?: number;
       startDate?: string; // ISO date string (YYYY-MM-DD)
       endDate?: string; // ISO date string (YYYY-MM-DD)
+      q?: string; // Free-text search query
+      category?: string;
+      page?: number;
+      pageSize?: number;
+      minRelevance?: number;
+      cursor?: { publishedAt: Date; id: string }; // Decoded articles feed cursor
     }
 
     /** Params for routes such as /api/scores/:gameId */
@@ -19,14 +19,27 @@ export interface UserTeamScoreUpdate {
       homeScore: number;
       awayScore: number;
       status: string;
+      statusDetail?: string | null; // e.g. "rain", "overtime"
+      statusReason?: string | null; // source text, e.g. "Postponed - Rain"
       quarter?: string;
       timeRemaining?: string;
     };
     timestamp: string;
     isUserTeam: boolean; // true if this is user's favorite team
+    seq?: number; // per-team sequence number, see ResumeSessionMessage
   };
 }
 
+export type ScoreGameData = UserTeamScoreUpdate['payload']['gameData'];
+
+/**
+ * Wire protocol, negotiated with `?protocol=` on /ws and /api/stream.
+ * 1 (default): one full user-team-score-update per change.
+ * 2: score updates arrive as ScoreUpdateBatch frames of field-level deltas,
+ *    which the client acknowledges with ScoreAckMessage.
+ */
+export type WireProtocolVersion = 1 | 2;
+
 export interface UserTeamStatusChange {
   type: 'user-team-status-change';
   payload: {
@@ -35,7 +48,10 @@ export interface UserTeamStatusChange {
     gameId: string;
     oldStatus: string;
     newStatus: string;
+    statusDetail?: string | null;
+    statusReason?: string | null;
     timestamp: string;
+    seq?: number; // per-team sequence number, see ResumeSessionMessage
   };
 }
 
@@ -48,6 +64,29 @@ export interface UserSubscriptionUpdate {
   };
 }
 
+export interface GamePlayEvent {
+  type: 'game-play';
+  payload: {
+    gameId: string;
+    homeTeamId: string;
+    awayTeamId: string;
+    play: {
+      sequence: number;
+      period: string | null;
+      clock: string | null;
+      teamId: string | null;
+      playType: string | null;
+      description: string;
+      scoringPlay: boolean;
+      scoreValue: number | null;
+      homePts: number | null;
+      awayPts: number | null;
+      occurredAt: string | null;
+    };
+    timestamp: string;
+  };
+}
+
 // Legacy event types for backward compatibility
 export interface LegacyTeamSubscription {
   type: 'subscribe' | 'unsubscribe';
@@ -65,6 +104,7 @@ export type WebSocketMessage =
   | UserTeamScoreUpdate
   | UserTeamStatusChange
   | UserSubscriptionUpdate
+  | GamePlayEvent
   | LegacyTeamSubscription
   | LegacyScoreUpdate;
 
@@ -89,11 +129,38 @@ export interface UnsubscribeFromUserTeamsMessage {
   sport?: string; // Optional: unsubscribe from teams for specific sport only
 }
 
+/**
+ * Sent after reconnecting: the last sequence number seen per team. The server
+ * replays newer score updates and status changes for those teams, or answers
+ * with ResyncRequired for teams whose gap it can no longer fill.
+ */
+export interface ResumeSessionMessage {
+  type: 'resume';
+  lastSeq: Record<string, number>;
+}
+
+/**
+ * Protocol 2: revisions the client has applied, by game id. Later deltas are
+ * encoded against these; 0 asks for the game's full state.
+ */
+export interface ScoreAckMessage {
+  type: 'score-ack';
+  revs: Record<string, number>;
+}
+
+// Application-level keep-alive from clients that can't send protocol pings
+export interface PingMessage {
+  type: 'ping';
+}
+
 export type IncomingWebSocketMessage = 
   | SubscribeToTeamMessage
   | UnsubscribeFromTeamMessage
   | SubscribeToUserTeamsMessage
-  | UnsubscribeFromUserTeamsMessage;
+  | UnsubscribeFromUserTeamsMessage
+  | ResumeSessionMessage
+  | ScoreAckMessage
+  | PingMessage;
 
 // Response message types (from server to client)
 export interface SubscriptionConfirmation {
@@ -113,6 +180,8 @@ export interface ConnectionStatus {
     status: 'connected' | 'authenticated' | 'error';
     userId?: string;
     message?: string;
+    connectionId?: string; // event streams only: id for POST /api/stream/:connectionId/messages
+    protocol?: WireProtocolVersion; // protocol the server will speak on this connection
   };
 }
 
@@ -130,11 +199,41 @@ export interface UserTeamsLoaded {
   };
 }
 
+// Missed events for these teams are gone; refetch their scores over REST
+export interface ResyncRequired {
+  type: 'resync-required';
+  payload: {
+    teamIds: string[];
+    replayed: number; // events replayed for the other teams in the same resume
+  };
+}
+
+/**
+ * Protocol 2: score changes coalesced over a short window, one entry per game.
+ * Entries without `baseRev` carry the full game state; the rest carry only the
+ * changed fields (plus gameId), to be applied on top of revision `baseRev` or later.
+ */
+export interface ScoreUpdateBatch {
+  type: 'score-batch';
+  payload: {
+    userId: string;
+    epoch: string; // identifies this connection's revisions; deltas never apply across epochs
+    updates: Array<Omit<UserTeamScoreUpdate['payload'], 'userId' | 'isUserTeam' | 'gameData'> & {
+      gameData: Partial<ScoreGameData> & { gameId: string };
+      rev: number;
+      baseRev?: number;
+    }>;
+  };
+}
+
 export type OutgoingWebSocketMessage = 
+  | ScoreUpdateBatch
+  | ResyncRequired
   | UserTeamScoreUpdate
   | UserTeamStatusChange
   | UserSubscriptionUpdate
   | SubscriptionConfirmation
   | ConnectionStatus
   | UserTeamsLoaded
+  | GamePlayEvent
   | LegacyScoreUpdate;
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Opaque cursors for the articles feed
+ *
+ * A cursor is the (publishedAt, id) of the last article on a page, encoded
+ * as base64url JSON so clients treat it as an opaque token.
+ */
+
+import type { Article, ArticleFeedCursor } from '@shared/schema';
+
+export function encodeArticleCursor(article: Pick<Article, 'publishedAt' | 'id'>): string {
+  return Buffer.from(JSON.stringify({ p: article.publishedAt.toISOString(), i: article.id })).toString('base64url');
+}
+
+/**
+ * @returns The decoded position, or undefined if the token is malformed
+ */
+export function decodeArticleCursor(token: string): ArticleFeedCursor | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    const publishedAt = new Date(parsed?.p);
+    if (typeof parsed?.i !== 'string' || !parsed.i || Number.isNaN(publishedAt.getTime())) {
+      return undefined;
+    }
+    return { publishedAt, id: parsed.i };
+  } catch {
+    return undefined;
+  }
+}
@@ -44,6 +44,17 @@ export interface BM25IndexStats {
   vocabularySize: number;
 }
 
+/**
+ * Serialized index state produced by BM25Index.export()
+ */
+export interface BM25IndexState {
+  k1: number;
+  b: number;
+  documents: [string, BM25Document][];
+  documentLengths: [string, number][];
+  termFrequencies?: [string, [string, number][]][];
+}
+
 /**
  * BM25 Index
  * 
@@ -61,6 +72,9 @@ export class BM25Index {
   
   // Document lengths
   private documentLengths: Map<string, number>;
+
+  // Forward index: docId -> (term -> frequency), used for removal and persistence
+  private documentTerms: Map<string, Map<string, number>>;
   
   // Index statistics
   private totalDocuments: number;
@@ -73,6 +87,7 @@ export class BM25Index {
     this.documents = new Map();
     this.invertedIndex = new Map();
     this.documentLengths = new Map();
+    this.documentTerms = new Map();
     this.totalDocuments = 0;
     this.avgDocLength = 0;
     this.vocabulary = new Set();
@@ -91,6 +106,27 @@ export class BM25Index {
     const tokens = tokenize(doc.content);
     const termFreqs = calculateTermFrequencies(tokens);
 
+    this.indexTerms(doc, termFreqs, tokens.length);
+
+    // Update statistics
+    this.updateStats();
+  }
+
+  /**
+   * Add a document from pre-computed postings (e.g. a persisted snapshot row)
+   */
+  addPostings(doc: BM25Document, termFreqs: Map<string, number>, length: number): void {
+    if (this.documents.has(doc.id)) {
+      this.removeDocument(doc.id);
+    }
+    this.indexTerms(doc, termFreqs, length);
+    this.updateStats();
+  }
+
+  /**
+   * Add pre-tokenized document postings to the inverted index
+   */
+  private indexTerms(doc: BM25Document, termFreqs: Map<string, number>, length: number): void {
     // Update inverted index
     for (const [term, freq] of Array.from(termFreqs.entries())) {
       if (!this.invertedIndex.has(term)) {
@@ -100,12 +136,10 @@ export class BM25Index {
       this.vocabulary.add(term);
     }
 
-    // Store document and length
+    // Store document, length and forward postings
     this.documents.set(doc.id, doc);
-    this.documentLengths.set(doc.id, tokens.length);
-
-    // Update statistics
-    this.updateStats();
+    this.documentLengths.set(doc.id, length);
+    this.documentTerms.set(doc.id, termFreqs);
   }
 
   /**
@@ -116,8 +150,7 @@ export class BM25Index {
     if (!doc) return;
 
     // Get all terms in document
-    const tokens = tokenize(doc.content);
-    const terms = new Set(tokens);
+    const terms = new Set(this.documentTerms.get(docId)?.keys() ?? tokenize(doc.content));
 
     // Remove from inverted index
     for (const term of Array.from(terms)) {
@@ -136,6 +169,7 @@ export class BM25Index {
     // Remove document and length
     this.documents.delete(docId);
     this.documentLengths.delete(docId);
+    this.documentTerms.delete(docId);
 
     // Update statistics
     this.updateStats();
@@ -262,6 +296,15 @@ export class BM25Index {
     return this.documents.has(docId);
   }
 
+  /**
+   * Get a document's term frequencies and token length
+   */
+  getDocumentTerms(docId: string): { termFrequencies: Map<string, number>; length: number } | undefined {
+    const termFrequencies = this.documentTerms.get(docId);
+    if (!termFrequencies) return undefined;
+    return { termFrequencies, length: this.documentLengths.get(docId) ?? 0 };
+  }
+
   /**
    * Get all document IDs
    */
@@ -284,6 +327,7 @@ export class BM25Index {
     this.documents.clear();
     this.invertedIndex.clear();
     this.documentLengths.clear();
+    this.documentTerms.clear();
     this.vocabulary.clear();
     this.totalDocuments = 0;
     this.avgDocLength = 0;
@@ -299,36 +343,43 @@ export class BM25Index {
   /**
    * Export index state for serialization
    */
-  export(): {
-    k1: number;
-    b: number;
-    documents: [string, BM25Document][];
-    documentLengths: [string, number][];
-  } {
+  export(): BM25IndexState {
     return {
       k1: this.k1,
       b: this.b,
       documents: Array.from(this.documents.entries()),
       documentLengths: Array.from(this.documentLengths.entries()),
+      termFrequencies: Array.from(this.documentTerms.entries()).map(
+        ([docId, freqs]) => [docId, Array.from(freqs.entries())] as [string, [string, number][]]
+      ),
     };
   }
 
   /**
    * Import index state from serialization
+   * Uses exported term frequencies when present so documents need not be re-tokenized
+   * (their content may be omitted); otherwise re-indexes each document's content.
    */
-  import(state: {
-    k1: number;
-    b: number;
-    documents: [string, BM25Document][];
-    documentLengths: [string, number][];
-  }): void {
+  import(state: BM25IndexState): void {
     this.clear();
     this.k1 = state.k1;
     this.b = state.b;
 
-    // Rebuild index from documents
+    const termFrequencies = new Map(state.termFrequencies ?? []);
+    const documentLengths = new Map(state.documentLengths);
+
     for (const [docId, doc] of state.documents) {
-      this.addDocument(doc);
+      const freqs = termFrequencies.get(docId);
+      if (freqs) {
+        const map = new Map(freqs);
+        const length = documentLengths.get(docId) ?? Array.from(map.values()).reduce((sum, f) => sum + f, 0);
+        this.indexTerms(doc, map, length);
+      } else {
+        const tokens = tokenize(doc.content);
+        this.indexTerms(doc, calculateTermFrequencies(tokens), tokens.length);
+      }
     }
+
+    this.updateStats();
   }
 }
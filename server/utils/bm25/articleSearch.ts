@@ -0,0 +1,173 @@
+/**
+ * Article Search
+ *
+ * Team-scoped full-text article search over the per-team BM25 indexes,
+ * with category/date filtering, pagination and highlighted snippets.
+ */
+
+import type { Article } from '@shared/schema';
+import { storage as defaultStorage } from '../../storage';
+import type { IStorage } from '../../storage';
+import { tokenize } from './tokenizer';
+import { bm25Manager as defaultManager } from './indexManager';
+import type { BM25IndexManager } from './indexManager';
+
+// BM25 candidates pulled per team before filtering; bounds the reachable result depth
+const MAX_CANDIDATES_PER_TEAM = 500;
+const SNIPPET_WORDS = 32;
+
+export interface ArticleSearchParams {
+  query: string;
+  teamIds: string[];
+  category?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface Snippet {
+  text: string;
+  /** [start, end) character offsets into `text` of matched query terms */
+  highlights: Array<[number, number]>;
+}
+
+export interface ArticleSearchHit {
+  id: string;
+  teamId: string;
+  title: string;
+  sourceName: string;
+  sourceUrl: string;
+  category: string | null;
+  publishedAt: Date;
+  score: number;
+  snippet: Snippet;
+}
+
+export interface ArticleSearchResponse {
+  items: ArticleSearchHit[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/**
+ * Build a snippet around the densest run of query-term matches
+ * Words are matched by their normalized token so "Injury," matches "injury".
+ */
+export function buildSnippet(text: string, terms: Set<string>, maxWords: number = SNIPPET_WORDS): Snippet {
+  const words = Array.from(text.matchAll(/\S+/g)).map((m) => ({ word: m[0], index: m.index ?? 0 }));
+  if (words.length === 0) return { text: '', highlights: [] };
+
+  const isMatch = words.map(({ word }) => tokenize(word).some((t) => terms.has(t)));
+
+  // Slide a window of maxWords and keep the one with the most matches (earliest on ties)
+  let bestStart = 0;
+  let bestCount = -1;
+  let count = 0;
+  for (let i = 0; i < words.length; i++) {
+    if (isMatch[i]) count++;
+    if (i >= maxWords && isMatch[i - maxWords]) count--;
+    const start = Math.max(0, i - maxWords + 1);
+    if (count > bestCount) {
+      bestCount = count;
+      bestStart = start;
+    }
+  }
+  // Open a little before the first match so it reads in context
+  const firstMatch = isMatch.indexOf(true, bestStart);
+  if (firstMatch > bestStart + 3) {
+    bestStart = Math.min(firstMatch - 3, Math.max(0, words.length - maxWords));
+  }
+  const end = Math.min(words.length, bestStart + maxWords);
+
+  const sliceStart = words[bestStart].index;
+  const sliceEnd = words[end - 1].index + words[end - 1].word.length;
+  const prefix = bestStart > 0 ? '… ' : '';
+  const suffix = end < words.length ? ' …' : '';
+
+  const highlights: Array<[number, number]> = [];
+  for (let i = bestStart; i < end; i++) {
+    if (!isMatch[i]) continue;
+    // Highlight the word without surrounding punctuation
+    const { word, index } = words[i];
+    const lead = word.length - word.replace(/^[^\w]+/, '').length;
+    const trail = word.length - word.replace(/[^\w]+$/, '').length;
+    const from = prefix.length + index - sliceStart + lead;
+    highlights.push([from, from + word.length - lead - trail]);
+  }
+
+  return { text: prefix + text.slice(sliceStart, sliceEnd) + suffix, highlights };
+}
+
+/**
+ * Parse a search date bound from the query string
+ * A date-only end bound (YYYY-MM-DD) covers that whole day, so it resolves
+ * to the last millisecond of the day rather than its first.
+ */
+export function parseSearchDate(value: string, bound: 'start' | 'end'): Date {
+  const date = new Date(value);
+  if (bound === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+  return date;
+}
+
+/**
+ * Search articles across the given teams' BM25 indexes
+ * Scores are comparable across teams since every team index shares k1/b.
+ */
+export async function searchArticles(
+  params: ArticleSearchParams,
+  deps: { storage?: IStorage; manager?: BM25IndexManager } = {}
+): Promise<ArticleSearchResponse> {
+  const storage = deps.storage || defaultStorage;
+  const manager = deps.manager || defaultManager;
+  const page = Math.max(1, params.page ?? 1);
+  const pageSize = Math.max(1, Math.min(50, params.pageSize ?? 10));
+
+  const terms = tokenize(params.query);
+  if (terms.length === 0 || params.teamIds.length === 0) {
+    return { items: [], page, pageSize, total: 0 };
+  }
+
+  const scored = new Map<string, number>();
+  for (const teamId of params.teamIds) {
+    const results = await manager.search({ terms, teamId }, MAX_CANDIDATES_PER_TEAM);
+    for (const result of results) {
+      scored.set(result.documentId, Math.max(scored.get(result.documentId) ?? 0, result.score));
+    }
+  }
+
+  const teamSet = new Set(params.teamIds);
+  const articles = (await storage.getArticlesByIds(Array.from(scored.keys()))).filter((a: Article) => {
+    if (a.isDeleted || !teamSet.has(a.teamId)) return false;
+    if (params.category && a.category !== params.category) return false;
+    if (params.startDate && a.publishedAt.getTime() < params.startDate.getTime()) return false;
+    if (params.endDate && a.publishedAt.getTime() > params.endDate.getTime()) return false;
+    return true;
+  });
+
+  articles.sort(
+    (a, b) =>
+      scored.get(b.id)! - scored.get(a.id)! ||
+      b.publishedAt.getTime() - a.publishedAt.getTime() ||
+      a.id.localeCompare(b.id)
+  );
+
+  const termSet = new Set(terms);
+  const start = (page - 1) * pageSize;
+  const items = articles.slice(start, start + pageSize).map((a) => ({
+    id: a.id,
+    teamId: a.teamId,
+    title: a.title,
+    sourceName: a.sourceName,
+    sourceUrl: a.sourceUrl,
+    category: a.category,
+    publishedAt: a.publishedAt,
+    score: Number(scored.get(a.id)!.toFixed(4)),
+    snippet: buildSnippet(a.content || a.title, termSet),
+  }));
+
+  return { items, page, pageSize, total: articles.length };
+}
@@ -20,9 +20,19 @@ export {
   type BM25Query,
   type BM25Result,
   type BM25IndexStats,
+  type BM25IndexState,
 } from './algorithm';
 
 export {
   BM25IndexManager,
   bm25Manager,
 } from './indexManager';
+
+export {
+  searchArticles,
+  buildSnippet,
+  type ArticleSearchParams,
+  type ArticleSearchHit,
+  type ArticleSearchResponse,
+  type Snippet,
+} from './articleSearch';
@@ -3,44 +3,256 @@
  * 
  * Manages per-team BM25 indexes with database persistence.
  * Coordinates between in-memory indexes and database storage.
+ *
+ * Each indexed document's postings are persisted in `bm25_index_documents`,
+ * so a team's rows form its index snapshot. Indexes hydrate lazily from that
+ * snapshot on first use instead of re-tokenizing every article, and every
+ * persisted change bumps `bm25_indexes.version` so other server instances
+ * notice they are behind and apply the rows changed since their last sync.
  */
 
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { BM25Index, BM25Document, BM25Query, BM25Result } from './algorithm';
+import { calculateTermFrequencies, deserializeTermFrequencies, serializeTermFrequencies, tokenize } from './tokenizer';
 import { logger } from '../../logger';
-import { storage } from '../../storage';
-import type { Article } from '@shared/schema';
+import { storage as defaultStorage } from '../../storage';
+import type { IStorage } from '../../storage';
+import type { Article, BM25IndexDocument, InsertBM25IndexDocument } from '@shared/schema';
+
+export interface BM25IndexManagerOptions {
+  /** How long a loaded index is trusted before its version is re-checked (default: 10s) */
+  syncCheckMs?: number;
+  /** Rebuild locks older than this are considered abandoned (default: 10m) */
+  rebuildLockTtlMs?: number;
+  /** Poll interval while waiting on another instance's rebuild (default: 500ms) */
+  rebuildPollMs?: number;
+  /** Longest a caller waits on another instance's rebuild before using the current index (default: 5s) */
+  rebuildWaitMs?: number;
+  storage?: IStorage;
+}
+
+interface TeamSyncState {
+  version: number; // Persisted version the in-memory index reflects
+  syncedAt: number; // When snapshot rows were last read; later rows are unseen
+  checkedAt: number;
+  stale: boolean;
+}
+
+// Snapshot rows are stamped with the writer's clock; re-read a margin before
+// the last sync so skew between instances cannot hide a change
+const CLOCK_SKEW_MARGIN_MS = 5_000;
 
 export class BM25IndexManager {
   private indexes: Map<string, BM25Index>; // teamId -> index
+  private sync: Map<string, TeamSyncState>; // teamId -> persisted version tracking
+  private hydrating: Map<string, Promise<BM25Index>>; // teamId -> in-flight load
   private k1: number;
   private b: number;
-
-  constructor(k1: number = 1.5, b: number = 0.75) {
+  private storage: IStorage;
+  private syncCheckMs: number;
+  private rebuildLockTtlMs: number;
+  private rebuildPollMs: number;
+  private rebuildWaitMs: number;
+  private readonly instanceId: string;
+
+  constructor(k1: number = 1.5, b: number = 0.75, options: BM25IndexManagerOptions = {}) {
     this.indexes = new Map();
+    this.sync = new Map();
+    this.hydrating = new Map();
     this.k1 = k1;
     this.b = b;
+    this.storage = options.storage || defaultStorage;
+    this.syncCheckMs = options.syncCheckMs ?? 10_000;
+    this.rebuildLockTtlMs = options.rebuildLockTtlMs ?? 10 * 60 * 1000;
+    this.rebuildPollMs = options.rebuildPollMs ?? 500;
+    this.rebuildWaitMs = options.rebuildWaitMs ?? 5_000;
+    this.instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`.slice(0, 100);
   }
 
   /**
-   * Get or create index for team
+   * Get index for team, hydrating it from the persisted snapshot when it is
+   * not loaded yet and catching it up when another instance has changed it
+   * since. While another instance rebuilds, the loaded index keeps serving.
    */
-  getIndex(teamId: string): BM25Index {
-    if (!this.indexes.has(teamId)) {
-      const index = new BM25Index(this.k1, this.b);
-      this.indexes.set(teamId, index);
-      logger.info({ teamId }, 'Created new BM25 index for team');
+  async getIndex(teamId: string): Promise<BM25Index> {
+    const loaded = this.indexes.get(teamId);
+    const state = this.sync.get(teamId);
+    if (loaded && state && !state.stale && Date.now() - state.checkedAt < this.syncCheckMs) {
+      return loaded;
+    }
+
+    // Share one load between concurrent callers
+    let pending = this.hydrating.get(teamId);
+    if (!pending) {
+      pending = this.refresh(teamId).finally(() => this.hydrating.delete(teamId));
+      this.hydrating.set(teamId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Compare the loaded index against the persisted version and hydrate if needed
+   */
+  private async refresh(teamId: string): Promise<BM25Index> {
+    const loaded = this.indexes.get(teamId);
+    const state = this.sync.get(teamId);
+
+    let meta: Awaited<ReturnType<IStorage['getBM25IndexByTeam']>>;
+    try {
+      meta = await this.storage.getBM25IndexByTeam(teamId);
+    } catch (err) {
+      // Storage unavailable: keep serving what we have rather than failing searches
+      logger.warn({ err, teamId }, 'BM25 version check failed; using in-memory index');
+      return loaded ?? this.setIndex(teamId, new BM25Index(this.k1, this.b), state?.version ?? 0);
+    }
+
+    const remoteVersion = meta?.version ?? 0;
+    if (loaded && state && !state.stale && state.version === remoteVersion) {
+      state.checkedAt = Date.now();
+      return loaded;
+    }
+
+    // The snapshot is being rewritten; keep serving our copy until it settles
+    if (loaded && state && meta && this.rebuildRunningElsewhere(meta)) {
+      state.checkedAt = Date.now();
+      return loaded;
+    }
+
+    if (loaded && state && !state.stale) {
+      try {
+        await this.catchUp(teamId, loaded, state, remoteVersion);
+        return loaded;
+      } catch (err) {
+        logger.warn({ err, teamId }, 'BM25 incremental sync failed; re-hydrating');
+      }
+    }
+
+    return this.hydrate(teamId, remoteVersion);
+  }
+
+  private rebuildRunningElsewhere(meta: { rebuildInProgress: boolean; rebuildOwner: string | null; rebuildStartedAt: Date | null }): boolean {
+    return (
+      meta.rebuildInProgress &&
+      meta.rebuildOwner !== this.instanceId &&
+      (!meta.rebuildStartedAt || Date.now() - meta.rebuildStartedAt.getTime() <= this.rebuildLockTtlMs)
+    );
+  }
+
+  /**
+   * Apply snapshot rows other instances changed since our last sync, and drop
+   * documents whose rows are gone, instead of re-reading the whole snapshot
+   */
+  private async catchUp(teamId: string, index: BM25Index, state: TeamSyncState, version: number): Promise<void> {
+    const syncedAt = Date.now();
+    const [changed, documentIds] = await Promise.all([
+      this.storage.getBM25IndexDocumentsSince(teamId, new Date(state.syncedAt - CLOCK_SKEW_MARGIN_MS)),
+      this.storage.getBM25IndexDocumentIds(teamId),
+    ]);
+
+    const live = new Set(documentIds);
+    for (const docId of index.getDocumentIds()) {
+      if (!live.has(docId)) index.removeDocument(docId);
+    }
+    for (const row of changed) {
+      index.addPostings(this.toDocument(row), deserializeTermFrequencies(row.termFrequencies), row.docLength);
+    }
+
+    Object.assign(state, { version: Math.max(state.version, version), syncedAt, checkedAt: Date.now(), stale: false });
+    logger.debug({ teamId, changed: changed.length, version }, 'Caught up BM25 index from snapshot');
+  }
+
+  /**
+   * Load a team's index from its persisted snapshot rows
+   */
+  private async hydrate(teamId: string, version: number): Promise<BM25Index> {
+    const startTime = Date.now();
+    const rows = await this.storage.getBM25IndexDocuments(teamId);
+
+    const index = new BM25Index(this.k1, this.b);
+    index.import({
+      k1: this.k1,
+      b: this.b,
+      documents: rows.map((row) => [row.documentId, this.toDocument(row)] as [string, BM25Document]),
+      documentLengths: rows.map((row) => [row.documentId, row.docLength] as [string, number]),
+      termFrequencies: rows.map(
+        (row) => [row.documentId, Array.from(deserializeTermFrequencies(row.termFrequencies).entries())] as [string, [string, number][]]
+      ),
+    });
+
+    this.setIndex(teamId, index, version, startTime);
+    logger.info(
+      { teamId, docCount: rows.length, version, hydrateMs: Date.now() - startTime },
+      'Hydrated BM25 index from snapshot'
+    );
+    return index;
+  }
+
+  private setIndex(teamId: string, index: BM25Index, version: number, syncedAt: number = Date.now()): BM25Index {
+    this.indexes.set(teamId, index);
+    this.sync.set(teamId, { version, syncedAt, checkedAt: Date.now(), stale: false });
+    return index;
+  }
+
+  /**
+   * Rebuild a BM25Document from a snapshot row (content is not persisted; postings are)
+   */
+  private toDocument(row: BM25IndexDocument): BM25Document {
+    let metadata: Record<string, any> | undefined;
+    if (row.metadata) {
+      try {
+        metadata = JSON.parse(row.metadata);
+        if (metadata?.publishedAt) metadata.publishedAt = new Date(metadata.publishedAt);
+      } catch {
+        metadata = undefined;
+      }
+    }
+    return { id: row.documentId, content: '', teamId: row.teamId, metadata };
+  }
+
+  private toSnapshotRow(index: BM25Index, doc: BM25Document): InsertBM25IndexDocument {
+    const terms = index.getDocumentTerms(doc.id);
+    const tokens = terms ? undefined : tokenize(doc.content);
+    return {
+      teamId: doc.teamId,
+      documentId: doc.id,
+      docLength: terms?.length ?? tokens!.length,
+      termFrequencies: serializeTermFrequencies(terms?.termFrequencies ?? calculateTermFrequencies(tokens!)),
+      metadata: doc.metadata ? JSON.stringify(doc.metadata) : null,
+    };
+  }
+
+  /**
+   * Bump the persisted version after a change. If the new version skips past
+   * ours, another instance wrote in between; apply its rows on top of ours.
+   */
+  private async recordChange(teamId: string): Promise<void> {
+    const version = await this.storage.incrementBM25IndexVersion(teamId);
+    const state = this.sync.get(teamId);
+    const index = this.indexes.get(teamId);
+    if (!state || !index) return;
+    if (version === state.version + 1) {
+      state.version = version;
+      return;
+    }
+    try {
+      await this.catchUp(teamId, index, state, version);
+    } catch (err) {
+      logger.warn({ err, teamId }, 'BM25 incremental sync failed; re-hydrating on next use');
+      state.stale = true;
     }
-    return this.indexes.get(teamId)!;
   }
 
   /**
    * Add document to team index
    */
   async addDocument(doc: BM25Document): Promise<void> {
-    const index = this.getIndex(doc.teamId);
+    const index = await this.getIndex(doc.teamId);
     index.addDocument(doc);
 
-    // Update metadata in database
+    // Persist the document's postings, then metadata in database
+    await this.storage.upsertBM25IndexDocument(this.toSnapshotRow(index, doc));
+    await this.recordChange(doc.teamId);
     await this.updateIndexMetadata(doc.teamId);
 
     logger.debug(
@@ -50,10 +262,10 @@ export class BM25IndexManager {
   }
 
   /**
-   * Add article to team index
+   * Build the BM25 document for an article
    */
-  async addArticle(article: Article): Promise<void> {
-    const doc: BM25Document = {
+  private articleToDocument(article: Article): BM25Document {
+    return {
       id: article.id,
       content: `${article.title} ${article.content || ''}`,
       teamId: article.teamId,
@@ -64,17 +276,24 @@ export class BM25IndexManager {
         relevanceScore: article.relevanceScore,
       },
     };
+  }
 
-    await this.addDocument(doc);
+  /**
+   * Add article to team index
+   */
+  async addArticle(article: Article): Promise<void> {
+    await this.addDocument(this.articleToDocument(article));
   }
 
   /**
    * Remove document from team index
    */
   async removeDocument(docId: string, teamId: string): Promise<void> {
-    const index = this.getIndex(teamId);
+    const index = await this.getIndex(teamId);
     index.removeDocument(docId);
 
+    await this.storage.deleteBM25IndexDocument(teamId, docId);
+    await this.recordChange(teamId);
     await this.updateIndexMetadata(teamId);
 
     logger.debug({ docId, teamId }, 'Removed document from BM25 index');
@@ -88,7 +307,7 @@ export class BM25IndexManager {
     limit: number = 10
   ): Promise<BM25Result[]> {
     const startTime = Date.now();
-    const index = this.getIndex(query.teamId || '');
+    const index = await this.getIndex(query.teamId || '');
     
     const results = index.search(query, limit);
     const queryTime = Date.now() - startTime;
@@ -115,69 +334,77 @@ export class BM25IndexManager {
 
   /**
    * Rebuild index from database for a specific team
+   * Only one instance rebuilds a team at a time; others wait for it to finish
+   * and hydrate from the snapshot it wrote.
    */
   async rebuildIndex(teamId: string): Promise<void> {
-    logger.info({ teamId }, 'Rebuilding BM25 index');
+    const startedAt = new Date();
+    const acquired = await this.storage.acquireBM25RebuildLock(
+      teamId,
+      this.instanceId,
+      new Date(startedAt.getTime() - this.rebuildLockTtlMs)
+    );
 
-    // Mark rebuild in progress
-    const existingIndex = await storage.getBM25IndexByTeam(teamId);
-    if (existingIndex) {
-      await storage.updateBM25IndexStats(teamId, {
-        rebuildInProgress: true,
-      });
-    } else {
-      await storage.createBM25Index({
-        teamId,
-        rebuildInProgress: true,
-      });
+    if (!acquired) {
+      logger.info({ teamId }, 'BM25 rebuild already in progress on another instance; waiting');
+      if (await this.waitForRebuild(teamId)) {
+        const state = this.sync.get(teamId);
+        if (state) state.stale = true;
+      } else {
+        logger.info({ teamId, waitMs: this.rebuildWaitMs }, 'BM25 rebuild still running elsewhere; using current index');
+      }
+      await this.getIndex(teamId);
+      return;
     }
 
+    logger.info({ teamId, owner: this.instanceId }, 'Rebuilding BM25 index');
+
     try {
-      // Clear existing index
-      const index = new BM25Index(this.k1, this.b);
-      this.indexes.set(teamId, index);
+      const startVersion = (await this.storage.getBM25IndexByTeam(teamId))?.version ?? 0;
 
       // Load articles from database
-      const articles = await storage.getArticlesByTeam(teamId, 10000);
+      const articles = await this.storage.getArticlesByTeam(teamId, 10000);
 
       logger.info(
         { teamId, articleCount: articles.length },
         'Loading articles for BM25 index'
       );
 
-      // Add each article to index
-      for (const article of articles) {
-        const doc: BM25Document = {
-          id: article.id,
-          content: `${article.title} ${article.content || ''}`,
-          teamId: article.teamId,
-          metadata: {
-            category: article.category,
-            publishedAt: article.publishedAt,
-            sourceUrl: article.sourceUrl,
-          },
-        };
-        index.addDocument(doc);
-      }
+      const index = new BM25Index(this.k1, this.b);
+      index.import({
+        k1: this.k1,
+        b: this.b,
+        documents: articles.map((article) => [article.id, this.articleToDocument(article)] as [string, BM25Document]),
+        documentLengths: [],
+      });
 
-      // Update metadata
-      await this.updateIndexMetadata(teamId);
+      // Persist the new snapshot, keeping rows other instances wrote since we started
+      await this.storage.replaceBM25IndexDocuments(
+        teamId,
+        articles.map((article) => this.toSnapshotRow(index, index.getDocument(article.id)!)),
+        startedAt
+      );
+      const version = await this.storage.incrementBM25IndexVersion(teamId);
+      this.setIndex(teamId, index, version, startedAt.getTime());
+      if (version !== startVersion + 1) {
+        // Other instances wrote rows we did not build from; apply them now
+        await this.catchUp(teamId, index, this.sync.get(teamId)!, version);
+      }
 
-      // Mark rebuild complete
-      await storage.updateBM25IndexStats(teamId, {
-        rebuildInProgress: false,
+      const stats = index.getStats();
+      await this.storage.releaseBM25RebuildLock(teamId, this.instanceId, {
+        totalDocuments: stats.totalDocuments,
+        avgDocLength: Math.round(stats.avgDocLength),
         lastRebuiltAt: new Date(),
       });
 
       logger.info(
-        { teamId, docCount: articles.length },
+        { teamId, docCount: articles.length, version },
         'BM25 index rebuilt successfully'
       );
     } catch (error) {
-      // Mark rebuild failed
-      await storage.updateBM25IndexStats(teamId, {
-        rebuildInProgress: false,
-      });
+      // Release the lock so another attempt can proceed
+      await this.storage.releaseBM25RebuildLock(teamId, this.instanceId).catch(() => {});
       
       logger.error(
         { err: error, teamId },
@@ -187,13 +414,28 @@ export class BM25IndexManager {
     }
   }
 
+  /**
+   * Wait, at most rebuildWaitMs, until another instance's rebuild finishes
+   * or its lock goes stale
+   * @returns true if the rebuild is over, false if it is still running
+   */
+  private async waitForRebuild(teamId: string): Promise<boolean> {
+    const deadline = Date.now() + this.rebuildWaitMs;
+    for (;;) {
+      const meta = await this.storage.getBM25IndexByTeam(teamId);
+      if (!meta || !this.rebuildRunningElsewhere(meta)) return true;
+      if (Date.now() >= deadline) return false;
+      await new Promise((resolve) => setTimeout(resolve, this.rebuildPollMs));
+    }
+  }
+
   /**
    * Rebuild all team indexes
    */
   async rebuildAllIndexes(): Promise<void> {
     logger.info('Rebuilding all BM25 indexes');
 
-    const teams = await storage.getAllTeams();
+    const teams = await this.storage.getAllTeams();
     
     for (const team of teams) {
       try {
@@ -214,19 +456,19 @@ export class BM25IndexManager {
    * Update index metadata in database
    */
   private async updateIndexMetadata(teamId: string): Promise<void> {
-    const index = this.getIndex(teamId);
+    const index = await this.getIndex(teamId);
     const stats = index.getStats();
 
     // Check if index exists
-    const existingIndex = await storage.getBM25IndexByTeam(teamId);
+    const existingIndex = await this.storage.getBM25IndexByTeam(teamId);
 
     if (existingIndex) {
-      await storage.updateBM25IndexStats(teamId, {
+      await this.storage.updateBM25IndexStats(teamId, {
         totalDocuments: stats.totalDocuments,
         avgDocLength: Math.round(stats.avgDocLength),
       });
     } else {
-      await storage.createBM25Index({
+      await this.storage.createBM25Index({
         teamId,
         totalDocuments: stats.totalDocuments,
         avgDocLength: Math.round(stats.avgDocLength),
@@ -241,7 +483,7 @@ export class BM25IndexManager {
     teamId: string,
     queryTimeMs: number
   ): Promise<void> {
-    const existingIndex = await storage.getBM25IndexByTeam(teamId);
+    const existingIndex = await this.storage.getBM25IndexByTeam(teamId);
     
     if (!existingIndex) {
       return;
@@ -255,7 +497,7 @@ export class BM25IndexManager {
       (currentAvg * (totalQueries - 1) + queryTimeMs) / totalQueries
     );
 
-    await storage.updateBM25IndexStats(teamId, {
+    await this.storage.updateBM25IndexStats(teamId, {
       totalQueries,
       avgQueryTimeMs: newAvg,
     });
@@ -265,16 +507,17 @@ export class BM25IndexManager {
    * Get index statistics for team
    */
   async getIndexStats(teamId: string) {
-    const index = this.getIndex(teamId);
+    const index = await this.getIndex(teamId);
     const memoryStats = index.getStats();
     
     // Get database stats
-    const dbStats = await storage.getBM25IndexByTeam(teamId);
+    const dbStats = await this.storage.getBM25IndexByTeam(teamId);
 
     return {
       ...memoryStats,
       lastRebuiltAt: dbStats?.lastRebuiltAt,
       rebuildInProgress: dbStats?.rebuildInProgress || false,
+      version: dbStats?.version ?? 0,
       avgQueryTimeMs: dbStats?.avgQueryTimeMs,
       totalQueries: dbStats?.totalQueries || 0,
     };
@@ -302,6 +545,8 @@ export class BM25IndexManager {
     const index = this.indexes.get(teamId);
     if (index) {
       index.clear();
+      this.indexes.delete(teamId);
+      this.sync.delete(teamId);
       logger.info({ teamId }, 'Cleared BM25 index');
     }
   }
@@ -315,6 +560,7 @@ export class BM25IndexManager {
       logger.info({ teamId }, 'Cleared BM25 index');
     }
     this.indexes.clear();
+    this.sync.clear();
   }
 
   /**
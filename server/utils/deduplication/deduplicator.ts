@@ -2,12 +2,15 @@
  * Article Deduplication Service
  * 
  * Checks new articles against recent articles to detect near-duplicates
- * using MinHash similarity matching.
+ * using MinHash similarity matching. Candidates are narrowed with LSH band
+ * buckets so only colliding articles are compared.
  */
 
 import { MinHash, MinHashSignature } from './minHash';
+import { lshBandKeys } from './lsh';
 import { logger } from '../../logger';
-import { storage } from '../../storage';
+import { storage as defaultStorage } from '../../storage';
+import type { IStorage } from '../../storage';
 import type { Article } from '@shared/schema';
 
 export interface DeduplicationResult {
@@ -21,18 +24,22 @@ export class Deduplicator {
   private minHash: MinHash;
   private similarityThreshold: number;
   private checkWindowDays: number;
+  private storage: IStorage;
 
   /**
    * @param similarityThreshold - Threshold for duplicate detection (default: 0.85)
    * @param checkWindowDays - Days to look back for duplicates (default: 7)
+   * @param storage - Storage backend (default: shared storage)
    */
   constructor(
     similarityThreshold: number = 0.85,
-    checkWindowDays: number = 7
+    checkWindowDays: number = 7,
+    storage?: IStorage
   ) {
     this.minHash = new MinHash();
     this.similarityThreshold = similarityThreshold;
     this.checkWindowDays = checkWindowDays;
+    this.storage = storage || defaultStorage;
   }
 
   /**
@@ -50,23 +57,26 @@ export class Deduplicator {
       // Generate signature for new article
       const newSignature = this.minHash.signature(content);
 
-      // Get recent articles for team
-      const recentArticles = await storage.getRecentArticles(
+      // Get recent articles sharing an LSH bucket with the new signature
+      const since = new Date();
+      since.setDate(since.getDate() - this.checkWindowDays);
+      const candidates = await this.storage.getArticleLshCandidates(
         teamId,
-        this.checkWindowDays
+        lshBandKeys(newSignature),
+        since
       );
 
       logger.debug(
         {
           teamId,
-          recentArticlesCount: recentArticles.length,
+          candidateCount: candidates.length,
           checkWindowDays: this.checkWindowDays,
         },
         'Checking for duplicate articles'
       );
 
-      // Check against each article
-      for (const article of recentArticles) {
+      // Verify each candidate
+      for (const article of candidates) {
         if (!article.minHash) continue;
 
         try {
@@ -130,8 +140,9 @@ export class Deduplicator {
       const signature = this.minHash.signature(content);
       const serialized = MinHash.serialize(signature);
 
-      await storage.updateArticle(articleId, {
+      await this.storage.updateArticle(articleId, {
         minHash: serialized,
+        lshBands: lshBandKeys(signature),
       });
 
       logger.debug({ articleId }, 'Generated MinHash signature for article');
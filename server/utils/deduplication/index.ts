@@ -10,8 +10,21 @@ export {
   type MinHashSignature,
 } from './minHash';
 
+export {
+  LSH_BANDS,
+  LSH_ROWS_PER_BAND,
+  lshBandKeys,
+  lshCandidateProbability,
+} from './lsh';
+
 export {
   Deduplicator,
   deduplicator,
   type DeduplicationResult,
 } from './deduplicator';
+
+export {
+  StoryClusterer,
+  storyClusterer,
+  type StoryThread,
+} from './storyClusterer';
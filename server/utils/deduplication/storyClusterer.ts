@@ -0,0 +1,141 @@
+/**
+ * Story Clusterer
+ *
+ * Groups near-duplicate coverage of the same story from different outlets
+ * into a story cluster instead of discarding it. The earliest published
+ * article is the cluster's canonical article.
+ */
+
+import { logger } from '../../logger';
+import { storage as defaultStorage } from '../../storage';
+import type { IStorage } from '../../storage';
+import type { Article, StoryCluster } from '@shared/schema';
+
+/**
+ * Cluster summary attached to feed items
+ */
+export interface StoryThread {
+  clusterId: string;
+  outletCount: number;
+  sources: Array<{
+    articleId: string;
+    sourceName: string;
+    sourceUrl: string;
+    publishedAt: Date;
+  }>;
+  firstSeenAt: Date;
+  lastUpdatedAt: Date;
+}
+
+export class StoryClusterer {
+  private storage: IStorage;
+
+  constructor(storage?: IStorage) {
+    this.storage = storage || defaultStorage;
+  }
+
+  /**
+   * Attach an article to the cluster of the article it duplicates,
+   * creating the cluster on first match
+   *
+   * @param article - Newly persisted article
+   * @param matched - Existing article it was matched against
+   * @returns The cluster with refreshed counters
+   */
+  async attach(article: Article, matched: Article): Promise<StoryCluster> {
+    // The matched row may predate a clustering done since it was read
+    const current = (await this.storage.getArticle(matched.id)) ?? matched;
+    let cluster = current.clusterId
+      ? await this.storage.getStoryCluster(current.clusterId)
+      : undefined;
+
+    if (!cluster) {
+      cluster = await this.storage.createStoryCluster({
+        teamId: matched.teamId,
+        canonicalArticleId: matched.id,
+        firstSeenAt: matched.publishedAt,
+        lastUpdatedAt: matched.publishedAt,
+      });
+      await this.storage.updateArticle(matched.id, { clusterId: cluster.id });
+    }
+
+    await this.storage.updateArticle(article.id, { clusterId: cluster.id });
+    const refreshed = await this.refresh(cluster.id);
+
+    logger.debug(
+      {
+        clusterId: cluster.id,
+        articleId: article.id,
+        matchedArticleId: matched.id,
+        articleCount: refreshed?.articleCount,
+      },
+      'Article attached to story cluster'
+    );
+
+    return refreshed ?? cluster;
+  }
+
+  /**
+   * Recompute a cluster's counters, time span and canonical article
+   * from its current members
+   *
+   * @param clusterId - Cluster to refresh
+   * @returns Updated cluster, or undefined if it no longer exists
+   */
+  async refresh(clusterId: string): Promise<StoryCluster | undefined> {
+    const members = await this.storage.getArticlesByClusterIds([clusterId]);
+    if (members.length === 0) return this.storage.getStoryCluster(clusterId);
+
+    // Members come back oldest first
+    const canonical = members[0];
+    const latest = members[members.length - 1];
+
+    return this.storage.updateStoryCluster(clusterId, {
+      canonicalArticleId: canonical.id,
+      articleCount: members.length,
+      sourceCount: new Set(members.map((m) => m.sourceName)).size,
+      firstSeenAt: canonical.publishedAt,
+      lastUpdatedAt: latest.publishedAt,
+    });
+  }
+
+  /**
+   * Load the story threads for a set of clusters in two queries
+   *
+   * @param clusterIds - Cluster ids (duplicates and nulls are ignored)
+   * @returns Threads keyed by cluster id
+   */
+  async getThreads(clusterIds: Array<string | null>): Promise<Map<string, StoryThread>> {
+    const ids = Array.from(new Set(clusterIds.filter((id): id is string => !!id)));
+    const threads = new Map<string, StoryThread>();
+    if (ids.length === 0) return threads;
+
+    const [clusters, members] = await Promise.all([
+      this.storage.getStoryClustersByIds(ids),
+      this.storage.getArticlesByClusterIds(ids),
+    ]);
+
+    for (const cluster of clusters) {
+      threads.set(cluster.id, {
+        clusterId: cluster.id,
+        outletCount: cluster.sourceCount,
+        sources: [],
+        firstSeenAt: cluster.firstSeenAt,
+        lastUpdatedAt: cluster.lastUpdatedAt,
+      });
+    }
+    for (const member of members) {
+      const thread = member.clusterId ? threads.get(member.clusterId) : undefined;
+      thread?.sources.push({
+        articleId: member.id,
+        sourceName: member.sourceName,
+        sourceUrl: member.sourceUrl,
+        publishedAt: member.publishedAt,
+      });
+    }
+
+    return threads;
+  }
+}
+
+export const storyClusterer = new StoryClusterer();
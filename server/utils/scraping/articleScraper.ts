@@ -0,0 +1,264 @@
+/**
+ * Config-driven HTML Article Scraper
+ *
+ * Follows a source's list page to its article pages and extracts
+ * candidates using the selectors stored in news_sources.selector_config.
+ */
+
+import { selectorConfigSchema } from '../../../shared/schema';
+import type { NewsSource, SelectorConfig } from '@shared/schema';
+import { ValidationError } from '../../types/errors';
+import { withSource } from '../../logger';
+import { HTMLParser } from './parser';
+import { FeedParser } from './feedParser';
+import type { FeedArticleCandidate } from './feedParser';
+import { ethicalFetcher } from './fetcher';
+import type { EthicalFetcher } from './fetcher';
+
+const log = withSource('article-scraper');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Longest tokens first so "MMMM" wins over "MM" and "M"
+const DATE_TOKENS: Array<[string, string]> = [
+  ['YYYY', '(\\d{4})'],
+  ['MMMM', '([A-Za-z]+)'],
+  ['MMM', '([A-Za-z]{3})'],
+  ['MM', '(\\d{2})'],
+  ['M', '(\\d{1,2})'],
+  ['DD', '(\\d{2})'],
+  ['D', '(\\d{1,2})'],
+  ['HH', '(\\d{2})'],
+  ['H', '(\\d{1,2})'],
+  ['hh', '(\\d{2})'],
+  ['h', '(\\d{1,2})'],
+  ['mm', '(\\d{2})'],
+  ['ss', '(\\d{2})'],
+  ['A', '([AaPp][Mm])'],
+];
+
+export interface ScrapeOptions {
+  /** Return false to skip fetching an article URL (e.g. already ingested) */
+  shouldFetch?: (url: string) => boolean | Promise<boolean>;
+  /** Fallback publish date when the page has none (default: now) */
+  now?: Date;
+}
+
+export class ArticleScraper {
+  private fetcher: Pick<EthicalFetcher, 'fetch'>;
+
+  constructor(fetcher?: Pick<EthicalFetcher, 'fetch'>) {
+    this.fetcher = fetcher || ethicalFetcher;
+  }
+
+  /**
+   * Parse and validate a stored selector config
+   * @param raw JSON string from news_sources.selector_config
+   * @returns Validated config with defaults applied
+   * @throws ValidationError when missing, malformed or invalid
+   */
+  static parseConfig(raw: string | null | undefined): SelectorConfig {
+    if (!raw) {
+      throw new ValidationError('Selector config is required for scraper sources');
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch (err: any) {
+      throw new ValidationError('Selector config is not valid JSON', { reason: err?.message });
+    }
+    const parsed = selectorConfigSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new ValidationError('Selector config failed validation', {
+        issues: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`),
+      });
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Parse a date string according to a selector config dateFormat
+   * Token patterns are interpreted as UTC.
+   * @param text Raw date text or attribute value
+   * @param format 'iso' | 'rfc2822' | 'unix' | 'unix_ms' | token pattern
+   * @returns Date, or null if the text does not match
+   */
+  static parseDate(text: string | undefined | null, format: string): Date | null {
+    const trimmed = (text ?? '').trim();
+    if (!trimmed) return null;
+
+    switch (format) {
+      case 'iso':
+      case 'rfc2822':
+        return FeedParser.parseDate(trimmed);
+      case 'unix':
+      case 'unix_ms': {
+        const n = Number(trimmed);
+        if (!Number.isFinite(n)) return null;
+        return new Date(format === 'unix' ? n * 1000 : n);
+      }
+      default:
+        return this.parsePattern(trimmed, format);
+    }
+  }
+
+  private static parsePattern(text: string, pattern: string): Date | null {
+    const order: string[] = [];
+    let regex = '';
+    let i = 0;
+    while (i < pattern.length) {
+      const token = DATE_TOKENS.find(([t]) => pattern.startsWith(t, i));
+      if (token) {
+        order.push(token[0]);
+        regex += token[1];
+        i += token[0].length;
+      } else {
+        regex += pattern[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        i += 1;
+      }
+    }
+
+    const match = text.match(new RegExp(`^${regex}$`));
+    if (!match) return null;
+
+    let year = 1970, month = 0, day = 1, hour = 0, minute = 0, second = 0;
+    let meridiem: string | null = null;
+    order.forEach((token, idx) => {
+      const value = match[idx + 1];
+      switch (token) {
+        case 'YYYY': year = Number(value); break;
+        case 'MMMM':
+        case 'MMM': month = MONTHS.indexOf(value.slice(0, 3).toLowerCase()); break;
+        case 'MM':
+        case 'M': month = Number(value) - 1; break;
+        case 'DD':
+        case 'D': day = Number(value); break;
+        case 'HH':
+        case 'H':
+        case 'hh':
+        case 'h': hour = Number(value); break;
+        case 'mm': minute = Number(value); break;
+        case 'ss': second = Number(value); break;
+        case 'A': meridiem = value.toLowerCase(); break;
+      }
+    });
+    if (month < 0 || month > 11) return null;
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+
+    const date = new Date(Date.UTC(year, month, day, hour, minute, second));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Extract absolute article links from a list page
+   * @returns Unique links in page order, capped at config.maxArticles
+   */
+  extractLinks(html: string, config: SelectorConfig, pageUrl: string): string[] {
+    const $ = HTMLParser.load(html);
+    const links: string[] = [];
+    const seen = new Set<string>();
+
+    HTMLParser.safeFind($, config.itemSelector).each((_, item) => {
+      if (links.length >= config.maxArticles) return false;
+      const $item = $(item);
+      const $link = $item.is(config.linkSelector) ? $item : $item.find(config.linkSelector).first();
+      const url = FeedParser.resolveUrl(HTMLParser.extractAttribute($link, config.linkAttribute), pageUrl);
+      if (!url || seen.has(url)) return;
+      seen.add(url);
+      links.push(url);
+    });
+
+    return links;
+  }
+
+  /**
+   * Extract a candidate from an article page
+   * @returns Candidate, or null when title or body selectors find nothing
+   */
+  extractArticle(
+    html: string,
+    config: SelectorConfig,
+    url: string,
+    sourceName: string,
+    now: Date = new Date()
+  ): FeedArticleCandidate | null {
+    const $ = HTMLParser.load(html);
+    for (const selector of config.removeSelectors) {
+      HTMLParser.safeFind($, selector).remove();
+    }
+
+    const title = HTMLParser.cleanText(HTMLParser.safeFind($, config.titleSelector).first().text());
+    const $body = HTMLParser.safeFind($, config.bodySelector);
+    const content = FeedParser.toPlainText(
+      $body.map((_, el) => $(el).html() ?? '').get().join(' ')
+    );
+    if (!title || !content) return null;
+
+    const author = config.authorSelector
+      ? HTMLParser.cleanText(HTMLParser.safeFind($, config.authorSelector).first().text()) || null
+      : null;
+
+    let publishedAt: Date | null = null;
+    if (config.dateSelector) {
+      const $date = HTMLParser.safeFind($, config.dateSelector).first();
+      const raw = config.dateAttribute
+        ? HTMLParser.extractAttribute($date, config.dateAttribute)
+        : HTMLParser.extractText($date);
+      publishedAt = ArticleScraper.parseDate(raw, config.dateFormat);
+    }
+
+    return {
+      title,
+      content,
+      author,
+      publishedAt: publishedAt ?? now,
+      sourceUrl: url,
+      sourceName,
+    };
+  }
+
+  /**
+   * Scrape a source: fetch its list page, then each linked article page.
+   * Article fetches are spaced to honour the source's requestsPerMinute on top
+   * of the fetcher's per-domain rate limit. A failing article page is logged
+   * and skipped; a failing list page throws.
+   */
+  async scrape(source: NewsSource, options: ScrapeOptions = {}): Promise<FeedArticleCandidate[]> {
+    const config = ArticleScraper.parseConfig(source.selectorConfig);
+    const listUrl = config.listUrl ?? source.baseUrl;
+    if (!listUrl) {
+      throw new ValidationError('Scraper source has no listUrl or baseUrl', { source: source.name });
+    }
+
+    const listHtml = await this.fetcher.fetch(listUrl);
+    const links = this.extractLinks(listHtml, config, listUrl);
+    const spacingMs = Math.ceil(60_000 / Math.max(1, source.requestsPerMinute));
+    let lastFetchAt = Date.now();
+
+    const out: FeedArticleCandidate[] = [];
+    for (const url of links) {
+      if (options.shouldFetch && !(await options.shouldFetch(url))) continue;
+
+      const waitMs = lastFetchAt + spacingMs - Date.now();
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+
+      try {
+        lastFetchAt = Date.now();
+        const html = await this.fetcher.fetch(url);
+        const candidate = this.extractArticle(html, config, url, source.name, options.now);
+        if (candidate) {
+          out.push(candidate);
+        } else {
+          log.debug({ sourceName: source.name, url }, 'article selectors matched nothing');
+        }
+      } catch (err) {
+        log.warn({ sourceName: source.name, url, err }, 'article fetch failed');
+      }
+    }
+
+    return out;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * RSS / Atom Feed Parser
+ *
+ * Normalizes RSS 2.0 and Atom 1.0 feeds into article candidates.
+ * Handles CDATA bodies, HTML entities, relative links and missing dates.
+ */
+
+import * as cheerio from 'cheerio';
+import type { InsertArticle } from '@shared/schema';
+import { HTMLParser } from './parser';
+
+export type FeedArticleCandidate = Pick<
+  InsertArticle,
+  'title' | 'content' | 'author' | 'publishedAt' | 'sourceUrl' | 'sourceName'
+>;
+
+export interface FeedParseOptions {
+  /** Source name stamped on every candidate */
+  sourceName: string;
+  /** URL the feed was fetched from; used to resolve relative links */
+  feedUrl?: string;
+  /** Fallback publish date when neither item nor channel carry one (default: now) */
+  now?: Date;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom' | 'unknown';
+  title: string | null;
+  link: string | null;
+  items: FeedArticleCandidate[];
+}
+
+/** Atom link relations that never point at the article itself */
+const SKIPPED_ATOM_RELS = new Set(['self', 'edit', 'enclosure']);
+
+export class FeedParser {
+  /**
+   * Parse an RSS or Atom document
+   * @param xml Raw feed XML
+   * @param options Source name, feed URL and date fallback
+   * @returns Feed metadata and normalized candidates (items without title or link are dropped)
+   */
+  static parse(xml: string, options: FeedParseOptions): ParsedFeed {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const now = options.now ?? new Date();
+
+    if ($('feed').length > 0) {
+      return this.parseAtom($, options, now);
+    }
+    if ($('rss, channel, rdf\\:RDF').length > 0) {
+      return this.parseRss($, options, now);
+    }
+    return { format: 'unknown', title: null, link: null, items: [] };
+  }
+
+  /**
+   * Decode entities and strip markup from a feed field
+   * Feed bodies are frequently escaped HTML, so this runs the text through
+   * an HTML document to resolve both tags and named entities.
+   * @param raw Field text as found in the XML
+   * @returns Plain text with collapsed whitespace
+   */
+  static toPlainText(raw: string): string {
+    if (!raw) return '';
+    const $ = cheerio.load(`<div>${raw}</div>`);
+    $('script, style').remove();
+    $('br, p, div, li').each((_, el) => {
+      $(el).append(' ');
+    });
+    return HTMLParser.cleanText($('div').first().text());
+  }
+
+  /**
+   * Resolve a possibly relative link against a base URL
+   * @returns Absolute URL, or null if it cannot be resolved
+   */
+  static resolveUrl(link: string | undefined | null, base?: string | null): string | null {
+    const trimmed = (link ?? '').trim();
+    if (!trimmed) return null;
+    try {
+      return new URL(trimmed, base || undefined).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse a feed date (RFC 822 or ISO 8601)
+   * @returns Date, or null when missing or unparseable
+   */
+  static parseDate(raw: string | undefined | null): Date | null {
+    const trimmed = (raw ?? '').trim();
+    if (!trimmed) return null;
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private static parseRss(
+    $: cheerio.CheerioAPI,
+    options: FeedParseOptions,
+    now: Date
+  ): ParsedFeed {
+    const $channel = $('channel').first();
+    const channelLink = this.resolveUrl($channel.children('link').first().text(), options.feedUrl);
+    const base = channelLink ?? options.feedUrl ?? null;
+    const channelDate =
+      this.parseDate($channel.children('lastBuildDate').first().text()) ??
+      this.parseDate($channel.children('pubDate').first().text());
+
+    const items: FeedArticleCandidate[] = [];
+    $('item').each((_, elem) => {
+      const $item = $(elem);
+      const title = this.toPlainText($item.children('title').first().text());
+
+      const $guid = $item.children('guid').first();
+      const guidIsLink = $guid.length > 0 && $guid.attr('isPermaLink') !== 'false';
+      const rawLink = $item.children('link').first().text() || (guidIsLink ? $guid.text() : '');
+      const sourceUrl = this.resolveUrl(rawLink, base);
+
+      const body =
+        $item.children('content\\:encoded').first().text() ||
+        $item.children('description').first().text();
+      const content = this.toPlainText(body);
+
+      const author =
+        this.toPlainText($item.children('dc\\:creator').first().text()) ||
+        this.toPlainText($item.children('author').first().text()) ||
+        null;
+
+      const publishedAt =
+        this.parseDate($item.children('pubDate').first().text()) ??
+        this.parseDate($item.children('dc\\:date').first().text()) ??
+        channelDate ??
+        now;
+
+      if (!title || !sourceUrl) return;
+      items.push({
+        title,
+        content: content || title,
+        author,
+        publishedAt,
+        sourceUrl,
+        sourceName: options.sourceName,
+      });
+    });
+
+    return {
+      format: 'rss',
+      title: this.toPlainText($channel.children('title').first().text()) || null,
+      link: channelLink,
+      items,
+    };
+  }
+
+  private static parseAtom(
+    $: cheerio.CheerioAPI,
+    options: FeedParseOptions,
+    now: Date
+  ): ParsedFeed {
+    const $feed = $('feed').first();
+    const feedBase = this.resolveUrl($feed.attr('xml:base'), options.feedUrl) ?? options.feedUrl ?? null;
+    const feedLink = this.resolveUrl(this.pickAtomLink($, $feed.children('link')), feedBase);
+    const base = feedBase ?? feedLink;
+    const feedDate = this.parseDate($feed.children('updated').first().text());
+
+    const items: FeedArticleCandidate[] = [];
+    $feed.children('entry').each((_, elem) => {
+      const $entry = $(elem);
+      const entryBase = this.resolveUrl($entry.attr('xml:base'), base) ?? base;
+      const title = this.toPlainText($entry.children('title').first().text());
+      const sourceUrl = this.resolveUrl(this.pickAtomLink($, $entry.children('link')), entryBase);
+
+      const body =
+        $entry.children('content').first().text() ||
+        $entry.children('summary').first().text();
+      const content = this.toPlainText(body);
+
+      const author =
+        this.toPlainText($entry.children('author').first().children('name').first().text()) ||
+        this.toPlainText($feed.children('author').first().children('name').first().text()) ||
+        null;
+
+      const publishedAt =
+        this.parseDate($entry.children('published').first().text()) ??
+        this.parseDate($entry.children('updated').first().text()) ??
+        feedDate ??
+        now;
+
+      if (!title || !sourceUrl) return;
+      items.push({
+        title,
+        content: content || title,
+        author,
+        publishedAt,
+        sourceUrl,
+        sourceName: options.sourceName,
+      });
+    });
+
+    return {
+      format: 'atom',
+      title: this.toPlainText($feed.children('title').first().text()) || null,
+      link: feedLink,
+      items,
+    };
+  }
+
+  /**
+   * Prefer rel="alternate" (or no rel) Atom links over self/edit/enclosure links
+   */
+  private static pickAtomLink($: cheerio.CheerioAPI, $links: cheerio.Cheerio<any>): string | undefined {
+    let fallback: string | undefined;
+    let chosen: string | undefined;
+    $links.each((_, el) => {
+      const rel = $(el).attr('rel');
+      const href = $(el).attr('href');
+      if (!href) return;
+      if (!rel || rel === 'alternate') {
+        chosen = chosen ?? href;
+      } else if (!fallback && !SKIPPED_ATOM_RELS.has(rel)) {
+        fallback = href;
+      }
+    });
+    return chosen ?? fallback;
+  }
+}
@@ -3,11 +3,17 @@
  * 
  * Combines rate limiting, robots.txt compliance, and retry logic
  * for responsible web scraping.
+ *
+ * Fixture modes (SCRAPER_FIXTURE_MODE):
+ * - live: fetch from the network
+ * - record: fetch from the network and append each response to a fixture file
+ * - replay: serve recorded responses by URL without touching the network
  */
 
 import { config } from '../../config';
 import { globalRateLimiter } from './rateLimiter';
 import { globalRobotsChecker } from './robotsChecker';
+import { FixtureStore } from './fixtureStore';
 
 export interface FetchOptions {
   timeout?: number;
@@ -16,16 +22,53 @@ export interface FetchOptions {
   bypassRobots?: boolean;
 }
 
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+// Scoreboard URLs carry the day being fetched, which never matches a recording made on another day
+export const DEFAULT_REPLAY_IGNORE_PARAMS = ['dates', 'date'];
+
+export interface FixtureModeOptions {
+  dir?: string; // fixture directory (default: SCRAPER_FIXTURE_DIR)
+  /**
+   * Replay only: position on the recorded timeline. Each URL serves its latest
+   * response recorded at or before this time. Without a clock, each call to a
+   * URL serves its next recorded response, repeating the last one.
+   */
+  clock?: () => Date;
+  ignoreParams?: string[]; // replay only: query params to ignore when matching URLs (default: dates, date)
+}
+
 export class EthicalFetcher {
   private readonly userAgent: string;
   private readonly timeout: number;
   private readonly maxRetries: number;
+  private fixtureMode: FixtureMode = 'live';
+  private fixtures: FixtureStore | null = null;
+  private replayOptions: FixtureModeOptions = {};
+  private replayCursor: Map<string, number> = new Map();
 
   constructor() {
     this.userAgent = config.scraperUserAgent || 
       'CornerLeagueMedia/1.0 (+https://cornerleague.com/bot; contact@cornerleague.com)';
     this.timeout = config.scraperTimeoutMs || 10000;
     this.maxRetries = config.scraperMaxRetries || 3;
+    this.setFixtureMode(config.scraperFixtureMode);
+  }
+
+  /**
+   * Switch between live fetching, recording and replay
+   * @param mode Fixture mode
+   * @param options Fixture directory and replay settings
+   */
+  setFixtureMode(mode: FixtureMode, options: FixtureModeOptions = {}): void {
+    this.fixtureMode = mode;
+    this.replayOptions = options;
+    this.replayCursor.clear();
+    this.fixtures = mode === 'live' ? null : new FixtureStore(options.dir ?? config.scraperFixtureDir);
+  }
+
+  getFixtureMode(): FixtureMode {
+    return this.fixtureMode;
   }
 
   /**
@@ -42,6 +85,10 @@ export class EthicalFetcher {
       bypassRobots = false,
     } = options;
 
+    if (this.fixtureMode === 'replay') {
+      return this.replay(url);
+    }
+
     // Check robots.txt
     if (!bypassRobots) {
       const canFetch = await globalRobotsChecker.canFetch(url);
@@ -79,7 +126,11 @@ export class EthicalFetcher {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        return await response.text();
+        const body = await response.text();
+        if (this.fixtureMode === 'record') {
+          await this.record(url, body);
+        }
+        return body;
       } catch (err: any) {
         const isLastAttempt = attempt === maxRetries;
         
@@ -97,6 +148,44 @@ export class EthicalFetcher {
     throw new Error(`Failed to fetch ${url}`);
   }
 
+  /**
+   * Save a fetched response; a failed write never fails the fetch itself
+   */
+  private async record(url: string, body: string): Promise<void> {
+    try {
+      await this.fixtures?.append(url, body);
+    } catch (err: any) {
+      console.warn(`Failed to record fixture for ${url}: ${err.message}`);
+    }
+  }
+
+  /**
+   * Serve a recorded response for a URL
+   * @param url The requested URL
+   * @returns The recorded body
+   */
+  private replay(url: string): string {
+    const fixture = this.fixtures?.get(url, this.replayOptions.ignoreParams ?? DEFAULT_REPLAY_IGNORE_PARAMS);
+    if (!fixture || fixture.responses.length === 0) {
+      throw new Error(`No recorded fixture for ${url}`);
+    }
+
+    const { clock } = this.replayOptions;
+    if (clock) {
+      // Latest response recorded at or before the replay clock; the first one before the timeline starts
+      const now = clock().getTime();
+      let chosen = fixture.responses[0];
+      for (const response of fixture.responses) {
+        if (Date.parse(response.recordedAt) <= now) chosen = response;
+      }
+      return chosen.body;
+    }
+
+    const index = this.replayCursor.get(fixture.url) ?? 0;
+    this.replayCursor.set(fixture.url, index + 1);
+    return fixture.responses[Math.min(index, fixture.responses.length - 1)].body;
+  }
+
   /**
    * Fetch multiple URLs concurrently with rate limiting
    * @param urls Array of URLs to fetch
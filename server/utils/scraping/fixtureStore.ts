@@ -0,0 +1,170 @@
+/**
+ * Fixture Store for Recorded Responses
+ *
+ * Keeps responses captured by EthicalFetcher in record mode, one JSON Lines
+ * file per URL, so they can be served back offline in replay mode. Each line
+ * is one response recorded for the file's URL, oldest first, which lets a
+ * live game be replayed as a timeline; recording appends a line instead of
+ * rewriting the file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export interface RecordedResponse {
+  recordedAt: string; // ISO timestamp
+  body: string;
+}
+
+export interface RecordedFixture {
+  url: string;
+  responses: RecordedResponse[];
+}
+
+// One line of a fixture file
+interface RecordedLine extends RecordedResponse {
+  url: string;
+}
+
+/**
+ * Drop query parameters that change between recording and replay
+ * (e.g., "dates" on a scoreboard URL) so the URLs still match
+ */
+export function normalizeFixtureUrl(url: string, ignoreParams: string[] = []): string {
+  if (ignoreParams.length === 0) return url;
+  const parsed = new URL(url);
+  for (const param of ignoreParams) {
+    parsed.searchParams.delete(param);
+  }
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+export class FixtureStore {
+  private readonly dir: string;
+  private fixtures: Map<string, RecordedFixture> | null = null;
+  // Pending writes per URL, so concurrent recordings of one URL append in order
+  private writes = new Map<string, Promise<void>>();
+
+  /**
+   * @param dir Directory holding fixture files (created on first write)
+   */
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * File name for a URL: readable host and path, plus a hash of the full URL
+   * @param url The recorded URL
+   */
+  fileFor(url: string): string {
+    const parsed = new URL(url);
+    const slug = `${parsed.hostname}${parsed.pathname}`
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 80);
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 10);
+    return path.join(this.dir, `${slug}-${hash}.jsonl`);
+  }
+
+  /**
+   * Find the fixture recorded for a URL
+   * @param url Requested URL
+   * @param ignoreParams Query parameters to ignore when matching
+   */
+  get(url: string, ignoreParams: string[] = []): RecordedFixture | undefined {
+    const fixtures = this.load();
+    const exact = fixtures.get(url);
+    if (exact || ignoreParams.length === 0) return exact;
+
+    const wanted = normalizeFixtureUrl(url, ignoreParams);
+    return Array.from(fixtures.values()).find((f) => normalizeFixtureUrl(f.url, ignoreParams) === wanted);
+  }
+
+  /**
+   * Append a response to a URL's fixture file
+   * @param url Fetched URL
+   * @param body Response body
+   * @param recordedAt When the response was received
+   */
+  async append(url: string, body: string, recordedAt: Date = new Date()): Promise<void> {
+    const fixtures = this.load();
+    const fixture = fixtures.get(url) ?? { url, responses: [] };
+    const response: RecordedResponse = { recordedAt: recordedAt.toISOString(), body };
+    fixture.responses.push(response);
+    fixtures.set(url, fixture);
+
+    const line: RecordedLine = { url, ...response };
+    const write = (this.writes.get(url) ?? Promise.resolve())
+      .catch(() => {}) // A failed write must not block later ones
+      .then(async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        await fs.promises.appendFile(this.fileFor(url), JSON.stringify(line) + '\n');
+      });
+    this.writes.set(url, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(url) === write) this.writes.delete(url);
+    }
+  }
+
+  /**
+   * Every fixture in the directory
+   */
+  list(): RecordedFixture[] {
+    return Array.from(this.load().values());
+  }
+
+  /**
+   * First and last recording times across all fixtures, or null when empty
+   */
+  timeline(): { start: Date; end: Date } | null {
+    let start = Infinity;
+    let end = -Infinity;
+    for (const fixture of this.list()) {
+      for (const response of fixture.responses) {
+        const t = Date.parse(response.recordedAt);
+        if (t < start) start = t;
+        if (t > end) end = t;
+      }
+    }
+    return Number.isFinite(start) ? { start: new Date(start), end: new Date(end) } : null;
+  }
+
+  /**
+   * Forget the cached index so files written by another process are picked up
+   */
+  reload(): void {
+    this.fixtures = null;
+  }
+
+  private load(): Map<string, RecordedFixture> {
+    if (this.fixtures) return this.fixtures;
+    const fixtures = new Map<string, RecordedFixture>();
+    if (fs.existsSync(this.dir)) {
+      for (const file of fs.readdirSync(this.dir)) {
+        if (!file.endsWith('.jsonl')) continue;
+        for (const raw of fs.readFileSync(path.join(this.dir, file), 'utf8').split('\n')) {
+          if (!raw.trim()) continue;
+          try {
+            const line = JSON.parse(raw) as RecordedLine;
+            if (!line?.url || typeof line.body !== 'string') continue;
+            const fixture = fixtures.get(line.url) ?? { url: line.url, responses: [] };
+            fixture.responses.push({ recordedAt: line.recordedAt, body: line.body });
+            fixtures.set(line.url, fixture);
+          } catch {
+            // Partial or foreign line; ignore
+          }
+        }
+      }
+    }
+    this.fixtures = fixtures;
+    return fixtures;
+  }
+}
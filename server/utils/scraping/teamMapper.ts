@@ -3,366 +3,190 @@
  * 
  * Maps team names/abbreviations from various sources to standardized team IDs.
  * Format: SPORT_CODE (e.g., NBA_LAL, NFL_NE, MLB_NYY)
+ *
+ * Teams are kept per league in ./teams/*.json rather than in code, so
+ * adding a league (or a few hundred college programs) is a data change.
  */
 
+import nbaData from './teams/nba.json';
+import nflData from './teams/nfl.json';
+import mlbData from './teams/mlb.json';
+import nhlData from './teams/nhl.json';
+import mlsData from './teams/mls.json';
+import eplData from './teams/epl.json';
+import laLigaData from './teams/laliga.json';
+import bundesligaData from './teams/bundesliga.json';
+import serieAData from './teams/seriea.json';
+import uclData from './teams/ucl.json';
+import ncaafData from './teams/ncaaf.json';
+import ncaabData from './teams/ncaab.json';
+
 export interface TeamMapping {
   [key: string]: string;
 }
 
-export class TeamMapper {
-  // NBA Teams (30 teams)
-  private static nbaTeams: TeamMapping = {
-    // Atlantic Division
-    'Celtics': 'NBA_BOS',
-    'BOS': 'NBA_BOS',
-    'Nets': 'NBA_BKN',
-    'BKN': 'NBA_BKN',
-    'Knicks': 'NBA_NYK',
-    'NYK': 'NBA_NYK',
-    '76ers': 'NBA_PHI',
-    'PHI': 'NBA_PHI',
-    'Raptors': 'NBA_TOR',
-    'TOR': 'NBA_TOR',
-    
-    // Central Division
-    'Bulls': 'NBA_CHI',
-    'CHI': 'NBA_CHI',
-    'Cavaliers': 'NBA_CLE',
-    'CLE': 'NBA_CLE',
-    'Pistons': 'NBA_DET',
-    'DET': 'NBA_DET',
-    'Pacers': 'NBA_IND',
-    'IND': 'NBA_IND',
-    'Bucks': 'NBA_MIL',
-    'MIL': 'NBA_MIL',
-    
-    // Southeast Division
-    'Hawks': 'NBA_ATL',
-    'ATL': 'NBA_ATL',
-    'Hornets': 'NBA_CHA',
-    'CHA': 'NBA_CHA',
-    'Heat': 'NBA_MIA',
-    'MIA': 'NBA_MIA',
-    'Magic': 'NBA_ORL',
-    'ORL': 'NBA_ORL',
-    'Wizards': 'NBA_WAS',
-    'WAS': 'NBA_WAS',
-    
-    // Northwest Division
-    'Nuggets': 'NBA_DEN',
-    'DEN': 'NBA_DEN',
-    'Timberwolves': 'NBA_MIN',
-    'MIN': 'NBA_MIN',
-    'Thunder': 'NBA_OKC',
-    'OKC': 'NBA_OKC',
-    'Trail Blazers': 'NBA_POR',
-    'POR': 'NBA_POR',
-    'Jazz': 'NBA_UTA',
-    'UTA': 'NBA_UTA',
-    
-    // Pacific Division
-    'Warriors': 'NBA_GSW',
-    'GSW': 'NBA_GSW',
-    'Clippers': 'NBA_LAC',
-    'LAC': 'NBA_LAC',
-    'Lakers': 'NBA_LAL',
-    'LAL': 'NBA_LAL',
-    'Suns': 'NBA_PHX',
-    'PHX': 'NBA_PHX',
-    'Kings': 'NBA_SAC',
-    'SAC': 'NBA_SAC',
-    
-    // Southwest Division
-    'Mavericks': 'NBA_DAL',
-    'DAL': 'NBA_DAL',
-    'Rockets': 'NBA_HOU',
-    'HOU': 'NBA_HOU',
-    'Grizzlies': 'NBA_MEM',
-    'MEM': 'NBA_MEM',
-    'Pelicans': 'NBA_NOP',
-    'NOP': 'NBA_NOP',
-    'Spurs': 'NBA_SAS',
-    'SAS': 'NBA_SAS',
-  };
+/**
+ * One team in a league data file (server/utils/scraping/teams/*.json).
+ * The code, name and every alias all resolve to `${league}_${code}`.
+ */
+export interface TeamRecord {
+  code: string;
+  name: string;
+  aliases?: string[];
+  conference?: string;
+  division?: string;
+}
+
+export interface TeamInfo extends TeamRecord {
+  id: string;
+  league: string;
+}
+
+export interface LeagueTeamData {
+  league: string;
+  teams: TeamRecord[];
+}
 
-  // NFL Teams (32 teams)
-  private static nflTeams: TeamMapping = {
-    // AFC East
-    'Bills': 'NFL_BUF',
-    'BUF': 'NFL_BUF',
-    'Dolphins': 'NFL_MIA',
-    'MIA': 'NFL_MIA',
-    'Patriots': 'NFL_NE',
-    'NE': 'NFL_NE',
-    'Jets': 'NFL_NYJ',
-    'NYJ': 'NFL_NYJ',
-    
-    // AFC North
-    'Ravens': 'NFL_BAL',
-    'BAL': 'NFL_BAL',
-    'Bengals': 'NFL_CIN',
-    'CIN': 'NFL_CIN',
-    'Browns': 'NFL_CLE',
-    'CLE': 'NFL_CLE',
-    'Steelers': 'NFL_PIT',
-    'PIT': 'NFL_PIT',
-    
-    // AFC South
-    'Texans': 'NFL_HOU',
-    'HOU': 'NFL_HOU',
-    'Colts': 'NFL_IND',
-    'IND': 'NFL_IND',
-    'Jaguars': 'NFL_JAX',
-    'JAX': 'NFL_JAX',
-    'Titans': 'NFL_TEN',
-    'TEN': 'NFL_TEN',
-    
-    // AFC West
-    'Broncos': 'NFL_DEN',
-    'DEN': 'NFL_DEN',
-    'Chiefs': 'NFL_KC',
-    'KC': 'NFL_KC',
-    'Raiders': 'NFL_LV',
-    'LV': 'NFL_LV',
-    'Chargers': 'NFL_LAC',
-    'LAC': 'NFL_LAC',
-    
-    // NFC East
-    'Cowboys': 'NFL_DAL',
-    'DAL': 'NFL_DAL',
-    'Giants': 'NFL_NYG',
-    'NYG': 'NFL_NYG',
-    'Eagles': 'NFL_PHI',
-    'PHI': 'NFL_PHI',
-    'Commanders': 'NFL_WAS',
-    'WAS': 'NFL_WAS',
-    
-    // NFC North
-    'Bears': 'NFL_CHI',
-    'CHI': 'NFL_CHI',
-    'Lions': 'NFL_DET',
-    'DET': 'NFL_DET',
-    'Packers': 'NFL_GB',
-    'GB': 'NFL_GB',
-    'Vikings': 'NFL_MIN',
-    'MIN': 'NFL_MIN',
-    
-    // NFC South
-    'Falcons': 'NFL_ATL',
-    'ATL': 'NFL_ATL',
-    'Panthers': 'NFL_CAR',
-    'CAR': 'NFL_CAR',
-    'Saints': 'NFL_NO',
-    'NO': 'NFL_NO',
-    'Buccaneers': 'NFL_TB',
-    'TB': 'NFL_TB',
-    
-    // NFC West
-    'Cardinals': 'NFL_ARI',
-    'ARI': 'NFL_ARI',
-    'Rams': 'NFL_LAR',
-    'LAR': 'NFL_LAR',
-    '49ers': 'NFL_SF',
-    'SF': 'NFL_SF',
-    'Seahawks': 'NFL_SEA',
-    'SEA': 'NFL_SEA',
-  };
+const LEAGUE_DATA: LeagueTeamData[] = [
+  nbaData, nflData, mlbData, nhlData,
+  mlsData, eplData, laLigaData, bundesligaData, serieAData, uclData,
+  ncaafData, ncaabData,
+];
 
-  // MLB Teams (30 teams)
-  private static mlbTeams: TeamMapping = {
-    // AL East
-    'Orioles': 'MLB_BAL',
-    'BAL': 'MLB_BAL',
-    'Red Sox': 'MLB_BOS',
-    'BOS': 'MLB_BOS',
-    'Yankees': 'MLB_NYY',
-    'NYY': 'MLB_NYY',
-    'Rays': 'MLB_TB',
-    'TB': 'MLB_TB',
-    'Blue Jays': 'MLB_TOR',
-    'TOR': 'MLB_TOR',
-    
-    // AL Central
-    'White Sox': 'MLB_CWS',
-    'CWS': 'MLB_CWS',
-    'Guardians': 'MLB_CLE',
-    'CLE': 'MLB_CLE',
-    'Tigers': 'MLB_DET',
-    'DET': 'MLB_DET',
-    'Royals': 'MLB_KC',
-    'KC': 'MLB_KC',
-    'Twins': 'MLB_MIN',
-    'MIN': 'MLB_MIN',
-    
-    // AL West
-    'Astros': 'MLB_HOU',
-    'HOU': 'MLB_HOU',
-    'Angels': 'MLB_LAA',
-    'LAA': 'MLB_LAA',
-    'Athletics': 'MLB_OAK',
-    'OAK': 'MLB_OAK',
-    'Mariners': 'MLB_SEA',
-    'SEA': 'MLB_SEA',
-    'Rangers': 'MLB_TEX',
-    'TEX': 'MLB_TEX',
-    
-    // NL East
-    'Braves': 'MLB_ATL',
-    'ATL': 'MLB_ATL',
-    'Marlins': 'MLB_MIA',
-    'MIA': 'MLB_MIA',
-    'Mets': 'MLB_NYM',
-    'NYM': 'MLB_NYM',
-    'Phillies': 'MLB_PHI',
-    'PHI': 'MLB_PHI',
-    'Nationals': 'MLB_WSH',
-    'WSH': 'MLB_WSH',
-    
-    // NL Central
-    'Cubs': 'MLB_CHC',
-    'CHC': 'MLB_CHC',
-    'Reds': 'MLB_CIN',
-    'CIN': 'MLB_CIN',
-    'Brewers': 'MLB_MIL',
-    'MIL': 'MLB_MIL',
-    'Pirates': 'MLB_PIT',
-    'PIT': 'MLB_PIT',
-    'Cardinals': 'MLB_STL',
-    'STL': 'MLB_STL',
-    
-    // NL West
-    'Diamondbacks': 'MLB_ARI',
-    'ARI': 'MLB_ARI',
-    'Rockies': 'MLB_COL',
-    'COL': 'MLB_COL',
-    'Dodgers': 'MLB_LAD',
-    'LAD': 'MLB_LAD',
-    'Padres': 'MLB_SD',
-    'SD': 'MLB_SD',
-    'Giants': 'MLB_SF',
-    'SF': 'MLB_SF',
-  };
+function buildMapping(data: LeagueTeamData): TeamMapping {
+  const mapping: TeamMapping = {};
+  for (const team of data.teams) {
+    const id = `${data.league}_${team.code}`;
+    mapping[team.code] = id;
+    mapping[team.name] = id;
+    for (const alias of team.aliases ?? []) {
+      mapping[alias] = id;
+    }
+  }
+  return mapping;
+}
 
-  // NHL Teams (32 teams)
-  private static nhlTeams: TeamMapping = {
-    // Atlantic Division
-    'Bruins': 'NHL_BOS',
-    'BOS': 'NHL_BOS',
-    'Sabres': 'NHL_BUF',
-    'BUF': 'NHL_BUF',
-    'Red Wings': 'NHL_DET',
-    'DET': 'NHL_DET',
-    'Panthers': 'NHL_FLA',
-    'FLA': 'NHL_FLA',
-    'Canadiens': 'NHL_MTL',
-    'MTL': 'NHL_MTL',
-    'Senators': 'NHL_OTT',
-    'OTT': 'NHL_OTT',
-    'Lightning': 'NHL_TB',
-    'TB': 'NHL_TB',
-    'Maple Leafs': 'NHL_TOR',
-    'TOR': 'NHL_TOR',
-    
-    // Metropolitan Division
-    'Hurricanes': 'NHL_CAR',
-    'CAR': 'NHL_CAR',
-    'Blue Jackets': 'NHL_CBJ',
-    'CBJ': 'NHL_CBJ',
-    'Devils': 'NHL_NJD',
-    'NJD': 'NHL_NJD',
-    'Islanders': 'NHL_NYI',
-    'NYI': 'NHL_NYI',
-    'Rangers': 'NHL_NYR',
-    'NYR': 'NHL_NYR',
-    'Flyers': 'NHL_PHI',
-    'PHI': 'NHL_PHI',
-    'Penguins': 'NHL_PIT',
-    'PIT': 'NHL_PIT',
-    'Capitals': 'NHL_WSH',
-    'WSH': 'NHL_WSH',
-    
-    // Central Division
-    'Blackhawks': 'NHL_CHI',
-    'CHI': 'NHL_CHI',
-    'Avalanche': 'NHL_COL',
-    'COL': 'NHL_COL',
-    'Stars': 'NHL_DAL',
-    'DAL': 'NHL_DAL',
-    'Wild': 'NHL_MIN',
-    'MIN': 'NHL_MIN',
-    'Predators': 'NHL_NSH',
-    'NSH': 'NHL_NSH',
-    'Blues': 'NHL_STL',
-    'STL': 'NHL_STL',
-    'Jets': 'NHL_WPG',
-    'WPG': 'NHL_WPG',
-    
-    // Pacific Division
-    'Ducks': 'NHL_ANA',
-    'ANA': 'NHL_ANA',
-    'Coyotes': 'NHL_ARI',
-    'ARI': 'NHL_ARI',
-    'Flames': 'NHL_CGY',
-    'CGY': 'NHL_CGY',
-    'Oilers': 'NHL_EDM',
-    'EDM': 'NHL_EDM',
-    'Kings': 'NHL_LAK',
-    'LAK': 'NHL_LAK',
-    'Sharks': 'NHL_SJS',
-    'SJS': 'NHL_SJS',
-    'Kraken': 'NHL_SEA',
-    'SEA': 'NHL_SEA',
-    'Canucks': 'NHL_VAN',
-    'VAN': 'NHL_VAN',
-    'Golden Knights': 'NHL_VGK',
-    'VGK': 'NHL_VGK',
-  };
+function leagueMapping(league: string): TeamMapping {
+  const data = LEAGUE_DATA.find((d) => d.league === league);
+  return data ? buildMapping(data) : {};
+}
+
+export class TeamMapper {
+  private static nbaTeams = leagueMapping('NBA');
+  private static nflTeams = leagueMapping('NFL');
+  private static mlbTeams = leagueMapping('MLB');
+  private static nhlTeams = leagueMapping('NHL');
+  private static mlsTeams = leagueMapping('MLS');
+  private static eplTeams = leagueMapping('EPL');
+  private static laLigaTeams = leagueMapping('LALIGA');
+  private static bundesligaTeams = leagueMapping('BUNDESLIGA');
+  private static serieATeams = leagueMapping('SERIEA');
+  // Champions League clubs outside the four domestic leagues above
+  private static uclTeams = leagueMapping('UCL');
+  private static ncaafTeams = leagueMapping('NCAAF');
+  private static ncaabTeams = leagueMapping('NCAAB');
+
+  // Team records keyed by team ID, for conference and display-name lookups
+  private static records = new Map<string, TeamInfo>(
+    LEAGUE_DATA.flatMap((d) => d.teams.map((t): [string, TeamInfo] => {
+      const id = `${d.league}_${t.code}`;
+      return [id, { ...t, id, league: d.league }];
+    })),
+  );
 
   /**
-   * Map a team name to a standardized team ID
-   * @param teamName Team name or abbreviation (e.g., "Lakers", "LAL")
-   * @param sport Sport type (e.g., "NBA", "NFL")
-   * @returns Standardized team ID (e.g., "NBA_LAL")
+   * Mappings to search for a sport or league, in priority order
    */
-  static mapTeam(teamName: string, sport: string): string {
-    const normalized = teamName.trim();
-    const sportUpper = sport.toUpperCase();
-
-    let mapping: TeamMapping;
+  private static mappingsFor(sportUpper: string): TeamMapping[] | undefined {
     switch (sportUpper) {
       case 'NBA':
       case 'BASKETBALL':
-        mapping = this.nbaTeams;
-        break;
+        return [this.nbaTeams];
       case 'NFL':
       case 'FOOTBALL':
-        mapping = this.nflTeams;
-        break;
+        return [this.nflTeams];
       case 'MLB':
       case 'BASEBALL':
-        mapping = this.mlbTeams;
-        break;
+        return [this.mlbTeams];
       case 'NHL':
       case 'HOCKEY':
-        mapping = this.nhlTeams;
-        break;
+        return [this.nhlTeams];
+      case 'MLS':
+        return [this.mlsTeams];
+      case 'EPL':
+        return [this.eplTeams];
+      case 'LALIGA':
+        return [this.laLigaTeams];
+      case 'BUNDESLIGA':
+        return [this.bundesligaTeams];
+      case 'SERIEA':
+        return [this.serieATeams];
+      case 'UCL':
+        // Clubs from the big four leagues keep their domestic ID in Europe
+        return [this.uclTeams, this.eplTeams, this.laLigaTeams, this.bundesligaTeams, this.serieATeams];
+      case 'NCAAF':
+      case 'CFB':
+      case 'COLLEGE_FOOTBALL':
+        return [this.ncaafTeams];
+      case 'NCAAB':
+      case 'CBB':
+      case 'COLLEGE_BASKETBALL':
+        return [this.ncaabTeams];
       default:
-        return `${sportUpper}_UNKNOWN`;
+        return undefined;
     }
+  }
+
+  /**
+   * Look up a team without falling back to a generated ID
+   * @param teamName Team name or abbreviation (e.g., "Arsenal", "ARS")
+   * @param sport Sport or league (e.g., "NBA", "EPL")
+   * @returns Standardized team ID, or undefined when the name is not known
+   */
+  static findTeam(teamName: string, sport: string): string | undefined {
+    const normalized = teamName.trim();
+    const mappings = this.mappingsFor(sport.toUpperCase());
+    if (!mappings || !normalized) return undefined;
 
     // Try exact match first
-    if (mapping[normalized]) {
-      return mapping[normalized];
+    for (const mapping of mappings) {
+      if (mapping[normalized]) {
+        return mapping[normalized];
+      }
     }
 
     // Try case-insensitive match
     const lowerName = normalized.toLowerCase();
-    for (const [key, value] of Object.entries(mapping)) {
-      if (key.toLowerCase() === lowerName) {
-        return value;
+    for (const mapping of mappings) {
+      for (const [key, value] of Object.entries(mapping)) {
+        if (key.toLowerCase() === lowerName) {
+          return value;
+        }
       }
     }
 
+    return undefined;
+  }
+
+  /**
+   * Map a team name to a standardized team ID
+   * @param teamName Team name or abbreviation (e.g., "Lakers", "LAL")
+   * @param sport Sport or league (e.g., "NBA", "NFL", "EPL")
+   * @returns Standardized team ID (e.g., "NBA_LAL")
+   */
+  static mapTeam(teamName: string, sport: string): string {
+    const normalized = teamName.trim();
+    const sportUpper = sport.toUpperCase();
+
+    if (!this.mappingsFor(sportUpper)) {
+      return `${sportUpper}_UNKNOWN`;
+    }
+
+    const found = this.findTeam(normalized, sportUpper);
+    if (found) {
+      return found;
+    }
+
     // Fallback: create ID from name
     return `${sportUpper}_${normalized.toUpperCase().replace(/\s+/g, '_')}`;
   }
@@ -396,4 +220,89 @@ export class TeamMapper {
     const parts = teamId.split('_');
     return parts.length === 2 && parts[0].length > 0 && parts[1].length > 0;
   }
+
+  /**
+   * Look up a team's data-file record
+   * @param teamId Team ID (e.g., "NCAAF_ALA")
+   * @returns The team's name, aliases, conference and division, if known
+   */
+  static getTeam(teamId: string): TeamInfo | undefined {
+    return this.records.get(teamId.toUpperCase());
+  }
+
+  /**
+   * List every team in a league's data file
+   * @param league League code (e.g., "NCAAB")
+   * @returns Team records in data-file order (empty for unknown leagues)
+   */
+  static getLeagueTeams(league: string): TeamInfo[] {
+    const leagueUpper = league.toUpperCase();
+    return Array.from(this.records.values()).filter((t) => t.league === leagueUpper);
+  }
+
+  /**
+   * Get the conference a team plays in
+   * @param teamId Team ID (e.g., "NCAAB_GONZ")
+   * @returns Conference name (e.g., "West Coast"), or undefined when unknown
+   */
+  static getConference(teamId: string): string | undefined {
+    return this.getTeam(teamId)?.conference;
+  }
+
+  /**
+   * List the teams in a conference
+   * @param league League code (e.g., "NCAAF")
+   * @param conference Conference name, case-insensitive (e.g., "Big Ten")
+   * @returns Team IDs in data-file order
+   */
+  static getTeamsByConference(league: string, conference: string): string[] {
+    const wanted = conference.trim().toLowerCase();
+    return this.getLeagueTeams(league)
+      .filter((t) => t.conference?.toLowerCase() === wanted)
+      .map((t) => t.id);
+  }
+
+  /**
+   * Find team mentions in free text (headlines, article bodies)
+   * Only nicknames are matched; bare abbreviations like "MIA" or "DET"
+   * are too ambiguous in prose and are ignored. Names shared by teams in
+   * more than one of the searched leagues ("Rangers", "Giants") are ignored
+   * too, unless `sports` narrows the search to a single league.
+   * @param text Text to scan
+   * @param sports Optional list of sports to restrict matching to
+   * @returns Team IDs with mention counts, most mentioned first
+   */
+  static findTeamsInText(text: string, sports?: string[]): Array<{ teamId: string; mentions: number }> {
+    const allowed = sports?.map((s) => s.toUpperCase());
+    const leagues = ([
+      ['NBA', this.nbaTeams],
+      ['NFL', this.nflTeams],
+      ['MLB', this.mlbTeams],
+      ['NHL', this.nhlTeams],
+    ] as Array<[string, TeamMapping]>).filter(([league]) => !allowed || allowed.includes(league));
+
+    const leaguesByName = new Map<string, number>();
+    for (const [, mapping] of leagues) {
+      for (const name of Object.keys(mapping)) {
+        leaguesByName.set(name, (leaguesByName.get(name) ?? 0) + 1);
+      }
+    }
+
+    const counts = new Map<string, number>();
+    for (const [, mapping] of leagues) {
+      for (const [name, teamId] of Object.entries(mapping)) {
+        if (/^[A-Z0-9]{2,4}$/.test(name)) continue;
+        if ((leaguesByName.get(name) ?? 0) > 1) continue;
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const matches = text.match(new RegExp(`\\b${escaped}\\b`, 'g'));
+        if (matches && matches.length > 0) {
+          counts.set(teamId, (counts.get(teamId) ?? 0) + matches.length);
+        }
+      }
+    }
+
+    return Array.from(counts.entries())
+      .map(([teamId, mentions]) => ({ teamId, mentions }))
+      .sort((a, b) => b.mentions - a.mentions);
+  }
 }
@@ -1,17 +1,31 @@
 import { Server as HttpServer } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { IncomingMessage } from "http";
+import { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
 import { withSource } from "./logger";
 import { config } from "./config";
 import { metrics } from "./metrics";
 import { storage } from "./storage";
+import { WsBroker, type WsBrokerScope } from "./wsBroker";
+import { ReplayBuffer } from "./wsReplay";
+import { ScoreDeltaEncoder } from "./wsDelta";
+import { ConnectionLifecycle, type EvictionReason } from "./wsLifecycle";
+import type { GamePlayRecord } from "@shared/schema";
 import { 
   IncomingWebSocketMessage, 
+  GamePlayEvent,
   OutgoingWebSocketMessage,
   SubscriptionConfirmation,
   ConnectionStatus,
   UserSubscriptionUpdate,
-  UserTeamsLoaded
+  UserTeamsLoaded,
+  UserTeamScoreUpdate,
+  UserTeamStatusChange,
+  ResumeSessionMessage,
+  ScoreAckMessage,
+  ScoreGameData,
+  ScoreUpdateBatch,
+  WireProtocolVersion
 } from "./types/websocket";
 import {
   WebSocketError,
@@ -34,10 +48,87 @@ interface AuthenticatedWebSocket extends WebSocket {
   lastActivity?: Date;
   messagesSent?: number;
   messagesReceived?: number;
+  wireProtocol?: WireProtocolVersion;
+  scoreDeltas?: ScoreStream;
+}
+
+// What delivery and message handling need from a connection: a WebSocket or an SSE stream
+interface RealtimeClient {
+  readonly readyState: number;
+  send(data: string): void;
+  userId?: string;
+  userEmail?: string;
+  userTeams?: Set<string>;
+  subs?: Set<string>;
+  isAuthenticated?: boolean;
+  connectedAt?: Date;
+  lastActivity?: Date;
+  messagesSent?: number;
+  messagesReceived?: number;
+  wireProtocol?: WireProtocolVersion;
+  scoreDeltas?: ScoreStream;
+}
+
+// Protocol 2 score state for one connection: unsent changes by game and what the client has acknowledged
+interface ScoreStream {
+  epoch: string;
+  encoder: ScoreDeltaEncoder<ScoreGameData>;
+  pending: Map<string, UserTeamScoreUpdate>;
 }
 
 let wss: WebSocketServer | undefined;
 
+// Server-Sent Events fallback for clients whose proxies block the /ws upgrade.
+// Streams receive the same messages as sockets; their subscription changes arrive over REST.
+const SSE_KEEPALIVE_MS = 25_000;
+
+class EventStreamClient implements RealtimeClient {
+  // Prefixed with the node holding the stream, so a message posted to any node can reach it
+  readonly id = `${broker.nodeId}.${randomUUID()}`;
+  readyState: number = WebSocket.OPEN;
+  userId?: string;
+  userEmail?: string;
+  userTeams?: Set<string>;
+  subs?: Set<string>;
+  isAuthenticated?: boolean;
+  connectedAt?: Date;
+  lastActivity?: Date;
+  messagesSent?: number;
+  messagesReceived?: number;
+  wireProtocol?: WireProtocolVersion;
+  scoreDeltas?: ScoreStream;
+
+  constructor(private res: ServerResponse) {}
+
+  send(data: string): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.res.write(`data: ${data}\n\n`);
+  }
+
+  // Comment line: ignored by EventSource, keeps idle proxies from closing the stream
+  keepAlive(): void {
+    if (this.readyState === WebSocket.OPEN) this.res.write(`: keepalive\n\n`);
+  }
+
+  close(): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    try { this.res.end(); } catch {}
+  }
+}
+
+const eventStreams = new Map<string, EventStreamClient>();
+
+function hasClients(): boolean {
+  return !!wss || eventStreams.size > 0;
+}
+
+// Visit every connection on this node, sockets and event streams alike
+function forEachClient(visit: (client: RealtimeClient) => void): void {
+  wss?.clients.forEach((client) => visit(client as AuthenticatedWebSocket));
+  eventStreams.forEach((stream) => visit(stream));
+}
+
 // WebSocket Health Monitoring
 interface WebSocketHealthMetrics {
   totalConnections: number;
@@ -45,6 +136,7 @@ interface WebSocketHealthMetrics {
   totalMessages: number;
   totalErrors: number;
   authFailures: number;
+  evictions: Record<EvictionReason, number>;
   startTime: Date;
 }
 
@@ -54,9 +146,194 @@ const healthMetrics: WebSocketHealthMetrics = {
   totalMessages: 0,
   totalErrors: 0,
   authFailures: 0,
+  evictions: { heartbeat_timeout: 0, idle: 0, rate_limited: 0 },
   startTime: new Date()
 };
 
+// Heartbeats, idle eviction and per-connection limits (see wsLifecycle.ts)
+const lifecycle = new ConnectionLifecycle<RealtimeClient>(
+  {
+    // Only sockets are probed
+    ping: (client) => {
+      try { (client as AuthenticatedWebSocket).ping(); } catch {}
+    },
+    evict: (client, reason) => {
+      healthMetrics.evictions[reason]++;
+      wsLog.warn({ userId: client.userId, reason }, 'evicting realtime connection');
+      if (client instanceof EventStreamClient) {
+        client.close();
+        return;
+      }
+      const socket = client as AuthenticatedWebSocket;
+      if (reason === 'heartbeat_timeout') {
+        // Half-open: a close handshake would never complete
+        socket.terminate();
+      } else if (reason === 'rate_limited') {
+        socket.close(1008, 'Rate limit exceeded');
+      } else {
+        socket.close(1000, 'Idle timeout');
+      }
+    },
+  },
+  {
+    heartbeatIntervalMs: config.wsHeartbeatIntervalMs,
+    idleTimeoutMs: config.wsIdleTimeoutMs,
+    maxMessagesPerWindow: config.wsMaxMessagesPerWindow,
+    maxSubscriptions: config.wsMaxSubscriptions,
+  }
+);
+
+// Cross-node fan-out: every broadcast is delivered to this node's sockets and
+// published once for the other API nodes (and, from job workers, to all of them)
+interface WsNodeStats {
+  clients: number;
+  authenticatedClients: number;
+  totalConnections: number;
+  totalDisconnections: number;
+  totalMessages: number;
+  totalErrors: number;
+  authFailures: number;
+}
+
+type WsFanoutEvent =
+  | { kind: 'teams'; teamIds: string[]; message: OutgoingWebSocketMessage }
+  | { kind: 'users'; userIds?: string[]; message: OutgoingWebSocketMessage }
+  | { kind: 'broadcast'; type: string; payload: any }
+  | { kind: 'user-team-update'; gameData: any; seqs: Record<string, number> }
+  | {
+      kind: 'user-team-status';
+      gameId: string;
+      teamId: string;
+      oldStatus: string;
+      newStatus: string;
+      details: { statusDetail?: string | null; statusReason?: string | null };
+      seqs: Record<string, number>;
+    }
+  | { kind: 'stream-message'; nodeId: string; connectionId: string; userId: string; message: IncomingWebSocketMessage }
+  | { kind: 'stats'; stats: WsNodeStats };
+
+const broker = new WsBroker();
+const STATS_HEARTBEAT_MS = 15_000;
+// Peers that have not reported for three heartbeats are treated as gone
+const PEER_STATS_TTL_MS = 3 * STATS_HEARTBEAT_MS;
+const peerStats = new Map<string, { stats: WsNodeStats; receivedAt: number }>();
+let statsHeartbeat: NodeJS.Timeout | undefined;
+
+function publishFanout(event: WsFanoutEvent): void {
+  const scope: WsBrokerScope = event.kind === 'users' ? 'user'
+    : event.kind === 'stats' ? 'stats'
+    : event.kind === 'stream-message' ? 'stream'
+    : 'team';
+  broker.publish(scope, event);
+}
+
+// Deliver an event published by another node to this node's sockets
+function handleFanoutEvent(_scope: WsBrokerScope, event: WsFanoutEvent, origin: string): void {
+  switch (event.kind) {
+    case 'teams':
+      deliverToTeamSubscribers(event.message, event.teamIds);
+      break;
+    case 'users':
+      deliverToUsers(event.message, event.userIds);
+      break;
+    case 'broadcast':
+      deliverBroadcast(event.type, event.payload);
+      break;
+    case 'user-team-update':
+      deliverUserTeamUpdate(event.gameData, event.seqs ?? {});
+      break;
+    case 'user-team-status':
+      deliverUserTeamStatusChange(event.gameId, event.teamId, event.oldStatus, event.newStatus, event.details, event.seqs ?? {});
+      break;
+    case 'stream-message':
+      if (event.nodeId !== broker.nodeId) break;
+      handleEventStreamMessage(event.connectionId, event.userId, event.message)
+        .then((result) => {
+          if (result !== 'accepted') wsLog.debug({ connectionId: event.connectionId, origin, result }, 'relayed event stream message dropped');
+        })
+        .catch((err) => wsLog.warn({ connectionId: event.connectionId, err }, 'relayed event stream message failed'));
+      break;
+    case 'stats':
+      peerStats.set(origin, { stats: event.stats, receivedAt: Date.now() });
+      break;
+  }
+}
+
+function localNodeStats(): WsNodeStats {
+  let authenticatedClients = 0;
+  forEachClient((client) => {
+    if (client.isAuthenticated && client.userId) authenticatedClients++;
+  });
+  return {
+    clients: (wss ? wss.clients.size : 0) + eventStreams.size,
+    authenticatedClients,
+    totalConnections: healthMetrics.totalConnections,
+    totalDisconnections: healthMetrics.totalDisconnections,
+    totalMessages: healthMetrics.totalMessages,
+    totalErrors: healthMetrics.totalErrors,
+    authFailures: healthMetrics.authFailures,
+  };
+}
+
+// Stats last reported by peer nodes still alive, dropping the rest
+function livePeerStats(now: number = Date.now()): WsNodeStats[] {
+  const live: WsNodeStats[] = [];
+  for (const [nodeId, entry] of Array.from(peerStats.entries())) {
+    if (now - entry.receivedAt > PEER_STATS_TTL_MS) {
+      peerStats.delete(nodeId);
+    } else {
+      live.push(entry.stats);
+    }
+  }
+  return live;
+}
+
+// Per-team score updates and status changes, numbered so a reconnecting client can resume.
+// Sequence numbers come from the broker's shared Redis counter and are carried in the
+// fan-out event, so every node numbers (and can replay) a team's events identically even
+// when API nodes and job workers publish for the same team. Without Redis there is no
+// fan-out either, and each process numbers the events only its own clients see.
+type SequencedMessage = UserTeamScoreUpdate | UserTeamStatusChange;
+const replay = new ReplayBuffer<SequencedMessage>();
+
+async function nextSequences(teamIds: string[]): Promise<Record<string, number>> {
+  const ids = teamIds.filter(Boolean);
+  const shared = ids.length > 0 ? await broker.nextSequences(ids) : undefined;
+  if (shared) return shared;
+  const seqs: Record<string, number> = {};
+  for (const teamId of ids) seqs[teamId] = replay.next(teamId);
+  return seqs;
+}
+
+// Stamp a team's message with its sequence number and keep it for replay
+function stampSequence<T extends SequencedMessage>(teamId: string, seq: number | undefined, message: T): T {
+  message.payload.seq = seq ?? replay.next(teamId);
+  replay.record(teamId, message.payload.seq, message);
+  return message;
+}
+
+function forUser<T extends SequencedMessage>(message: T, userId: string): T {
+  return { ...message, payload: { ...message.payload, userId } };
+}
+
+async function startFanout(): Promise<void> {
+  const subscribed = await broker.start<WsFanoutEvent>(handleFanoutEvent);
+  if (!subscribed || statsHeartbeat) return;
+  statsHeartbeat = setInterval(() => publishFanout({ kind: 'stats', stats: localNodeStats() }), STATS_HEARTBEAT_MS);
+  statsHeartbeat.unref?.();
+}
+
+/**
+ * Stop relaying events between nodes (graceful shutdown)
+ */
+export async function stopWsFanout(): Promise<void> {
+  if (statsHeartbeat) {
+    clearInterval(statsHeartbeat);
+    statsHeartbeat = undefined;
+  }
+  await broker.stop();
+}
+
 // Firebase Admin SDK lazy loading and initialization
 async function lazyGetAdmin(): Promise<any | null> {
   try {
@@ -94,7 +371,7 @@ function initFirebaseOnce(admin: any): void {
 
 // Authenticate WebSocket connection using JWT token
 async function authenticateWebSocketConnection(
-  socket: AuthenticatedWebSocket, 
+  socket: RealtimeClient, 
   request: IncomingMessage
 ): Promise<string | null> {
   try {
@@ -261,7 +538,7 @@ async function authenticateWebSocketConnection(
 /**
  * Handle team subscription messages
  */
-async function handleTeamSubscription(socket: AuthenticatedWebSocket, msg: any): Promise<void> {
+async function handleTeamSubscription(socket: RealtimeClient, msg: any): Promise<void> {
   if (!msg.teamId || typeof msg.teamId !== "string") {
     sendMessage(socket, {
       type: 'subscription-confirmation',
@@ -274,6 +551,19 @@ async function handleTeamSubscription(socket: AuthenticatedWebSocket, msg: any):
     return;
   }
 
+  if (!socket.subs!.has(msg.teamId) && !lifecycle.canSubscribe(socket.subs!.size)) {
+    sendMessage(socket, {
+      type: 'subscription-confirmation',
+      payload: {
+        action: 'subscribe',
+        teamId: msg.teamId,
+        success: false,
+        message: `Subscription limit reached (${lifecycle.maxSubscriptions} teams)`
+      }
+    });
+    return;
+  }
+
   socket.subs!.add(msg.teamId);
   wsLog.debug({ userId: socket.userId, teamId: msg.teamId }, 'team subscription added');
   
@@ -291,7 +581,7 @@ async function handleTeamSubscription(socket: AuthenticatedWebSocket, msg: any):
 /**
  * Handle team unsubscription messages
  */
-async function handleTeamUnsubscription(socket: AuthenticatedWebSocket, msg: any): Promise<void> {
+async function handleTeamUnsubscription(socket: RealtimeClient, msg: any): Promise<void> {
   if (!msg.teamId || typeof msg.teamId !== "string") {
     sendMessage(socket, {
       type: 'subscription-confirmation',
@@ -321,7 +611,7 @@ async function handleTeamUnsubscription(socket: AuthenticatedWebSocket, msg: any
 /**
  * Handle user team subscription (subscribe to all user's favorite teams)
  */
-async function handleUserTeamSubscription(socket: AuthenticatedWebSocket, msg: any): Promise<void> {
+async function handleUserTeamSubscription(socket: RealtimeClient, msg: any): Promise<void> {
   try {
     // This will be implemented in Subtask 4.3 with actual user team discovery
     // For now, just acknowledge the request
@@ -353,7 +643,7 @@ async function handleUserTeamSubscription(socket: AuthenticatedWebSocket, msg: a
 /**
  * Handle user team unsubscription - unsubscribe from all favorite teams
  */
-async function handleUserTeamUnsubscription(socket: AuthenticatedWebSocket, msg: any): Promise<void> {
+async function handleUserTeamUnsubscription(socket: RealtimeClient, msg: any): Promise<void> {
   try {
     if (!socket.userId) {
       wsLog.warn('user team unsubscription attempted without authentication');
@@ -417,10 +707,71 @@ async function handleUserTeamUnsubscription(socket: AuthenticatedWebSocket, msg:
   }
 }
 
+/**
+ * Handle session resume: replay each team's events after the client's last seen
+ * sequence, and ask for a full resync for teams whose gap is no longer buffered
+ */
+async function handleResume(socket: RealtimeClient, msg: ResumeSessionMessage): Promise<void> {
+  const lastSeq = msg.lastSeq && typeof msg.lastSeq === 'object' ? msg.lastSeq : {};
+  const userId = socket.userId!;
+  const resync: string[] = [];
+  let replayed = 0;
+
+  for (const [teamId, seq] of Object.entries(lastSeq)) {
+    // Only teams this socket would have received events for
+    if (!socket.userTeams?.has(teamId) && !socket.subs?.has(teamId)) continue;
+    if (!Number.isInteger(seq) || seq < 0) continue;
+
+    const result = replay.since(teamId, seq);
+    if (result.kind === 'resync') {
+      resync.push(teamId);
+      continue;
+    }
+    for (const event of result.events) {
+      sendMessage(socket, forUser(event.message, userId));
+      replayed++;
+    }
+  }
+
+  if (resync.length > 0) {
+    sendMessage(socket, { type: 'resync-required', payload: { teamIds: resync, replayed } });
+  }
+  wsLog.info({ userId, teams: Object.keys(lastSeq).length, replayed, resync }, 'WebSocket session resumed');
+}
+
+/**
+ * Pick the wire protocol from `?protocol=` on the connection URL. Clients that
+ * don't ask (or ask for one we don't speak) get protocol 1.
+ */
+function negotiateProtocol(socket: RealtimeClient, request: IncomingMessage): void {
+  let requested = 1;
+  try {
+    const url = new URL(request.url || '', `http://${request.headers.host}`);
+    requested = parseInt(url.searchParams.get('protocol') ?? '1', 10);
+  } catch {}
+
+  socket.wireProtocol = requested >= 2 ? 2 : 1;
+  if (socket.wireProtocol === 2) {
+    socket.scoreDeltas = {
+      epoch: randomUUID(),
+      encoder: new ScoreDeltaEncoder<ScoreGameData>(),
+      pending: new Map()
+    };
+  }
+}
+
+/**
+ * Protocol 2: the client has applied these revisions; encode later changes against them
+ */
+function handleScoreAck(socket: RealtimeClient, msg: ScoreAckMessage): void {
+  if (!socket.scoreDeltas || !msg.revs || typeof msg.revs !== 'object') return;
+  socket.scoreDeltas.encoder.ack(msg.revs);
+}
+
 /**
  * Send a typed message to a WebSocket client
  */
-function sendMessage(socket: AuthenticatedWebSocket, message: OutgoingWebSocketMessage): void {
+function sendMessage(socket: RealtimeClient, message: OutgoingWebSocketMessage): void {
   if (socket.readyState === WebSocket.OPEN) {
     try {
       socket.send(JSON.stringify(message));
@@ -460,7 +811,7 @@ function sendMessage(socket: AuthenticatedWebSocket, message: OutgoingWebSocketM
 /**
  * Load user's favorite teams and auto-subscribe them to score updates
  */
-async function loadUserFavoriteTeams(socket: AuthenticatedWebSocket, firebaseUid: string): Promise<void> {
+async function loadUserFavoriteTeams(socket: RealtimeClient, firebaseUid: string): Promise<void> {
   try {
     // Get user profile to access favorite teams
     const userProfile = await storage.getUserProfile(firebaseUid);
@@ -522,6 +873,7 @@ async function loadUserFavoriteTeams(socket: AuthenticatedWebSocket, firebaseUid
     let subscribedCount = 0;
     for (const team of teams) {
       socket.subs.add(team.id);
+      socket.userTeams?.add(team.id);
       subscribedCount++;
     }
 
@@ -573,6 +925,84 @@ async function loadUserFavoriteTeams(socket: AuthenticatedWebSocket, firebaseUid
   }
 }
 
+/**
+ * Act on a client message, whether it arrived over the socket or over REST for an event stream
+ */
+async function handleIncomingMessage(socket: RealtimeClient, msg: IncomingWebSocketMessage): Promise<void> {
+  switch (msg.type) {
+    case "subscribe":
+      await handleTeamSubscription(socket, msg);
+      break;
+    case "unsubscribe":
+      await handleTeamUnsubscription(socket, msg);
+      break;
+    case "subscribe-user-teams":
+      await handleUserTeamSubscription(socket, msg);
+      break;
+    case "unsubscribe-user-teams":
+      await handleUserTeamUnsubscription(socket, msg);
+      break;
+    case "resume":
+      await handleResume(socket, msg);
+      break;
+    case "score-ack":
+      handleScoreAck(socket, msg);
+      break;
+    case "ping":
+      // Application-level keep-alive; admitting it already refreshed the connection
+      break;
+    default:
+      const validationError = new ValidationError(
+        'Unknown WebSocket message type',
+        { 
+          messageType: (msg as any).type,
+          userId: socket.userId,
+          validTypes: ['subscribe', 'unsubscribe', 'subscribe-user-teams', 'unsubscribe-user-teams', 'resume', 'score-ack', 'ping']
+        }
+      );
+      
+      logError(wsLog, validationError, {
+        operation: 'websocket_message_validation',
+        messageType: (msg as any).type,
+        userId: socket.userId
+      });
+      
+      wsLog.warn({ userId: socket.userId, messageType: (msg as any).type }, 'Unknown WebSocket message type');
+      sendMessage(socket, {
+        type: 'subscription-confirmation',
+        payload: {
+          action: 'subscribe',
+          success: false,
+          message: `Unknown message type: ${(msg as any).type}`
+        }
+      });
+  }
+}
+
+/**
+ * Apply the connection's rate limit to a client message. Keep-alives and score
+ * acks only refresh its activity: the server paces acks, not the client.
+ * Returns false when the message must not be handled.
+ */
+function admitMessage(client: RealtimeClient, type?: string): boolean {
+  if (type === 'ping' || type === 'score-ack') {
+    lifecycle.touch(client);
+    return true;
+  }
+  const verdict = lifecycle.admit(client);
+  if (verdict === 'reject') {
+    sendMessage(client, {
+      type: 'subscription-confirmation',
+      payload: {
+        action: 'subscribe',
+        success: false,
+        message: 'Rate limit exceeded'
+      }
+    });
+  }
+  return verdict === 'accept';
+}
+
 export function initWs(server: HttpServer) {
   // Scope our app WebSocket to a dedicated path to avoid collisions with Vite's HMR WebSocket
   wss = new WebSocketServer({ 
@@ -584,6 +1014,11 @@ export function initWs(server: HttpServer) {
   
   // Setup comprehensive error handling
   setupWebSocketErrorHandling(wss);
+
+  lifecycle.start();
+
+  // Relay broadcasts published by other nodes and job workers to our sockets
+  startFanout().catch((err) => wsLog.error({ err }, "failed to start websocket fan-out"));
   
   wss.on("error", (err) => {
     try { 
@@ -634,11 +1069,14 @@ export function initWs(server: HttpServer) {
 
     // Initialize socket properties
     socket.subs = new Set<string>();
+    negotiateProtocol(socket, request);
     socket.userTeams = new Set<string>();
     socket.connectedAt = new Date();
     socket.lastActivity = new Date();
     socket.messagesSent = 0;
     socket.messagesReceived = 0;
+    lifecycle.track(socket);
+    socket.on("pong", () => lifecycle.alive(socket));
     
     wsLog.info({ userId: socket.userId }, 'WebSocket connection established');
 
@@ -648,6 +1086,7 @@ export function initWs(server: HttpServer) {
       payload: {
         status: 'authenticated',
         userId: socket.userId,
+        protocol: socket.wireProtocol,
         message: 'WebSocket connection authenticated successfully'
       }
     });
@@ -663,9 +1102,18 @@ export function initWs(server: HttpServer) {
         healthMetrics.totalMessages++;
         
         const rawMessage = String(data);
+
+        // WebSocketService heartbeat: plain text, answered in kind
+        if (rawMessage === 'ping') {
+          lifecycle.alive(socket);
+          lifecycle.touch(socket);
+          socket.send('pong');
+          return;
+        }
         
         // Validate message format before parsing
         if (!validateWebSocketMessage(rawMessage)) {
+          if (!admitMessage(socket)) return;
           const validationError = new ValidationError(
             'Invalid WebSocket message format',
             { 
@@ -696,46 +1144,9 @@ export function initWs(server: HttpServer) {
         const msg = JSON.parse(rawMessage) as IncomingWebSocketMessage;
         
         wsLog.debug({ userId: socket.userId, messageType: msg.type }, 'WebSocket message received');
+        if (!admitMessage(socket, msg.type)) return;
         
-        switch (msg.type) {
-          case "subscribe":
-            await handleTeamSubscription(socket, msg);
-            break;
-          case "unsubscribe":
-            await handleTeamUnsubscription(socket, msg);
-            break;
-          case "subscribe-user-teams":
-            await handleUserTeamSubscription(socket, msg);
-            break;
-          case "unsubscribe-user-teams":
-            await handleUserTeamUnsubscription(socket, msg);
-            break;
-          default:
-            const validationError = new ValidationError(
-              'Unknown WebSocket message type',
-              { 
-                messageType: (msg as any).type,
-                userId: socket.userId,
-                validTypes: ['subscribe', 'unsubscribe', 'subscribe-user-teams', 'unsubscribe-user-teams']
-              }
-            );
-            
-            logError(wsLog, validationError, {
-              operation: 'websocket_message_validation',
-              messageType: (msg as any).type,
-              userId: socket.userId
-            });
-            
-            wsLog.warn({ userId: socket.userId, messageType: (msg as any).type }, 'Unknown WebSocket message type');
-            sendMessage(socket, {
-              type: 'subscription-confirmation',
-              payload: {
-                action: 'subscribe',
-                success: false,
-                message: `Unknown message type: ${(msg as any).type}`
-              }
-            });
-        }
+        await handleIncomingMessage(socket, msg);
       } catch (err) {
         // Track error
         healthMetrics.totalErrors++;
@@ -771,6 +1182,7 @@ export function initWs(server: HttpServer) {
     socket.on("close", (code, reason) => {
       // Track disconnection
       healthMetrics.totalDisconnections++;
+      lifecycle.untrack(socket);
       
       wsLog.info({ 
         userId: socket.userId, 
@@ -804,14 +1216,118 @@ export function initWs(server: HttpServer) {
 }
 
 /**
- * Broadcast a typed message to specific users or teams
+ * Serve GET /api/stream: a Server-Sent Events connection carrying the same
+ * messages as /ws, authenticated the same way (?token= or the dev override).
+ * The first event is `connection-status` with the `connectionId` the client
+ * uses to send subscription changes (see handleEventStreamMessage).
+ */
+export async function openEventStream(request: IncomingMessage, res: ServerResponse): Promise<void> {
+  healthMetrics.totalConnections++;
+  const stream = new EventStreamClient(res);
+
+  const userId = await authenticateWebSocketConnection(stream, request);
+  if (!userId) {
+    wsLog.warn('rejecting unauthenticated event stream');
+    healthMetrics.totalDisconnections++;
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Authentication required' }));
+    return;
+  }
+  // Gone while we were verifying the token
+  if (res.destroyed) {
+    healthMetrics.totalDisconnections++;
+    return;
+  }
+
+  stream.subs = new Set<string>();
+  negotiateProtocol(stream, request);
+  stream.userTeams = new Set<string>();
+  stream.connectedAt = new Date();
+  stream.lastActivity = new Date();
+  stream.messagesSent = 0;
+  stream.messagesReceived = 0;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // stop nginx-style proxies from buffering the stream
+  });
+  res.write('retry: 5000\n\n');
+  eventStreams.set(stream.id, stream);
+  lifecycle.track(stream, { probe: false });
+
+  const keepAlive = setInterval(() => stream.keepAlive(), SSE_KEEPALIVE_MS);
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    eventStreams.delete(stream.id);
+    lifecycle.untrack(stream);
+    stream.close();
+    healthMetrics.totalDisconnections++;
+    wsLog.info({ userId: stream.userId, connectionId: stream.id }, 'Event stream closed');
+  });
+
+  wsLog.info({ userId, connectionId: stream.id }, 'Event stream established');
+  sendMessage(stream, {
+    type: 'connection-status',
+    payload: {
+      status: 'authenticated',
+      userId,
+      connectionId: stream.id,
+      protocol: stream.wireProtocol,
+      message: 'Event stream authenticated successfully'
+    }
+  });
+
+  await loadUserFavoriteTeams(stream, userId);
+}
+
+/**
+ * Apply a client message (subscribe, unsubscribe, resume, ...) to one of the
+ * caller's event streams. Responses are delivered on the stream itself.
+ *
+ * A stream held by another node is relayed there through the broker and
+ * reported as accepted; that node checks ownership and rate limits. Without
+ * the broker, such streams are not found here.
+ */
+export async function handleEventStreamMessage(
+  connectionId: string,
+  userId: string,
+  message: unknown
+): Promise<'accepted' | 'not_found' | 'invalid' | 'rate_limited'> {
+  const stream = eventStreams.get(connectionId);
+  const nodeId = connectionId.split('.')[0];
+  if (!stream && nodeId !== broker.nodeId && broker.subscribed) {
+    if (!validateWebSocketMessage(message)) return 'invalid';
+    publishFanout({ kind: 'stream-message', nodeId, connectionId, userId, message: message as IncomingWebSocketMessage });
+    return 'accepted';
+  }
+  // Someone else's stream looks the same as a missing one
+  if (!stream || stream.userId !== userId || stream.readyState !== WebSocket.OPEN) return 'not_found';
+  if (!validateWebSocketMessage(message)) return 'invalid';
+
+  stream.messagesReceived = (stream.messagesReceived || 0) + 1;
+  stream.lastActivity = new Date();
+  healthMetrics.totalMessages++;
+  if (!admitMessage(stream, (message as IncomingWebSocketMessage).type)) return 'rate_limited';
+
+  await handleIncomingMessage(stream, message as IncomingWebSocketMessage);
+  return 'accepted';
+}
+
+/**
+ * Broadcast a typed message to specific users (all authenticated users when none given), on every node
  */
 export function broadcastToUsers(message: OutgoingWebSocketMessage, targetUserIds?: string[]): void {
-  if (!wss) return;
+  publishFanout({ kind: 'users', userIds: targetUserIds, message });
+  deliverToUsers(message, targetUserIds);
+}
+
+function deliverToUsers(message: OutgoingWebSocketMessage, targetUserIds?: string[]): void {
+  if (!hasClients()) return;
   try { metrics.recordWsBroadcast('users', String(message.type)); } catch {}
   
-  wss.clients.forEach((client) => {
-    const authenticatedClient = client as AuthenticatedWebSocket;
+  forEachClient((authenticatedClient) => {
     
     // Only send to authenticated clients
     if (!authenticatedClient.isAuthenticated || !authenticatedClient.userId) {
@@ -835,14 +1351,19 @@ export function broadcastToUsers(message: OutgoingWebSocketMessage, targetUserId
 }
 
 /**
- * Broadcast a typed message to users subscribed to specific teams
+ * Broadcast a typed message to users subscribed to specific teams, on every node
  */
 export function broadcastToTeamSubscribers(message: OutgoingWebSocketMessage, teamIds: string[]): void {
-  if (!wss || teamIds.length === 0) return;
+  if (teamIds.length === 0) return;
+  publishFanout({ kind: 'teams', teamIds, message });
+  deliverToTeamSubscribers(message, teamIds);
+}
+
+function deliverToTeamSubscribers(message: OutgoingWebSocketMessage, teamIds: string[]): void {
+  if (!hasClients() || teamIds.length === 0) return;
   try { metrics.recordWsBroadcast('team_subscribers', String(message.type)); } catch {}
   
-  wss.clients.forEach((client) => {
-    const authenticatedClient = client as AuthenticatedWebSocket;
+  forEachClient((authenticatedClient) => {
     
     // Only send to authenticated clients
     if (!authenticatedClient.isAuthenticated || !authenticatedClient.userId) {
@@ -862,14 +1383,17 @@ export function broadcastToTeamSubscribers(message: OutgoingWebSocketMessage, te
 }
 
 export function broadcast(type: string, payload: any) {
-  if (!wss) return;
+  publishFanout({ kind: 'broadcast', type, payload });
+  deliverBroadcast(type, payload);
+}
+
+function deliverBroadcast(type: string, payload: any) {
+  if (!hasClients()) return;
   try { metrics.recordWsBroadcast('generic', String(type)); } catch {}
   const msg = JSON.stringify({ type, payload });
   const targetTeams: string[] = Array.isArray(payload?.teamIds) ? payload.teamIds : [];
   
-  // Use forEach on the Set to avoid downlevel iteration issues
-  wss.clients.forEach((client) => {
-    const authenticatedClient = client as AuthenticatedWebSocket;
+  forEachClient((authenticatedClient) => {
     
     // Only send to authenticated clients
     if (!authenticatedClient.isAuthenticated || !authenticatedClient.userId) {
@@ -934,67 +1458,83 @@ class ScoreUpdateThrottler {
 
 const scoreThrottler = new ScoreUpdateThrottler();
 
-// Clean up throttler every 30 minutes
+// Clean up throttler and expired replay events every 30 minutes
 setInterval(() => {
   scoreThrottler.cleanup();
+  replay.sweep();
 }, 30 * 60 * 1000);
 
 /**
  * Broadcast user team score updates to relevant users only
  */
-export function broadcastUserTeamUpdate(gameData: any): void {
-  if (!wss) return;
-  try { metrics.recordWsBroadcast('users', 'user-team-score-update'); } catch {}
-  
-  // Check if we should throttle this update
+export async function broadcastUserTeamUpdate(gameData: any): Promise<void> {
+  // Throttle where the update originates so every node sees the same updates
   if (!scoreThrottler.shouldSendUpdate(gameData.id)) {
     wsLog.debug({ gameId: gameData.id }, 'Score update throttled');
     return;
   }
-  
+
+  const seqs = await nextSequences([gameData.homeTeamId, gameData.awayTeamId]);
+  publishFanout({ kind: 'user-team-update', gameData, seqs });
+  deliverUserTeamUpdate(gameData, seqs);
+}
+
+function deliverUserTeamUpdate(gameData: any, seqs: Record<string, number>): void {
   const affectedTeams = [gameData.homeTeamId, gameData.awayTeamId];
   const timestamp = new Date().toISOString();
+
+  // Shared by both teams' messages, so a batch can encode the game once for both
+  const scoreData: ScoreGameData = {
+    gameId: gameData.id,
+    homeTeam: gameData.homeTeam,
+    awayTeam: gameData.awayTeam,
+    homeScore: gameData.homeScore,
+    awayScore: gameData.awayScore,
+    status: gameData.status,
+    statusDetail: gameData.statusDetail ?? null,
+    statusReason: gameData.statusReason ?? null,
+    quarter: gameData.quarter,
+    timeRemaining: gameData.timeRemaining
+  };
+
+  // One message per team, kept for replay; the recipient's userId is filled in per socket
+  const teamMessages = new Map<string, UserTeamScoreUpdate>();
+  for (const teamId of affectedTeams) {
+    if (!teamId || teamMessages.has(teamId)) continue;
+    const message: UserTeamScoreUpdate = {
+      type: 'user-team-score-update',
+      payload: {
+        userId: '',
+        teamId,
+        teamName: gameData.homeTeamId === teamId ? gameData.homeTeam : gameData.awayTeam,
+        sport: gameData.sport,
+        gameData: scoreData,
+        timestamp,
+        isUserTeam: true
+      }
+    };
+    teamMessages.set(teamId, stampSequence(teamId, seqs[teamId], message));
+  }
+
+  if (!hasClients()) return;
+  try { metrics.recordWsBroadcast('users', 'user-team-score-update'); } catch {}
   
-  wss.clients.forEach((client: AuthenticatedWebSocket) => {
+  forEachClient((client) => {
     if (!client.userId || client.readyState !== WebSocket.OPEN) return;
     
-    // Check if user has any of the affected teams as favorites
-    const hasAffectedTeam = affectedTeams.some(teamId => 
-      client.userTeams?.has(teamId)
-    );
-    
-    if (hasAffectedTeam) {
-      const userTeamId = affectedTeams.find(teamId => 
-        client.userTeams?.has(teamId)
-      );
-      
-      const updateMessage = {
-        type: 'user-team-score-update' as const,
-        payload: {
-          userId: client.userId,
-          teamId: userTeamId!,
-          teamName: gameData.homeTeamId === userTeamId ? gameData.homeTeam : gameData.awayTeam,
-          sport: gameData.sport,
-          gameData: {
-            gameId: gameData.id,
-            homeTeam: gameData.homeTeam,
-            awayTeam: gameData.awayTeam,
-            homeScore: gameData.homeScore,
-            awayScore: gameData.awayScore,
-            status: gameData.status,
-            quarter: gameData.quarter,
-            timeRemaining: gameData.timeRemaining
-          },
-          timestamp,
-          isUserTeam: true
-        }
-      };
-      
+    // Every favorited team's numbered message, so no team's sequence falls behind
+    // when a user follows both sides of a game
+    for (const [teamId, message] of Array.from(teamMessages.entries())) {
+      if (!client.userTeams?.has(teamId)) continue;
       try {
-        sendMessage(client, updateMessage);
+        if (client.scoreDeltas) {
+          queueScoreUpdate(client.scoreDeltas, message);
+          continue;
+        }
+        sendMessage(client, forUser(message, client.userId));
         wsLog.info({ 
           userId: client.userId, 
-          teamId: userTeamId, 
+          teamId, 
           gameId: gameData.id 
         }, 'Sent user team score update');
       } catch (error) {
@@ -1004,39 +1544,108 @@ export function broadcastUserTeamUpdate(gameData: any): void {
   });
 }
 
+// Protocol 2: coalesce score changes on this node and send each connection one frame per window
+let scoreFlushTimer: NodeJS.Timeout | undefined;
+
+function queueScoreUpdate(stream: ScoreStream, message: UserTeamScoreUpdate): void {
+  // A newer change to the same game and team supersedes the queued one and moves to the back,
+  // keeping entries in sequence order for the client's duplicate check
+  const key = `${message.payload.gameData.gameId}|${message.payload.teamId}`;
+  stream.pending.delete(key);
+  stream.pending.set(key, message);
+  if (!scoreFlushTimer) {
+    scoreFlushTimer = setTimeout(flushScoreUpdates, config.wsScoreBatchWindowMs);
+    scoreFlushTimer.unref?.();
+  }
+}
+
+function flushScoreUpdates(): void {
+  scoreFlushTimer = undefined;
+  forEachClient((client) => {
+    const stream = client.scoreDeltas;
+    if (!stream || stream.pending.size === 0) return;
+    const queued = Array.from(stream.pending.values());
+    stream.pending.clear();
+    if (!client.userId || client.readyState !== WebSocket.OPEN) return;
+
+    const updates: ScoreUpdateBatch['payload']['updates'] = [];
+    // Both teams' entries for one update share its revision; the client applies it once
+    const encodedThisFlush = new Map<ScoreGameData, ReturnType<typeof stream.encoder.encode>>();
+    for (const { payload } of queued) {
+      let encoded = encodedThisFlush.get(payload.gameData);
+      if (encoded === undefined) {
+        encoded = stream.encoder.encode(payload.gameData);
+        encodedThisFlush.set(payload.gameData, encoded);
+      }
+      if (!encoded) continue;
+      updates.push({
+        teamId: payload.teamId,
+        teamName: payload.teamName,
+        sport: payload.sport,
+        timestamp: payload.timestamp,
+        seq: payload.seq,
+        ...encoded
+      });
+    }
+    if (updates.length === 0) return;
+
+    sendMessage(client, {
+      type: 'score-batch',
+      payload: { userId: client.userId, epoch: stream.epoch, updates }
+    });
+  });
+}
+
 /**
  * Broadcast user team status changes to relevant users
+ * 
+ * @param details - Sub-state and reason for the new status (e.g. delayed / rain, "Rain Delay")
  */
-export function broadcastUserTeamStatusChange(
+export async function broadcastUserTeamStatusChange(
   gameId: string, 
   teamId: string, 
   oldStatus: string, 
-  newStatus: string
+  newStatus: string,
+  details: { statusDetail?: string | null; statusReason?: string | null } = {}
+): Promise<void> {
+  const seqs = await nextSequences([teamId]);
+  publishFanout({ kind: 'user-team-status', gameId, teamId, oldStatus, newStatus, details, seqs });
+  deliverUserTeamStatusChange(gameId, teamId, oldStatus, newStatus, details, seqs);
+}
+
+function deliverUserTeamStatusChange(
+  gameId: string,
+  teamId: string,
+  oldStatus: string,
+  newStatus: string,
+  details: { statusDetail?: string | null; statusReason?: string | null },
+  seqs: Record<string, number>
 ): void {
-  if (!wss) return;
+  const statusMessage: UserTeamStatusChange = {
+    type: 'user-team-status-change',
+    payload: {
+      userId: '',
+      teamId,
+      gameId,
+      oldStatus,
+      newStatus,
+      statusDetail: details.statusDetail ?? null,
+      statusReason: details.statusReason ?? null,
+      timestamp: new Date().toISOString()
+    }
+  };
+  stampSequence(teamId, seqs[teamId], statusMessage);
+
+  if (!hasClients()) return;
   try { metrics.recordWsBroadcast('users', 'user-team-status-change'); } catch {}
   
-  const timestamp = new Date().toISOString();
-  
-  wss.clients.forEach((client: AuthenticatedWebSocket) => {
+  forEachClient((client) => {
     if (!client.userId || !client.userTeams?.has(teamId)) return;
     
     if (client.readyState !== WebSocket.OPEN) return;
     
-    const statusMessage = {
-      type: 'user-team-status-change' as const,
-      payload: {
-        userId: client.userId,
-        teamId,
-        gameId,
-        oldStatus,
-        newStatus,
-        timestamp
-      }
-    };
-    
     try {
-      sendMessage(client, statusMessage);
+      sendMessage(client, forUser(statusMessage, client.userId));
       wsLog.info({ 
         userId: client.userId, 
         teamId, 
@@ -1050,6 +1659,45 @@ export function broadcastUserTeamStatusChange(
   });
 }
 
+/**
+ * Push newly ingested plays to subscribers of either team, one message per play
+ */
+export function broadcastGamePlays(
+  game: { id: string; homeTeamId: string; awayTeamId: string },
+  plays: GamePlayRecord[]
+): void {
+  if (plays.length === 0) return;
+
+  const timestamp = new Date().toISOString();
+  for (const play of plays) {
+    const message: GamePlayEvent = {
+      type: 'game-play',
+      payload: {
+        gameId: game.id,
+        homeTeamId: game.homeTeamId,
+        awayTeamId: game.awayTeamId,
+        play: {
+          sequence: play.sequence,
+          period: play.period,
+          clock: play.clock,
+          teamId: play.teamId,
+          playType: play.playType,
+          description: play.description,
+          scoringPlay: play.scoringPlay,
+          scoreValue: play.scoreValue,
+          homePts: play.homePts,
+          awayPts: play.awayPts,
+          occurredAt: play.occurredAt ? play.occurredAt.toISOString() : null
+        },
+        timestamp
+      }
+    };
+    broadcastToTeamSubscribers(message, [game.homeTeamId, game.awayTeamId]);
+  }
+
+  wsLog.debug({ gameId: game.id, plays: plays.length }, 'Broadcast game plays');
+}
+
 export function getWsHealthMetrics(): {
   healthMetrics: WebSocketHealthMetrics;
   activeConnections: Array<{
@@ -1080,9 +1728,8 @@ export function getWsHealthMetrics(): {
   let totalConnectionDuration = 0;
   let peakConnections = 0;
 
-  if (wss) {
-    wss.clients.forEach((client) => {
-      const authenticatedClient = client as AuthenticatedWebSocket;
+  if (hasClients()) {
+    forEachClient((authenticatedClient) => {
       if (authenticatedClient.isAuthenticated && 
           authenticatedClient.userId && 
           authenticatedClient.connectedAt &&
@@ -1101,7 +1748,8 @@ export function getWsHealthMetrics(): {
       }
     });
     
-    peakConnections = Math.max(wss.clients.size, healthMetrics.totalConnections - healthMetrics.totalDisconnections);
+    const openConnections = (wss ? wss.clients.size : 0) + eventStreams.size;
+    peakConnections = Math.max(openConnections, healthMetrics.totalConnections - healthMetrics.totalDisconnections);
   }
 
   const uptime = Date.now() - healthMetrics.startTime.getTime();
@@ -1122,6 +1770,10 @@ export function getWsHealthMetrics(): {
   };
 }
 
+/**
+ * WebSocket stats summed across every live node (this one plus peers heard from
+ * within the last few heartbeats); `ready` and `uptime` describe this node.
+ */
 export function getWsStats(): { 
   ready: boolean; 
   clients: number; 
@@ -1135,32 +1787,26 @@ export function getWsStats(): {
   authFailures: number;
   averageMessagesPerClient: number;
   connectionHealth: string;
+  nodeId: string;
+  nodes: number;
 } {
   const ready = !!wss;
-  const clients = wss ? wss.clients.size : 0;
-  
-  let authenticatedClients = 0;
-  let totalMessagesSent = 0;
-  let totalMessagesReceived = 0;
-  
-  if (wss) {
-    wss.clients.forEach((client) => {
-      const authenticatedClient = client as AuthenticatedWebSocket;
-      if (authenticatedClient.isAuthenticated && authenticatedClient.userId) {
-        authenticatedClients++;
-      }
-      totalMessagesSent += authenticatedClient.messagesSent || 0;
-      totalMessagesReceived += authenticatedClient.messagesReceived || 0;
-    });
-  }
+  const nodes = [localNodeStats(), ...livePeerStats()];
+  const sum = (field: keyof WsNodeStats) => nodes.reduce((total, n) => total + (n[field] || 0), 0);
+
+  const clients = sum('clients');
+  const totalConnections = sum('totalConnections');
+  const totalMessages = sum('totalMessages');
+  const totalErrors = sum('totalErrors');
+  const authFailures = sum('authFailures');
   
   const uptime = Date.now() - healthMetrics.startTime.getTime();
-  const averageMessagesPerClient = clients > 0 ? Math.round(healthMetrics.totalMessages / clients) : 0;
+  const averageMessagesPerClient = clients > 0 ? Math.round(totalMessages / clients) : 0;
   
   // Determine connection health status
   let connectionHealth = 'healthy';
-  const errorRate = healthMetrics.totalMessages > 0 ? (healthMetrics.totalErrors / healthMetrics.totalMessages) : 0;
-  const authFailureRate = healthMetrics.totalConnections > 0 ? (healthMetrics.authFailures / healthMetrics.totalConnections) : 0;
+  const errorRate = totalMessages > 0 ? (totalErrors / totalMessages) : 0;
+  const authFailureRate = totalConnections > 0 ? (authFailures / totalConnections) : 0;
   
   if (errorRate > 0.1 || authFailureRate > 0.3) {
     connectionHealth = 'unhealthy';
@@ -1171,16 +1817,18 @@ export function getWsStats(): {
   return { 
     ready, 
     clients, 
-    authenticatedClients, 
+    authenticatedClients: sum('authenticatedClients'), 
     path: "/ws",
     uptime,
-    totalConnections: healthMetrics.totalConnections,
-    totalDisconnections: healthMetrics.totalDisconnections,
-    totalMessages: healthMetrics.totalMessages,
-    totalErrors: healthMetrics.totalErrors,
-    authFailures: healthMetrics.authFailures,
+    totalConnections,
+    totalDisconnections: sum('totalDisconnections'),
+    totalMessages,
+    totalErrors,
+    authFailures,
     averageMessagesPerClient,
-    connectionHealth
+    connectionHealth,
+    nodeId: broker.nodeId,
+    nodes: nodes.length
   };
 }
 
@@ -1366,11 +2014,11 @@ function validateWebSocketMessage(message: any): boolean {
   try {
     if (typeof message === 'string') {
       const parsed = JSON.parse(message);
-      return !!(parsed.type && parsed.data && parsed.timestamp);
+      return !!parsed && typeof parsed.type === 'string';
     }
     
     if (typeof message === 'object' && message !== null) {
-      return !!(message.type && message.data && message.timestamp);
+      return typeof message.type === 'string';
     }
     
     return false;
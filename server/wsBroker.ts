@@ -0,0 +1,168 @@
+import { randomUUID } from "crypto";
+import type { Redis } from "ioredis";
+import { config } from "./config";
+import { withSource } from "./logger";
+import { createRedis, connectRedis, closeRedis } from "./jobs/redis";
+
+const log = withSource("ws-broker");
+
+// Channel per audience so nodes can tell team fan-out, user fan-out, event-stream
+// messages and node heartbeats apart
+export type WsBrokerScope = "team" | "user" | "stream" | "stats";
+
+const SCOPES: WsBrokerScope[] = ["team", "user", "stream", "stats"];
+
+export interface WsBrokerEnvelope<T> {
+  origin: string; // nodeId of the publisher
+  scope: WsBrokerScope;
+  event: T;
+}
+
+export interface WsBrokerOptions {
+  createClient?: () => Redis;
+  nodeId?: string;
+  channelPrefix?: string;
+}
+
+/**
+ * Redis pub/sub relay between API nodes and job workers.
+ *
+ * Publishers emit WebSocket events once; every node that started the broker
+ * receives them and delivers to its own sockets. A node never receives its own
+ * events back, since it already delivered them locally. With Redis disabled
+ * (no REDIS_URL or JOBS_ENABLED=false) publish and start are no-ops and each
+ * process only reaches its own sockets, as before.
+ */
+export class WsBroker {
+  readonly nodeId: string;
+  private createClient: () => Redis;
+  private channelPrefix: string;
+  private pub?: Redis;
+  private sub?: Redis;
+  private disabled = false;
+
+  constructor(options: WsBrokerOptions = {}) {
+    this.createClient = options.createClient ?? createRedis;
+    this.nodeId = options.nodeId ?? randomUUID();
+    this.channelPrefix = options.channelPrefix ?? `${config.jobQueuePrefix}:ws`;
+  }
+
+  /** Whether this node receives events published by other nodes */
+  get subscribed(): boolean {
+    return !!this.sub;
+  }
+
+  channel(scope: WsBrokerScope): string {
+    return `${this.channelPrefix}:${scope}`;
+  }
+
+  /**
+   * Subscribe to every scope and hand events published by other nodes to `onEvent`
+   */
+  async start<T>(onEvent: (scope: WsBrokerScope, event: T, origin: string) => void): Promise<boolean> {
+    if (this.sub) return true;
+    const sub = this.client();
+    if (!sub) return false;
+
+    const scopeByChannel = new Map<string, WsBrokerScope>(SCOPES.map((s) => [this.channel(s), s]));
+    sub.on("message", (channel: string, raw: string) => {
+      const scope = scopeByChannel.get(channel);
+      if (!scope) return;
+      try {
+        const envelope = JSON.parse(raw) as WsBrokerEnvelope<T>;
+        if (envelope.origin === this.nodeId) return;
+        onEvent(scope, envelope.event, envelope.origin);
+      } catch (err) {
+        log.warn({ channel, err }, "dropping malformed broker message");
+      }
+    });
+    sub.on("error", (err: unknown) => log.warn({ err }, "ws broker subscriber error"));
+
+    try {
+      await connectRedis(sub);
+      await sub.subscribe(...Array.from(scopeByChannel.keys()));
+      this.sub = sub;
+      log.info({ nodeId: this.nodeId, channelPrefix: this.channelPrefix }, "ws broker subscribed");
+      return true;
+    } catch (err) {
+      log.error({ err }, "ws broker subscribe failed; fan-out limited to this node");
+      try { await closeRedis(sub); } catch {}
+      return false;
+    }
+  }
+
+  /**
+   * Publish an event to the other nodes. Fire-and-forget: failures are logged,
+   * never thrown, so a Redis outage degrades to local-only delivery.
+   */
+  publish<T>(scope: WsBrokerScope, event: T): void {
+    const pub = this.publisher();
+    if (!pub) return;
+    const envelope: WsBrokerEnvelope<T> = { origin: this.nodeId, scope, event };
+    let raw: string;
+    try {
+      raw = JSON.stringify(envelope);
+    } catch (err) {
+      log.warn({ scope, err }, "ws broker event not serializable");
+      return;
+    }
+    pub.publish(this.channel(scope), raw).catch((err: unknown) => {
+      log.warn({ scope, err }, "ws broker publish failed");
+    });
+  }
+
+  /**
+   * Allocate the next sequence number for each team from a shared Redis counter.
+   * INCR is atomic, so API nodes and job workers publishing for the same team
+   * never hand out the same number. Resolves to undefined when Redis is disabled
+   * or the counter can't be reached; the caller then numbers events locally.
+   */
+  async nextSequences(teamIds: string[]): Promise<Record<string, number> | undefined> {
+    const pub = this.publisher();
+    if (!pub) return undefined;
+    try {
+      const values = await Promise.all(teamIds.map((teamId) => pub.incr(this.sequenceKey(teamId))));
+      const seqs: Record<string, number> = {};
+      teamIds.forEach((teamId, i) => { seqs[teamId] = values[i]; });
+      return seqs;
+    } catch (err) {
+      log.warn({ teamIds, err }, "ws broker sequence allocation failed; numbering locally");
+      return undefined;
+    }
+  }
+
+  sequenceKey(teamId: string): string {
+    return `${this.channelPrefix}:seq:${teamId}`;
+  }
+
+  async stop(): Promise<void> {
+    const clients = [this.sub, this.pub].filter((c): c is Redis => !!c);
+    this.sub = undefined;
+    this.pub = undefined;
+    for (const client of clients) {
+      try { await closeRedis(client); } catch {}
+    }
+  }
+
+  // Shared connection for publishing and sequence counters
+  private publisher(): Redis | undefined {
+    if (!this.pub) {
+      const pub = this.client();
+      if (!pub) return undefined;
+      pub.on("error", (err: unknown) => log.warn({ err }, "ws broker publisher error"));
+      this.pub = pub;
+    }
+    return this.pub;
+  }
+
+  // A new connection, or undefined when Redis is disabled in this environment
+  private client(): Redis | undefined {
+    if (this.disabled) return undefined;
+    const client = this.createClient();
+    if ((client as any).status === "mock-disabled") {
+      this.disabled = true;
+      return undefined;
+    }
+    return client;
+  }
+}
@@ -0,0 +1,88 @@
+// Per-connection score state for wire protocol 2: field-level deltas against what the client acknowledged
+
+export interface DeltaSnapshot {
+  gameId: string;
+}
+
+export interface EncodedSnapshot<T extends DeltaSnapshot> {
+  rev: number;
+  /** Revision `gameData` applies to; absent when `gameData` is the full state */
+  baseRev?: number;
+  gameData: Partial<T> & DeltaSnapshot;
+}
+
+interface GameLog<T> {
+  rev: number;
+  sent: T;
+  acked?: { rev: number; state: T };
+  // Revisions sent but not yet acknowledged, oldest first
+  history: Array<{ rev: number; state: T }>;
+}
+
+const MAX_UNACKED_REVISIONS = 20;
+
+/**
+ * Encodes a connection's game states as revisions the client acknowledges.
+ *
+ * Each change gets the next revision for its game. The first revision, and any
+ * after the client asks for a full state (ack of revision 0), carries the whole
+ * snapshot; later ones carry only the fields that differ from the last
+ * acknowledged state or from the last one sent. A client that holds any
+ * revision at or after `baseRev` can apply the delta, so lost or late acks
+ * only make deltas larger, never wrong.
+ */
+export class ScoreDeltaEncoder<T extends DeltaSnapshot> {
+  private games = new Map<string, GameLog<T>>();
+
+  /** Next revision for this game's state, or null when it matches what was last sent */
+  encode(state: T): EncodedSnapshot<T> | null {
+    const log = this.games.get(state.gameId);
+    if (log && sameFields(state, log.sent)) return null;
+
+    const rev = (log?.rev ?? 0) + 1;
+    let encoded: EncodedSnapshot<T>;
+    if (!log?.acked) {
+      encoded = { rev, gameData: { ...state } };
+    } else {
+      const changes: Partial<T> & DeltaSnapshot = { gameId: state.gameId } as Partial<T> & DeltaSnapshot;
+      for (const key of Object.keys(state) as Array<keyof T>) {
+        if (state[key] !== log.acked.state[key] || state[key] !== log.sent[key]) changes[key] = state[key];
+      }
+      encoded = { rev, baseRev: log.acked.rev, gameData: changes };
+    }
+
+    const next: GameLog<T> = log ?? { rev, sent: state, history: [] };
+    next.rev = rev;
+    next.sent = state;
+    next.history.push({ rev, state });
+    if (next.history.length > MAX_UNACKED_REVISIONS) next.history.shift();
+    this.games.set(state.gameId, next);
+    return encoded;
+  }
+
+  /**
+   * Record the revisions the client has applied, by game. Revision 0 means the
+   * client has no usable state for that game, so the next change goes out in full.
+   */
+  ack(revs: Record<string, number>): void {
+    for (const [gameId, rev] of Object.entries(revs)) {
+      const log = this.games.get(gameId);
+      if (!log || typeof rev !== 'number') continue;
+      if (rev === 0) {
+        log.acked = undefined;
+        // Force the next encode to send something even if nothing changed
+        log.sent = { gameId } as T;
+        continue;
+      }
+      const entry = log.history.find((h) => h.rev === rev);
+      if (!entry || (log.acked && log.acked.rev >= rev)) continue;
+      log.acked = entry;
+      log.history = log.history.filter((h) => h.rev > rev);
+    }
+  }
+}
+
+function sameFields<T extends DeltaSnapshot>(a: T, b: T): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof T>;
+  return Array.from(keys).every((key) => a[key] === b[key]);
+}
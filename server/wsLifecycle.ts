@@ -0,0 +1,144 @@
+// Connection lifecycle for realtime clients: liveness probing, idle eviction and per-connection limits
+
+export type EvictionReason = 'heartbeat_timeout' | 'idle' | 'rate_limited';
+
+export interface ConnectionLifecycleOptions {
+  heartbeatIntervalMs?: number;
+  idleTimeoutMs?: number;
+  rateWindowMs?: number;
+  maxMessagesPerWindow?: number;
+  maxSubscriptions?: number;
+  now?: () => number;
+}
+
+export interface ConnectionLifecycleHooks<C> {
+  /** Send a protocol-level ping; the answer is reported through `alive` */
+  ping(conn: C): void;
+  /** Close a connection the lifecycle has given up on; it is already untracked */
+  evict(conn: C, reason: EvictionReason): void;
+}
+
+/** What to do with a client message: handle it, refuse it, or drop the connection */
+export type MessageVerdict = 'accept' | 'reject' | 'evict';
+
+interface ConnectionState {
+  probe: boolean;
+  awaitingPong: boolean;
+  lastMessageAt: number;
+  windowStart: number;
+  windowCount: number;
+}
+
+/**
+ * Tracks each connection's liveness and message rate.
+ *
+ * Every heartbeat, probed connections (sockets) that never answered the previous
+ * ping are evicted as half-open, those that sent nothing for `idleTimeoutMs` are
+ * evicted as idle, and the rest are pinged again. Unprobed connections (event
+ * streams, whose closes the HTTP server already sees) are only rate limited.
+ * Messages past `maxMessagesPerWindow` in a window are refused; a client that
+ * keeps going to twice the limit is evicted.
+ */
+export class ConnectionLifecycle<C> {
+  private connections = new Map<C, ConnectionState>();
+  private timer: NodeJS.Timeout | undefined;
+  private heartbeatIntervalMs: number;
+  private idleTimeoutMs: number;
+  private rateWindowMs: number;
+  private maxMessagesPerWindow: number;
+  readonly maxSubscriptions: number;
+  private now: () => number;
+
+  constructor(private hooks: ConnectionLifecycleHooks<C>, options: ConnectionLifecycleOptions = {}) {
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30_000;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 10 * 60 * 1000;
+    this.rateWindowMs = options.rateWindowMs ?? 10_000;
+    this.maxMessagesPerWindow = options.maxMessagesPerWindow ?? 30;
+    this.maxSubscriptions = options.maxSubscriptions ?? 50;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Start the heartbeat; it does not keep the process alive */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.heartbeatIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  track(conn: C, options: { probe?: boolean } = {}): void {
+    const now = this.now();
+    this.connections.set(conn, {
+      probe: options.probe ?? true,
+      awaitingPong: false,
+      lastMessageAt: now,
+      windowStart: now,
+      windowCount: 0,
+    });
+  }
+
+  untrack(conn: C): void {
+    this.connections.delete(conn);
+  }
+
+  /** The connection answered a ping */
+  alive(conn: C): void {
+    const state = this.connections.get(conn);
+    if (state) state.awaitingPong = false;
+  }
+
+  /** A message that keeps the connection from idling out without counting toward the rate limit */
+  touch(conn: C): void {
+    const state = this.connections.get(conn);
+    if (state) state.lastMessageAt = this.now();
+  }
+
+  /** Count a client message against the connection's rate limit */
+  admit(conn: C): MessageVerdict {
+    const state = this.connections.get(conn);
+    if (!state) return 'accept';
+
+    const now = this.now();
+    state.lastMessageAt = now;
+    if (now - state.windowStart >= this.rateWindowMs) {
+      state.windowStart = now;
+      state.windowCount = 0;
+    }
+    state.windowCount++;
+
+    if (state.windowCount <= this.maxMessagesPerWindow) return 'accept';
+    if (state.windowCount <= 2 * this.maxMessagesPerWindow) return 'reject';
+    this.evict(conn, 'rate_limited');
+    return 'evict';
+  }
+
+  /** Whether a connection holding `current` subscriptions may add another */
+  canSubscribe(current: number): boolean {
+    return current < this.maxSubscriptions;
+  }
+
+  /** One heartbeat: evict unresponsive and idle connections, ping the rest */
+  sweep(): void {
+    const now = this.now();
+    for (const [conn, state] of Array.from(this.connections.entries())) {
+      if (!state.probe) continue;
+      if (state.awaitingPong) {
+        this.evict(conn, 'heartbeat_timeout');
+      } else if (now - state.lastMessageAt >= this.idleTimeoutMs) {
+        this.evict(conn, 'idle');
+      } else {
+        state.awaitingPong = true;
+        this.hooks.ping(conn);
+      }
+    }
+  }
+
+  private evict(conn: C, reason: EvictionReason): void {
+    this.connections.delete(conn);
+    this.hooks.evict(conn, reason);
+  }
+}
@@ -0,0 +1,106 @@
+// Per-team event log that lets a reconnecting client catch up on what it missed
+
+export interface ReplayBufferOptions {
+  maxEventsPerTeam?: number;
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+export interface ReplayEvent<T> {
+  seq: number;
+  at: number;
+  message: T;
+}
+
+export type ReplayResult<T> =
+  | { kind: 'replay'; events: Array<ReplayEvent<T>> }
+  | { kind: 'resync'; reason: 'evicted' | 'unknown_sequence' };
+
+interface TeamLog<T> {
+  lastSeq: number;
+  events: Array<ReplayEvent<T>>;
+}
+
+/**
+ * Bounded, per-team replay log with monotonically increasing sequence numbers.
+ *
+ * Sequences are assigned where an event originates and observed everywhere else
+ * (see ws.ts fan-out), so every node numbers a team's events the same way.
+ * `next` only numbers events on its own; with several publishers the numbers
+ * come from the broker's shared counter and are passed to `record`. Each
+ * team keeps at most `maxEventsPerTeam` events no older than `maxAgeMs`; a
+ * client whose gap reaches past that has to resync from the REST API instead.
+ */
+export class ReplayBuffer<T> {
+  private teams = new Map<string, TeamLog<T>>();
+  private maxEventsPerTeam: number;
+  private maxAgeMs: number;
+  private now: () => number;
+
+  constructor(options: ReplayBufferOptions = {}) {
+    this.maxEventsPerTeam = options.maxEventsPerTeam ?? 100;
+    this.maxAgeMs = options.maxAgeMs ?? 15 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Allocate the next sequence number for a team, reserving it until recorded */
+  next(teamId: string): number {
+    const log = this.log(teamId);
+    log.lastSeq += 1;
+    return log.lastSeq;
+  }
+
+  /** Latest sequence number seen for a team (0 before its first event) */
+  latest(teamId: string): number {
+    return this.teams.get(teamId)?.lastSeq ?? 0;
+  }
+
+  /** Store a team's event under its sequence number */
+  record(teamId: string, seq: number, message: T): void {
+    const log = this.log(teamId);
+    log.lastSeq = Math.max(log.lastSeq, seq);
+    log.events.push({ seq, at: this.now(), message });
+    if (log.events.length > 1 && log.events[log.events.length - 2].seq > seq) {
+      log.events.sort((a, b) => a.seq - b.seq);
+    }
+    this.prune(log);
+  }
+
+  /**
+   * Events for a team after `lastSeq`, or a resync when the gap can't be filled:
+   * some of it was evicted, or the client saw a sequence this node never issued
+   * (e.g. the server restarted).
+   */
+  since(teamId: string, lastSeq: number): ReplayResult<T> {
+    const log = this.teams.get(teamId);
+    const latest = log?.lastSeq ?? 0;
+    if (lastSeq > latest) return { kind: 'resync', reason: 'unknown_sequence' };
+    if (lastSeq === latest || !log) return { kind: 'replay', events: [] };
+
+    this.prune(log);
+    const oldest = log.events[0]?.seq;
+    if (oldest === undefined || oldest > lastSeq + 1) return { kind: 'resync', reason: 'evicted' };
+    return { kind: 'replay', events: log.events.filter((e) => e.seq > lastSeq) };
+  }
+
+  /** Drop expired events across all teams */
+  sweep(): void {
+    for (const log of Array.from(this.teams.values())) this.prune(log);
+  }
+
+  private log(teamId: string): TeamLog<T> {
+    let log = this.teams.get(teamId);
+    if (!log) {
+      log = { lastSeq: 0, events: [] };
+      this.teams.set(teamId, log);
+    }
+    return log;
+  }
+
+  private prune(log: TeamLog<T>): void {
+    const cutoff = this.now() - this.maxAgeMs;
+    let drop = Math.max(0, log.events.length - this.maxEventsPerTeam);
+    while (drop < log.events.length && log.events[drop].at < cutoff) drop++;
+    if (drop > 0) log.events.splice(0, drop);
+  }
+}
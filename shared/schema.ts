@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -61,16 +61,39 @@ export const summaries = pgTable("summaries", {
   content: text("content").notNull(),
   generatedAt: timestamp("generated_at").notNull().defaultNow(),
   model: varchar("model", { length: 50 }),
+  sourceArticleIds: text("source_article_ids").array(), // Articles cited by the summary
 });
 
 export const insertSummarySchema = createInsertSchema(summaries).omit({
   id: true,
   generatedAt: true,
-} as const);
+} as const).extend({
+  sourceArticleIds: z.array(z.string()).nullable().optional(),
+});
 
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
 export type Summary = typeof summaries.$inferSelect;
 
+// Game lifecycle shared by adapters, storage, WebSocket events and the client.
+// Delayed and suspended games are stopped but expected to resume; postponed and
+// cancelled games will not be played (or finished) at their scheduled time.
+export const GAME_STATUSES = ["scheduled", "in_progress", "delayed", "suspended", "postponed", "cancelled", "final"] as const;
+export type GameStatus = (typeof GAME_STATUSES)[number];
+
+// Sub-states that refine a status, e.g. final + "overtime" or delayed + "rain"
+export const GAME_STATUS_DETAILS = [
+  "halftime",
+  "intermission",
+  "overtime",
+  "shootout",
+  "extra_innings",
+  "rain",
+  "weather",
+  "abandoned",
+  "forfeit",
+] as const;
+export type GameStatusDetail = (typeof GAME_STATUS_DETAILS)[number];
+
 export const games = pgTable("games", {
   id: varchar("id").primaryKey(),
   homeTeamId: varchar("home_team_id").notNull().references(() => teams.id),
@@ -80,6 +103,8 @@ export const games = pgTable("games", {
   status: varchar("status", { length: 20 }).notNull(),
   period: varchar("period", { length: 10 }),
   timeRemaining: varchar("time_remaining", { length: 20 }),
+  statusDetail: varchar("status_detail", { length: 20 }), // GameStatusDetail
+  statusReason: varchar("status_reason", { length: 200 }), // e.g. "Rain", "Inclement weather"
   startTime: timestamp("start_time").notNull(),
   cachedAt: timestamp("cached_at").notNull().defaultNow(),
 });
@@ -91,6 +116,175 @@ export const insertGameSchema = createInsertSchema(games).omit({
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type Game = typeof games.$inferSelect;
 
+// Sport-aware box scores: team stat lines per game plus one row per player stat group
+export const boxScores = pgTable("box_scores", {
+  gameId: varchar("game_id").primaryKey().references(() => games.id),
+  sport: varchar("sport", { length: 10 }).notNull(),
+  homeTeamId: varchar("home_team_id"),
+  awayTeamId: varchar("away_team_id"),
+  homePts: integer("home_pts").notNull(),
+  awayPts: integer("away_pts").notNull(),
+  homeStats: text("home_stats"), // JSON: team stat name -> display value
+  awayStats: text("away_stats"),
+  source: text("source"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertBoxScoreSchema = createInsertSchema(boxScores);
+
+export type InsertBoxScore = z.infer<typeof insertBoxScoreSchema>;
+export type BoxScoreRecord = typeof boxScores.$inferSelect;
+
+export const boxScorePlayerStats = pgTable(
+  "box_score_player_stats",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: varchar("game_id").notNull().references(() => boxScores.gameId, { onDelete: "cascade" }),
+    side: varchar("side", { length: 4 }).notNull(), // 'home' | 'away'
+    teamId: varchar("team_id"),
+    playerId: varchar("player_id").notNull(),
+    playerName: text("player_name").notNull(),
+    position: varchar("position", { length: 10 }),
+    starter: boolean("starter").notNull().default(false),
+    statGroup: varchar("stat_group", { length: 20 }).notNull(), // 'basketball' | 'batting' | 'pitching' | 'skater' | 'goalie' | 'passing' | 'rushing' | 'receiving'
+    stats: text("stats").notNull(), // JSON stat line for the group
+  },
+  (table) => ({
+    gameIdIdx: index("box_score_player_stats_game_id_idx").on(table.gameId),
+    playerGroupUnique: uniqueIndex("box_score_player_stats_game_player_group_idx").on(table.gameId, table.playerId, table.statGroup),
+  })
+);
+
+export const insertBoxScorePlayerStatSchema = createInsertSchema(boxScorePlayerStats).omit({
+  id: true,
+} as const);
+
+export type InsertBoxScorePlayerStat = z.infer<typeof insertBoxScorePlayerStatSchema>;
+export type BoxScorePlayerStat = typeof boxScorePlayerStats.$inferSelect;
+
+// Play-by-play events, ordered within a game by the source's sequence number
+export const gamePlays = pgTable(
+  "game_plays",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: varchar("game_id").notNull().references(() => games.id),
+    sequence: integer("sequence").notNull(),
+    period: varchar("period", { length: 20 }),
+    clock: varchar("clock", { length: 20 }),
+    teamId: varchar("team_id"),
+    playType: varchar("play_type", { length: 50 }),
+    description: text("description").notNull(),
+    scoringPlay: boolean("scoring_play").notNull().default(false),
+    scoreValue: integer("score_value"),
+    homePts: integer("home_pts"),
+    awayPts: integer("away_pts"),
+    occurredAt: timestamp("occurred_at"),
+    source: text("source"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    gameSequenceUnique: uniqueIndex("game_plays_game_sequence_idx").on(table.gameId, table.sequence),
+  })
+);
+
+export const insertGamePlaySchema = createInsertSchema(gamePlays).omit({
+  id: true,
+  createdAt: true,
+} as const);
+
+export type InsertGamePlay = z.infer<typeof insertGamePlaySchema>;
+export type GamePlayRecord = typeof gamePlays.$inferSelect;
+
+// Disagreements between score sources for the same game, recorded at reconciliation time
+export const scoreDiscrepancies = pgTable(
+  "score_discrepancies",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: varchar("game_id").notNull(),
+    field: varchar("field", { length: 10 }).notNull(), // 'score' | 'status'
+    resolvedValue: text("resolved_value").notNull(),
+    resolvedSource: text("resolved_source"),
+    readings: text("readings").notNull(), // JSON: [{ source, value, weight, fetchedAt }]
+    sources: text("sources").array().notNull(),
+    detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    gameDetectedIdx: index("score_discrepancies_game_detected_idx").on(table.gameId, table.detectedAt),
+    detectedIdx: index("score_discrepancies_detected_idx").on(table.detectedAt),
+  })
+);
+
+export const insertScoreDiscrepancySchema = createInsertSchema(scoreDiscrepancies)
+  .omit({
+    id: true,
+  } as const)
+  .extend({
+    sources: z.array(z.string()),
+  });
+
+export type InsertScoreDiscrepancy = z.infer<typeof insertScoreDiscrepancySchema>;
+export type ScoreDiscrepancy = typeof scoreDiscrepancies.$inferSelect;
+
+// Source-specific event ids mapped onto one canonical game, so readings from every
+// source land on the same row. The first id a game is seen under becomes its canonical id.
+export const gameAliases = pgTable(
+  "game_aliases",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: varchar("game_id").notNull(), // canonical game id
+    gameKey: varchar("game_key", { length: 64 }).notNull(), // league, schedule date and team pair, e.g. "MLB_20250601_BOS_NYY"
+    source: varchar("source", { length: 40 }).notNull(), // normalized source key, e.g. "espn", "cbs"
+    sourceGameId: varchar("source_game_id").notNull(),
+    startTime: timestamp("start_time"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    sourceGameUnique: uniqueIndex("game_aliases_source_game_idx").on(table.source, table.sourceGameId),
+    gameKeyIdx: index("game_aliases_game_key_idx").on(table.gameKey),
+    gameIdx: index("game_aliases_game_idx").on(table.gameId),
+  })
+);
+
+export const insertGameAliasSchema = createInsertSchema(gameAliases).omit({
+  id: true,
+  createdAt: true,
+} as const);
+
+export type InsertGameAlias = z.infer<typeof insertGameAliasSchema>;
+export type GameAlias = typeof gameAliases.$inferSelect;
+
+// Latest college poll per league: one row per ranked team, replaced wholesale on each sync
+export const teamRankings = pgTable(
+  "team_rankings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    league: varchar("league", { length: 10 }).notNull(), // 'NCAAF' | 'NCAAB'
+    poll: varchar("poll", { length: 20 }).notNull(), // 'ap' | 'coaches'
+    season: integer("season"),
+    week: integer("week"),
+    rank: integer("rank").notNull(),
+    teamId: varchar("team_id").notNull(),
+    teamName: text("team_name").notNull(),
+    previousRank: integer("previous_rank"),
+    record: varchar("record", { length: 20 }),
+    points: integer("points"),
+    firstPlaceVotes: integer("first_place_votes"),
+    fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    leaguePollRankIdx: index("team_rankings_league_poll_rank_idx").on(table.league, table.poll, table.rank),
+    teamIdx: index("team_rankings_team_idx").on(table.teamId),
+  })
+);
+
+export const insertTeamRankingSchema = createInsertSchema(teamRankings).omit({
+  id: true,
+  fetchedAt: true,
+} as const);
+
+export type InsertTeamRanking = z.infer<typeof insertTeamRankingSchema>;
+export type TeamRankingRecord = typeof teamRankings.$inferSelect;
+
 export const updates = pgTable("updates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teamId: varchar("team_id").notNull().references(() => teams.id),
@@ -195,9 +389,13 @@ export const articles = pgTable(
     // Deduplication
     contentHash: varchar("content_hash", { length: 64 }), // SHA-256
     minHash: text("min_hash"), // JSON array of hash signatures
+    lshBands: text("lsh_bands").array(), // LSH bucket keys of the MinHash bands
     
     // Relevance
     relevanceScore: integer("relevance_score"), // 0-100, team relevance
+
+    // Story thread this article belongs to (null until another outlet covers the same story)
+    clusterId: varchar("cluster_id"),
     
     // Status
     isProcessed: boolean("is_processed").notNull().default(false),
@@ -209,17 +407,72 @@ export const articles = pgTable(
     categoryIdx: index("articles_category_idx").on(table.category),
     sourceUrlIdx: index("articles_source_url_idx").on(table.sourceUrl),
     contentHashIdx: index("articles_content_hash_idx").on(table.contentHash),
+    clusterIdIdx: index("articles_cluster_id_idx").on(table.clusterId),
+    lshBandsIdx: index("articles_lsh_bands_idx").using("gin", table.lshBands),
+    teamFeedIdx: index("articles_team_published_id_idx")
+      .on(table.teamId, table.publishedAt.desc(), table.id.desc())
+      .where(sql`${table.isDeleted} = false`),
   })
 );
 
 export const insertArticleSchema = createInsertSchema(articles).omit({
   id: true,
   scrapedAt: true,
-} as const);
+} as const).extend({
+  lshBands: z.array(z.string()).nullable().optional(),
+});
 
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Article = typeof articles.$inferSelect;
 
+/**
+ * Keyset position in the articles feed, ordered by (publishedAt DESC, id DESC)
+ */
+export interface ArticleFeedCursor {
+  publishedAt: Date;
+  id: string;
+}
+
+export interface ArticleFeedQuery {
+  teamIds?: string[]; // Empty or omitted: all teams
+  category?: string;
+  minRelevance?: number;
+  cursor?: ArticleFeedCursor; // Return articles strictly after this position
+  collapseClusters?: boolean; // Only the canonical article of each story cluster
+  limit: number;
+}
+
+// ===== Story Clusters =====
+
+// Near-duplicate coverage of one story from different outlets
+export const storyClusters = pgTable(
+  "story_clusters",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").notNull().references(() => teams.id),
+    canonicalArticleId: varchar("canonical_article_id").notNull(), // Earliest report of the story
+    articleCount: integer("article_count").notNull().default(1),
+    sourceCount: integer("source_count").notNull().default(1), // Distinct outlets
+    firstSeenAt: timestamp("first_seen_at").notNull(),
+    lastUpdatedAt: timestamp("last_updated_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    teamLastUpdatedIdx: index("story_clusters_team_last_updated_idx").on(table.teamId, table.lastUpdatedAt),
+  })
+);
+
+export const insertStoryClusterSchema = createInsertSchema(storyClusters).omit({
+  id: true,
+  createdAt: true,
+} as const);
+
+export type InsertStoryCluster = z.infer<typeof insertStoryClusterSchema>;
+export type StoryCluster = typeof storyClusters.$inferSelect;
+
+export const ARTICLE_CATEGORIES = ["injury", "trade", "roster", "general"] as const;
+export type ArticleCategory = (typeof ARTICLE_CATEGORIES)[number];
+
 // ===== Article Classifications =====
 
 export const articleClassifications = pgTable(
@@ -248,7 +501,9 @@ export const articleClassifications = pgTable(
 export const insertArticleClassificationSchema = createInsertSchema(articleClassifications).omit({
   id: true,
   classifiedAt: true,
-} as const);
+} as const).extend({
+  keywords: z.array(z.string()).nullable().optional(),
+});
 
 export type InsertArticleClassification = z.infer<typeof insertArticleClassificationSchema>;
 export type ArticleClassification = typeof articleClassifications.$inferSelect;
@@ -305,6 +560,27 @@ export const insertNewsSourceSchema = createInsertSchema(newsSources).omit({
 export type InsertNewsSource = z.infer<typeof insertNewsSourceSchema>;
 export type NewsSource = typeof newsSources.$inferSelect;
 
+// Shape of news_sources.selector_config for sourceType 'scraper'.
+// List-page selectors run against listUrl (or baseUrl); article selectors run
+// against each linked article page.
+export const selectorConfigSchema = z.object({
+  listUrl: z.string().url().optional(),
+  itemSelector: z.string().min(1),
+  linkSelector: z.string().min(1).default("a"),
+  linkAttribute: z.string().min(1).default("href"),
+  titleSelector: z.string().min(1),
+  bodySelector: z.string().min(1),
+  authorSelector: z.string().min(1).optional(),
+  dateSelector: z.string().min(1).optional(),
+  dateAttribute: z.string().min(1).optional(), // e.g. 'datetime' on <time>
+  // 'iso' | 'rfc2822' | 'unix' | 'unix_ms' | token pattern such as 'MM/DD/YYYY HH:mm'
+  dateFormat: z.string().min(1).default("iso"),
+  removeSelectors: z.array(z.string().min(1)).default([]),
+  maxArticles: z.number().int().min(1).max(100).default(20),
+});
+
+export type SelectorConfig = z.infer<typeof selectorConfigSchema>;
+
 // ===== BM25 Index Metadata =====
 
 export const bm25Indexes = pgTable(
@@ -324,6 +600,11 @@ export const bm25Indexes = pgTable(
     // Index metadata
     lastRebuiltAt: timestamp("last_rebuilt_at"),
     rebuildInProgress: boolean("rebuild_in_progress").notNull().default(false),
+    rebuildOwner: varchar("rebuild_owner", { length: 100 }), // Instance holding the rebuild lock
+    rebuildStartedAt: timestamp("rebuild_started_at"),
+
+    // Bumped on every persisted change so instances can detect a stale in-memory index
+    version: integer("version").notNull().default(0),
     
     // Performance metrics
     avgQueryTimeMs: integer("avg_query_time_ms"),
@@ -333,7 +614,7 @@ export const bm25Indexes = pgTable(
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
   },
   (table) => ({
-    teamIdIdx: index("bm25_indexes_team_id_idx").on(table.teamId),
+    teamIdIdx: uniqueIndex("bm25_indexes_team_id_idx").on(table.teamId),
   })
 );
 
@@ -346,6 +627,31 @@ export const insertBm25IndexSchema = createInsertSchema(bm25Indexes).omit({
 export type InsertBM25Index = z.infer<typeof insertBm25IndexSchema>;
 export type BM25Index = typeof bm25Indexes.$inferSelect;
 
+// Persisted BM25 postings, one row per indexed document; a team's rows are its index snapshot
+export const bm25IndexDocuments = pgTable(
+  "bm25_index_documents",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    teamId: varchar("team_id").notNull().references(() => teams.id),
+    documentId: varchar("document_id").notNull(),
+    docLength: integer("doc_length").notNull(),
+    termFrequencies: text("term_frequencies").notNull(), // JSON serialized
+    metadata: text("metadata"), // JSON serialized
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    teamDocumentIdx: uniqueIndex("bm25_index_documents_team_document_idx").on(table.teamId, table.documentId),
+  })
+);
+
+export const insertBm25IndexDocumentSchema = createInsertSchema(bm25IndexDocuments).omit({
+  id: true,
+  updatedAt: true,
+} as const);
+
+export type InsertBM25IndexDocument = z.infer<typeof insertBm25IndexDocumentSchema>;
+export type BM25IndexDocument = typeof bm25IndexDocuments.$inferSelect;
+
 // Game score data interface for latest team score queries
 export interface GameScoreData {
   gameId: string;
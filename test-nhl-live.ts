@@ -4,6 +4,7 @@ async function test() {
   const adapter = new NHLAdapter();
 
   // Optionally pass team codes via CLI args: npx tsx test-nhl-live.ts TOR BOS
+  // Offline: run once with SCRAPER_FIXTURE_MODE=record, then again with SCRAPER_FIXTURE_MODE=replay
   const teamCodes = process.argv.slice(2);
   console.log('Team codes filter:', teamCodes.length > 0 ? teamCodes : 'none');
 